@@ -3,21 +3,54 @@
  */
 export enum ApiStatusCodes {
   SUCCESS = 200,
+  CREATED = 201,
+  ACCEPTED = 202,
+  NO_CONTENT = 204,
   BAD_REQUEST = 400,
   UNAUTHORIZED = 401,
   FORBIDDEN = 403,
   NOT_FOUND = 404,
+  CONFLICT = 409,
   VALIDATION_ERROR = 422,
+  TOO_MANY_REQUESTS = 429,
   INTERNAL_SERVER_ERROR = 500,
+  SERVICE_UNAVAILABLE = 503,
 }
 export enum ApiStatusMessages {
   SUCCESS = "Success",
+  CREATED = "Created",
+  ACCEPTED = "Accepted",
+  NO_CONTENT = "NoContent",
   BAD_REQUEST = "BadRequest",
   UNAUTHORIZED = "Unauthorized",
   FORBIDDEN = "Forbidden",
   NOT_FOUND = "NotFound",
+  CONFLICT = "Conflict",
   VALIDATION_ERROR = "ValidationError",
+  TOO_MANY_REQUESTS = "TooManyRequests",
   INTERNAL_SERVER_ERROR = "InternalServerError",
+  SERVICE_UNAVAILABLE = "ServiceUnavailable",
+}
+
+/**
+ * @description Stable, machine-readable error codes returned to clients
+ */
+export enum ApiErrorCodes {
+  BAD_REQUEST = "BAD_REQUEST",
+  UNAUTHENTICATED = "UNAUTHENTICATED",
+  FORBIDDEN = "FORBIDDEN",
+  NOT_FOUND = "NOT_FOUND",
+  CONFLICT = "CONFLICT",
+  VALIDATION_ERROR = "VALIDATION_ERROR",
+  TOO_MANY_REQUESTS = "TOO_MANY_REQUESTS",
+  QUOTA_EXCEEDED = "QUOTA_EXCEEDED",
+  INTERNAL_SERVER_ERROR = "INTERNAL_SERVER_ERROR",
+  SERVICE_UNAVAILABLE = "SERVICE_UNAVAILABLE",
+  CONTRACT_VIOLATION = "CONTRACT_VIOLATION",
+  INVALID_STATE_TRANSITION = "INVALID_STATE_TRANSITION",
+  NOT_ENTITLED = "NOT_ENTITLED",
+  INSUFFICIENT_TOKENS = "INSUFFICIENT_TOKENS",
+  INVALID_WEBHOOK = "INVALID_WEBHOOK",
 }
 
 export enum HttpMethods {
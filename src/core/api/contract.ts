@@ -0,0 +1,192 @@
+import { Request, Response, NextFunction } from "express";
+import Joi from "joi";
+import { HttpMethods } from "./api-status";
+import { ApiResponse } from "./response";
+import { ContractViolationError } from "./errors";
+import { GenericResponse } from "../../dto/generic/generic-response";
+import {
+  InternalServiceApiClient,
+  InternalServiceApiClientOptions,
+} from "../../utils/internalServiceClient.util";
+
+/**
+ * @description Declaration of an internal endpoint shared by its caller and
+ * its provider. `path` is relative to `/internal` and may contain `:params`.
+ */
+export interface ServiceContract<P = any, Q = any, B = any, R = any> {
+  name: string;
+  method: HttpMethods;
+  path: string;
+  schemas: {
+    params?: Joi.Schema<P>;
+    query?: Joi.Schema<Q>;
+    body?: Joi.Schema<B>;
+    response?: Joi.Schema<R>;
+  };
+}
+
+export type ContractParams<C> = C extends ServiceContract<infer P, any, any, any>
+  ? P
+  : never;
+export type ContractQuery<C> = C extends ServiceContract<any, infer Q, any, any>
+  ? Q
+  : never;
+export type ContractBody<C> = C extends ServiceContract<any, any, infer B, any>
+  ? B
+  : never;
+export type ContractResponse<C> = C extends ServiceContract<
+  any,
+  any,
+  any,
+  infer R
+>
+  ? R
+  : never;
+
+/**
+ * @description Input of a contract client call
+ */
+export interface ContractCallInput<P, Q, B> {
+  params?: P;
+  query?: Q;
+  body?: B;
+  headers?: Record<string, string>;
+}
+
+/**
+ * @description Provider-side handler with request parts typed from the contract
+ */
+export type ContractHandler<C extends ServiceContract> = (
+  req: Request<
+    ContractParams<C>,
+    any,
+    ContractBody<C>,
+    ContractQuery<C>
+  >,
+  res: Response,
+  next: NextFunction
+) => Promise<ApiResponse<ContractResponse<C>>>;
+
+/**
+ * @description Declares an internal endpoint. Type parameters are inferred
+ * from typed Joi schemas, e.g. `Joi.object<CreateUserBody>({...})`.
+ *
+ * @example
+ * export const getUserContract = defineContract({
+ *   name: "users.get",
+ *   method: HttpMethods.GET,
+ *   path: "users/:userId",
+ *   schemas: {
+ *     params: Joi.object<{ userId: string }>({ userId: Joi.string().required() }),
+ *     response: Joi.object<UserDto>({ id: Joi.string().required() }).unknown(),
+ *   },
+ * });
+ */
+export const defineContract = <P = any, Q = any, B = any, R = any>(
+  contract: ServiceContract<P, Q, B, R>
+): ServiceContract<P, Q, B, R> => contract;
+
+/**
+ * @description Substitutes `:params` in a contract path
+ */
+export const buildContractPath = (
+  path: string,
+  params: Record<string, unknown> = {}
+): string =>
+  path.replace(/:([A-Za-z0-9_]+)/g, (_match, name: string) => {
+    const value = params[name];
+    if (value === undefined || value === null) {
+      throw new ContractViolationError(`Missing path parameter "${name}"`);
+    }
+    return encodeURIComponent(String(value));
+  });
+
+const validatePart = <T>(
+  contract: ServiceContract,
+  part: string,
+  schema: Joi.Schema<T> | undefined,
+  value: unknown
+): T => {
+  if (!schema) return value as T;
+
+  const { error, value: validated } = schema.validate(value, {
+    abortEarly: false,
+  });
+  if (error) {
+    throw new ContractViolationError(
+      `Contract ${contract.name}: invalid ${part}: ${error.message}`,
+      error.details
+    );
+  }
+  return validated;
+};
+
+/**
+ * @description Creates a typed caller for a contract. Input is validated
+ * before sending and the response `data` is validated on arrival.
+ * @throws ContractViolationError when either side breaks the contract
+ */
+export const createContractClient = <P, Q, B, R>(
+  contract: ServiceContract<P, Q, B, R>,
+  clientOptions: Omit<
+    InternalServiceApiClientOptions,
+    "method" | "slug" | "queryParams" | "body"
+  >
+) => {
+  return async (
+    input: ContractCallInput<P, Q, B> = {}
+  ): Promise<GenericResponse<R>> => {
+    const params = validatePart(
+      contract,
+      "params",
+      contract.schemas.params,
+      input.params ?? {}
+    );
+    const query = validatePart(
+      contract,
+      "query",
+      contract.schemas.query,
+      input.query ?? {}
+    );
+    const body = validatePart(
+      contract,
+      "body",
+      contract.schemas.body,
+      input.body
+    );
+
+    const queryParams: Record<string, string> = {};
+    Object.entries((query ?? {}) as Record<string, unknown>).forEach(
+      ([key, value]) => {
+        if (value !== undefined && value !== null) {
+          queryParams[key] =
+            value instanceof Date ? value.toISOString() : String(value);
+        }
+      }
+    );
+
+    const response = await InternalServiceApiClient({
+      ...clientOptions,
+      method: contract.method,
+      slug: buildContractPath(
+        contract.path,
+        params as Record<string, unknown>
+      ),
+      headers: { ...clientOptions.headers, ...input.headers },
+      queryParams,
+      body,
+    });
+
+    if (!response.isSuccess) return response;
+
+    return {
+      ...response,
+      data: validatePart(
+        contract,
+        "response",
+        contract.schemas.response,
+        response.data
+      ),
+    };
+  };
+};
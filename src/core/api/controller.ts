@@ -1,23 +1,163 @@
 import { Request, Response, NextFunction, RequestHandler } from "express";
-import { ApiResponse } from "./response";
-import { ApiStatusCodes } from "./api-status";
+import Joi from "joi";
+import { pipeline } from "stream";
+import {
+  ApiResponse,
+  HandlerResult,
+  isRedirectResult,
+  isStreamResult,
+  ResponseOptions,
+} from "./response";
+import { ApiErrorCodes, ApiStatusCodes } from "./api-status";
+import { ContractHandler, ServiceContract } from "./contract";
+import { validator } from "../../middlewares/validator";
+import {
+  generateOpenApiDocument,
+  OpenApiDocument,
+  OpenApiDocumentOptions,
+} from "../openapi/document";
+import {
+  buildRouteMiddlewares,
+  RouteAuth,
+  RouteDefaults,
+  RouteDefinition,
+  toAsyncRequestHandler,
+  toRateLimiter,
+} from "./route";
+import {
+  acceptVersion,
+  ApiVersioning,
+  deprecationNotice,
+  latestVersion,
+  normalizeVersion,
+  resolveDeprecation,
+  RouteDeprecation,
+  unsupportedVersion,
+  versionPrefix,
+} from "./versioning";
 
 // Type for async request handlers
 export type AsyncRequestHandler<T = any> = (
   req: Request,
   res: Response,
   next: NextFunction
-) => Promise<ApiResponse<T>>;
+) => Promise<HandlerResult<T>>;
+
+/**
+ * @description Optional route metadata, used for the OpenAPI document and
+ * deprecation headers
+ */
+export interface RouteDocs {
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  operationId?: string;
+
+  /**
+   * Schema of the `data` field of a successful response
+   */
+  response?: Joi.Schema;
+
+  /**
+   * Whether the route requires a bearer access token
+   * @default false
+   */
+  auth?: boolean;
+
+  /**
+   * Marks the route as deprecated; details are sent as `Deprecation`,
+   * `Sunset` and `Link` headers on every response
+   */
+  deprecated?: boolean | RouteDeprecation;
+
+  /**
+   * Leave the route out of the document
+   */
+  hidden?: boolean;
+}
 
 // Interface for route configuration
 export interface RouteConfig {
   handler: AsyncRequestHandler;
   middlewares?: RequestHandler[];
+  docs?: RouteDocs;
 }
 
 /**
- * @description Wraps a request handler with error handling and response formatting
- * @param handler The async request handler function that returns ApiResponse
+ * @description A registered route, as listed by `ApiController.getRoutes`
+ */
+export interface RegisteredRoute extends RouteConfig {
+  method: string;
+  path: string;
+
+  /**
+   * Normalised API version, for routes registered through `version`
+   */
+  version?: string;
+}
+
+export interface ApiControllerOptions extends RouteDefaults {
+  /**
+   * How clients select a version of routes registered through `version`
+   * @default "prefix"
+   */
+  versioning?: ApiVersioning;
+
+  /**
+   * Version served to header-versioned requests without `Accept-Version`.
+   * Defaults to the latest registered version.
+   */
+  defaultVersion?: string;
+}
+
+interface VersionGroup {
+  controller: ApiController;
+  deprecated?: boolean | RouteDeprecation;
+}
+
+const errorStatusByCode: Record<string, number> = {
+  [ApiErrorCodes.BAD_REQUEST]: ApiStatusCodes.BAD_REQUEST,
+  [ApiErrorCodes.UNAUTHENTICATED]: ApiStatusCodes.UNAUTHORIZED,
+  [ApiErrorCodes.FORBIDDEN]: ApiStatusCodes.FORBIDDEN,
+  [ApiErrorCodes.NOT_FOUND]: ApiStatusCodes.NOT_FOUND,
+  [ApiErrorCodes.CONFLICT]: ApiStatusCodes.CONFLICT,
+  [ApiErrorCodes.VALIDATION_ERROR]: ApiStatusCodes.VALIDATION_ERROR,
+  [ApiErrorCodes.TOO_MANY_REQUESTS]: ApiStatusCodes.TOO_MANY_REQUESTS,
+  [ApiErrorCodes.QUOTA_EXCEEDED]: ApiStatusCodes.TOO_MANY_REQUESTS,
+  [ApiErrorCodes.INTERNAL_SERVER_ERROR]: ApiStatusCodes.INTERNAL_SERVER_ERROR,
+  [ApiErrorCodes.SERVICE_UNAVAILABLE]: ApiStatusCodes.SERVICE_UNAVAILABLE,
+  [ApiErrorCodes.CONTRACT_VIOLATION]: ApiStatusCodes.INTERNAL_SERVER_ERROR,
+  [ApiErrorCodes.INVALID_STATE_TRANSITION]: ApiStatusCodes.CONFLICT,
+  [ApiErrorCodes.NOT_ENTITLED]: ApiStatusCodes.FORBIDDEN,
+  [ApiErrorCodes.INSUFFICIENT_TOKENS]: ApiStatusCodes.CONFLICT,
+  [ApiErrorCodes.INVALID_WEBHOOK]: ApiStatusCodes.BAD_REQUEST,
+};
+
+const applyResponseOptions = (res: Response, options: ResponseOptions) => {
+  if (options.headers) {
+    Object.keys(options.headers).forEach((name) => {
+      const value = options.headers![name];
+      res.setHeader(name, Array.isArray(value) ? value : String(value));
+    });
+  }
+  (options.clearCookies ?? []).forEach((cookie) => {
+    if (typeof cookie === "string") {
+      res.clearCookie(cookie);
+    } else {
+      res.clearCookie(cookie.name, cookie.options);
+    }
+  });
+  (options.cookies ?? []).forEach(({ name, value, options: cookieOptions }) => {
+    res.cookie(name, value, cookieOptions ?? {});
+  });
+};
+
+/**
+ * @description Wraps a request handler with error handling and response formatting.
+ * Envelope results are sent as JSON with `status` (default 200, or a status
+ * derived from `code` when `isSuccess` is false); stream and redirect
+ * results are sent as-is.
+ * @param handler The async request handler function that returns a HandlerResult
  * @returns Express middleware function
  */
 export const wrapHandler = (handler: AsyncRequestHandler) => {
@@ -30,14 +170,51 @@ export const wrapHandler = (handler: AsyncRequestHandler) => {
         return;
       }
 
+      applyResponseOptions(res, result);
+
+      if (isRedirectResult(result)) {
+        return res.redirect(result.status ?? 302, result.url);
+      }
+
+      if (isStreamResult(result)) {
+        res.status(result.status ?? ApiStatusCodes.SUCCESS);
+        res.type(result.contentType);
+        if (result.filename) {
+          res.attachment(result.filename);
+        }
+        if (Buffer.isBuffer(result.body)) {
+          return res.send(result.body);
+        }
+        pipeline(result.body, res, (err) => {
+          // Headers are already sent, so the error handler can only log it
+          if (err && !res.writableEnded) next(err);
+        });
+        return;
+      }
+
+      const status =
+        result.status ??
+        (result.isSuccess
+          ? ApiStatusCodes.SUCCESS
+          : errorStatusByCode[result.code ?? ""] ??
+            ApiStatusCodes.BAD_REQUEST);
+
+      if (status === ApiStatusCodes.NO_CONTENT) {
+        return res.status(status).end();
+      }
+
       const response: ApiResponse<any> = {
         isSuccess: result.isSuccess,
         message: result.message,
         error: result.error,
         data: result.data,
+        ...(!result.isSuccess && {
+          code: result.code,
+          details: result.details,
+        }),
       };
 
-      res.status(ApiStatusCodes.SUCCESS).json(response);
+      res.status(status).json(response);
     } catch (error) {
       next(error);
     }
@@ -49,19 +226,68 @@ export const wrapHandler = (handler: AsyncRequestHandler) => {
  */
 export class ApiController {
   private routes: Map<string, RouteConfig> = new Map();
+  private versions: Map<string, VersionGroup> = new Map();
+  private sharedRateLimiter?: RequestHandler;
+
+  /**
+   * @param defaults Defaults for routes registered with `route`, and the
+   * versioning strategy
+   */
+  constructor(private readonly defaults: ApiControllerOptions = {}) {
+    if (defaults.rateLimit) {
+      this.sharedRateLimiter = toRateLimiter(defaults.rateLimit);
+    }
+  }
+
+  /**
+   * @description Registers a declarative route. The middleware chain is
+   * always rate limit → authentication → validation → `middlewares`, and the
+   * handler receives validated `params`, `query` and `body`, plus `userId`
+   * when the route requires authentication.
+   *
+   * @example
+   * controller.route({
+   *   method: HttpMethods.POST,
+   *   path: "/videos",
+   *   auth: true,
+   *   rateLimit: { windowMs: 60000, max: 10 },
+   *   schema: { body: Joi.object<CreateVideoBody>({ title: Joi.string().required() }) },
+   *   handler: async ({ body, userId }) => ({
+   *     isSuccess: true,
+   *     data: await videoService.create(userId, body),
+   *   }),
+   * });
+   */
+  public route<P, Q, B, R, A extends RouteAuth>(
+    definition: RouteDefinition<P, Q, B, R, A>
+  ): this {
+    const middlewares = buildRouteMiddlewares(
+      definition,
+      this.defaults,
+      this.sharedRateLimiter
+    );
+    this.routes.set(`${definition.method}:${definition.path}`, {
+      handler: toAsyncRequestHandler(definition.handler),
+      middlewares,
+      docs: { auth: Boolean(definition.auth), ...definition.docs },
+    });
+    return this;
+  }
 
   /**
    * @description Registers a GET route
    * @param path Route path
    * @param handler Request handler
    * @param middlewares Optional middleware array
+   * @param docs Optional metadata for the OpenAPI document
    */
   public get(
     path: string,
     handler: AsyncRequestHandler,
-    middlewares: RequestHandler[] = []
+    middlewares: RequestHandler[] = [],
+    docs?: RouteDocs
   ): this {
-    this.routes.set(`GET:${path}`, { handler, middlewares });
+    this.routes.set(`GET:${path}`, { handler, middlewares, docs });
     return this;
   }
 
@@ -70,13 +296,15 @@ export class ApiController {
    * @param path Route path
    * @param handler Request handler
    * @param middlewares Optional middleware array
+   * @param docs Optional metadata for the OpenAPI document
    */
   public post(
     path: string,
     handler: AsyncRequestHandler,
-    middlewares: RequestHandler[] = []
+    middlewares: RequestHandler[] = [],
+    docs?: RouteDocs
   ): this {
-    this.routes.set(`POST:${path}`, { handler, middlewares });
+    this.routes.set(`POST:${path}`, { handler, middlewares, docs });
     return this;
   }
 
@@ -85,13 +313,15 @@ export class ApiController {
    * @param path Route path
    * @param handler Request handler
    * @param middlewares Optional middleware array
+   * @param docs Optional metadata for the OpenAPI document
    */
   public put(
     path: string,
     handler: AsyncRequestHandler,
-    middlewares: RequestHandler[] = []
+    middlewares: RequestHandler[] = [],
+    docs?: RouteDocs
   ): this {
-    this.routes.set(`PUT:${path}`, { handler, middlewares });
+    this.routes.set(`PUT:${path}`, { handler, middlewares, docs });
     return this;
   }
 
@@ -100,13 +330,15 @@ export class ApiController {
    * @param path Route path
    * @param handler Request handler
    * @param middlewares Optional middleware array
+   * @param docs Optional metadata for the OpenAPI document
    */
   public delete(
     path: string,
     handler: AsyncRequestHandler,
-    middlewares: RequestHandler[] = []
+    middlewares: RequestHandler[] = [],
+    docs?: RouteDocs
   ): this {
-    this.routes.set(`DELETE:${path}`, { handler, middlewares });
+    this.routes.set(`DELETE:${path}`, { handler, middlewares, docs });
     return this;
   }
 
@@ -115,45 +347,201 @@ export class ApiController {
    * @param path Route path
    * @param handler Request handler
    * @param middlewares Optional middleware array
+   * @param docs Optional metadata for the OpenAPI document
    */
   public patch(
     path: string,
     handler: AsyncRequestHandler,
-    middlewares: RequestHandler[] = []
+    middlewares: RequestHandler[] = [],
+    docs?: RouteDocs
   ): this {
-    this.routes.set(`PATCH:${path}`, { handler, middlewares });
+    this.routes.set(`PATCH:${path}`, { handler, middlewares, docs });
     return this;
   }
 
   /**
-   * @description Applies routes to an Express router
-   * @param router Express Router instance
+   * @description Registers the provider side of an internal service contract.
+   * The request is validated against the contract's params, query and body
+   * schemas before the handler runs.
+   * @param contract Contract declared with defineContract
+   * @param handler Request handler typed from the contract
+   * @param middlewares Optional middleware array, e.g.
+   * `internalServiceVerifier()`; run before validation, so unauthenticated
+   * callers never see validation details
+   * @param docs Optional metadata for the OpenAPI document; the response
+   * schema defaults to the contract's
    */
-  public applyRoutes(router: any) {
+  public implement<C extends ServiceContract>(
+    contract: C,
+    handler: ContractHandler<C>,
+    middlewares: RequestHandler[] = [],
+    docs?: RouteDocs
+  ): this {
+    const { params, query, body, response } = contract.schemas;
+    this.routes.set(`${contract.method}:/${contract.path}`, {
+      handler: handler as unknown as AsyncRequestHandler,
+      middlewares: [...middlewares, validator({ params, query, body })],
+      docs: { operationId: contract.name, response, ...docs },
+    });
+    return this;
+  }
+
+  /**
+   * @description Registers a group of routes for one API version. With
+   * `prefix` versioning they are served under `/v<version>`; with `header`
+   * versioning on their own path, selected by `Accept-Version`.
+   * @param version Version such as "2" or "v2"
+   * @param register Registers the version's routes on the group controller
+   * @param options `deprecated` applies to every route of the version
+   *
+   * @example
+   * controller
+   *   .version("1", (v1) => v1.post("/videos", createVideoV1), {
+   *     deprecated: { sunset: "2025-06-30", successor: "/v2/videos" },
+   *   })
+   *   .version("2", (v2) => v2.post("/videos", createVideoV2));
+   */
+  public version(
+    version: string,
+    register: (group: ApiController) => void,
+    options: { deprecated?: boolean | RouteDeprecation } = {}
+  ): this {
+    const key = normalizeVersion(version);
+    let group = this.versions.get(key);
+    if (!group) {
+      const controller = new ApiController({
+        ...this.defaults,
+        rateLimit: undefined,
+      });
+      // Versions share the controller's default limiter and its counters
+      controller.sharedRateLimiter = this.sharedRateLimiter;
+      group = { controller };
+      this.versions.set(key, group);
+    }
+    if (options.deprecated !== undefined) {
+      group.deprecated = options.deprecated;
+    }
+    register(group.controller);
+    return this;
+  }
+
+  /**
+   * @description Lists registered routes in registration order, followed by
+   * versioned routes with their effective paths
+   */
+  public getRoutes(): RegisteredRoute[] {
+    const routes: RegisteredRoute[] = [];
     this.routes.forEach((config, key) => {
       const sepIndex = key.indexOf(":");
       if (sepIndex === -1) return;
-      const method = key.substring(0, sepIndex);
-      const path = key.substring(sepIndex + 1);
-      const { handler, middlewares = [] } = config;
-
-      switch (method.toLowerCase()) {
-        case "get":
-          router.get(path, ...middlewares, wrapHandler(handler));
-          break;
-        case "post":
-          router.post(path, ...middlewares, wrapHandler(handler));
-          break;
-        case "put":
-          router.put(path, ...middlewares, wrapHandler(handler));
-          break;
-        case "delete":
-          router.delete(path, ...middlewares, wrapHandler(handler));
-          break;
-        case "patch":
-          router.patch(path, ...middlewares, wrapHandler(handler));
-          break;
+      routes.push({
+        ...config,
+        method: key.substring(0, sepIndex),
+        path: key.substring(sepIndex + 1),
+      });
+    });
+
+    const byPrefix = (this.defaults.versioning ?? "prefix") === "prefix";
+    this.versions.forEach((group, version) => {
+      group.controller.getRoutes().forEach((route) => {
+        const deprecated = route.docs?.deprecated ?? group.deprecated;
+        routes.push({
+          ...route,
+          version,
+          path: byPrefix
+            ? `${versionPrefix(version)}${route.path === "/" ? "" : route.path}`
+            : route.path,
+          docs: {
+            ...route.docs,
+            ...(deprecated !== undefined && { deprecated }),
+          },
+        });
+      });
+    });
+    return routes;
+  }
+
+  /**
+   * @description Builds an OpenAPI 3.1 document for this controller's routes
+   * @param options Document info and the path the routes are mounted under
+   */
+  public toOpenApi(options: OpenApiDocumentOptions): OpenApiDocument {
+    return generateOpenApiDocument({
+      ...options,
+      controllers: [{ controller: this, basePath: options.basePath }],
+    });
+  }
+
+  /**
+   * @description Applies routes to an Express router
+   * @param router Express Router instance
+   */
+  public applyRoutes(router: any) {
+    const byHeader = this.defaults.versioning === "header";
+    const defaultVersion =
+      this.defaults.defaultVersion ??
+      latestVersion(Array.from(this.versions.keys()));
+    const headerVersioned = new Map<string, string[]>();
+
+    this.getRoutes().forEach((route) => {
+      const { method, path, handler, docs, version } = route;
+      const chain: RequestHandler[] = [];
+
+      if (byHeader && version !== undefined) {
+        chain.push(acceptVersion(version, defaultVersion));
+        const key = `${method}:${path}`;
+        headerVersioned.set(key, [
+          ...(headerVersioned.get(key) ?? []),
+          version,
+        ]);
       }
+
+      const deprecation = resolveDeprecation(docs?.deprecated);
+      if (deprecation) {
+        chain.push(deprecationNotice(deprecation, { method, path, version }));
+      }
+
+      this.register(router, method, path, [
+        ...chain,
+        ...(route.middlewares ?? []),
+        wrapHandler(handler),
+      ]);
     });
+
+    // Header-versioned paths end with a 400 when no version matched
+    headerVersioned.forEach((supported, key) => {
+      const sepIndex = key.indexOf(":");
+      this.register(
+        router,
+        key.substring(0, sepIndex),
+        key.substring(sepIndex + 1),
+        [unsupportedVersion(supported)]
+      );
+    });
+  }
+
+  private register(
+    router: any,
+    method: string,
+    path: string,
+    handlers: RequestHandler[]
+  ) {
+    switch (method.toLowerCase()) {
+      case "get":
+        router.get(path, ...handlers);
+        break;
+      case "post":
+        router.post(path, ...handlers);
+        break;
+      case "put":
+        router.put(path, ...handlers);
+        break;
+      case "delete":
+        router.delete(path, ...handlers);
+        break;
+      case "patch":
+        router.patch(path, ...handlers);
+        break;
+    }
   }
 }
@@ -1,49 +1,171 @@
-import { ApiStatusCodes, ApiStatusMessages } from "./api-status";
+import { ApiErrorCodes, ApiStatusCodes, ApiStatusMessages } from "./api-status";
 
-export class UnauthenticatedError extends Error {
-  statusCode = ApiStatusCodes.UNAUTHORIZED;
-  constructor(message: string) {
+/**
+ * @description Base class for errors rendered by the error handler.
+ * `code` is stable across releases so clients can branch on it;
+ * `details` carries optional structured context (e.g. invalid fields).
+ */
+export class ApiError extends Error {
+  statusCode: number;
+  code: string;
+  details?: unknown;
+  constructor(
+    statusCode: number,
+    code: string,
+    message: string,
+    details?: unknown
+  ) {
     super(message);
+    this.statusCode = statusCode;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export class UnauthenticatedError extends ApiError {
+  constructor(
+    message: string,
+    details?: unknown,
+    code: string = ApiErrorCodes.UNAUTHENTICATED
+  ) {
+    super(ApiStatusCodes.UNAUTHORIZED, code, message, details);
     this.name = ApiStatusMessages.UNAUTHORIZED;
   }
 }
 
-export class ForbiddenError extends Error {
-  statusCode = ApiStatusCodes.FORBIDDEN;
-  constructor(message: string) {
-    super(message);
+export class ForbiddenError extends ApiError {
+  constructor(
+    message: string,
+    details?: unknown,
+    code: string = ApiErrorCodes.FORBIDDEN
+  ) {
+    super(ApiStatusCodes.FORBIDDEN, code, message, details);
     this.name = ApiStatusMessages.FORBIDDEN;
   }
 }
 
-export class NotFoundError extends Error {
-  statusCode = ApiStatusCodes.NOT_FOUND;
-  constructor(message: string) {
-    super(message);
+export class NotFoundError extends ApiError {
+  constructor(
+    message: string,
+    details?: unknown,
+    code: string = ApiErrorCodes.NOT_FOUND
+  ) {
+    super(ApiStatusCodes.NOT_FOUND, code, message, details);
     this.name = ApiStatusMessages.NOT_FOUND;
   }
 }
 
-export class BadRequestError extends Error {
-  statusCode = ApiStatusCodes.BAD_REQUEST;
-  constructor(message: string) {
-    super(message);
+export class BadRequestError extends ApiError {
+  constructor(
+    message: string,
+    details?: unknown,
+    code: string = ApiErrorCodes.BAD_REQUEST
+  ) {
+    super(ApiStatusCodes.BAD_REQUEST, code, message, details);
     this.name = ApiStatusMessages.BAD_REQUEST;
   }
 }
 
-export class ValidationError extends Error {
-  statusCode = ApiStatusCodes.VALIDATION_ERROR;
-  constructor(message: string) {
-    super(message);
+export class ConflictError extends ApiError {
+  constructor(
+    message: string,
+    details?: unknown,
+    code: string = ApiErrorCodes.CONFLICT
+  ) {
+    super(ApiStatusCodes.CONFLICT, code, message, details);
+    this.name = ApiStatusMessages.CONFLICT;
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(
+    message: string,
+    details?: unknown,
+    code: string = ApiErrorCodes.VALIDATION_ERROR
+  ) {
+    super(ApiStatusCodes.VALIDATION_ERROR, code, message, details);
     this.name = ApiStatusMessages.VALIDATION_ERROR;
   }
 }
 
-export class InternalServerError extends Error {
-  statusCode = ApiStatusCodes.INTERNAL_SERVER_ERROR;
-  constructor(message: string) {
-    super(message);
+export class TooManyRequestsError extends ApiError {
+  /**
+   * Seconds after which the client may retry, sent as `Retry-After`
+   */
+  retryAfter?: number;
+  constructor(
+    message: string,
+    details?: unknown,
+    code: string = ApiErrorCodes.TOO_MANY_REQUESTS,
+    retryAfter?: number
+  ) {
+    super(ApiStatusCodes.TOO_MANY_REQUESTS, code, message, details);
+    this.name = ApiStatusMessages.TOO_MANY_REQUESTS;
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class InternalServerError extends ApiError {
+  constructor(
+    message: string,
+    details?: unknown,
+    code: string = ApiErrorCodes.INTERNAL_SERVER_ERROR
+  ) {
+    super(ApiStatusCodes.INTERNAL_SERVER_ERROR, code, message, details);
     this.name = ApiStatusMessages.INTERNAL_SERVER_ERROR;
   }
 }
+
+export class ServiceUnavailableError extends ApiError {
+  /**
+   * Seconds after which the client may retry, sent as `Retry-After`
+   */
+  retryAfter?: number;
+  constructor(
+    message: string,
+    details?: unknown,
+    code: string = ApiErrorCodes.SERVICE_UNAVAILABLE,
+    retryAfter?: number
+  ) {
+    super(ApiStatusCodes.SERVICE_UNAVAILABLE, code, message, details);
+    this.name = ApiStatusMessages.SERVICE_UNAVAILABLE;
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class ContractViolationError extends ApiError {
+  constructor(message: string, details?: unknown) {
+    super(
+      ApiStatusCodes.INTERNAL_SERVER_ERROR,
+      ApiErrorCodes.CONTRACT_VIOLATION,
+      message,
+      details
+    );
+    this.name = "ContractViolationError";
+  }
+}
+
+/**
+ * @description A domain event that is not allowed in the entity's current
+ * state, e.g. renewing a canceled subscription
+ */
+export class InvalidStateTransitionError extends ApiError {
+  from: string | null;
+  event: string;
+  constructor(
+    message: string,
+    from: string | null,
+    event: string,
+    details?: Record<string, unknown>
+  ) {
+    super(
+      ApiStatusCodes.CONFLICT,
+      ApiErrorCodes.INVALID_STATE_TRANSITION,
+      message,
+      { from, event, ...details }
+    );
+    this.name = "InvalidStateTransitionError";
+    this.from = from;
+    this.event = event;
+  }
+}
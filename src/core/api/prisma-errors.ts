@@ -0,0 +1,63 @@
+import {
+  ApiError,
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+} from "./errors";
+
+/**
+ * @description Shape of `PrismaClientKnownRequestError`. Matched structurally
+ * so errors from another copy of the generated client are recognised too.
+ */
+interface PrismaKnownError {
+  name: string;
+  code: string;
+  meta?: Record<string, unknown>;
+}
+
+export const isPrismaKnownError = (err: any): err is PrismaKnownError =>
+  err?.name === "PrismaClientKnownRequestError" &&
+  typeof err?.code === "string";
+
+const toFieldList = (target: unknown): string[] | undefined => {
+  if (Array.isArray(target)) return target.map(String);
+  if (typeof target === "string") return [target];
+  return undefined;
+};
+
+/**
+ * @description Translates Prisma request errors into API errors:
+ * P2002 (unique violation) → 409, P2025 (record not found) → 404,
+ * P2003 (foreign key violation) → 400.
+ * @returns The translated error, or null if the error is not mapped
+ */
+export const mapPrismaError = (err: any): ApiError | null => {
+  if (!isPrismaKnownError(err)) return null;
+
+  const model = err.meta?.modelName as string | undefined;
+
+  switch (err.code) {
+    case "P2002": {
+      const fields = toFieldList(err.meta?.target);
+      return new ConflictError(
+        fields
+          ? `A record with this ${fields.join(", ")} already exists`
+          : "A record with these values already exists",
+        { prismaCode: err.code, model, fields }
+      );
+    }
+    case "P2025":
+      return new NotFoundError(`${model ?? "Record"} not found`, {
+        prismaCode: err.code,
+        model,
+      });
+    case "P2003":
+      return new BadRequestError("Referenced record does not exist", {
+        prismaCode: err.code,
+        model,
+        field: err.meta?.field_name,
+      });
+    default:
+      return null;
+  }
+};
@@ -1,6 +1,120 @@
+import { Readable } from "stream";
+import { CookieOptions } from "express";
 import { GenericResponse } from "../../dto/generic/generic-response";
+import { ApiStatusCodes } from "./api-status";
 
 /**
  * @description Standard API response structure
  */
 export interface ApiResponse<T> extends GenericResponse<T> {}
+
+export interface ResponseCookie {
+  name: string;
+  value: string;
+  options?: CookieOptions;
+}
+
+/**
+ * @description HTTP details a handler can attach to its result. They are
+ * applied to the response and never serialized into the body.
+ */
+export interface ResponseOptions {
+  /**
+   * Defaults to 200 for successful results and to a status derived from
+   * `code` (or 400) when `isSuccess` is false
+   */
+  status?: number;
+  headers?: Record<string, string | number | string[]>;
+  cookies?: ResponseCookie[];
+  clearCookies?: Array<string | { name: string; options?: CookieOptions }>;
+}
+
+/**
+ * @description `ApiResponse` envelope plus HTTP details
+ */
+export type EnvelopeResult<T> = ApiResponse<T> & ResponseOptions;
+
+/**
+ * @description Raw body such as a file download, sent without the envelope
+ */
+export interface StreamResult extends ResponseOptions {
+  type: "stream";
+  body: Readable | Buffer;
+  contentType: string;
+
+  /**
+   * Sent as an attachment with this file name when set
+   */
+  filename?: string;
+}
+
+export interface RedirectResult extends Omit<ResponseOptions, "status"> {
+  type: "redirect";
+  url: string;
+
+  /**
+   * @default 302
+   */
+  status?: 301 | 302 | 303 | 307 | 308;
+}
+
+/**
+ * @description Everything a handler wrapped by `wrapHandler` may return
+ */
+export type HandlerResult<T = any> =
+  | EnvelopeResult<T>
+  | StreamResult
+  | RedirectResult;
+
+export const isStreamResult = (result: unknown): result is StreamResult =>
+  (result as StreamResult)?.type === "stream";
+
+export const isRedirectResult = (result: unknown): result is RedirectResult =>
+  (result as RedirectResult)?.type === "redirect";
+
+/**
+ * @description 201 Created with an optional `Location` header
+ */
+export const created = <T>(
+  data: T,
+  options: { message?: string; location?: string } = {}
+): EnvelopeResult<T> => ({
+  isSuccess: true,
+  message: options.message,
+  data,
+  status: ApiStatusCodes.CREATED,
+  ...(options.location && { headers: { Location: options.location } }),
+});
+
+/**
+ * @description 202 Accepted, e.g. for a queued video job
+ */
+export const accepted = <T>(data: T, message?: string): EnvelopeResult<T> => ({
+  isSuccess: true,
+  message,
+  data,
+  status: ApiStatusCodes.ACCEPTED,
+});
+
+/**
+ * @description 204 No Content; the body is omitted
+ */
+export const noContent = (): EnvelopeResult<never> => ({
+  isSuccess: true,
+  status: ApiStatusCodes.NO_CONTENT,
+});
+
+export const redirect = (
+  url: string,
+  status: RedirectResult["status"] = 302
+): RedirectResult => ({ type: "redirect", url, status });
+
+/**
+ * @example
+ * return streamBody(fs.createReadStream(path), "video/mp4", { filename: "clip.mp4" });
+ */
+export const streamBody = (
+  body: Readable | Buffer,
+  contentType: string,
+  options: Omit<StreamResult, "type" | "body" | "contentType"> = {}
+): StreamResult => ({ type: "stream", body, contentType, ...options });
@@ -0,0 +1,162 @@
+import { Request, Response, RequestHandler } from "express";
+import Joi from "joi";
+import { HttpMethods } from "./api-status";
+import { HandlerResult } from "./response";
+import { validator } from "../../middlewares/validator";
+import {
+  verifyAccessToken,
+  VerifyAccessTokenOptions,
+} from "../../middlewares/verify-access-token";
+import {
+  createRateLimiter,
+  RateLimiterOptions,
+} from "../../middlewares/rate-limiter";
+import type { AsyncRequestHandler, RouteDocs } from "./controller";
+
+/**
+ * @description Authentication requirement of a route. `true` or an options
+ * object requires a valid access token; `false` marks the route as public.
+ */
+export type RouteAuth = boolean | VerifyAccessTokenOptions;
+
+/**
+ * @description Rate limit of a route: limiter options, a ready-made limiter
+ * such as `rateLimiters.auth()`, or `false` to skip the controller default
+ */
+export type RouteRateLimit = false | RequestHandler | RateLimiterOptions;
+
+export interface RouteSchemas<P = any, Q = any, B = any> {
+  params?: Joi.Schema<P>;
+  query?: Joi.Schema<Q>;
+  body?: Joi.Schema<B>;
+  headers?: Joi.Schema;
+}
+
+/**
+ * @description Validated request parts passed to a route handler. `userId`
+ * is present whenever the route requires authentication.
+ */
+export type RouteInput<P, Q, B, A extends RouteAuth> = {
+  params: P;
+  query: Q;
+  body: B;
+  req: Request;
+  res: Response;
+} & (A extends false ? { userId?: undefined } : { userId: string });
+
+export type RouteHandler<P, Q, B, R, A extends RouteAuth> = (
+  input: RouteInput<P, Q, B, A>
+) => Promise<HandlerResult<R>>;
+
+/**
+ * @description Declarative route. Request types are inferred from typed Joi
+ * schemas, e.g. `Joi.object<CreateVideoBody>({...})`.
+ */
+export interface RouteDefinition<
+  P = any,
+  Q = any,
+  B = any,
+  R = any,
+  A extends RouteAuth = RouteAuth
+> {
+  method: HttpMethods;
+  path: string;
+
+  /**
+   * Required on purpose: public routes must say `auth: false`
+   */
+  auth: A;
+
+  rateLimit?: RouteRateLimit;
+  schema?: RouteSchemas<P, Q, B>;
+
+  /**
+   * Extra middlewares, run after validation and before the handler
+   */
+  middlewares?: RequestHandler[];
+
+  docs?: RouteDocs;
+  handler: RouteHandler<P, Q, B, R, A>;
+}
+
+/**
+ * @description Defaults applied to every declarative route of a controller
+ */
+export interface RouteDefaults {
+  /**
+   * Options for routes declared with `auth: true`
+   */
+  auth?: VerifyAccessTokenOptions;
+
+  /**
+   * Rate limit for routes that do not declare one. A single limiter is
+   * shared by all such routes of the controller.
+   */
+  rateLimit?: RequestHandler | RateLimiterOptions;
+}
+
+export const toRateLimiter = (
+  rateLimit: RequestHandler | RateLimiterOptions
+) =>
+  typeof rateLimit === "function"
+    ? rateLimit
+    : (createRateLimiter(rateLimit) as RequestHandler);
+
+/**
+ * @description Builds the middleware chain of a declarative route, always in
+ * the same order: rate limit, authentication, validation, extra middlewares.
+ * Rate limiting runs first so rejected clients never reach token checks.
+ * @param sharedRateLimiter The controller's default limiter, if any
+ */
+export const buildRouteMiddlewares = (
+  definition: RouteDefinition,
+  defaults: RouteDefaults,
+  sharedRateLimiter?: RequestHandler
+): RequestHandler[] => {
+  const { method, path, auth, rateLimit, schema, middlewares = [] } =
+    definition;
+
+  if (auth === undefined || auth === null) {
+    throw new Error(
+      `Route ${method} ${path} must declare auth: true, false or verification options`
+    );
+  }
+
+  const chain: RequestHandler[] = [];
+
+  if (rateLimit) {
+    chain.push(toRateLimiter(rateLimit));
+  } else if (rateLimit === undefined && sharedRateLimiter) {
+    chain.push(sharedRateLimiter);
+  }
+
+  if (auth) {
+    chain.push(
+      verifyAccessToken(auth === true ? defaults.auth : auth) as RequestHandler
+    );
+  }
+
+  const { params, query, body, headers } = schema ?? {};
+  if (params || query || body || headers) {
+    chain.push(validator({ params, query, body, headers }) as RequestHandler);
+  }
+
+  return [...chain, ...middlewares];
+};
+
+/**
+ * @description Adapts a declarative handler to the controller's handler shape
+ */
+export const toAsyncRequestHandler = (
+  handler: RouteHandler<any, any, any, any, any>
+): AsyncRequestHandler => {
+  return (req, res) =>
+    handler({
+      params: req.params,
+      query: req.query,
+      body: req.body,
+      userId: (req as any).userId,
+      req,
+      res,
+    });
+};
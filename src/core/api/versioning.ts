@@ -0,0 +1,171 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { BadRequestError } from "./errors";
+import { logger } from "../../utils/logger.util";
+
+/**
+ * @description How clients select an API version:
+ * - `prefix`: `/v1/videos`, `/v2/videos`
+ * - `header`: `/videos` with `Accept-Version: 2`
+ */
+export type ApiVersioning = "prefix" | "header";
+
+export const ACCEPT_VERSION_HEADER = "accept-version";
+
+/**
+ * @description Deprecation details sent as `Deprecation`, `Sunset` and
+ * `Link` headers
+ */
+export interface RouteDeprecation {
+  /**
+   * When the route was deprecated
+   */
+  since?: Date | string;
+
+  /**
+   * When the route will be removed
+   */
+  sunset?: Date | string;
+
+  /**
+   * Path or URL of the replacement, sent as `rel="successor-version"`
+   */
+  successor?: string;
+
+  /**
+   * Migration notes, sent as `rel="deprecation"`
+   */
+  link?: string;
+}
+
+/**
+ * @description Strips a leading "v", so "v2", "V2" and "2" are the same version
+ */
+export const normalizeVersion = (version: string): string =>
+  version.trim().replace(/^v/i, "");
+
+export const versionPrefix = (version: string) =>
+  `/v${normalizeVersion(version)}`;
+
+/**
+ * @description Highest version, comparing dot-separated numbers
+ */
+export const latestVersion = (versions: string[]): string | undefined =>
+  [...versions].sort((a, b) => {
+    const left = a.split(".").map(Number);
+    const right = b.split(".").map(Number);
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+      const diff = (right[i] || 0) - (left[i] || 0);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  })[0];
+
+/**
+ * @description Normalises route deprecation metadata; `true` means
+ * deprecated without dates
+ */
+export const resolveDeprecation = (
+  deprecated?: boolean | RouteDeprecation
+): RouteDeprecation | null => {
+  if (!deprecated) return null;
+  return deprecated === true ? {} : deprecated;
+};
+
+const toDate = (value: Date | string) =>
+  value instanceof Date ? value : new Date(value);
+
+const appVersionOf = (req: Request): string | undefined =>
+  (req as any).device?.appVersion ??
+  (req.headers["x-app-version"] as string | undefined);
+
+/**
+ * @description Sends `Deprecation` (RFC 9745), `Sunset` (RFC 8594) and
+ * `Link` headers, and logs each call with the caller's app version so
+ * remaining users of old endpoints can be identified. The log is written
+ * when the response finishes, once the route's auth middlewares have set
+ * the user and device.
+ */
+export const deprecationNotice = (
+  deprecation: RouteDeprecation,
+  route: { method: string; path: string; version?: string }
+): RequestHandler => {
+  const links: string[] = [];
+  if (deprecation.successor) {
+    links.push(`<${deprecation.successor}>; rel="successor-version"`);
+  }
+  if (deprecation.link) {
+    links.push(`<${deprecation.link}>; rel="deprecation"`);
+  }
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    res.setHeader(
+      "Deprecation",
+      deprecation.since
+        ? `@${Math.floor(toDate(deprecation.since).getTime() / 1000)}`
+        : "true"
+    );
+    if (deprecation.sunset) {
+      res.setHeader("Sunset", toDate(deprecation.sunset).toUTCString());
+    }
+    if (links.length > 0) {
+      res.append("Link", links.join(", "));
+    }
+
+    res.on("finish", () => {
+      logger.log(
+        "warn",
+        {
+          route: `${route.method} ${route.path}`,
+          apiVersion: route.version,
+          appVersion: appVersionOf(req) ?? "unknown",
+          userId: (req as any).userId,
+          statusCode: res.statusCode,
+          sunset: deprecation.sunset,
+        },
+        `Deprecated route called: ${route.method} ${route.path}`
+      );
+    });
+    next();
+  };
+};
+
+/**
+ * @description Skips to the next route registered on the same path unless
+ * the request asks for `version` in `Accept-Version`. Requests without
+ * the header are served by `defaultVersion`.
+ */
+export const acceptVersion = (
+  version: string,
+  defaultVersion?: string
+): RequestHandler => {
+  const expected = normalizeVersion(version);
+  return (req: Request, res: Response, next: NextFunction) => {
+    const header = req.headers[ACCEPT_VERSION_HEADER];
+    const requested =
+      typeof header === "string" && header.trim()
+        ? normalizeVersion(header)
+        : defaultVersion && normalizeVersion(defaultVersion);
+
+    if (requested === expected) {
+      res.setHeader("Content-Version", expected);
+      res.vary("Accept-Version");
+      return next();
+    }
+    next("route");
+  };
+};
+
+/**
+ * @description Final handler for a header-versioned path when no
+ * registered version matched
+ */
+export const unsupportedVersion = (supported: string[]): RequestHandler => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    next(
+      new BadRequestError("Unsupported API version", {
+        requested: req.headers[ACCEPT_VERSION_HEADER],
+        supported,
+      })
+    );
+  };
+};
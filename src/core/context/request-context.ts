@@ -0,0 +1,34 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * @description Per-request values available anywhere in the call chain
+ */
+export interface RequestContext {
+  requestId: string;
+  userId?: string;
+  callerService?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * @description Runs `fn` with `context` as the current request context
+ */
+export const runWithRequestContext = <T>(
+  context: RequestContext,
+  fn: () => T
+): T => storage.run(context, fn);
+
+/**
+ * @description Returns the context of the request being handled, if any
+ */
+export const getRequestContext = (): RequestContext | undefined =>
+  storage.getStore();
+
+/**
+ * @description Adds values to the current request context; no-op outside a request
+ */
+export const updateRequestContext = (values: Partial<RequestContext>) => {
+  const context = storage.getStore();
+  if (context) Object.assign(context, values);
+};
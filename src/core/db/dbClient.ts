@@ -1,14 +1,283 @@
 import { PrismaClient } from "../../prisma-client/client";
+import { logger } from "../../utils/logger.util";
+import { createSoftDeleteClient, SoftDeleteClient } from "./soft-delete";
+
+export type DbLogLevel = "query" | "info" | "warn" | "error";
+
+export interface DbPoolOptions {
+  /**
+   * Maximum open connections (`connection_limit`)
+   */
+  connectionLimit?: number;
+
+  /**
+   * Seconds to wait for a free connection (`pool_timeout`)
+   */
+  poolTimeoutSeconds?: number;
+
+  /**
+   * Seconds to wait for a new connection (`connect_timeout`)
+   */
+  connectTimeoutSeconds?: number;
+}
+
+export interface DbConnectRetryOptions {
+  /**
+   * Retries after the first attempt
+   * @default 5
+   */
+  retries?: number;
+
+  /**
+   * @default 500
+   */
+  minDelayMs?: number;
+
+  /**
+   * @default 10000
+   */
+  maxDelayMs?: number;
+}
+
+export interface DbClientOptions {
+  /**
+   * @default process.env.DATABASE_URL
+   */
+  datasourceUrl?: string;
+
+  pool?: DbPoolOptions;
+
+  /**
+   * Prisma events forwarded to the shared logger. `query` logs every
+   * statement at debug level.
+   * @default ["warn", "error"]
+   */
+  logLevels?: DbLogLevel[];
+
+  /**
+   * Queries slower than this are logged as warnings; 0 disables it
+   * @default 500
+   */
+  slowQueryThresholdMs?: number;
+
+  /**
+   * Include bound parameters in query logs. Off by default as they may
+   * contain personal data.
+   * @default false
+   */
+  logQueryParams?: boolean;
+
+  connectRetry?: DbConnectRetryOptions;
+}
+
+interface PrismaQueryEvent {
+  query: string;
+  params: string;
+  duration: number;
+  target: string;
+}
+
+interface PrismaLogEvent {
+  message: string;
+  target: string;
+}
+
+const withPoolParams = (url: string, pool: DbPoolOptions = {}): string => {
+  const params: Array<[string, number | undefined]> = [
+    ["connection_limit", pool.connectionLimit],
+    ["pool_timeout", pool.poolTimeoutSeconds],
+    ["connect_timeout", pool.connectTimeoutSeconds],
+  ];
+  const query = params
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}=${value}`)
+    .join("&");
+  if (!query) return url;
+  return `${url}${url.includes("?") ? "&" : "?"}${query}`;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * @description Creates a Prisma client with pool settings applied and its
+ * events routed to the shared logger
+ */
+const createClient = (options: DbClientOptions): PrismaClient => {
+  const {
+    logLevels = ["warn", "error"],
+    slowQueryThresholdMs = 500,
+    logQueryParams = false,
+  } = options;
+  const baseUrl = options.datasourceUrl ?? process.env.DATABASE_URL;
+  const subscribeQueries =
+    logLevels.includes("query") || slowQueryThresholdMs > 0;
+
+  const levels = logLevels.filter(
+    (level): level is Exclude<DbLogLevel, "query"> => level !== "query"
+  );
+  const client = new PrismaClient({
+    ...(baseUrl && { datasourceUrl: withPoolParams(baseUrl, options.pool) }),
+    log: [
+      ...(subscribeQueries ? (["query"] as DbLogLevel[]) : []),
+      ...levels,
+    ].map((level) => ({ emit: "event" as const, level })),
+  });
+
+  // Event names depend on the log option, which the static types cannot see
+  const events = client as unknown as {
+    $on(event: string, listener: (event: any) => void): void;
+  };
+
+  if (subscribeQueries) {
+    events.$on("query", (event: PrismaQueryEvent) => {
+      const context = {
+        query: event.query,
+        durationMs: event.duration,
+        ...(logQueryParams && { params: event.params }),
+      };
+      if (slowQueryThresholdMs > 0 && event.duration >= slowQueryThresholdMs) {
+        logger.log("warn", context, `Slow query (${event.duration}ms)`);
+      } else if (logLevels.includes("query")) {
+        logger.log("debug", context, "Query");
+      }
+    });
+  }
+  levels.forEach((level) => {
+    events.$on(level, (event: PrismaLogEvent) => {
+      logger.log(level, { target: event.target }, `Prisma: ${event.message}`);
+    });
+  });
+
+  return client;
+};
+
+/**
+ * @description Opens the client's connection, retrying with exponential
+ * backoff, e.g. while the database container is still starting
+ */
+export const connectWithRetry = async (
+  client: PrismaClient,
+  retry: DbConnectRetryOptions = {}
+): Promise<void> => {
+  const { retries = 5, minDelayMs = 500, maxDelayMs = 10000 } = retry;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await client.$connect();
+      return;
+    } catch (err: any) {
+      if (attempt >= retries) throw err;
+      const delay = Math.min(maxDelayMs, minDelayMs * 2 ** attempt);
+      logger.warn(
+        `Database connection failed (attempt ${attempt + 1}/${
+          retries + 1
+        }), retrying in ${delay}ms: ${err?.message}`
+      );
+      await sleep(delay);
+    }
+  }
+};
 
 export class DbClient {
-  private static instance: PrismaClient;
+  private static instance?: PrismaClient;
+  private static softDeleteInstance?: SoftDeleteClient;
+  private static options: DbClientOptions = {};
+  private static tenants: Map<string, PrismaClient> = new Map();
 
   private constructor() {}
 
+  /**
+   * @description Sets the options of the shared client. Call before the
+   * first getInstance; later calls only affect clients created afterwards.
+   */
+  public static configure(options: DbClientOptions): void {
+    if (this.instance) {
+      logger.warn(
+        "DbClient.configure called after the shared client was created"
+      );
+    }
+    this.options = { ...options };
+  }
+
   public static getInstance(): PrismaClient {
     if (!this.instance) {
-      this.instance = new PrismaClient();
+      this.instance = createClient(this.options);
     }
     return this.instance;
   }
+
+  /**
+   * @description The shared client with the soft-delete extension: deleted
+   * users are hidden and `user.delete` becomes a soft delete. Use
+   * `$includeDeleted()` on it to reach deleted rows.
+   */
+  public static getSoftDeleteInstance(): SoftDeleteClient {
+    if (!this.softDeleteInstance) {
+      this.softDeleteInstance = createSoftDeleteClient(this.getInstance());
+    }
+    return this.softDeleteInstance;
+  }
+
+  /**
+   * @description Creates the shared client and connects it with retries.
+   * Call at startup so a missing database fails fast instead of on the
+   * first request.
+   */
+  public static async connect(): Promise<PrismaClient> {
+    const client = this.getInstance();
+    await connectWithRetry(client, this.options.connectRetry);
+    return client;
+  }
+
+  /**
+   * @description Creates an independent client, e.g. for a test database.
+   * The caller owns it and must disconnect it.
+   */
+  public static create(options: DbClientOptions = {}): PrismaClient {
+    return createClient({ ...this.options, ...options });
+  }
+
+  /**
+   * @description Replaces the shared client, e.g. with a per-test client;
+   * pass undefined to reset it
+   */
+  public static setInstance(client: PrismaClient | undefined): void {
+    this.instance = client;
+    this.softDeleteInstance = undefined;
+  }
+
+  /**
+   * @description Returns the client of one tenant, created on first use
+   * with the options returned by `resolveOptions`
+   *
+   * @example
+   * const db = DbClient.forTenant(tenantId, () => ({
+   *   datasourceUrl: tenantDatabaseUrl(tenantId),
+   * }));
+   */
+  public static forTenant(
+    tenantId: string,
+    resolveOptions: () => DbClientOptions
+  ): PrismaClient {
+    let client = this.tenants.get(tenantId);
+    if (!client) {
+      client = this.create(resolveOptions());
+      this.tenants.set(tenantId, client);
+    }
+    return client;
+  }
+
+  /**
+   * @description Closes the shared client's and all tenant clients'
+   * connections. The next getInstance call creates a new client.
+   */
+  public static async disconnect(): Promise<void> {
+    const clients = [
+      ...(this.instance ? [this.instance] : []),
+      ...Array.from(this.tenants.values()),
+    ];
+    this.instance = undefined;
+    this.softDeleteInstance = undefined;
+    this.tenants.clear();
+    await Promise.all(clients.map((client) => client.$disconnect()));
+  }
 }
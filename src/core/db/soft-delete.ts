@@ -0,0 +1,71 @@
+import { Prisma, PrismaClient } from "../../prisma-client/client";
+
+const READ_OPERATIONS = [
+  "findUnique",
+  "findUniqueOrThrow",
+  "findFirst",
+  "findFirstOrThrow",
+  "findMany",
+  "count",
+  "aggregate",
+  "groupBy",
+];
+
+/**
+ * @description Adds `isDeleted: false` unless the query filters on
+ * `isDeleted` itself
+ */
+const excludeDeleted = (args: any = {}) => {
+  if (args.where && "isDeleted" in args.where) return args;
+  return { ...args, where: { ...args.where, isDeleted: false } };
+};
+
+/**
+ * @description Prisma extension for `User`:
+ * - reads skip soft-deleted users unless the query filters on `isDeleted`
+ * - `delete` and `deleteMany` set `isDeleted` and `deletedAt` instead
+ * - `$includeDeleted()` returns the plain client, which sees and hard-deletes
+ *   every row
+ *
+ * Relations loaded from other models (e.g. `video.user`) are not filtered.
+ * Soft deletes go through the plain client, so inside `$transaction` use
+ * `update` with `isDeleted: true` explicitly.
+ */
+export const createSoftDeleteClient = (base: PrismaClient) =>
+  base.$extends({
+    name: "softDelete",
+    client: {
+      $includeDeleted(): PrismaClient {
+        return base;
+      },
+    },
+    query: {
+      user: {
+        async $allOperations({ operation, args, query }) {
+          if (READ_OPERATIONS.includes(operation)) {
+            return query(excludeDeleted(args));
+          }
+
+          const data = { isDeleted: true, deletedAt: new Date() };
+          if (operation === "delete") {
+            const { where, select, include } = args as Prisma.UserDeleteArgs;
+            return base.user.update({
+              where: { ...where, isDeleted: false },
+              data,
+              ...(select ? { select } : include ? { include } : {}),
+            });
+          }
+          if (operation === "deleteMany") {
+            const { where } = (args ?? {}) as Prisma.UserDeleteManyArgs;
+            return base.user.updateMany({
+              where: { ...where, isDeleted: false },
+              data,
+            });
+          }
+          return query(args);
+        },
+      },
+    },
+  });
+
+export type SoftDeleteClient = ReturnType<typeof createSoftDeleteClient>;
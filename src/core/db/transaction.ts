@@ -0,0 +1,97 @@
+import { Prisma, PrismaClient } from "../../prisma-client/client";
+import { DbClient } from "./dbClient";
+import { logger } from "../../utils/logger.util";
+
+export interface TransactionOptions {
+  /**
+   * @default DbClient.getInstance()
+   */
+  client?: PrismaClient;
+
+  isolationLevel?: Prisma.TransactionIsolationLevel;
+
+  /**
+   * Retries after a serialization failure or deadlock
+   * @default 3
+   */
+  maxRetries?: number;
+
+  /**
+   * Milliseconds to wait for a connection to start the transaction
+   * @default 2000
+   */
+  maxWaitMs?: number;
+
+  /**
+   * Milliseconds the transaction may run
+   * @default 5000
+   */
+  timeoutMs?: number;
+}
+
+// Postgres SQLSTATEs: serialization_failure and deadlock_detected
+const RETRYABLE_SQL_STATES = ["40001", "40P01"];
+
+/**
+ * @description Whether a transaction failed because it conflicted with
+ * another one and can be retried as a whole. Only structured codes are
+ * trusted: Prisma's P2034, the SQLSTATE of a raw query (`meta.code`) or the
+ * driver's `code`. Messages may quote user data, so they are never matched.
+ */
+export const isRetryableTransactionError = (err: any): boolean => {
+  if (err?.code === "P2034") return true;
+  return [err?.meta?.code, err?.code].some((code) =>
+    RETRYABLE_SQL_STATES.includes(code)
+  );
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * @description Runs `fn` in an interactive transaction and re-runs it
+ * when it fails with a serialization error or deadlock. `fn` may run more
+ * than once, so it must not have side effects outside the database.
+ *
+ * @example
+ * const video = await withTransaction(
+ *   async (tx) => {
+ *     await tx.user.update({ where: { id }, data: { tokens: { decrement: 10 } } });
+ *     return tx.video.create({ data });
+ *   },
+ *   { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+ * );
+ */
+export const withTransaction = async <T>(
+  fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  options: TransactionOptions = {}
+): Promise<T> => {
+  const {
+    maxRetries = 3,
+    maxWaitMs = 2000,
+    timeoutMs = 5000,
+    isolationLevel,
+  } = options;
+  const client = options.client ?? DbClient.getInstance();
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await client.$transaction((tx) => fn(tx), {
+        maxWait: maxWaitMs,
+        timeout: timeoutMs,
+        ...(isolationLevel && { isolationLevel }),
+      });
+    } catch (err: any) {
+      if (attempt >= maxRetries || !isRetryableTransactionError(err)) {
+        throw err;
+      }
+      // Jittered backoff so conflicting transactions do not collide again
+      const delay = Math.round(20 * 2 ** attempt * (0.5 + Math.random()));
+      logger.warn(
+        `Transaction conflict (attempt ${attempt + 1}/${
+          maxRetries + 1
+        }), retrying in ${delay}ms: ${err?.code ?? err?.message}`
+      );
+      await sleep(delay);
+    }
+  }
+};
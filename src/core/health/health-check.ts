@@ -0,0 +1,184 @@
+import { PrismaClient } from "../../prisma-client/client";
+import { DbClient } from "../db/dbClient";
+import { HttpMethods } from "../api/api-status";
+import { InternalServiceApiClient } from "../../utils/internalServiceClient.util";
+
+/**
+ * @description A dependency probed by the readiness route. `check` resolves
+ * when the dependency is usable and rejects otherwise; a resolved object
+ * is reported as the check's details.
+ */
+export interface HealthCheck {
+  name: string;
+  check: () => Promise<void | Record<string, unknown>>;
+
+  /**
+   * @default 2000
+   */
+  timeoutMs?: number;
+
+  /**
+   * Non-critical checks are reported but do not fail readiness
+   * @default true
+   */
+  critical?: boolean;
+}
+
+export type HealthStatus = "up" | "down";
+
+export interface HealthCheckResult {
+  status: HealthStatus;
+  critical: boolean;
+  latencyMs: number;
+  error?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface HealthReport {
+  /**
+   * `down` when a critical check failed, `degraded` when only
+   * non-critical checks failed
+   */
+  status: "ok" | "degraded" | "down";
+  timestamp: string;
+  uptimeSeconds: number;
+  checks: Record<string, HealthCheckResult>;
+}
+
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number, name: string) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`${name} check timed out after ${timeoutMs}ms`)),
+      timeoutMs
+    );
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (err) => {
+        clearTimeout(timer);
+        reject(err);
+      }
+    );
+  });
+
+/**
+ * @description Runs all checks in parallel, each bounded by its timeout
+ */
+export const runHealthChecks = async (
+  checks: HealthCheck[]
+): Promise<HealthReport> => {
+  const results = await Promise.all(
+    checks.map(async (healthCheck): Promise<[string, HealthCheckResult]> => {
+      const critical = healthCheck.critical ?? true;
+      const startedAt = Date.now();
+      try {
+        const details = await withTimeout(
+          Promise.resolve().then(healthCheck.check),
+          healthCheck.timeoutMs ?? 2000,
+          healthCheck.name
+        );
+        return [
+          healthCheck.name,
+          {
+            status: "up",
+            critical,
+            latencyMs: Date.now() - startedAt,
+            ...(details && { details }),
+          },
+        ];
+      } catch (err: any) {
+        return [
+          healthCheck.name,
+          {
+            status: "down",
+            critical,
+            latencyMs: Date.now() - startedAt,
+            error: err?.message ?? String(err),
+          },
+        ];
+      }
+    })
+  );
+
+  const report: Record<string, HealthCheckResult> = {};
+  results.forEach(([name, result]) => {
+    report[name] = result;
+  });
+
+  const failed = results.filter(([, result]) => result.status === "down");
+  return {
+    status: failed.some(([, result]) => result.critical)
+      ? "down"
+      : failed.length > 0
+      ? "degraded"
+      : "ok",
+    timestamp: new Date().toISOString(),
+    uptimeSeconds: Math.round(process.uptime()),
+    checks: report,
+  };
+};
+
+/**
+ * @description Runs `SELECT 1` against the database
+ */
+export const prismaHealthCheck = (
+  options: { client?: PrismaClient; timeoutMs?: number; name?: string } = {}
+): HealthCheck => ({
+  name: options.name ?? "database",
+  timeoutMs: options.timeoutMs ?? 2000,
+  check: async () => {
+    const client = options.client ?? DbClient.getInstance();
+    await client.$queryRaw`SELECT 1`;
+  },
+});
+
+export interface InternalServiceHealthCheckOptions {
+  name: string;
+  serviceBaseUrl: string;
+
+  /**
+   * Internal route probed on the service
+   * @default "health"
+   */
+  slug?: string;
+
+  /**
+   * @default 2000
+   */
+  timeoutMs?: number;
+
+  /**
+   * @default false
+   */
+  critical?: boolean;
+}
+
+/**
+ * @description Probes a downstream service through InternalServiceApiClient,
+ * without retries. Non-critical by default, so one failing dependency does
+ * not take every caller out of rotation.
+ */
+export const internalServiceHealthCheck = (
+  options: InternalServiceHealthCheckOptions
+): HealthCheck => {
+  const timeoutMs = options.timeoutMs ?? 2000;
+  return {
+    name: options.name,
+    timeoutMs,
+    critical: options.critical ?? false,
+    check: async () => {
+      const response = await InternalServiceApiClient({
+        method: HttpMethods.GET,
+        serviceBaseUrl: options.serviceBaseUrl,
+        slug: options.slug ?? "health",
+        timeoutMs,
+        retry: false,
+      });
+      if (!response.isSuccess) {
+        throw new Error(response.error ?? `${options.name} is unhealthy`);
+      }
+    },
+  };
+};
@@ -0,0 +1,84 @@
+import { Request, Response } from "express";
+import { ApiStatusCodes } from "../api/api-status";
+import { HealthCheck, runHealthChecks } from "./health-check";
+import { GracefulShutdown } from "./shutdown";
+
+export interface HealthRoutesOptions {
+  /**
+   * Dependencies probed by the readiness route
+   */
+  checks?: HealthCheck[];
+
+  /**
+   * Readiness fails as soon as this coordinator starts shutting down
+   */
+  shutdown?: GracefulShutdown;
+
+  /**
+   * Liveness route: the process is up and serving requests
+   * @default "/ping"
+   */
+  livenessPath?: string;
+
+  /**
+   * Readiness route with the per-check report
+   * @default "/health"
+   */
+  readinessPath?: string;
+}
+
+/**
+ * @description Mounts liveness and readiness routes. Both default paths are
+ * skipped by `requestLogger`. Readiness answers 503 when a critical check
+ * fails or the service is shutting down.
+ *
+ * @example
+ * mountHealthRoutes(app, {
+ *   checks: [
+ *     prismaHealthCheck(),
+ *     internalServiceHealthCheck({ name: "auth", serviceBaseUrl: AUTH_URL }),
+ *   ],
+ *   shutdown,
+ * });
+ */
+export const mountHealthRoutes = (
+  router: any,
+  options: HealthRoutesOptions = {}
+) => {
+  const {
+    checks = [],
+    shutdown,
+    livenessPath = "/ping",
+    readinessPath = "/health",
+  } = options;
+
+  router.get(livenessPath, (req: Request, res: Response) => {
+    res.status(ApiStatusCodes.SUCCESS).json({
+      status: "ok",
+      uptimeSeconds: Math.round(process.uptime()),
+    });
+  });
+
+  router.get(readinessPath, async (req: Request, res: Response) => {
+    res.setHeader("Cache-Control", "no-store");
+
+    if (shutdown?.isShuttingDown) {
+      return res.status(ApiStatusCodes.SERVICE_UNAVAILABLE).json({
+        status: "down",
+        timestamp: new Date().toISOString(),
+        uptimeSeconds: Math.round(process.uptime()),
+        shuttingDown: true,
+        checks: {},
+      });
+    }
+
+    const report = await runHealthChecks(checks);
+    res
+      .status(
+        report.status === "down"
+          ? ApiStatusCodes.SERVICE_UNAVAILABLE
+          : ApiStatusCodes.SUCCESS
+      )
+      .json(report);
+  });
+};
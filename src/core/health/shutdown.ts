@@ -0,0 +1,192 @@
+import { Server } from "http";
+import { Socket } from "net";
+import { Request, Response, NextFunction } from "express";
+import { DbClient } from "../db/dbClient";
+import { logger } from "../../utils/logger.util";
+
+export interface GracefulShutdownOptions {
+  /**
+   * Overall deadline; the process exits with code 1 when it is exceeded
+   * @default 10000
+   */
+  timeoutMs?: number;
+
+  /**
+   * Signals that start the shutdown
+   * @default ["SIGTERM", "SIGINT"]
+   */
+  signals?: NodeJS.Signals[];
+
+  /**
+   * Disconnect the `DbClient` Prisma singleton
+   * @default true
+   */
+  disconnectPrisma?: boolean;
+
+  /**
+   * Exit the process once shutdown completes
+   * @default true
+   */
+  exitProcess?: boolean;
+}
+
+type ShutdownHook = { name: string; run: () => Promise<void> | void };
+
+/**
+ * @description Coordinates a graceful shutdown: fails readiness, stops
+ * accepting connections, waits for in-flight requests, runs registered
+ * hooks, disconnects Prisma and flushes the logger, all within a deadline.
+ *
+ * @example
+ * const shutdown = new GracefulShutdown({ timeoutMs: 15000 });
+ * app.use(shutdown.trackRequests());
+ * shutdown.onShutdown("redis", () => redisStore.shutdown());
+ * shutdown.listen(app.listen(port));
+ */
+export class GracefulShutdown {
+  private server?: Server;
+  private shuttingDown = false;
+  private inFlight = 0;
+  private drained?: () => void;
+  private readonly hooks: ShutdownHook[] = [];
+  private readonly sockets = new Set<Socket>();
+  private shutdownPromise?: Promise<void>;
+
+  constructor(private readonly options: GracefulShutdownOptions = {}) {}
+
+  public get isShuttingDown(): boolean {
+    return this.shuttingDown;
+  }
+
+  public get inFlightRequests(): number {
+    return this.inFlight;
+  }
+
+  /**
+   * @description Middleware counting in-flight requests. Responses sent
+   * during shutdown carry `Connection: close` so keep-alive clients reconnect
+   * to another instance.
+   */
+  public trackRequests() {
+    return (req: Request, res: Response, next: NextFunction) => {
+      this.inFlight++;
+      if (this.shuttingDown) {
+        res.setHeader("Connection", "close");
+      }
+
+      let done = false;
+      const finish = () => {
+        if (done) return;
+        done = true;
+        this.inFlight--;
+        if (this.inFlight === 0) this.drained?.();
+      };
+      res.once("finish", finish);
+      res.once("close", finish);
+      next();
+    };
+  }
+
+  /**
+   * @description Registers cleanup run after requests drain, in
+   * registration order, e.g. closing a Redis rate-limit store
+   */
+  public onShutdown(name: string, run: ShutdownHook["run"]): this {
+    this.hooks.push({ name, run });
+    return this;
+  }
+
+  /**
+   * @description Attaches the HTTP server and installs signal handlers
+   */
+  public listen(server: Server): Server {
+    this.server = server;
+    server.on("connection", (socket: Socket) => {
+      this.sockets.add(socket);
+      socket.once("close", () => this.sockets.delete(socket));
+    });
+
+    (this.options.signals ?? ["SIGTERM", "SIGINT"]).forEach((signal) => {
+      process.once(signal, () => {
+        // Failures are logged by the shutdown itself
+        this.shutdown(signal).catch(() => undefined);
+      });
+    });
+    return server;
+  }
+
+  /**
+   * @description Runs the shutdown once; later calls return the same promise.
+   * A failure exits with code 1, or rejects when `exitProcess` is false.
+   */
+  public shutdown(reason: string = "shutdown"): Promise<void> {
+    if (!this.shutdownPromise) {
+      this.shutdownPromise = this.run(reason);
+    }
+    return this.shutdownPromise;
+  }
+
+  private async run(reason: string): Promise<void> {
+    const { timeoutMs = 10000, exitProcess = true } = this.options;
+    this.shuttingDown = true;
+    logger.info(`Graceful shutdown started (${reason})`);
+
+    const deadline = setTimeout(() => {
+      logger.error(
+        `Graceful shutdown exceeded ${timeoutMs}ms, ${this.inFlight} request(s) still in flight`
+      );
+      logger.flush().finally(() => process.exit(1));
+    }, timeoutMs);
+    deadline.unref();
+
+    let failed = false;
+    try {
+      const closed = this.closeServer();
+      await this.drain();
+      this.server?.closeIdleConnections?.();
+      this.sockets.forEach((socket) => socket.destroy());
+      await closed;
+
+      for (const hook of this.hooks) {
+        try {
+          await hook.run();
+        } catch (err) {
+          logger.error(`Shutdown hook "${hook.name}" failed`, err);
+        }
+      }
+
+      if (this.options.disconnectPrisma ?? true) {
+        await DbClient.disconnect();
+      }
+
+      logger.info("Graceful shutdown complete");
+      await logger.flush();
+    } catch (err) {
+      failed = true;
+      logger.error("Graceful shutdown failed", err);
+      await logger.flush();
+      if (!exitProcess) throw err;
+    } finally {
+      clearTimeout(deadline);
+    }
+
+    if (exitProcess) process.exit(failed ? 1 : 0);
+  }
+
+  private closeServer(): Promise<void> {
+    const server = this.server;
+    if (!server) return Promise.resolve();
+    return new Promise((resolve) => {
+      server.close(() => resolve());
+      // Idle keep-alive sockets would otherwise hold close() open
+      server.closeIdleConnections?.();
+    });
+  }
+
+  private drain(): Promise<void> {
+    if (this.inFlight === 0) return Promise.resolve();
+    return new Promise((resolve) => {
+      this.drained = resolve;
+    });
+  }
+}
@@ -0,0 +1,259 @@
+import { Request, Response } from "express";
+import type { ApiController, RegisteredRoute } from "../api/controller";
+import { ApiStatusCodes } from "../api/api-status";
+import {
+  getValidatorSchemas,
+  ValidatorSchema,
+} from "../../middlewares/validator";
+import { JsonSchema, joiObjectKeys, joiToJsonSchema } from "./json-schema";
+import { normalizeVersion } from "../api/versioning";
+
+export interface OpenApiDocumentOptions {
+  title: string;
+  version: string;
+  description?: string;
+  servers?: Array<{ url: string; description?: string }>;
+
+  /**
+   * Path the controller's routes are mounted under, e.g. "/api"
+   */
+  basePath?: string;
+
+  /**
+   * Only document unversioned routes and routes of this version. Needed
+   * with header versioning, where versions share paths.
+   */
+  apiVersion?: string;
+}
+
+export interface OpenApiControllerEntry {
+  controller: ApiController;
+  basePath?: string;
+}
+
+export interface GenerateOpenApiOptions extends OpenApiDocumentOptions {
+  controllers: OpenApiControllerEntry[];
+}
+
+export interface OpenApiDocument {
+  openapi: "3.1.0";
+  info: { title: string; version: string; description?: string };
+  servers?: Array<{ url: string; description?: string }>;
+  tags?: Array<{ name: string }>;
+  paths: Record<string, Record<string, any>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    securitySchemes: Record<string, any>;
+  };
+}
+
+const ERROR_RESPONSE_REF = "#/components/schemas/ErrorResponse";
+
+/**
+ * @description Error envelope written by the error handler
+ */
+const errorResponseSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    isSuccess: { type: "boolean", const: false },
+    error: { type: "string" },
+    code: { type: "string" },
+    details: {},
+    requestId: { type: "string" },
+  },
+  required: ["isSuccess", "error", "code"],
+};
+
+const successResponseSchema = (data: JsonSchema): JsonSchema => ({
+  type: "object",
+  properties: {
+    isSuccess: { type: "boolean" },
+    message: { type: "string" },
+    data,
+    requestId: { type: "string" },
+  },
+  required: ["isSuccess"],
+});
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: ERROR_RESPONSE_REF } } },
+});
+
+const joinPath = (basePath: string | undefined, path: string) =>
+  `/${[basePath ?? "", path]
+    .map((part) => part.replace(/^\/+|\/+$/g, ""))
+    .filter(Boolean)
+    .join("/")}`;
+
+// Express `:param` segments become OpenAPI `{param}` templates
+const toOpenApiPath = (path: string) =>
+  path.replace(/:([A-Za-z0-9_]+)\??/g, "{$1}");
+
+const collectSchemas = (route: RegisteredRoute): ValidatorSchema =>
+  (route.middlewares ?? []).reduce<ValidatorSchema>((acc, middleware) => {
+    const schemas = getValidatorSchemas(middleware);
+    return schemas ? { ...acc, ...schemas } : acc;
+  }, {});
+
+const buildParameters = (path: string, schemas: ValidatorSchema) => {
+  const parameters: any[] = [];
+  const pathParams = schemas.params ? joiObjectKeys(schemas.params) : [];
+
+  (path.match(/\{([A-Za-z0-9_]+)\}/g) ?? []).forEach((token) => {
+    const name = token.slice(1, -1);
+    const described = pathParams.find((param) => param.name === name);
+    parameters.push({
+      name,
+      in: "path",
+      required: true,
+      schema: described?.schema ?? { type: "string" },
+    });
+  });
+
+  const locations: Array<["query" | "header", keyof ValidatorSchema]> = [
+    ["query", "query"],
+    ["header", "headers"],
+  ];
+  locations.forEach(([location, part]) => {
+    const schema = schemas[part];
+    if (!schema) return;
+    joiObjectKeys(schema).forEach(({ name, required, schema: property }) => {
+      parameters.push({
+        name,
+        in: location,
+        required,
+        schema: property,
+        ...(property.description && { description: property.description }),
+      });
+    });
+  });
+
+  return parameters;
+};
+
+const buildOperation = (route: RegisteredRoute, path: string) => {
+  const docs = route.docs ?? {};
+  const schemas = collectSchemas(route);
+  const parameters = buildParameters(path, schemas);
+
+  const responses: Record<string, any> = {
+    [ApiStatusCodes.SUCCESS]: {
+      description: "Success",
+      content: {
+        "application/json": {
+          schema: successResponseSchema(
+            docs.response ? joiToJsonSchema(docs.response) : {}
+          ),
+        },
+      },
+    },
+  };
+  if (schemas.body || schemas.query || schemas.params || schemas.headers) {
+    responses[ApiStatusCodes.VALIDATION_ERROR] =
+      errorResponse("Validation error");
+  }
+  if (docs.auth) {
+    responses[ApiStatusCodes.UNAUTHORIZED] = errorResponse("Unauthenticated");
+  }
+  responses.default = errorResponse("Error");
+
+  return {
+    ...(docs.operationId && { operationId: docs.operationId }),
+    ...(docs.summary && { summary: docs.summary }),
+    ...(docs.description && { description: docs.description }),
+    ...(docs.tags && { tags: docs.tags }),
+    ...(docs.deprecated && { deprecated: true }),
+    ...(route.version !== undefined && { "x-api-version": route.version }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(schemas.body && {
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": { schema: joiToJsonSchema(schemas.body) },
+        },
+      },
+    }),
+    ...(docs.auth && { security: [{ bearerAuth: [] }] }),
+    responses,
+  };
+};
+
+/**
+ * @description Builds an OpenAPI 3.1 document from controller routes, the
+ * Joi schemas of their `validator` middlewares and their route metadata.
+ * Successful responses are described with the standard `ApiResponse`
+ * envelope and errors with the error handler's envelope.
+ *
+ * @example
+ * const spec = generateOpenApiDocument({
+ *   title: "Video Service",
+ *   version: "1.0.0",
+ *   controllers: [{ controller: videoController, basePath: "/api/v1/videos" }],
+ * });
+ */
+export const generateOpenApiDocument = (
+  options: GenerateOpenApiOptions
+): OpenApiDocument => {
+  const paths: OpenApiDocument["paths"] = {};
+  const tags: string[] = [];
+
+  options.controllers.forEach(({ controller, basePath }) => {
+    controller.getRoutes().forEach((route) => {
+      if (route.docs?.hidden) return;
+      if (
+        options.apiVersion !== undefined &&
+        route.version !== undefined &&
+        route.version !== normalizeVersion(options.apiVersion)
+      ) {
+        return;
+      }
+
+      const path = toOpenApiPath(joinPath(basePath, route.path));
+      paths[path] = paths[path] ?? {};
+      paths[path][route.method.toLowerCase()] = buildOperation(route, path);
+
+      (route.docs?.tags ?? []).forEach((tag) => {
+        if (!tags.includes(tag)) tags.push(tag);
+      });
+    });
+  });
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: options.title,
+      version: options.version,
+      ...(options.description && { description: options.description }),
+    },
+    ...(options.servers && { servers: options.servers }),
+    ...(tags.length > 0 && { tags: tags.map((name) => ({ name })) }),
+    paths,
+    components: {
+      schemas: { ErrorResponse: errorResponseSchema },
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+      },
+    },
+  };
+};
+
+/**
+ * @description Serves an OpenAPI document as JSON. When given a function,
+ * the document is built on the first request, after all routes are registered.
+ *
+ * @example
+ * mountOpenApi(app, () => generateOpenApiDocument({ ... }), "/docs/openapi.json");
+ */
+export const mountOpenApi = (
+  router: any,
+  document: OpenApiDocument | (() => OpenApiDocument),
+  path: string = "/openapi.json"
+) => {
+  let cached: OpenApiDocument | undefined;
+  router.get(path, (req: Request, res: Response) => {
+    cached =
+      cached ?? (typeof document === "function" ? document() : document);
+    res.status(ApiStatusCodes.SUCCESS).json(cached);
+  });
+};
@@ -0,0 +1,207 @@
+import Joi from "joi";
+
+/**
+ * @description JSON Schema (draft 2020-12, as used by OpenAPI 3.1)
+ */
+export type JsonSchema = { [keyword: string]: any };
+
+interface JoiDescription {
+  type?: string;
+  flags?: Record<string, any>;
+  rules?: Array<{ name: string; args?: Record<string, any> }>;
+  allow?: unknown[];
+  keys?: Record<string, JoiDescription>;
+  items?: JoiDescription[];
+  matches?: Array<{
+    schema?: JoiDescription;
+    then?: JoiDescription;
+    otherwise?: JoiDescription;
+  }>;
+  patterns?: Array<{ rule?: JoiDescription }>;
+  [key: string]: any;
+}
+
+const STRING_FORMATS: Record<string, string> = {
+  email: "email",
+  uri: "uri",
+  guid: "uuid",
+  isoDate: "date-time",
+  ip: "ip",
+  hostname: "hostname",
+};
+
+const ruleArg = (description: JoiDescription, name: string) =>
+  description.rules?.find((rule) => rule.name === name)?.args;
+
+const applyRules = (schema: JsonSchema, description: JoiDescription) => {
+  const min = ruleArg(description, "min")?.limit;
+  const max = ruleArg(description, "max")?.limit;
+  const length = ruleArg(description, "length")?.limit;
+
+  switch (schema.type) {
+    case "string":
+      if (typeof min === "number") schema.minLength = min;
+      if (typeof max === "number") schema.maxLength = max;
+      if (typeof length === "number") {
+        schema.minLength = length;
+        schema.maxLength = length;
+      }
+      description.rules?.forEach((rule) => {
+        if (STRING_FORMATS[rule.name]) {
+          schema.format = STRING_FORMATS[rule.name];
+        }
+        if (rule.name === "pattern" && rule.args?.regex) {
+          schema.pattern = String(rule.args.regex).replace(
+            /^\/(.*)\/[a-z]*$/,
+            "$1"
+          );
+        }
+      });
+      break;
+    case "number":
+    case "integer":
+      if (typeof min === "number") schema.minimum = min;
+      if (typeof max === "number") schema.maximum = max;
+      if (ruleArg(description, "greater")) {
+        schema.exclusiveMinimum = ruleArg(description, "greater")!.limit;
+      }
+      if (ruleArg(description, "less")) {
+        schema.exclusiveMaximum = ruleArg(description, "less")!.limit;
+      }
+      break;
+    case "array":
+      if (typeof min === "number") schema.minItems = min;
+      if (typeof max === "number") schema.maxItems = max;
+      if (typeof length === "number") {
+        schema.minItems = length;
+        schema.maxItems = length;
+      }
+      break;
+  }
+};
+
+const convertType = (description: JoiDescription): JsonSchema => {
+  switch (description.type) {
+    case "string":
+      return { type: "string" };
+    case "number":
+      return {
+        type: description.rules?.some((rule) => rule.name === "integer")
+          ? "integer"
+          : "number",
+      };
+    case "boolean":
+      return { type: "boolean" };
+    case "date":
+      return { type: "string", format: "date-time" };
+    case "binary":
+      return { type: "string", contentEncoding: "base64" };
+    case "array": {
+      const items = (description.items ?? []).map(convertDescription);
+      return {
+        type: "array",
+        ...(items.length === 1 && { items: items[0] }),
+        ...(items.length > 1 && { items: { anyOf: items } }),
+      };
+    }
+    case "object": {
+      const keys = description.keys ?? {};
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+
+      Object.keys(keys).forEach((key) => {
+        const presence = keys[key].flags?.presence;
+        if (presence === "forbidden") return;
+        properties[key] = convertDescription(keys[key]);
+        if (presence === "required") required.push(key);
+      });
+
+      const pattern = description.patterns?.[0]?.rule;
+      const hasKeys = description.keys !== undefined;
+      return {
+        type: "object",
+        ...(hasKeys && { properties }),
+        ...(required.length > 0 && { required }),
+        ...(pattern
+          ? { additionalProperties: convertDescription(pattern) }
+          : hasKeys && !description.flags?.unknown
+          ? { additionalProperties: false }
+          : {}),
+      };
+    }
+    case "alternatives":
+      return {
+        anyOf: (description.matches ?? [])
+          .reduce<JoiDescription[]>(
+            (acc, match) =>
+              acc.concat(
+                [match.schema, match.then, match.otherwise].filter(
+                  (schema): schema is JoiDescription => Boolean(schema)
+                )
+              ),
+            []
+          )
+          .map(convertDescription),
+      };
+    default:
+      return {};
+  }
+};
+
+const convertDescription = (description: JoiDescription): JsonSchema => {
+  const schema = convertType(description);
+  const flags = description.flags ?? {};
+  applyRules(schema, description);
+
+  const allowed = description.allow ?? [];
+  const values = allowed.filter((value) => value !== null && value !== "");
+  if (flags.only && values.length > 0) {
+    schema.enum = values;
+  }
+  if (allowed.includes(null)) {
+    if (typeof schema.type === "string") {
+      schema.type = [schema.type, "null"];
+    }
+    if (schema.enum) {
+      schema.enum = [...schema.enum, null];
+    }
+  }
+
+  if (flags.description) schema.description = flags.description;
+  if (flags.default !== undefined && typeof flags.default !== "function") {
+    schema.default = flags.default;
+  }
+  if (Array.isArray(description.examples) && description.examples.length > 0) {
+    schema.examples = description.examples;
+  }
+  if (description.metas?.some((meta: any) => meta?.deprecated)) {
+    schema.deprecated = true;
+  }
+  return schema;
+};
+
+/**
+ * @description Converts a Joi schema to JSON Schema. Covers the types and
+ * rules used by the services' DTOs; unsupported constructs become `{}`
+ * (any value) rather than failing.
+ */
+export const joiToJsonSchema = (schema: Joi.Schema): JsonSchema =>
+  convertDescription(schema.describe() as JoiDescription);
+
+/**
+ * @description Top-level keys of an object schema, used to build
+ * OpenAPI parameters from `params`, `query` and `headers` schemas
+ */
+export const joiObjectKeys = (
+  schema: Joi.Schema
+): Array<{ name: string; required: boolean; schema: JsonSchema }> => {
+  const description = schema.describe() as JoiDescription;
+  const keys = description.keys ?? {};
+  return Object.keys(keys)
+    .filter((name) => keys[name].flags?.presence !== "forbidden")
+    .map((name) => ({
+      name,
+      required: keys[name].flags?.presence === "required",
+      schema: convertDescription(keys[name]),
+    }));
+};
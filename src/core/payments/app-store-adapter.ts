@@ -0,0 +1,275 @@
+import { X509Certificate } from "crypto";
+import jwt from "jsonwebtoken";
+import {
+  PaymentProvider,
+  SubscriptionEventType,
+  SubscriptionPlan,
+} from "../../prisma-client/client";
+import {
+  NormalizedPaymentEvent,
+  PaymentWebhookAdapter,
+  PaymentWebhookRequest,
+  invalidWebhook,
+  parseWebhookBody,
+} from "./payment-webhook";
+
+// DER-encoded marker extensions Apple puts on its App Store signing
+// certificates (1.2.840.113635.100.6.11.1 and 1.2.840.113635.100.6.2.1)
+const LEAF_MARKER_OID = Buffer.from("060a2a864886f76364060b01", "hex");
+const INTERMEDIATE_MARKER_OID = Buffer.from(
+  "060a2a864886f76364060201",
+  "hex"
+);
+
+export type AppStoreEnvironment =
+  | "Production"
+  | "Sandbox"
+  | "Xcode"
+  | "LocalTesting";
+
+export interface AppStoreAdapterOptions {
+  /**
+   * Bundle ID the notifications must be for
+   */
+  bundleId: string;
+
+  /**
+   * Trusted root certificates (PEM or DER), e.g. Apple Root CA - G3 from
+   * https://www.apple.com/certificateauthority/
+   */
+  rootCertificates: Array<string | Buffer>;
+
+  /**
+   * Plan per product ID
+   */
+  plans: Record<string, SubscriptionPlan>;
+
+  /**
+   * Environments accepted
+   * @default ["Production", "Sandbox"]
+   */
+  environments?: AppStoreEnvironment[];
+
+  /**
+   * Maximum age of a notification's `signedDate`. Apple retries a
+   * notification for up to three days; keep this below the de-duplication
+   * TTL so a captured notification cannot be replayed once forgotten.
+   * @default 345600 (4 days)
+   */
+  maxAgeSeconds?: number;
+
+  /**
+   * Clock used for the age and certificate validity checks; set it to the
+   * recording time to verify recorded notifications
+   * @default () => new Date()
+   */
+  now?: () => Date;
+}
+
+/**
+ * @description Maps `notificationType` or `notificationType:subtype` to an
+ * event; the more specific key wins
+ */
+const eventTypes: Record<string, SubscriptionEventType | null> = {
+  "SUBSCRIBED:INITIAL_BUY": SubscriptionEventType.ACTIVATED,
+  "SUBSCRIBED:RESUBSCRIBE": SubscriptionEventType.ACTIVATED,
+  DID_RENEW: SubscriptionEventType.RENEWED,
+  DID_FAIL_TO_RENEW: SubscriptionEventType.PAYMENT_FAILED,
+  "DID_CHANGE_RENEWAL_PREF:UPGRADE": SubscriptionEventType.UPGRADED,
+  // Downgrades apply at the next renewal, which carries the new product
+  "DID_CHANGE_RENEWAL_PREF:DOWNGRADE": null,
+  "DID_CHANGE_RENEWAL_STATUS:AUTO_RENEW_DISABLED":
+    SubscriptionEventType.CANCELED,
+  "DID_CHANGE_RENEWAL_STATUS:AUTO_RENEW_ENABLED":
+    SubscriptionEventType.ACTIVATED,
+  EXPIRED: SubscriptionEventType.EXPIRED,
+  GRACE_PERIOD_EXPIRED: SubscriptionEventType.EXPIRED,
+  REFUND: SubscriptionEventType.EXPIRED,
+  REVOKE: SubscriptionEventType.EXPIRED,
+};
+
+const toDer = (certificate: string | Buffer): Buffer =>
+  typeof certificate === "string"
+    ? Buffer.from(
+        certificate.replace(/-----[^-]+-----|\s/g, ""),
+        "base64"
+      )
+    : certificate;
+
+const isValidAt = (certificate: X509Certificate, date: Date) =>
+  new Date(certificate.validFrom) <= date &&
+  date <= new Date(certificate.validTo);
+
+const fromMilliunits = (price: number): string => (price / 1000).toFixed(2);
+
+/**
+ * @description Verifies App Store Server Notifications V2. The signed
+ * payload's certificate chain (`x5c`) must lead to a configured root, carry
+ * Apple's marker extensions and be valid now; notifications signed more
+ * than `maxAgeSeconds` ago are rejected.
+ *
+ * The original transaction ID is used as `providerId` and the
+ * `appAccountToken` as `userId`; since Apple requires a UUID there, map it
+ * with `SubscriptionService`'s `resolveUserId`. A first purchase with a
+ * free trial offer maps to TRIAL_STARTED.
+ */
+export class AppStoreAdapter implements PaymentWebhookAdapter {
+  public readonly provider = PaymentProvider.APP_STORE;
+  private readonly roots: X509Certificate[];
+
+  constructor(private readonly options: AppStoreAdapterOptions) {
+    this.roots = options.rootCertificates.map(
+      (certificate) => new X509Certificate(toDer(certificate))
+    );
+  }
+
+  public async verify(
+    request: PaymentWebhookRequest
+  ): Promise<NormalizedPaymentEvent> {
+    const body = parseWebhookBody(this.provider, request.rawBody);
+    if (typeof body?.signedPayload !== "string") {
+      throw invalidWebhook(this.provider, "Missing signedPayload");
+    }
+
+    const notification = this.verifyJws(body.signedPayload);
+    if (typeof notification?.notificationUUID !== "string") {
+      throw invalidWebhook(this.provider, "Missing notificationUUID");
+    }
+    this.verifyAge(notification.signedDate);
+    const data = notification.data ?? {};
+    const { environments = ["Production", "Sandbox"] } = this.options;
+    if (
+      data.bundleId !== undefined &&
+      data.bundleId !== this.options.bundleId
+    ) {
+      throw invalidWebhook(this.provider, "Unexpected bundle ID");
+    }
+    if (data.environment && !environments.includes(data.environment)) {
+      throw invalidWebhook(
+        this.provider,
+        `Environment ${data.environment} not accepted`
+      );
+    }
+
+    const transaction =
+      typeof data.signedTransactionInfo === "string"
+        ? this.verifyJws(data.signedTransactionInfo)
+        : undefined;
+    return this.normalize(notification, transaction);
+  }
+
+  /**
+   * @description Verifies a JWS signed with an App Store certificate chain
+   * and returns its payload
+   */
+  private verifyJws(token: string): any {
+    const decoded = jwt.decode(token, { complete: true });
+    const chain: unknown = (decoded?.header as any)?.x5c;
+    if (
+      !decoded ||
+      decoded.header.alg !== "ES256" ||
+      !Array.isArray(chain) ||
+      chain.length < 2
+    ) {
+      throw invalidWebhook(this.provider, "Malformed signed payload");
+    }
+
+    const { now = () => new Date() } = this.options;
+    const verifiedAt = now();
+
+    try {
+      const [leaf, intermediate] = chain.map(
+        (certificate: string) =>
+          new X509Certificate(Buffer.from(certificate, "base64"))
+      );
+
+      const root = this.roots.find((candidate) =>
+        intermediate.verify(candidate.publicKey)
+      );
+      const valid =
+        root !== undefined &&
+        intermediate.ca &&
+        leaf.verify(intermediate.publicKey) &&
+        leaf.raw.includes(LEAF_MARKER_OID) &&
+        intermediate.raw.includes(INTERMEDIATE_MARKER_OID) &&
+        [leaf, intermediate, root].every((certificate) =>
+          isValidAt(certificate, verifiedAt)
+        );
+      if (!valid) throw new Error("untrusted certificate chain");
+
+      jwt.verify(token, leaf.publicKey, {
+        algorithms: ["ES256"],
+        clockTimestamp: Math.floor(verifiedAt.getTime() / 1000),
+      });
+    } catch (err: any) {
+      throw invalidWebhook(
+        this.provider,
+        `Invalid signed payload: ${err?.message}`
+      );
+    }
+    return decoded.payload;
+  }
+
+  private verifyAge(signedDate: unknown): void {
+    const { maxAgeSeconds = 4 * 24 * 60 * 60, now = () => new Date() } =
+      this.options;
+    const age = (now().getTime() - Number(signedDate)) / 1000;
+    // A little clock skew is tolerated for notifications from the future
+    if (!Number.isFinite(age) || age > maxAgeSeconds || age < -300) {
+      throw invalidWebhook(this.provider, "App Store notification expired");
+    }
+  }
+
+  private normalize(
+    notification: any,
+    transaction: any | undefined
+  ): NormalizedPaymentEvent {
+    const { notificationType, subtype } = notification;
+    const key = subtype ? `${notificationType}:${subtype}` : notificationType;
+    let type =
+      key in eventTypes
+        ? eventTypes[key]
+        : eventTypes[notificationType] ?? null;
+
+    if (
+      key === "SUBSCRIBED:INITIAL_BUY" &&
+      transaction?.offerDiscountType === "FREE_TRIAL"
+    ) {
+      type = SubscriptionEventType.TRIAL_STARTED;
+    }
+
+    const environment =
+      notification.data?.environment ?? transaction?.environment;
+    const event: NormalizedPaymentEvent = {
+      provider: this.provider,
+      eventId: notification.notificationUUID,
+      providerEventType: key,
+      type,
+      providerId: transaction?.originalTransactionId ?? null,
+      occurredAt: new Date(notification.signedDate ?? Date.now()),
+      test: environment !== undefined && environment !== "Production",
+    };
+    if (!transaction) return event;
+
+    return {
+      ...event,
+      userId: transaction.appAccountToken,
+      plan: this.options.plans[transaction.productId],
+      periodStart: transaction.purchaseDate
+        ? new Date(transaction.purchaseDate)
+        : undefined,
+      periodEnd: transaction.expiresDate
+        ? new Date(transaction.expiresDate)
+        : undefined,
+      ...(type === SubscriptionEventType.TRIAL_STARTED &&
+        transaction.expiresDate && {
+          trialEnd: new Date(transaction.expiresDate),
+        }),
+      ...(typeof transaction.price === "number" &&
+        transaction.currency && {
+          amount: fromMilliunits(transaction.price),
+          currency: transaction.currency,
+        }),
+    };
+  }
+}
@@ -0,0 +1,251 @@
+import { timingSafeEqual } from "crypto";
+import jwt from "jsonwebtoken";
+import {
+  PaymentProvider,
+  SubscriptionEventType,
+  SubscriptionPlan,
+} from "../../prisma-client/client";
+import {
+  NormalizedPaymentEvent,
+  PaymentWebhookAdapter,
+  PaymentWebhookRequest,
+  headerValue,
+  invalidWebhook,
+  parseWebhookBody,
+} from "./payment-webhook";
+
+/**
+ * @description `subscriptionNotification.notificationType` values of
+ * Real-time developer notifications
+ */
+export enum GooglePlayNotificationType {
+  SUBSCRIPTION_RECOVERED = 1,
+  SUBSCRIPTION_RENEWED = 2,
+  SUBSCRIPTION_CANCELED = 3,
+  SUBSCRIPTION_PURCHASED = 4,
+  SUBSCRIPTION_ON_HOLD = 5,
+  SUBSCRIPTION_IN_GRACE_PERIOD = 6,
+  SUBSCRIPTION_RESTARTED = 7,
+  SUBSCRIPTION_PRICE_CHANGE_CONFIRMED = 8,
+  SUBSCRIPTION_DEFERRED = 9,
+  SUBSCRIPTION_PAUSED = 10,
+  SUBSCRIPTION_PAUSE_SCHEDULE_CHANGED = 11,
+  SUBSCRIPTION_REVOKED = 12,
+  SUBSCRIPTION_EXPIRED = 13,
+  SUBSCRIPTION_PENDING_PURCHASE_CANCELED = 20,
+}
+
+const eventTypes: Partial<
+  Record<GooglePlayNotificationType, SubscriptionEventType>
+> = {
+  [GooglePlayNotificationType.SUBSCRIPTION_RECOVERED]:
+    SubscriptionEventType.RENEWED,
+  [GooglePlayNotificationType.SUBSCRIPTION_RENEWED]:
+    SubscriptionEventType.RENEWED,
+  [GooglePlayNotificationType.SUBSCRIPTION_CANCELED]:
+    SubscriptionEventType.CANCELED,
+  [GooglePlayNotificationType.SUBSCRIPTION_PURCHASED]:
+    SubscriptionEventType.ACTIVATED,
+  [GooglePlayNotificationType.SUBSCRIPTION_ON_HOLD]:
+    SubscriptionEventType.PAYMENT_FAILED,
+  [GooglePlayNotificationType.SUBSCRIPTION_IN_GRACE_PERIOD]:
+    SubscriptionEventType.PAYMENT_FAILED,
+  [GooglePlayNotificationType.SUBSCRIPTION_RESTARTED]:
+    SubscriptionEventType.ACTIVATED,
+  [GooglePlayNotificationType.SUBSCRIPTION_REVOKED]:
+    SubscriptionEventType.EXPIRED,
+  [GooglePlayNotificationType.SUBSCRIPTION_EXPIRED]:
+    SubscriptionEventType.EXPIRED,
+};
+
+const GOOGLE_ISSUERS: [string, ...string[]] = [
+  "https://accounts.google.com",
+  "accounts.google.com",
+];
+
+export interface GooglePlayOidcOptions {
+  /**
+   * Audience configured on the Pub/Sub push subscription
+   */
+  audience: string;
+
+  /**
+   * Google signing certificates (PEM) by key ID, from
+   * https://www.googleapis.com/oauth2/v1/certs
+   */
+  certificates: Record<string, string>;
+
+  /**
+   * Service account the push subscription authenticates as
+   */
+  serviceAccountEmail?: string;
+}
+
+export interface GooglePlayAdapterOptions {
+  /**
+   * Application ID the notifications must be for
+   */
+  packageName: string;
+
+  /**
+   * Plan per subscription product ID
+   */
+  plans: Record<string, SubscriptionPlan>;
+
+  /**
+   * Shared secret appended to the push endpoint as `?token=`
+   */
+  verificationToken?: string;
+
+  /**
+   * Verification of the push request's OIDC token (`Authorization: Bearer`)
+   */
+  oidc?: GooglePlayOidcOptions;
+
+  /**
+   * Clock used to check token expiry
+   * @default () => new Date()
+   */
+  now?: () => Date;
+}
+
+/**
+ * @description Verifies Google Play Real-time developer notifications
+ * delivered by a Pub/Sub push subscription, authenticated by a shared
+ * `verificationToken`, an OIDC token, or both.
+ *
+ * RTDN payloads carry no price or period dates, so normalized events have
+ * no amount, and `SubscriptionService` advances the period itself on
+ * RENEWED; the purchase token is used as `providerId`. Voided subscription purchases map
+ * to EXPIRED; test notifications to `type: null`.
+ */
+export class GooglePlayAdapter implements PaymentWebhookAdapter {
+  public readonly provider = PaymentProvider.GOOGLE_PLAY;
+
+  constructor(private readonly options: GooglePlayAdapterOptions) {
+    if (!options.verificationToken && !options.oidc) {
+      throw new Error(
+        "GooglePlayAdapter requires a verificationToken or oidc options"
+      );
+    }
+  }
+
+  public async verify(
+    request: PaymentWebhookRequest
+  ): Promise<NormalizedPaymentEvent> {
+    this.verifyPushRequest(request);
+
+    const body = parseWebhookBody(this.provider, request.rawBody);
+    const message = body?.message;
+    const messageId = message?.messageId ?? message?.message_id;
+    if (typeof messageId !== "string" || typeof message?.data !== "string") {
+      throw invalidWebhook(this.provider, "Not a Pub/Sub push message");
+    }
+
+    const notification = parseWebhookBody(
+      this.provider,
+      Buffer.from(message.data, "base64")
+    );
+    if (notification?.packageName !== this.options.packageName) {
+      throw invalidWebhook(this.provider, "Unexpected package name");
+    }
+
+    return this.normalize(messageId, notification);
+  }
+
+  private verifyPushRequest(request: PaymentWebhookRequest): void {
+    const { verificationToken, oidc, now = () => new Date() } = this.options;
+
+    if (verificationToken) {
+      const token = request.query?.token;
+      const actual = Buffer.from(typeof token === "string" ? token : "");
+      const expected = Buffer.from(verificationToken);
+      if (
+        actual.length !== expected.length ||
+        !timingSafeEqual(actual, expected)
+      ) {
+        throw invalidWebhook(this.provider, "Invalid verification token");
+      }
+    }
+
+    if (oidc) {
+      const header = headerValue(request.headers, "authorization") ?? "";
+      const token = header.replace(/^Bearer\s+/i, "");
+      const kid = jwt.decode(token, { complete: true })?.header.kid;
+      const certificate = kid ? oidc.certificates[kid] : undefined;
+      if (!certificate) {
+        throw invalidWebhook(this.provider, "Unknown push token signing key");
+      }
+
+      try {
+        const claims = jwt.verify(token, certificate, {
+          algorithms: ["RS256"],
+          audience: oidc.audience,
+          issuer: GOOGLE_ISSUERS,
+          clockTimestamp: Math.floor(now().getTime() / 1000),
+        }) as jwt.JwtPayload;
+        if (
+          oidc.serviceAccountEmail &&
+          (claims.email !== oidc.serviceAccountEmail || !claims.email_verified)
+        ) {
+          throw new Error("unexpected service account");
+        }
+      } catch (err: any) {
+        throw invalidWebhook(
+          this.provider,
+          `Invalid push token: ${err?.message}`
+        );
+      }
+    }
+  }
+
+  private normalize(
+    messageId: string,
+    notification: any
+  ): NormalizedPaymentEvent {
+    const base: NormalizedPaymentEvent = {
+      provider: this.provider,
+      eventId: messageId,
+      providerEventType: notification.testNotification
+        ? "TEST_NOTIFICATION"
+        : "UNKNOWN",
+      type: null,
+      providerId: null,
+      occurredAt: new Date(
+        Number(notification.eventTimeMillis) || Date.now()
+      ),
+      test: Boolean(notification.testNotification),
+    };
+
+    const subscription = notification.subscriptionNotification;
+    if (subscription) {
+      const notificationType: GooglePlayNotificationType =
+        subscription.notificationType;
+      return {
+        ...base,
+        providerEventType:
+          GooglePlayNotificationType[notificationType] ??
+          `SUBSCRIPTION_${notificationType}`,
+        type: eventTypes[notificationType] ?? null,
+        providerId: subscription.purchaseToken ?? null,
+        plan: this.options.plans[subscription.subscriptionId],
+      };
+    }
+
+    const voided = notification.voidedPurchaseNotification;
+    if (voided) {
+      // productType 1 is a subscription, 2 a one-time product
+      return {
+        ...base,
+        providerEventType: "VOIDED_PURCHASE",
+        type: voided.productType === 1 ? SubscriptionEventType.EXPIRED : null,
+        providerId: voided.purchaseToken ?? null,
+      };
+    }
+
+    if (notification.oneTimeProductNotification) {
+      return { ...base, providerEventType: "ONE_TIME_PRODUCT" };
+    }
+    return base;
+  }
+}
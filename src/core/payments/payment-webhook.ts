@@ -0,0 +1,185 @@
+import {
+  PaymentProvider,
+  SubscriptionEventType,
+  SubscriptionPlan,
+  SubscriptionStatus,
+} from "../../prisma-client/client";
+import { ApiErrorCodes } from "../api/api-status";
+import { BadRequestError } from "../api/errors";
+import type { SubscriptionEventInput } from "../../services/subscription.service";
+
+/**
+ * @description Incoming notification as received over HTTP
+ */
+export interface PaymentWebhookRequest {
+  headers: Record<string, string | string[] | undefined>;
+  /**
+   * Body exactly as sent; signatures are computed over these bytes
+   */
+  rawBody: Buffer | string;
+  query?: Record<string, unknown>;
+}
+
+/**
+ * @description Provider notification translated to the subscription domain
+ */
+export interface NormalizedPaymentEvent {
+  provider: PaymentProvider;
+
+  /**
+   * Provider's unique ID of the notification, used for de-duplication
+   */
+  eventId: string;
+
+  /**
+   * Provider's name of the notification, e.g. `invoice.paid`
+   */
+  providerEventType: string;
+
+  /**
+   * Domain event to apply, or null if the notification needs no action
+   */
+  type: SubscriptionEventType | null;
+
+  /**
+   * External subscription ID, matching `Subscription.providerId`
+   */
+  providerId: string | null;
+
+  /**
+   * Provider's reference to the user, if it carries one: the User ID from
+   * Stripe metadata, or the App Store `appAccountToken`, which is a UUID and
+   * needs `SubscriptionService`'s `resolveUserId` to map it
+   */
+  userId?: string;
+
+  plan?: SubscriptionPlan;
+  toStatus?: SubscriptionStatus;
+  periodStart?: Date;
+  periodEnd?: Date;
+  trialEnd?: Date;
+
+  /**
+   * Amount in major units as a decimal string, e.g. "9.99"
+   */
+  amount?: string;
+  currency?: string;
+
+  occurredAt: Date;
+
+  /**
+   * Whether the notification comes from a sandbox or test environment
+   */
+  test: boolean;
+}
+
+/**
+ * @description Verifies and normalizes the notifications of one provider
+ */
+export interface PaymentWebhookAdapter {
+  readonly provider: PaymentProvider;
+
+  /**
+   * @throws BadRequestError with code INVALID_WEBHOOK if the notification
+   * is not authentic
+   */
+  verify(request: PaymentWebhookRequest): Promise<NormalizedPaymentEvent>;
+}
+
+/**
+ * @description Error for notifications that fail verification
+ */
+export const invalidWebhook = (
+  provider: PaymentProvider,
+  message: string
+): BadRequestError =>
+  new BadRequestError(message, { provider }, ApiErrorCodes.INVALID_WEBHOOK);
+
+export const headerValue = (
+  headers: PaymentWebhookRequest["headers"],
+  name: string
+): string | undefined => {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+/**
+ * @description Parses a JSON body
+ * @throws BadRequestError with code INVALID_WEBHOOK on malformed JSON
+ */
+export const parseWebhookBody = <T = any>(
+  provider: PaymentProvider,
+  rawBody: Buffer | string
+): T => {
+  try {
+    return JSON.parse(rawBody.toString());
+  } catch {
+    throw invalidWebhook(provider, "Malformed webhook body");
+  }
+};
+
+// ISO 4217 currencies without minor units, as listed by Stripe
+const ZERO_DECIMAL_CURRENCIES = [
+  "BIF",
+  "CLP",
+  "DJF",
+  "GNF",
+  "JPY",
+  "KMF",
+  "KRW",
+  "MGA",
+  "PYG",
+  "RWF",
+  "UGX",
+  "VND",
+  "VUV",
+  "XAF",
+  "XOF",
+  "XPF",
+];
+
+/**
+ * @description Converts an amount in minor units (e.g. cents) to a decimal
+ * string in major units
+ */
+export const fromMinorUnits = (amount: number, currency: string): string => {
+  if (ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase())) {
+    return String(amount);
+  }
+  const sign = amount < 0 ? "-" : "";
+  const cents = Math.abs(Math.round(amount));
+  return `${sign}${Math.floor(cents / 100)}.${String(cents % 100).padStart(
+    2,
+    "0"
+  )}`;
+};
+
+/**
+ * @description Input for `SubscriptionService.applyEvent`
+ * @returns null if the event needs no action
+ */
+export const toSubscriptionEventInput = (
+  event: NormalizedPaymentEvent,
+  userId: string
+): SubscriptionEventInput | null => {
+  if (!event.type) return null;
+  return {
+    userId,
+    type: event.type,
+    plan: event.plan,
+    toStatus: event.toStatus,
+    provider: event.provider,
+    providerId: event.providerId ?? undefined,
+    periodStart: event.periodStart,
+    periodEnd: event.periodEnd,
+    trialEnd: event.trialEnd,
+    amount: event.amount,
+    currency: event.currency,
+    occurredAt: event.occurredAt,
+    metadata: {
+      eventId: event.eventId,
+      providerEventType: event.providerEventType,
+      ...(event.test && { test: true }),
+    },
+  };
+};
@@ -0,0 +1,267 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import {
+  PaymentProvider,
+  SubscriptionEventType,
+  SubscriptionPlan,
+} from "../../prisma-client/client";
+import { comparePlans } from "../subscription/subscription-state";
+import {
+  NormalizedPaymentEvent,
+  PaymentWebhookAdapter,
+  PaymentWebhookRequest,
+  fromMinorUnits,
+  headerValue,
+  invalidWebhook,
+  parseWebhookBody,
+} from "./payment-webhook";
+
+export const STRIPE_SIGNATURE_HEADER = "stripe-signature";
+
+export interface StripeAdapterOptions {
+  /**
+   * Endpoint signing secrets (`whsec_...`); several during a rotation
+   */
+  signingSecrets: string | string[];
+
+  /**
+   * Plan per Stripe price ID or lookup key
+   */
+  plans: Record<string, SubscriptionPlan>;
+
+  /**
+   * Maximum age of the signature timestamp
+   * @default 300
+   */
+  toleranceSeconds?: number;
+
+  /**
+   * Metadata key holding the user ID on subscriptions
+   * @default "userId"
+   */
+  userIdMetadataKey?: string;
+
+  /**
+   * Clock used for the timestamp check
+   * @default () => new Date()
+   */
+  now?: () => Date;
+}
+
+/**
+ * @description Value of the `Stripe-Signature` header for a body, as Stripe
+ * computes it. Useful to sign fixtures in tests.
+ */
+export const stripeSignatureHeader = (
+  rawBody: Buffer | string,
+  secret: string,
+  timestamp: number
+): string => {
+  const signature = createHmac("sha256", secret)
+    .update(`${timestamp}.${rawBody.toString()}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+};
+
+const fromEpochSeconds = (value: unknown): Date | undefined =>
+  typeof value === "number" ? new Date(value * 1000) : undefined;
+
+/**
+ * @description Verifies Stripe webhooks (`Stripe-Signature`) and maps
+ * subscription and invoice events:
+ *
+ * | Stripe event                                   | Event          |
+ * | ---------------------------------------------- | -------------- |
+ * | `customer.subscription.created` (trialing)     | TRIAL_STARTED  |
+ * | `invoice.paid` (first invoice)                 | ACTIVATED      |
+ * | `invoice.paid` (renewal, incl. end of trial)   | RENEWED        |
+ * | `invoice.payment_failed`                       | PAYMENT_FAILED |
+ * | `customer.subscription.updated` (price change) | UP/DOWNGRADED  |
+ * | `customer.subscription.updated` (cancel set)   | CANCELED       |
+ * | `customer.subscription.updated` (cancel unset) | ACTIVATED      |
+ * | `customer.subscription.deleted`                | EXPIRED        |
+ *
+ * Other events normalize to `type: null`.
+ */
+export class StripeAdapter implements PaymentWebhookAdapter {
+  public readonly provider = PaymentProvider.STRIPE;
+
+  constructor(private readonly options: StripeAdapterOptions) {}
+
+  public async verify(
+    request: PaymentWebhookRequest
+  ): Promise<NormalizedPaymentEvent> {
+    this.verifySignature(request);
+    const event = parseWebhookBody(this.provider, request.rawBody);
+    if (typeof event?.id !== "string" || typeof event?.type !== "string") {
+      throw invalidWebhook(this.provider, "Not a Stripe event");
+    }
+    return this.normalize(event);
+  }
+
+  private verifySignature(request: PaymentWebhookRequest): void {
+    const header = headerValue(request.headers, STRIPE_SIGNATURE_HEADER);
+    if (!header) {
+      throw invalidWebhook(this.provider, "Missing Stripe-Signature header");
+    }
+
+    let timestamp = NaN;
+    const signatures: string[] = [];
+    header.split(",").forEach((part) => {
+      const [key, value] = part.split("=");
+      if (key === "t") timestamp = parseInt(value, 10);
+      if (key === "v1" && value) signatures.push(value);
+    });
+
+    const { toleranceSeconds = 300, now = () => new Date() } = this.options;
+    if (
+      !Number.isFinite(timestamp) ||
+      Math.abs(now().getTime() / 1000 - timestamp) > toleranceSeconds
+    ) {
+      throw invalidWebhook(
+        this.provider,
+        "Stripe signature timestamp expired"
+      );
+    }
+
+    const secrets = ([] as string[]).concat(this.options.signingSecrets);
+    const valid = secrets.some((secret) => {
+      const expected = Buffer.from(
+        stripeSignatureHeader(request.rawBody, secret, timestamp).split(
+          "v1="
+        )[1]
+      );
+      return signatures.some((signature) => {
+        const actual = Buffer.from(signature);
+        return (
+          actual.length === expected.length && timingSafeEqual(actual, expected)
+        );
+      });
+    });
+    if (!valid) {
+      throw invalidWebhook(this.provider, "Invalid Stripe signature");
+    }
+  }
+
+  private planOf(price: any): SubscriptionPlan | undefined {
+    if (!price) return undefined;
+    return this.options.plans[price.id] ?? this.options.plans[price.lookup_key];
+  }
+
+  private normalize(event: any): NormalizedPaymentEvent {
+    const object = event.data?.object ?? {};
+    const previous = event.data?.previous_attributes ?? {};
+    const base: NormalizedPaymentEvent = {
+      provider: this.provider,
+      eventId: event.id,
+      providerEventType: event.type,
+      type: null,
+      providerId: null,
+      occurredAt: fromEpochSeconds(event.created) ?? new Date(),
+      test: event.livemode === false,
+    };
+
+    const { userIdMetadataKey = "userId" } = this.options;
+    if (event.type.startsWith("customer.subscription.")) {
+      const item = object.items?.data?.[0];
+      const subscription: NormalizedPaymentEvent = {
+        ...base,
+        providerId: object.id ?? null,
+        userId: object.metadata?.[userIdMetadataKey],
+        plan: this.planOf(item?.price),
+        periodStart: fromEpochSeconds(
+          object.current_period_start ?? item?.current_period_start
+        ),
+        periodEnd: fromEpochSeconds(
+          object.current_period_end ?? item?.current_period_end
+        ),
+        trialEnd: fromEpochSeconds(object.trial_end),
+      };
+
+      switch (event.type) {
+        case "customer.subscription.created":
+          return object.status === "trialing"
+            ? { ...subscription, type: SubscriptionEventType.TRIAL_STARTED }
+            : subscription;
+        case "customer.subscription.deleted":
+          return { ...subscription, type: SubscriptionEventType.EXPIRED };
+        case "customer.subscription.updated":
+          return { ...subscription, type: this.updateType(object, previous) };
+        default:
+          return subscription;
+      }
+    }
+
+    if (
+      event.type === "invoice.paid" ||
+      event.type === "invoice.payment_failed"
+    ) {
+      const line = object.lines?.data?.[0];
+      const details =
+        object.subscription_details ??
+        object.parent?.subscription_details ??
+        {};
+      const subscriptionId =
+        typeof object.subscription === "string"
+          ? object.subscription
+          : object.subscription?.id ?? details.subscription ?? null;
+      if (!subscriptionId) return base;
+
+      const paid = event.type === "invoice.paid";
+      const currency = String(object.currency ?? "").toUpperCase();
+      const amount = paid ? object.amount_paid : object.amount_due;
+      return {
+        ...base,
+        providerId: subscriptionId,
+        userId: details.metadata?.[userIdMetadataKey],
+        plan: this.planOf(
+          line?.price ?? { id: line?.pricing?.price_details?.price }
+        ),
+        periodStart: fromEpochSeconds(line?.period?.start),
+        periodEnd: fromEpochSeconds(line?.period?.end),
+        ...(currency &&
+          typeof amount === "number" && {
+            amount: fromMinorUnits(amount, currency),
+            currency,
+          }),
+        type: this.invoiceType(paid, object.billing_reason, amount),
+      };
+    }
+
+    return base;
+  }
+
+  private invoiceType(
+    paid: boolean,
+    billingReason: string | undefined,
+    amount: unknown
+  ): SubscriptionEventType | null {
+    if (!paid) return SubscriptionEventType.PAYMENT_FAILED;
+    if (billingReason !== "subscription_create") {
+      return SubscriptionEventType.RENEWED;
+    }
+    // The first invoice of a trial is free; the trial is reported by
+    // `customer.subscription.created`
+    return amount === 0 ? null : SubscriptionEventType.ACTIVATED;
+  }
+
+  private updateType(
+    subscription: any,
+    previous: any
+  ): SubscriptionEventType | null {
+    if (previous.items) {
+      const from = this.planOf(previous.items.data?.[0]?.price);
+      const to = this.planOf(subscription.items?.data?.[0]?.price);
+      if (from && to && from !== to) {
+        return comparePlans(to, from) > 0
+          ? SubscriptionEventType.UPGRADED
+          : SubscriptionEventType.DOWNGRADED;
+      }
+    }
+    if ("cancel_at_period_end" in previous) {
+      return subscription.cancel_at_period_end
+        ? SubscriptionEventType.CANCELED
+        : SubscriptionEventType.ACTIVATED;
+    }
+    return null;
+  }
+}
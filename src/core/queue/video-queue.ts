@@ -0,0 +1,627 @@
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+import {
+  Prisma,
+  PrismaClient,
+  SubscriptionPlan,
+  VideoJob,
+  VideoStatus,
+} from "../../prisma-client/client";
+import { DbClient } from "../db/dbClient";
+import { NotFoundError } from "../api/errors";
+import { withTransaction } from "../db/transaction";
+import {
+  GracePeriodOptions,
+  resolveEffectivePlan,
+} from "../subscription/plan-limits";
+import type { TokenLedgerService } from "../../services/token-ledger.service";
+import { logger } from "../../utils/logger.util";
+
+export type { VideoJob };
+
+/**
+ * @description Output of a successful job, written to the `Video`
+ */
+export interface VideoJobResult {
+  videoUrl?: string;
+  thumbnailUrl?: string;
+  captionUrl?: string;
+  /**
+   * Tokens consumed; defaults to the reserved amount when a ledger is set
+   */
+  tokensUsed?: number;
+}
+
+export interface VideoJobContext {
+  /**
+   * Aborted when the worker loses the job's lease, e.g. because heartbeats
+   * failed until the visibility timeout expired
+   */
+  signal: AbortSignal;
+  /**
+   * Extends the lease now; the worker also does this periodically
+   */
+  heartbeat: () => Promise<boolean>;
+}
+
+export type VideoJobHandler = (
+  job: VideoJob,
+  context: VideoJobContext
+) => Promise<VideoJobResult | void>;
+
+export type VideoJobFailure = "RETRIED" | "DEAD_LETTERED" | "LEASE_LOST";
+
+export interface VideoQueueRetryOptions {
+  /**
+   * @default 5000
+   */
+  minDelayMs?: number;
+
+  /**
+   * @default 600000 (10 minutes)
+   */
+  maxDelayMs?: number;
+}
+
+export interface VideoQueueOptions {
+  /**
+   * Prisma client to use
+   * @default DbClient.getInstance()
+   */
+  client?: PrismaClient;
+
+  /**
+   * How long a claimed job stays invisible to other workers without a
+   * heartbeat
+   * @default 60000
+   */
+  visibilityTimeoutMs?: number;
+
+  /**
+   * Attempts before a job is dead-lettered
+   * @default 5
+   */
+  maxAttempts?: number;
+
+  retry?: VideoQueueRetryOptions;
+
+  /**
+   * Priority per plan of the video's owner; higher runs first
+   * @default { FREE: 0, PREMIUM_MONTHLY: 10, PREMIUM_YEARLY: 10 }
+   */
+  planPriorities?: Record<SubscriptionPlan, number>;
+
+  grace?: GracePeriodOptions;
+
+  /**
+   * Ledger settling the video's token reservation: committed on completion,
+   * refunded when the job is dead-lettered
+   */
+  tokenLedger?: TokenLedgerService;
+}
+
+export interface EnqueueVideoOptions {
+  /**
+   * Overrides the plan-based priority
+   */
+  priority?: number;
+  delayMs?: number;
+  maxAttempts?: number;
+}
+
+export interface VideoWorkerOptions {
+  /**
+   * Identifies the worker in `lockedBy`
+   * @default `${hostname}:${pid}:${random}`
+   */
+  workerId?: string;
+
+  /**
+   * Jobs processed at the same time
+   * @default 1
+   */
+  concurrency?: number;
+
+  /**
+   * Wait between polls when the queue is empty
+   * @default 1000
+   */
+  pollIntervalMs?: number;
+}
+
+const defaultPlanPriorities: Record<SubscriptionPlan, number> = {
+  FREE: 0,
+  PREMIUM_MONTHLY: 10,
+  PREMIUM_YEARLY: 10,
+};
+
+const errorMessage = (error: unknown): string =>
+  (error instanceof Error ? error.message : String(error)).slice(0, 2000);
+
+/**
+ * @description Video processing queue stored in Postgres. Workers claim
+ * jobs with `FOR UPDATE SKIP LOCKED`, so any number of them can poll the
+ * same table without an external broker. A claim is a lease: jobs whose
+ * worker stops sending heartbeats become visible again after
+ * `visibilityTimeoutMs`. Failed jobs are retried with exponential backoff
+ * and dead-lettered to FAILED after `maxAttempts`.
+ *
+ * Jobs are ordered by priority, then by age; premium jobs therefore always
+ * run before free ones that are ready at the same time.
+ *
+ * @example
+ * const queue = new VideoJobQueue({ tokenLedger });
+ * await queue.enqueue(video.id);
+ *
+ * const worker = queue.process(async (job, { signal }) => {
+ *   const urls = await renderVideo(job.videoId, signal);
+ *   return { videoUrl: urls.video, thumbnailUrl: urls.thumbnail };
+ * }, { concurrency: 2 });
+ * shutdown.onShutdown("video worker", () => worker.stop());
+ */
+export class VideoJobQueue {
+  constructor(private readonly options: VideoQueueOptions = {}) {}
+
+  private get client(): PrismaClient {
+    return this.options.client ?? DbClient.getInstance();
+  }
+
+  public get visibilityTimeoutMs(): number {
+    return this.options.visibilityTimeoutMs ?? 60000;
+  }
+
+  /**
+   * @description Adds a job for the video and marks it QUEUED. A video has
+   * at most one job; enqueuing it again returns the existing one.
+   */
+  public async enqueue(
+    videoId: string,
+    options: EnqueueVideoOptions = {}
+  ): Promise<VideoJob> {
+    const {
+      delayMs = 0,
+      maxAttempts = this.options.maxAttempts ?? 5,
+    } = options;
+    const priority = options.priority ?? (await this.priorityOf(videoId));
+
+    return withTransaction(
+      async (tx) => {
+        const [created] = await tx.$queryRaw<VideoJob[]>`
+          INSERT INTO video_jobs (
+            id, "videoId", priority, "maxAttempts", "availableAt",
+            "createdAt", "updatedAt"
+          )
+          VALUES (
+            ${randomUUID()}, ${videoId}, ${priority}, ${maxAttempts},
+            now() + ${delayMs} * interval '1 millisecond', now(), now()
+          )
+          ON CONFLICT ("videoId") DO NOTHING
+          RETURNING *
+        `;
+        if (!created) {
+          return tx.videoJob.findUniqueOrThrow({ where: { videoId } });
+        }
+
+        await tx.video.update({
+          where: { id: videoId },
+          data: { status: VideoStatus.QUEUED, errorMessage: null },
+        });
+        return created;
+      },
+      { client: this.client }
+    );
+  }
+
+  /**
+   * @description Leases up to `limit` ready jobs to the worker and marks
+   * their videos PROCESSING. Jobs locked by concurrent claims are skipped
+   * rather than waited for.
+   */
+  public async claim(workerId: string, limit: number = 1): Promise<VideoJob[]> {
+    return withTransaction(
+      async (tx) => {
+        const jobs = await tx.$queryRaw<VideoJob[]>`
+          WITH next AS (
+            SELECT id FROM video_jobs
+            WHERE "availableAt" <= now()
+              AND ("lockedUntil" IS NULL OR "lockedUntil" < now())
+              AND attempts < "maxAttempts"
+            ORDER BY priority DESC, "availableAt" ASC
+            LIMIT ${limit}
+            FOR UPDATE SKIP LOCKED
+          )
+          UPDATE video_jobs j
+          SET "lockedBy" = ${workerId},
+              "lockedUntil" = now() + ${this.visibilityTimeoutMs} * interval '1 millisecond',
+              attempts = j.attempts + 1,
+              "updatedAt" = now()
+          FROM next
+          WHERE j.id = next.id
+          RETURNING j.*
+        `;
+        if (jobs.length > 0) {
+          await tx.video.updateMany({
+            where: { id: { in: jobs.map((job) => job.videoId) } },
+            data: { status: VideoStatus.PROCESSING },
+          });
+        }
+        return jobs;
+      },
+      { client: this.client }
+    );
+  }
+
+  /**
+   * @description Extends the job's lease
+   * @returns false if the worker no longer holds the lease
+   */
+  public async heartbeat(job: VideoJob, workerId: string): Promise<boolean> {
+    const updated = await this.client.$executeRaw`
+      UPDATE video_jobs
+      SET "lockedUntil" = now() + ${this.visibilityTimeoutMs} * interval '1 millisecond',
+          "updatedAt" = now()
+      WHERE id = ${job.id} AND "lockedBy" = ${workerId}
+        AND attempts = ${job.attempts}
+    `;
+    return updated > 0;
+  }
+
+  /**
+   * @description Removes the job, marks the video COMPLETED and commits its
+   * tokens
+   * @returns false if the worker no longer holds the lease
+   */
+  public async complete(
+    job: VideoJob,
+    workerId: string,
+    result: VideoJobResult = {}
+  ): Promise<boolean> {
+    const { tokensUsed, ...urls } = result;
+    const completed = await withTransaction(
+      async (tx) => {
+        if (!(await this.release(tx, job, workerId))) return false;
+        await tx.video.update({
+          where: { id: job.videoId },
+          data: {
+            ...urls,
+            status: VideoStatus.COMPLETED,
+            errorMessage: null,
+            ...(!this.options.tokenLedger &&
+              tokensUsed !== undefined && { tokensUsed }),
+          },
+        });
+        return true;
+      },
+      { client: this.client }
+    );
+
+    if (completed) {
+      await this.settleTokens(job.videoId, () =>
+        this.options.tokenLedger!.commit(job.videoId, tokensUsed)
+      );
+    }
+    return completed;
+  }
+
+  /**
+   * @description Records a failed attempt. The job is retried after a
+   * backoff, or dead-lettered to FAILED with the error once its attempts
+   * are used up.
+   */
+  public async fail(
+    job: VideoJob,
+    workerId: string,
+    error: unknown
+  ): Promise<VideoJobFailure> {
+    const message = errorMessage(error);
+
+    if (job.attempts >= job.maxAttempts) {
+      const dead = await this.deadLetter(job, message, workerId);
+      return dead ? "DEAD_LETTERED" : "LEASE_LOST";
+    }
+
+    const delayMs = this.retryDelay(job.attempts);
+    const retried = await withTransaction(
+      async (tx) => {
+        const updated = await tx.$executeRaw`
+          UPDATE video_jobs
+          SET "lockedBy" = NULL,
+              "lockedUntil" = NULL,
+              "availableAt" = now() + ${delayMs} * interval '1 millisecond',
+              "lastError" = ${message},
+              "updatedAt" = now()
+          WHERE id = ${job.id} AND "lockedBy" = ${workerId}
+            AND attempts = ${job.attempts}
+        `;
+        if (updated === 0) return false;
+        await tx.video.update({
+          where: { id: job.videoId },
+          data: { status: VideoStatus.QUEUED },
+        });
+        return true;
+      },
+      { client: this.client }
+    );
+
+    if (!retried) return "LEASE_LOST";
+    logger.warn(
+      `Video job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${delayMs}ms: ${message}`
+    );
+    return "RETRIED";
+  }
+
+  /**
+   * @description Re-queues jobs whose lease expired, e.g. because their
+   * worker crashed, and dead-letters those without attempts left
+   * @returns Number of jobs re-queued and dead-lettered
+   */
+  public async requeueExpired(
+    limit: number = 100
+  ): Promise<{ requeued: number; deadLettered: number }> {
+    const { expired, requeued } = await withTransaction(
+      async (tx) => {
+        const jobs = await tx.$queryRaw<VideoJob[]>`
+          SELECT * FROM video_jobs
+          WHERE "lockedUntil" < now()
+          ORDER BY "lockedUntil" ASC
+          LIMIT ${limit}
+          FOR UPDATE SKIP LOCKED
+        `;
+        const retry = jobs.filter((job) => job.attempts < job.maxAttempts);
+        if (retry.length > 0) {
+          const ids = retry.map((job) => job.id);
+          await tx.$executeRaw`
+            UPDATE video_jobs
+            SET "lockedBy" = NULL,
+                "lockedUntil" = NULL,
+                "lastError" = 'Visibility timeout expired',
+                "updatedAt" = now()
+            WHERE id IN (${Prisma.join(ids)})
+          `;
+          await tx.video.updateMany({
+            where: { id: { in: retry.map((job) => job.videoId) } },
+            data: { status: VideoStatus.QUEUED },
+          });
+        }
+        return { expired: jobs, requeued: retry.length };
+      },
+      { client: this.client }
+    );
+
+    let deadLettered = 0;
+    for (const job of expired) {
+      if (job.attempts < job.maxAttempts) continue;
+      if (await this.deadLetter(job, "Visibility timeout expired")) {
+        deadLettered++;
+      }
+    }
+    if (expired.length > 0) {
+      logger.warn(
+        `Video queue: ${expired.length} job lease(s) expired, ${requeued} re-queued, ${deadLettered} dead-lettered`
+      );
+    }
+    return { requeued, deadLettered };
+  }
+
+  /**
+   * @description Starts a worker polling this queue
+   */
+  public process(
+    handler: VideoJobHandler,
+    options: VideoWorkerOptions = {}
+  ): VideoJobWorker {
+    return new VideoJobWorker(this, handler, options);
+  }
+
+  private async priorityOf(videoId: string): Promise<number> {
+    const video = await this.client.video.findUnique({
+      where: { id: videoId },
+      select: {
+        user: {
+          select: {
+            subscription: {
+              select: {
+                plan: true,
+                status: true,
+                currentPeriodEnd: true,
+                trialEnd: true,
+                cancelAtPeriodEnd: true,
+              },
+            },
+          },
+        },
+      },
+    });
+    if (!video) {
+      throw new NotFoundError("Video not found");
+    }
+
+    const { plan } = resolveEffectivePlan(
+      video.user.subscription,
+      this.options.grace
+    );
+    return (this.options.planPriorities ?? defaultPlanPriorities)[plan];
+  }
+
+  private retryDelay(attempt: number): number {
+    const { minDelayMs = 5000, maxDelayMs = 600000 } = this.options.retry ?? {};
+    const base = Math.min(maxDelayMs, minDelayMs * 2 ** (attempt - 1));
+    return Math.round(base * (0.5 + Math.random()));
+  }
+
+  /**
+   * @description Deletes the job if the worker still holds it; without a
+   * worker, only if its lease has expired
+   */
+  private async release(
+    tx: Prisma.TransactionClient,
+    job: VideoJob,
+    workerId?: string
+  ): Promise<boolean> {
+    const deleted = workerId
+      ? await tx.$executeRaw`
+          DELETE FROM video_jobs
+          WHERE id = ${job.id} AND "lockedBy" = ${workerId}
+            AND attempts = ${job.attempts}
+        `
+      : await tx.$executeRaw`
+          DELETE FROM video_jobs
+          WHERE id = ${job.id} AND attempts = ${job.attempts}
+            AND "lockedUntil" < now()
+        `;
+    return deleted > 0;
+  }
+
+  private async deadLetter(
+    job: VideoJob,
+    message: string,
+    workerId?: string
+  ): Promise<boolean> {
+    const released = await withTransaction(
+      async (tx) => {
+        if (!(await this.release(tx, job, workerId))) return false;
+        await tx.video.update({
+          where: { id: job.videoId },
+          data: { status: VideoStatus.FAILED, errorMessage: message },
+        });
+        return true;
+      },
+      { client: this.client }
+    );
+    if (!released) return false;
+
+    logger.error(
+      `Video job ${job.id} dead-lettered after ${job.attempts} attempt(s): ${message}`
+    );
+    await this.settleTokens(job.videoId, () =>
+      this.options.tokenLedger!.refund(job.videoId, message)
+    );
+    return true;
+  }
+
+  /**
+   * @description Runs a ledger settlement. Failures are logged rather than
+   * thrown: the video's state is already final.
+   */
+  private async settleTokens(
+    videoId: string,
+    settle: () => Promise<unknown>
+  ): Promise<void> {
+    if (!this.options.tokenLedger) return;
+    try {
+      await settle();
+    } catch (err) {
+      if (err instanceof NotFoundError) return;
+      logger.error(`Video queue: token settlement failed for ${videoId}`, err);
+    }
+  }
+}
+
+/**
+ * @description Polls a `VideoJobQueue` and runs jobs with heartbeats.
+ * Created by `VideoJobQueue.process`.
+ */
+export class VideoJobWorker {
+  public readonly workerId: string;
+  private running = true;
+  private readonly active: Map<string, Promise<void>> = new Map();
+  private wake?: () => void;
+  private readonly loopPromise: Promise<void>;
+
+  constructor(
+    private readonly queue: VideoJobQueue,
+    private readonly handler: VideoJobHandler,
+    private readonly options: VideoWorkerOptions = {}
+  ) {
+    this.workerId =
+      options.workerId ??
+      `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+    this.loopPromise = this.loop();
+  }
+
+  public get activeJobs(): number {
+    return this.active.size;
+  }
+
+  /**
+   * @description Stops claiming jobs and waits for the running ones. Jobs
+   * cut off by a shutdown deadline are re-queued once their lease expires.
+   */
+  public async stop(): Promise<void> {
+    this.running = false;
+    this.wake?.();
+    await this.loopPromise;
+    await Promise.all(Array.from(this.active.values()));
+  }
+
+  private async loop(): Promise<void> {
+    const { concurrency = 1, pollIntervalMs = 1000 } = this.options;
+
+    while (this.running) {
+      let claimed = 0;
+      const free = concurrency - this.active.size;
+      try {
+        if (free > 0) {
+          await this.queue.requeueExpired();
+          const jobs = await this.queue.claim(this.workerId, free);
+          claimed = jobs.length;
+          jobs.forEach((job) => this.active.set(job.id, this.run(job)));
+        }
+      } catch (err) {
+        logger.error("Video queue: poll failed", err);
+      }
+
+      // Poll again at once while jobs keep coming; otherwise wait for the
+      // interval or a free slot
+      if (claimed > 0 && claimed === free) continue;
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, pollIntervalMs);
+        this.wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this.wake = undefined;
+    }
+  }
+
+  private async run(job: VideoJob): Promise<void> {
+    const controller = new AbortController();
+    const heartbeat = async () => {
+      const held = await this.queue
+        .heartbeat(job, this.workerId)
+        .catch(() => true);
+      if (!held && !controller.signal.aborted) {
+        logger.warn(`Video job ${job.id}: lease lost, aborting`);
+        controller.abort();
+      }
+      return held;
+    };
+    const timer = setInterval(
+      heartbeat,
+      Math.max(1000, Math.floor(this.queue.visibilityTimeoutMs / 3))
+    );
+
+    try {
+      const result = await this.handler(job, {
+        signal: controller.signal,
+        heartbeat,
+      });
+      if (!controller.signal.aborted) {
+        await this.queue.complete(job, this.workerId, result ?? {});
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        await this.queue
+          .fail(job, this.workerId, err)
+          .catch((failErr) =>
+            logger.error(`Video job ${job.id}: could not record failure`, failErr)
+          );
+      }
+    } finally {
+      clearInterval(timer);
+      this.active.delete(job.id);
+      this.wake?.();
+    }
+  }
+}
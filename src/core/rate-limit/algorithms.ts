@@ -0,0 +1,117 @@
+import { RateLimitStore } from "./rate-limit-store";
+
+export type RateLimitAlgorithmName =
+  | "fixed-window"
+  | "sliding-window"
+  | "token-bucket";
+
+/**
+ * @description Outcome of one rate limit check
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetTime: number;
+  /**
+   * Hits counted towards the limit, including this one
+   */
+  hits: number;
+}
+
+/**
+ * @description Strategy deciding whether a request for `key` is allowed
+ */
+export type RateLimitAlgorithm = (
+  store: RateLimitStore,
+  key: string,
+  max: number,
+  windowMs: number
+) => Promise<RateLimitResult>;
+
+/**
+ * @description Counts hits per fixed window. Cheap, but a client can spend
+ * the whole limit at the end of one window and again at the start of the next.
+ */
+export const fixedWindow: RateLimitAlgorithm = async (
+  store,
+  key,
+  max,
+  windowMs
+) => {
+  const { totalHits, resetTime } = await store.increment(key, windowMs);
+  return {
+    allowed: totalHits <= max,
+    limit: max,
+    remaining: Math.max(0, max - totalHits),
+    resetTime,
+    hits: totalHits,
+  };
+};
+
+/**
+ * @description Sliding window counter. The previous window's count is
+ * weighted by how much of it still overlaps the sliding window, which caps
+ * bursts at window boundaries at roughly `max`.
+ */
+export const slidingWindow: RateLimitAlgorithm = async (
+  store,
+  key,
+  max,
+  windowMs
+) => {
+  const now = Date.now();
+  const windowIndex = Math.floor(now / windowMs);
+  const windowStart = windowIndex * windowMs;
+
+  // Keep each window around long enough to be read as "previous"
+  const [current, previous] = await Promise.all([
+    store.increment(`${key}:${windowIndex}`, windowStart + 2 * windowMs - now),
+    store.get(`${key}:${windowIndex - 1}`),
+  ]);
+
+  const overlap = 1 - (now - windowStart) / windowMs;
+  const weighted = Math.floor((previous?.totalHits ?? 0) * overlap);
+  const hits = current.totalHits + weighted;
+
+  return {
+    allowed: hits <= max,
+    limit: max,
+    remaining: Math.max(0, max - hits),
+    resetTime: windowStart + windowMs,
+    hits,
+  };
+};
+
+/**
+ * @description Token bucket holding `max` tokens, refilled evenly so that a
+ * full bucket is restored every `windowMs`. Allows short bursts up to `max`
+ * while enforcing the average rate.
+ */
+export const tokenBucket: RateLimitAlgorithm = async (
+  store,
+  key,
+  max,
+  windowMs
+) => {
+  const { allowed, remaining, resetTime } = await store.takeToken(key, {
+    capacity: max,
+    refillPerMs: max / windowMs,
+  });
+  return {
+    allowed,
+    limit: max,
+    remaining,
+    resetTime,
+    hits: max - remaining,
+  };
+};
+
+export const rateLimitAlgorithms: Record<
+  RateLimitAlgorithmName,
+  RateLimitAlgorithm
+> = {
+  "fixed-window": fixedWindow,
+  "sliding-window": slidingWindow,
+  "token-bucket": tokenBucket,
+};
@@ -0,0 +1,112 @@
+import {
+  RateLimitCounter,
+  RateLimitStore,
+  TokenBucketConfig,
+  TokenBucketResult,
+  tokenBucketResetTime,
+} from "./rate-limit-store";
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+  expiresAt: number;
+}
+
+export interface MemoryStoreOptions {
+  /**
+   * Interval between sweeps of expired keys in milliseconds
+   * @default 60000 (1 minute)
+   */
+  cleanupIntervalMs?: number;
+}
+
+/**
+ * @description In-process rate limit store. Counts are local to one replica,
+ * so use a shared store when a service runs more than one instance.
+ */
+export class MemoryStore implements RateLimitStore {
+  private counters: Map<string, RateLimitCounter> = new Map();
+  private buckets: Map<string, BucketState> = new Map();
+  private readonly cleanupTimer: NodeJS.Timeout;
+
+  constructor(options: MemoryStoreOptions = {}) {
+    const { cleanupIntervalMs = 60000 } = options;
+
+    // A single sweep timer instead of one timeout per key
+    this.cleanupTimer = setInterval(() => this.sweep(), cleanupIntervalMs);
+    this.cleanupTimer.unref?.();
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now();
+    const current = this.counters.get(key);
+
+    if (!current || current.resetTime <= now) {
+      const counter = { totalHits: 1, resetTime: now + windowMs };
+      this.counters.set(key, counter);
+      return { ...counter };
+    }
+
+    current.totalHits += 1;
+    return { ...current };
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const current = this.counters.get(key);
+    if (!current || current.resetTime <= Date.now()) return null;
+    return { ...current };
+  }
+
+  async decrement(key: string): Promise<void> {
+    const current = this.counters.get(key);
+    if (current && current.resetTime > Date.now() && current.totalHits > 0) {
+      current.totalHits -= 1;
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+    this.buckets.delete(key);
+  }
+
+  async takeToken(
+    key: string,
+    bucket: TokenBucketConfig
+  ): Promise<TokenBucketResult> {
+    const now = Date.now();
+    const state = this.buckets.get(key);
+
+    let tokens = bucket.capacity;
+    if (state && state.expiresAt > now) {
+      const elapsed = now - state.updatedAt;
+      tokens = Math.min(
+        bucket.capacity,
+        state.tokens + elapsed * bucket.refillPerMs
+      );
+    }
+
+    const allowed = tokens >= 1;
+    if (allowed) tokens -= 1;
+
+    const resetTime = tokenBucketResetTime(tokens, bucket, now);
+    this.buckets.set(key, { tokens, updatedAt: now, expiresAt: resetTime });
+
+    return { allowed, remaining: Math.floor(tokens), resetTime };
+  }
+
+  async shutdown(): Promise<void> {
+    clearInterval(this.cleanupTimer);
+    this.counters.clear();
+    this.buckets.clear();
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    this.counters.forEach((counter, key) => {
+      if (counter.resetTime <= now) this.counters.delete(key);
+    });
+    this.buckets.forEach((state, key) => {
+      if (state.expiresAt <= now) this.buckets.delete(key);
+    });
+  }
+}
@@ -0,0 +1,154 @@
+import { PrismaClient } from "../../prisma-client/client";
+import { DbClient } from "../db/dbClient";
+import {
+  RateLimitCounter,
+  RateLimitStore,
+  TokenBucketConfig,
+  TokenBucketResult,
+  tokenBucketResetTime,
+} from "./rate-limit-store";
+
+export interface PostgresStoreOptions {
+  /**
+   * Prisma client to use
+   * @default DbClient.getInstance()
+   */
+  client?: PrismaClient;
+
+  /**
+   * Interval between deletes of expired rows in milliseconds, 0 to disable
+   * @default 300000 (5 minutes)
+   */
+  cleanupIntervalMs?: number;
+}
+
+interface CounterRow {
+  hits: number;
+  expiresAt: Date;
+}
+
+interface BucketRow {
+  tokens: number | null;
+  updatedAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * @description Rate limit store backed by the `rate_limits` table, shared by
+ * every replica that talks to the same database. Expiry is computed with the
+ * database clock so replicas with drifting clocks still agree on windows.
+ */
+export class PostgresStore implements RateLimitStore {
+  private readonly client: PrismaClient;
+  private readonly cleanupTimer?: NodeJS.Timeout;
+
+  constructor(options: PostgresStoreOptions = {}) {
+    const { client, cleanupIntervalMs = 5 * 60 * 1000 } = options;
+    this.client = client ?? DbClient.getInstance();
+
+    if (cleanupIntervalMs > 0) {
+      this.cleanupTimer = setInterval(() => {
+        this.deleteExpired().catch(() => undefined);
+      }, cleanupIntervalMs);
+      this.cleanupTimer.unref?.();
+    }
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const rows = await this.client.$queryRaw<CounterRow[]>`
+      INSERT INTO "rate_limits" ("key", "hits", "expiresAt", "updatedAt")
+      VALUES (${key}, 1, now() + ${windowMs} * interval '1 millisecond', now())
+      ON CONFLICT ("key") DO UPDATE SET
+        "hits" = CASE
+          WHEN "rate_limits"."expiresAt" <= now() THEN 1
+          ELSE "rate_limits"."hits" + 1
+        END,
+        "expiresAt" = CASE
+          WHEN "rate_limits"."expiresAt" <= now() THEN EXCLUDED."expiresAt"
+          ELSE "rate_limits"."expiresAt"
+        END,
+        "updatedAt" = now()
+      RETURNING "hits", "expiresAt"`;
+
+    return this.toCounter(rows[0]);
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const rows = await this.client.$queryRaw<CounterRow[]>`
+      SELECT "hits", "expiresAt" FROM "rate_limits"
+      WHERE "key" = ${key} AND "expiresAt" > now()`;
+
+    return rows.length > 0 ? this.toCounter(rows[0]) : null;
+  }
+
+  async decrement(key: string): Promise<void> {
+    await this.client.$executeRaw`
+      UPDATE "rate_limits" SET "hits" = "hits" - 1, "updatedAt" = now()
+      WHERE "key" = ${key} AND "expiresAt" > now() AND "hits" > 0`;
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client.rateLimit.deleteMany({ where: { key } });
+  }
+
+  async takeToken(
+    key: string,
+    bucket: TokenBucketConfig
+  ): Promise<TokenBucketResult> {
+    return this.client.$transaction(async (tx) => {
+      await tx.$executeRaw`
+        INSERT INTO "rate_limits" ("key", "hits", "tokens", "expiresAt", "updatedAt")
+        VALUES (${key}, 0, ${bucket.capacity}, now(), now())
+        ON CONFLICT ("key") DO NOTHING`;
+
+      // Row lock serialises concurrent takers of the same bucket
+      const rows = await tx.$queryRaw<(BucketRow & { now: Date })[]>`
+        SELECT "tokens", "updatedAt", "expiresAt", now() AS "now"
+        FROM "rate_limits" WHERE "key" = ${key} FOR UPDATE`;
+
+      const row = rows[0];
+      const now = row.now.getTime();
+
+      let tokens = bucket.capacity;
+      if (row.tokens !== null && row.expiresAt.getTime() > now) {
+        const elapsed = now - row.updatedAt.getTime();
+        tokens = Math.min(
+          bucket.capacity,
+          Number(row.tokens) + elapsed * bucket.refillPerMs
+        );
+      }
+
+      const allowed = tokens >= 1;
+      if (allowed) tokens -= 1;
+
+      const resetTime = tokenBucketResetTime(tokens, bucket, now);
+      await tx.$executeRaw`
+        UPDATE "rate_limits"
+        SET "tokens" = ${tokens}, "updatedAt" = ${row.now},
+            "expiresAt" = ${new Date(resetTime)}
+        WHERE "key" = ${key}`;
+
+      return { allowed, remaining: Math.floor(tokens), resetTime };
+    });
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.cleanupTimer) clearInterval(this.cleanupTimer);
+  }
+
+  /**
+   * @description Deletes rows whose window or bucket has expired
+   * @returns Number of deleted rows
+   */
+  async deleteExpired(): Promise<number> {
+    return this.client.$executeRaw`
+      DELETE FROM "rate_limits" WHERE "expiresAt" <= now()`;
+  }
+
+  private toCounter(row: CounterRow): RateLimitCounter {
+    return {
+      totalHits: Number(row.hits),
+      resetTime: new Date(row.expiresAt).getTime(),
+    };
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * @description Counter state for a single rate limit key
+ */
+export interface RateLimitCounter {
+  /**
+   * Number of hits recorded in the current window
+   */
+  totalHits: number;
+
+  /**
+   * Epoch milliseconds at which the counter expires
+   */
+  resetTime: number;
+}
+
+/**
+ * @description Token bucket parameters
+ */
+export interface TokenBucketConfig {
+  /**
+   * Maximum number of tokens the bucket can hold
+   */
+  capacity: number;
+
+  /**
+   * Tokens added back per millisecond
+   */
+  refillPerMs: number;
+}
+
+/**
+ * @description Result of taking a token from a bucket
+ */
+export interface TokenBucketResult {
+  /**
+   * Whether a token was available and consumed
+   */
+  allowed: boolean;
+
+  /**
+   * Whole tokens left after this request
+   */
+  remaining: number;
+
+  /**
+   * Epoch milliseconds at which the bucket will be full again
+   */
+  resetTime: number;
+}
+
+/**
+ * @description Backing store for rate limit counters.
+ * Implementations must be safe to share between replicas of a service,
+ * i.e. every operation has to be atomic on the store side.
+ */
+export interface RateLimitStore {
+  /**
+   * Increments the hit counter for a key, starting a new window of
+   * `windowMs` if the key is missing or expired
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+
+  /**
+   * Returns the current counter for a key, or null if missing or expired
+   */
+  get(key: string): Promise<RateLimitCounter | null>;
+
+  /**
+   * Takes back one hit of the current window, e.g. of a request that turned
+   * out not to count. Missing or expired keys are left alone.
+   */
+  decrement?(key: string): Promise<void>;
+
+  /**
+   * Removes a key
+   */
+  reset(key: string): Promise<void>;
+
+  /**
+   * Refills the bucket for a key and tries to take one token from it
+   */
+  takeToken(key: string, bucket: TokenBucketConfig): Promise<TokenBucketResult>;
+
+  /**
+   * Releases timers and connections held by the store
+   */
+  shutdown?(): Promise<void>;
+}
+
+/**
+ * @description Computes when a bucket with `tokens` left will be full again
+ */
+export const tokenBucketResetTime = (
+  tokens: number,
+  bucket: TokenBucketConfig,
+  now: number
+): number => {
+  if (bucket.refillPerMs <= 0) return now;
+  return now + Math.ceil((bucket.capacity - tokens) / bucket.refillPerMs);
+};
@@ -0,0 +1,148 @@
+import {
+  RateLimitCounter,
+  RateLimitStore,
+  TokenBucketConfig,
+  TokenBucketResult,
+} from "./rate-limit-store";
+import { RedisCommandClient, RespClient, RespValue } from "./resp-client";
+
+export interface RedisStoreOptions {
+  /**
+   * Client used to send commands. Takes precedence over `url`.
+   */
+  client?: RedisCommandClient;
+
+  /**
+   * Connection URL used when no client is given
+   * @default process.env.REDIS_URL or redis://127.0.0.1:6379
+   */
+  url?: string;
+
+  /**
+   * Prefix added to every key
+   * @default "rl:"
+   */
+  prefix?: string;
+}
+
+// Refill and take atomically; ARGV: capacity, refillPerMs
+const TOKEN_BUCKET_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local t = redis.call('TIME')
+local now = tonumber(t[1]) * 1000 + math.floor(tonumber(t[2]) / 1000)
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = capacity
+if state[1] then
+  tokens = math.min(capacity, tonumber(state[1]) + (now - tonumber(state[2])) * rate)
+end
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+local ttl = capacity
+if rate > 0 then ttl = math.ceil((capacity - tokens) / rate) end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', now)
+redis.call('PEXPIRE', KEYS[1], math.max(ttl, 1))
+return { allowed, tostring(tokens), now + ttl }
+`;
+
+/**
+ * @description Rate limit store for Redis-protocol servers. Window counters
+ * only use INCR/DECR/SET/PTTL so they work against minimal stand-ins; the
+ * token bucket needs EVAL.
+ */
+export class RedisStore implements RateLimitStore {
+  private readonly client: RedisCommandClient;
+  private readonly ownsClient: boolean;
+  private readonly prefix: string;
+
+  constructor(options: RedisStoreOptions = {}) {
+    this.prefix = options.prefix ?? "rl:";
+    this.ownsClient = !options.client;
+    this.client =
+      options.client ??
+      RespClient.fromUrl(
+        options.url ?? process.env.REDIS_URL ?? "redis://127.0.0.1:6379"
+      );
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const redisKey = this.prefix + key;
+
+    // Seed the window with its expiry; INCR keeps an existing TTL
+    await this.client.sendCommand(["SET", redisKey, 0, "PX", windowMs, "NX"]);
+    const hits = toNumber(await this.client.sendCommand(["INCR", redisKey]));
+    let ttl = toNumber(await this.client.sendCommand(["PTTL", redisKey]));
+
+    // The seeded key expired between SET and INCR
+    if (ttl < 0) {
+      await this.client.sendCommand(["PEXPIRE", redisKey, windowMs]);
+      ttl = windowMs;
+    }
+
+    return { totalHits: hits, resetTime: Date.now() + ttl };
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const redisKey = this.prefix + key;
+    const hits = await this.client.sendCommand(["GET", redisKey]);
+    if (hits === null) return null;
+
+    const ttl = toNumber(await this.client.sendCommand(["PTTL", redisKey]));
+    if (ttl === -2) return null;
+
+    return {
+      totalHits: toNumber(hits),
+      resetTime: ttl > 0 ? Date.now() + ttl : Date.now(),
+    };
+  }
+
+  async decrement(key: string): Promise<void> {
+    const redisKey = this.prefix + key;
+    const hits = toNumber(await this.client.sendCommand(["DECR", redisKey]));
+
+    // DECR keeps the TTL, but recreates an expired key without one
+    if (hits < 0) {
+      await this.client.sendCommand(["DEL", redisKey]);
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client.sendCommand(["DEL", this.prefix + key]);
+  }
+
+  async takeToken(
+    key: string,
+    bucket: TokenBucketConfig
+  ): Promise<TokenBucketResult> {
+    const reply = await this.client.sendCommand([
+      "EVAL",
+      TOKEN_BUCKET_SCRIPT,
+      1,
+      this.prefix + key,
+      bucket.capacity,
+      bucket.refillPerMs,
+    ]);
+
+    const [allowed, tokens, resetTime] = reply as RespValue[];
+    return {
+      allowed: toNumber(allowed) === 1,
+      remaining: Math.floor(toNumber(tokens)),
+      resetTime: toNumber(resetTime),
+    };
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.ownsClient && this.client instanceof RespClient) {
+      await this.client.quit();
+    }
+  }
+}
+
+const toNumber = (value: RespValue): number => {
+  if (typeof value === "number") return value;
+  if (typeof value === "string") return Number(value);
+  return 0;
+};
@@ -0,0 +1,245 @@
+import { Socket, connect } from "net";
+
+export type RespValue = string | number | null | RespValue[];
+
+/**
+ * @description Minimal contract for anything that can send a Redis command.
+ * Wrap `ioredis` (`call`) or `node-redis` (`sendCommand`) clients to fit it.
+ */
+export interface RedisCommandClient {
+  sendCommand(args: Array<string | number>): Promise<RespValue>;
+}
+
+export interface RespClientOptions {
+  host?: string;
+  port?: number;
+  password?: string;
+  /**
+   * Connection timeout in milliseconds
+   * @default 5000
+   */
+  connectTimeoutMs?: number;
+  /**
+   * Time a command may wait for its reply in milliseconds. A timeout closes
+   * the connection, failing every pending command, so callers such as the
+   * rate limiter fail open instead of stalling on a hung server.
+   * @default 2000
+   */
+  commandTimeoutMs?: number;
+}
+
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RespError";
+  }
+}
+
+interface PendingCommand {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * @description Dependency-free RESP2 client speaking the Redis wire protocol.
+ * Commands are pipelined over a single connection and answered in order,
+ * which makes it usable against Redis, Valkey, KeyDB or a local stand-in.
+ */
+export class RespClient implements RedisCommandClient {
+  private socket?: Socket;
+  private connecting?: Promise<Socket>;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: PendingCommand[] = [];
+
+  constructor(private readonly options: RespClientOptions = {}) {}
+
+  /**
+   * @description Builds a client from a `redis://[:password@]host:port` URL
+   */
+  public static fromUrl(url: string): RespClient {
+    const parsed = new URL(url);
+    return new RespClient({
+      host: parsed.hostname || undefined,
+      port: parsed.port ? parseInt(parsed.port, 10) : undefined,
+      password: parsed.password ? decodeURIComponent(parsed.password) : undefined,
+    });
+  }
+
+  public async sendCommand(args: Array<string | number>): Promise<RespValue> {
+    const socket = await this.ensureConnected();
+    return this.write(socket, args);
+  }
+
+  public async quit(): Promise<void> {
+    if (!this.socket) return;
+    try {
+      await this.sendCommand(["QUIT"]);
+    } catch {
+      // Closing anyway
+    } finally {
+      this.socket?.destroy();
+      this.socket = undefined;
+    }
+  }
+
+  private ensureConnected(): Promise<Socket> {
+    if (this.socket && !this.socket.destroyed) {
+      return Promise.resolve(this.socket);
+    }
+    if (this.connecting) return this.connecting;
+
+    const {
+      host = "127.0.0.1",
+      port = 6379,
+      password,
+      connectTimeoutMs = 5000,
+    } = this.options;
+
+    this.connecting = new Promise<Socket>((resolve, reject) => {
+      const socket = connect({ host, port });
+      socket.setTimeout(connectTimeoutMs, () => {
+        socket.destroy(new RespError("Redis connection timed out"));
+      });
+
+      socket.once("connect", async () => {
+        socket.setTimeout(0);
+        socket.setNoDelay(true);
+        this.socket = socket;
+        this.connecting = undefined;
+        try {
+          if (password) await this.write(socket, ["AUTH", password]);
+          resolve(socket);
+        } catch (err) {
+          socket.destroy();
+          reject(err);
+        }
+      });
+      socket.on("data", (chunk: Buffer) => this.onData(chunk));
+      // Kept for the socket's lifetime: an unhandled "error" event would
+      // crash the process
+      socket.on("error", (err) => {
+        if (this.connecting && !this.socket) this.connecting = undefined;
+        this.failPending(err);
+        reject(err);
+      });
+      socket.once("close", () => {
+        if (this.socket === socket) this.socket = undefined;
+        this.buffer = Buffer.alloc(0);
+        this.failPending(new RespError("Redis connection closed"));
+      });
+    });
+
+    return this.connecting;
+  }
+
+  private write(socket: Socket, args: Array<string | number>): Promise<RespValue> {
+    const { commandTimeoutMs = 2000 } = this.options;
+
+    return new Promise((resolve, reject) => {
+      // Replies arrive in order, so one lost reply would shift every later
+      // one; the connection is dropped instead
+      const timer = setTimeout(() => {
+        socket.destroy(new RespError("Redis command timed out"));
+      }, commandTimeoutMs);
+
+      this.pending.push({
+        resolve: (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (this.pending.length > 0) {
+      const parsed = parseReply(this.buffer, 0);
+      if (!parsed) return;
+
+      this.buffer = this.buffer.subarray(parsed.offset);
+      const command = this.pending.shift()!;
+      if (parsed.value instanceof RespError) {
+        command.reject(parsed.value);
+      } else {
+        command.resolve(parsed.value);
+      }
+    }
+  }
+
+  private failPending(err: Error): void {
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach((command) => command.reject(err));
+  }
+}
+
+const encodeCommand = (args: Array<string | number>): Buffer => {
+  const parts = args.map((arg) => {
+    const value = Buffer.from(String(arg));
+    return Buffer.concat([
+      Buffer.from(`$${value.length}\r\n`),
+      value,
+      Buffer.from("\r\n"),
+    ]);
+  });
+  return Buffer.concat([Buffer.from(`*${args.length}\r\n`), ...parts]);
+};
+
+type ParsedReply = { value: RespValue | RespError; offset: number };
+
+/**
+ * Parses one reply starting at `offset`, or returns null if the buffer
+ * does not hold a complete reply yet
+ */
+const parseReply = (buffer: Buffer, offset: number): ParsedReply | null => {
+  const lineEnd = buffer.indexOf("\r\n", offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { value: line, offset: next };
+    case "-":
+      return { value: new RespError(line), offset: next };
+    case ":":
+      return { value: parseInt(line, 10), offset: next };
+    case "$": {
+      const length = parseInt(line, 10);
+      if (length === -1) return { value: null, offset: next };
+      if (buffer.length < next + length + 2) return null;
+      return {
+        value: buffer.toString("utf8", next, next + length),
+        offset: next + length + 2,
+      };
+    }
+    case "*": {
+      const count = parseInt(line, 10);
+      if (count === -1) return { value: null, offset: next };
+      const items: RespValue[] = [];
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, cursor);
+        if (!item) return null;
+        if (item.value instanceof RespError) {
+          items.push(item.value.message);
+        } else {
+          items.push(item.value);
+        }
+        cursor = item.offset;
+      }
+      return { value: items, offset: cursor };
+    }
+    default:
+      return { value: new RespError(`Unexpected reply type: ${type}`), offset: next };
+  }
+};
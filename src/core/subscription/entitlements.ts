@@ -0,0 +1,350 @@
+import {
+  Prisma,
+  PrismaClient,
+  SubscriptionPlan,
+  SubscriptionStatus,
+  VideoStyle,
+} from "../../prisma-client/client";
+import { DbClient } from "../db/dbClient";
+import { ApiErrorCodes } from "../api/api-status";
+import { ForbiddenError } from "../api/errors";
+import { GracePeriodOptions, resolveEffectivePlan } from "./plan-limits";
+
+/**
+ * @description Features a plan can switch on or off
+ */
+export type Feature =
+  | "captions"
+  | "4k"
+  | "customScript"
+  | "watermarkFree"
+  | "priorityProcessing";
+
+export const FEATURES: Feature[] = [
+  "captions",
+  "4k",
+  "customScript",
+  "watermarkFree",
+  "priorityProcessing",
+];
+
+/**
+ * @description Non-boolean entitlements checked by handlers
+ */
+export interface EntitlementLimits {
+  /**
+   * Maximum `Video.duration` in seconds
+   */
+  maxVideoDurationSeconds: number;
+
+  /**
+   * `VideoStyle` values the plan may use
+   */
+  allowedStyles: VideoStyle[];
+}
+
+export interface PlanEntitlements {
+  features: Record<Feature, boolean>;
+  limits: EntitlementLimits;
+}
+
+const ALL_STYLES = Object.values(VideoStyle);
+
+/**
+ * @description Entitlements per plan, overridable per subscription through
+ * `Subscription.features` (feature flags) and `Subscription.limits`
+ */
+export const defaultEntitlementCatalog: Record<
+  SubscriptionPlan,
+  PlanEntitlements
+> = {
+  FREE: {
+    features: {
+      captions: false,
+      "4k": false,
+      customScript: false,
+      watermarkFree: false,
+      priorityProcessing: false,
+    },
+    limits: {
+      maxVideoDurationSeconds: 30,
+      allowedStyles: [VideoStyle.REALISTIC, VideoStyle.CARTOON],
+    },
+  },
+  PREMIUM_MONTHLY: {
+    features: {
+      captions: true,
+      "4k": false,
+      customScript: true,
+      watermarkFree: true,
+      priorityProcessing: true,
+    },
+    limits: { maxVideoDurationSeconds: 120, allowedStyles: ALL_STYLES },
+  },
+  PREMIUM_YEARLY: {
+    features: {
+      captions: true,
+      "4k": true,
+      customScript: true,
+      watermarkFree: true,
+      priorityProcessing: true,
+    },
+    limits: { maxVideoDurationSeconds: 300, allowedStyles: ALL_STYLES },
+  },
+};
+
+/**
+ * @description Machine-readable reason sent in `details.reason` when an
+ * entitlement check fails
+ */
+export enum EntitlementDeniedReason {
+  /**
+   * The caller's plan does not include the feature
+   */
+  NOT_IN_PLAN = "NOT_IN_PLAN",
+  /**
+   * The plan includes it, but it is switched off for this subscription
+   */
+  DISABLED = "DISABLED",
+  /**
+   * The subscribed plan includes it, but the subscription is no longer
+   * honoured (canceled, expired or past its grace period)
+   */
+  SUBSCRIPTION_INACTIVE = "SUBSCRIPTION_INACTIVE",
+  /**
+   * A requested value is above the plan's limit
+   */
+  LIMIT_EXCEEDED = "LIMIT_EXCEEDED",
+}
+
+/**
+ * @description Entitlements in effect for a user
+ */
+export interface Entitlements extends PlanEntitlements {
+  plan: SubscriptionPlan;
+  status: SubscriptionStatus;
+
+  /**
+   * Plan on record, which differs from `plan` when it is not honoured
+   */
+  subscribedPlan: SubscriptionPlan | null;
+
+  inGracePeriod: boolean;
+  accessEndsAt: Date | null;
+
+  /**
+   * Why each unavailable feature is unavailable
+   */
+  denied: Partial<Record<Feature, EntitlementDeniedReason>>;
+}
+
+const isObject = (
+  value: Prisma.JsonValue | null | undefined
+): value is Prisma.JsonObject =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * @description Merges boolean flags from `Subscription.features` and limits
+ * from `Subscription.limits` into the plan defaults, ignoring unknown keys
+ * and malformed values
+ */
+export const mergeEntitlements = (
+  defaults: PlanEntitlements,
+  features: Prisma.JsonValue | null | undefined,
+  limits: Prisma.JsonValue | null | undefined
+): PlanEntitlements => {
+  const merged: PlanEntitlements = {
+    features: { ...defaults.features },
+    limits: { ...defaults.limits },
+  };
+
+  if (isObject(features)) {
+    FEATURES.forEach((feature) => {
+      const value = features[feature];
+      if (typeof value === "boolean") merged.features[feature] = value;
+    });
+  }
+
+  if (isObject(limits)) {
+    const duration = limits.maxVideoDurationSeconds;
+    if (typeof duration === "number" && duration >= 0) {
+      merged.limits.maxVideoDurationSeconds = duration;
+    }
+    const styles = limits.allowedStyles;
+    if (
+      Array.isArray(styles) &&
+      styles.every((style) => ALL_STYLES.includes(style as VideoStyle))
+    ) {
+      merged.limits.allowedStyles = styles as VideoStyle[];
+    }
+  }
+  return merged;
+};
+
+export type EntitlementResolver = (userId: string) => Promise<Entitlements>;
+
+const MAX_CACHED_ENTITLEMENTS = 10000;
+
+export interface EntitlementResolverOptions {
+  /**
+   * Prisma client to use
+   * @default DbClient.getInstance()
+   */
+  client?: PrismaClient;
+
+  /**
+   * How long resolved entitlements are cached in milliseconds
+   * @default 60000 (1 minute)
+   */
+  cacheTtlMs?: number;
+
+  /**
+   * Entitlements per plan
+   * @default defaultEntitlementCatalog
+   */
+  catalog?: Record<SubscriptionPlan, PlanEntitlements>;
+
+  grace?: GracePeriodOptions;
+}
+
+/**
+ * @description Creates a resolver that reads the caller's `Subscription` and
+ * caches the result briefly. Grace periods are applied the same way as for
+ * plan quotas (see `resolveEffectivePlan`).
+ */
+export const createEntitlementResolver = (
+  options: EntitlementResolverOptions = {}
+): EntitlementResolver => {
+  const { cacheTtlMs = 60000, catalog = defaultEntitlementCatalog } = options;
+  const cache: Map<string, { value: Entitlements; expiresAt: number }> =
+    new Map();
+
+  return async (userId: string) => {
+    const cached = cache.get(userId);
+    if (cached && cached.expiresAt > Date.now()) return cached.value;
+
+    const client = options.client ?? DbClient.getInstance();
+    const subscription = await client.subscription.findUnique({
+      where: { userId },
+      select: {
+        plan: true,
+        status: true,
+        features: true,
+        limits: true,
+        currentPeriodEnd: true,
+        trialEnd: true,
+        cancelAtPeriodEnd: true,
+      },
+    });
+    const effective = resolveEffectivePlan(subscription, options.grace);
+    const honoured = subscription?.plan === effective.plan;
+    const { features, limits } = mergeEntitlements(
+      catalog[effective.plan],
+      honoured ? subscription.features : null,
+      honoured ? subscription.limits : null
+    );
+
+    const denied: Entitlements["denied"] = {};
+    FEATURES.filter((feature) => !features[feature]).forEach((feature) => {
+      if (catalog[effective.plan].features[feature]) {
+        denied[feature] = EntitlementDeniedReason.DISABLED;
+      } else if (subscription && catalog[subscription.plan].features[feature]) {
+        denied[feature] = EntitlementDeniedReason.SUBSCRIPTION_INACTIVE;
+      } else {
+        denied[feature] = EntitlementDeniedReason.NOT_IN_PLAN;
+      }
+    });
+
+    const value: Entitlements = {
+      plan: effective.plan,
+      status: effective.status,
+      subscribedPlan: subscription?.plan ?? null,
+      inGracePeriod: effective.inGracePeriod,
+      accessEndsAt: effective.accessEndsAt,
+      features,
+      limits,
+      denied,
+    };
+
+    // Evict the oldest entry rather than letting the cache grow unbounded
+    if (cache.size >= MAX_CACHED_ENTITLEMENTS) {
+      cache.delete(cache.keys().next().value!);
+    }
+    cache.set(userId, { value, expiresAt: Date.now() + cacheTtlMs });
+    return value;
+  };
+};
+
+/**
+ * @description Error for a failed entitlement check. `details.reason` is an
+ * `EntitlementDeniedReason`.
+ */
+export const entitlementDenied = (
+  entitlements: Entitlements,
+  reason: EntitlementDeniedReason,
+  message: string,
+  details: Record<string, unknown> = {}
+) =>
+  new ForbiddenError(
+    message,
+    {
+      reason,
+      plan: entitlements.plan,
+      status: entitlements.status,
+      ...details,
+    },
+    ApiErrorCodes.NOT_ENTITLED
+  );
+
+/**
+ * @description Video options checked against the plan before generation
+ */
+export interface VideoEntitlementRequest {
+  duration: number;
+  style: VideoStyle;
+  hasCaptions?: boolean;
+  customScript?: string | null;
+}
+
+/**
+ * @description Checks a video request against the caller's entitlements
+ * @throws ForbiddenError with code NOT_ENTITLED and the reason in `details`
+ */
+export const assertVideoEntitlements = (
+  entitlements: Entitlements,
+  video: VideoEntitlementRequest
+): void => {
+  const { maxVideoDurationSeconds, allowedStyles } = entitlements.limits;
+  if (video.duration > maxVideoDurationSeconds) {
+    throw entitlementDenied(
+      entitlements,
+      EntitlementDeniedReason.LIMIT_EXCEEDED,
+      `The ${entitlements.plan} plan allows videos of up to ${maxVideoDurationSeconds} seconds`,
+      { limit: "maxVideoDurationSeconds", max: maxVideoDurationSeconds }
+    );
+  }
+  if (!allowedStyles.includes(video.style)) {
+    throw entitlementDenied(
+      entitlements,
+      EntitlementDeniedReason.LIMIT_EXCEEDED,
+      `The ${entitlements.plan} plan does not include the ${video.style} style`,
+      { limit: "allowedStyles", allowed: allowedStyles }
+    );
+  }
+
+  const features: Feature[] = [
+    ...(video.hasCaptions ? (["captions"] as Feature[]) : []),
+    ...(video.customScript ? (["customScript"] as Feature[]) : []),
+  ];
+  features.forEach((feature) => {
+    const reason = entitlements.denied[feature];
+    if (reason) {
+      throw entitlementDenied(
+        entitlements,
+        reason,
+        `Feature ${feature} is not available`,
+        { feature }
+      );
+    }
+  });
+};
@@ -0,0 +1,238 @@
+import {
+  Prisma,
+  PrismaClient,
+  Subscription,
+  SubscriptionPlan,
+  SubscriptionStatus,
+} from "../../prisma-client/client";
+import { DbClient } from "../db/dbClient";
+
+/**
+ * @description Numeric ceilings applied per plan. A null value means unlimited.
+ */
+export interface PlanLimits {
+  /**
+   * API requests per minute
+   */
+  requestsPerMinute: number | null;
+
+  /**
+   * Video generations per UTC day
+   */
+  videoGenerationsPerDay: number | null;
+}
+
+/**
+ * @description Default limits per plan, overridable per subscription through
+ * the keys of `Subscription.limits`
+ */
+export const defaultPlanLimits: Record<SubscriptionPlan, PlanLimits> = {
+  FREE: {
+    requestsPerMinute: 60,
+    videoGenerationsPerDay: 3,
+  },
+  PREMIUM_MONTHLY: {
+    requestsPerMinute: 300,
+    videoGenerationsPerDay: 30,
+  },
+  PREMIUM_YEARLY: {
+    requestsPerMinute: 300,
+    videoGenerationsPerDay: 50,
+  },
+};
+
+/**
+ * @description Plan and limits in effect for a user
+ */
+export interface ResolvedPlan {
+  plan: SubscriptionPlan;
+  status: SubscriptionStatus;
+  limits: PlanLimits;
+}
+
+export type PlanResolver = (userId: string) => Promise<ResolvedPlan>;
+
+export interface GracePeriodOptions {
+  /**
+   * Time after `trialEnd` during which a trial keeps the paid plan
+   * @default 0
+   */
+  trialingMs?: number;
+
+  /**
+   * Time after `currentPeriodEnd` during which a past-due subscription keeps
+   * the paid plan while the provider retries the payment
+   * @default 259200000 (3 days)
+   */
+  pastDueMs?: number;
+}
+
+/**
+ * @description Plan a subscription entitles its user to right now
+ */
+export interface EffectivePlan {
+  plan: SubscriptionPlan;
+  status: SubscriptionStatus;
+
+  /**
+   * Whether the paid plan is only honoured until `accessEndsAt`
+   */
+  inGracePeriod: boolean;
+
+  /**
+   * End of the grace period; null when the plan has no known end
+   */
+  accessEndsAt: Date | null;
+}
+
+export type SubscriptionSnapshot = Pick<
+  Subscription,
+  "plan" | "status" | "currentPeriodEnd" | "trialEnd" | "cancelAtPeriodEnd"
+>;
+
+/**
+ * @description Decides whether a subscription's paid plan is honoured.
+ * ACTIVE always is; TRIALING and PAST_DUE are until the end of their grace
+ * period; CANCELED is until the end of the paid period if it was canceled
+ * at period end; every other status falls back to FREE.
+ */
+export const resolveEffectivePlan = (
+  subscription: SubscriptionSnapshot | null,
+  grace: GracePeriodOptions = {},
+  now: Date = new Date()
+): EffectivePlan => {
+  const { trialingMs = 0, pastDueMs = 3 * 24 * 60 * 60 * 1000 } = grace;
+  const free: EffectivePlan = {
+    plan: SubscriptionPlan.FREE,
+    status: subscription?.status ?? SubscriptionStatus.FREE,
+    inGracePeriod: false,
+    accessEndsAt: null,
+  };
+  if (!subscription) return free;
+
+  let accessEndsAt: Date;
+  switch (subscription.status) {
+    case SubscriptionStatus.ACTIVE:
+      return { ...free, plan: subscription.plan };
+    case SubscriptionStatus.TRIALING:
+      accessEndsAt = new Date(
+        (subscription.trialEnd ?? subscription.currentPeriodEnd).getTime() +
+          trialingMs
+      );
+      break;
+    case SubscriptionStatus.PAST_DUE:
+      accessEndsAt = new Date(
+        subscription.currentPeriodEnd.getTime() + pastDueMs
+      );
+      break;
+    case SubscriptionStatus.CANCELED:
+      if (!subscription.cancelAtPeriodEnd) return free;
+      accessEndsAt = subscription.currentPeriodEnd;
+      break;
+    default:
+      return free;
+  }
+
+  if (accessEndsAt <= now) return free;
+  return {
+    plan: subscription.plan,
+    status: subscription.status,
+    inGracePeriod: true,
+    accessEndsAt,
+  };
+};
+
+/**
+ * @description Merges numeric (or null) overrides from `Subscription.limits`
+ * into the plan defaults, ignoring unknown keys and malformed values
+ */
+export const mergePlanLimits = (
+  defaults: PlanLimits,
+  overrides: Prisma.JsonValue | null | undefined
+): PlanLimits => {
+  const limits = { ...defaults };
+  if (!overrides || typeof overrides !== "object" || Array.isArray(overrides)) {
+    return limits;
+  }
+
+  (Object.keys(defaults) as Array<keyof PlanLimits>).forEach((key) => {
+    const value = (overrides as Prisma.JsonObject)[key];
+    if (value === null || (typeof value === "number" && value >= 0)) {
+      limits[key] = value;
+    }
+  });
+  return limits;
+};
+
+const MAX_CACHED_PLANS = 10000;
+
+export interface PlanResolverOptions {
+  /**
+   * Prisma client to use
+   * @default DbClient.getInstance()
+   */
+  client?: PrismaClient;
+
+  /**
+   * How long a resolved plan is cached in milliseconds
+   * @default 60000 (1 minute)
+   */
+  cacheTtlMs?: number;
+
+  /**
+   * Limits per plan
+   * @default defaultPlanLimits
+   */
+  planLimits?: Record<SubscriptionPlan, PlanLimits>;
+
+  grace?: GracePeriodOptions;
+}
+
+/**
+ * @description Creates a resolver that reads the caller's `Subscription` and
+ * caches the result briefly. Users whose paid plan is not honoured (see
+ * `resolveEffectivePlan`) fall back to the FREE plan.
+ */
+export const createPlanResolver = (
+  options: PlanResolverOptions = {}
+): PlanResolver => {
+  const { cacheTtlMs = 60000, planLimits = defaultPlanLimits } = options;
+  const cache: Map<string, { value: ResolvedPlan; expiresAt: number }> =
+    new Map();
+
+  return async (userId: string) => {
+    const cached = cache.get(userId);
+    if (cached && cached.expiresAt > Date.now()) return cached.value;
+
+    const client = options.client ?? DbClient.getInstance();
+    const subscription = await client.subscription.findUnique({
+      where: { userId },
+      select: {
+        plan: true,
+        status: true,
+        limits: true,
+        currentPeriodEnd: true,
+        trialEnd: true,
+        cancelAtPeriodEnd: true,
+      },
+    });
+    const effective = resolveEffectivePlan(subscription, options.grace);
+
+    // Overrides belong to the subscribed plan, not to the FREE fallback
+    const value: ResolvedPlan = {
+      plan: effective.plan,
+      status: effective.status,
+      limits: mergePlanLimits(
+        planLimits[effective.plan],
+        subscription?.plan === effective.plan ? subscription.limits : null
+      ),
+    };
+
+    // Evict the oldest entry rather than letting the cache grow unbounded
+    if (cache.size >= MAX_CACHED_PLANS) {
+      cache.delete(cache.keys().next().value!);
+    }
+    cache.set(userId, { value, expiresAt: Date.now() + cacheTtlMs });
+    return value;
+  };
+};
@@ -0,0 +1,144 @@
+import {
+  SubscriptionEventType,
+  SubscriptionPlan,
+  SubscriptionStatus,
+} from "../../prisma-client/client";
+import { InvalidStateTransitionError } from "../api/errors";
+
+/**
+ * @description Legal transitions of one event. `from` lists the statuses
+ * the event applies to (`null` = no subscription yet); `to` lists the
+ * possible outcomes, the first being the default.
+ */
+export interface SubscriptionTransitionRule {
+  from: Array<SubscriptionStatus | null>;
+  to: SubscriptionStatus[];
+  /**
+   * Whether the event may set a new plan; without one the current plan is
+   * kept
+   */
+  changesPlan: boolean;
+}
+
+const { FREE, ACTIVE, TRIALING, PAST_DUE, CANCELED, EXPIRED } =
+  SubscriptionStatus;
+
+export const subscriptionTransitions: Record<
+  SubscriptionEventType,
+  SubscriptionTransitionRule
+> = {
+  CREATED: { from: [null], to: [ACTIVE, FREE], changesPlan: true },
+  TRIAL_STARTED: { from: [null, FREE], to: [TRIALING], changesPlan: true },
+  TRIAL_ENDED: { from: [TRIALING], to: [EXPIRED, ACTIVE], changesPlan: false },
+  ACTIVATED: {
+    from: [null, FREE, TRIALING, PAST_DUE, CANCELED, EXPIRED],
+    to: [ACTIVE],
+    changesPlan: true,
+  },
+  // Providers report a trial's first payment as a renewal, and a scheduled
+  // downgrade as a renewal into the new plan
+  RENEWED: {
+    from: [ACTIVE, PAST_DUE, TRIALING],
+    to: [ACTIVE],
+    changesPlan: true,
+  },
+  UPGRADED: { from: [ACTIVE, TRIALING], to: [], changesPlan: true },
+  DOWNGRADED: { from: [ACTIVE, TRIALING], to: [], changesPlan: true },
+  PAYMENT_FAILED: {
+    from: [ACTIVE, TRIALING, PAST_DUE],
+    to: [PAST_DUE],
+    changesPlan: false,
+  },
+  CANCELED: {
+    from: [ACTIVE, TRIALING, PAST_DUE],
+    to: [CANCELED],
+    changesPlan: false,
+  },
+  EXPIRED: {
+    from: [ACTIVE, TRIALING, PAST_DUE, CANCELED],
+    to: [EXPIRED],
+    changesPlan: false,
+  },
+};
+
+const planRank: Record<SubscriptionPlan, number> = {
+  FREE: 0,
+  PREMIUM_MONTHLY: 1,
+  PREMIUM_YEARLY: 2,
+};
+
+/**
+ * @description Orders plans from cheapest to most expensive; negative when
+ * `a` ranks below `b`
+ */
+export const comparePlans = (a: SubscriptionPlan, b: SubscriptionPlan) =>
+  planRank[a] - planRank[b];
+
+export interface SubscriptionState {
+  status: SubscriptionStatus;
+  plan: SubscriptionPlan;
+}
+
+/**
+ * @description Computes the state after an event, without touching the
+ * database. Plan changes keep the status, except a downgrade to FREE.
+ * @param current Current state, or null if the user has no subscription
+ * @param plan New plan, required for events that change the plan of a
+ * missing subscription
+ * @param toStatus Outcome for events with several, e.g. TRIAL_ENDED → ACTIVE
+ * @throws InvalidStateTransitionError if the event is not allowed
+ */
+export const nextSubscriptionState = (
+  current: SubscriptionState | null,
+  event: SubscriptionEventType,
+  plan?: SubscriptionPlan,
+  toStatus?: SubscriptionStatus
+): SubscriptionState => {
+  const rule = subscriptionTransitions[event];
+  const from = current?.status ?? null;
+
+  const reject = (reason: string) => {
+    throw new InvalidStateTransitionError(
+      `Cannot apply ${event} to subscription status ${from ?? "none"}: ${reason}`,
+      from,
+      event,
+      { plan: current?.plan, requestedPlan: plan, requestedStatus: toStatus }
+    );
+  };
+
+  if (!rule.from.includes(from)) {
+    reject(`allowed from ${rule.from.map((s) => s ?? "none").join(", ")}`);
+  }
+
+  const nextPlan = (rule.changesPlan && plan) || current?.plan;
+  if (!nextPlan) {
+    return reject("a plan is required");
+  }
+
+  if (event === SubscriptionEventType.UPGRADED) {
+    if (!current || planRank[nextPlan] <= planRank[current.plan]) {
+      reject(`${nextPlan} is not above ${current?.plan}`);
+    }
+    return { status: current!.status, plan: nextPlan };
+  }
+  if (event === SubscriptionEventType.DOWNGRADED) {
+    if (!current || planRank[nextPlan] >= planRank[current.plan]) {
+      reject(`${nextPlan} is not below ${current?.plan}`);
+    }
+    return {
+      status: nextPlan === SubscriptionPlan.FREE ? FREE : current!.status,
+      plan: nextPlan,
+    };
+  }
+
+  if (toStatus && !rule.to.includes(toStatus)) {
+    reject(`outcome must be one of ${rule.to.join(", ")}`);
+  }
+  let status = toStatus ?? rule.to[0];
+  // Creating a FREE subscription has nothing to activate
+  if (event === SubscriptionEventType.CREATED && !toStatus) {
+    status = nextPlan === SubscriptionPlan.FREE ? FREE : ACTIVE;
+  }
+
+  return { status, plan: nextPlan };
+};
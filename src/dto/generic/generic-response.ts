@@ -6,4 +6,7 @@ export interface GenericResponse<T> {
   message?: string;
   data?: T;
   error?: string;
+  code?: string;
+  details?: unknown;
+  requestId?: string;
 }
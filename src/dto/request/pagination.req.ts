@@ -2,3 +2,11 @@ export interface PaginationParams {
   pageNo?: number;
   pageSize?: number;
 }
+
+export interface CursorPaginationParams {
+  /**
+   * Opaque cursor returned as `nextCursor` by the previous page
+   */
+  cursor?: string;
+  pageSize?: number;
+}
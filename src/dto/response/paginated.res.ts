@@ -0,0 +1,20 @@
+/**
+ * @description Page of an offset-paginated list
+ */
+export interface PaginatedResult<T> {
+  items: T[];
+  total: number;
+  pageNo: number;
+  pageSize: number;
+  hasNext: boolean;
+}
+
+/**
+ * @description Page of a cursor-paginated list
+ */
+export interface CursorPaginatedResult<T> {
+  items: T[];
+  pageSize: number;
+  nextCursor: string | null;
+  hasNext: boolean;
+}
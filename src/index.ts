@@ -1,4 +1,6 @@
 export * from "./core/db/dbClient";
+export * from "./core/db/transaction";
+export * from "./core/db/soft-delete";
 export * from "./core/api/api-status";
 export * from "./core/api/errors";
 export * from "./core/api/response";
@@ -7,3 +9,49 @@ export * from "./middlewares/error-handler";
 export * from "./middlewares/validator";
 export * from "./middlewares/request-logger";
 export * from "./utils/logger.util";
+export * from "./middlewares/rate-limiter";
+export * from "./core/rate-limit/rate-limit-store";
+export * from "./core/rate-limit/algorithms";
+export * from "./core/rate-limit/memory-store";
+export * from "./core/rate-limit/postgres-store";
+export * from "./core/rate-limit/redis-store";
+export * from "./core/rate-limit/resp-client";
+export * from "./core/subscription/plan-limits";
+export * from "./core/subscription/entitlements";
+export * from "./middlewares/plan-quota";
+export * from "./middlewares/entitlement";
+export * from "./middlewares/verify-access-token";
+export * from "./services/token.service";
+export * from "./services/otp.service";
+export * from "./services/account-erasure.service";
+export * from "./services/subscription.service";
+export * from "./services/token-ledger.service";
+export * from "./utils/requestSigning.util";
+export * from "./middlewares/internal-service-checker";
+export * from "./utils/internalServiceClient.util";
+export * from "./utils/circuitBreaker.util";
+export * from "./core/api/contract";
+export * from "./core/context/request-context";
+export * from "./middlewares/request-context";
+export * from "./core/api/prisma-errors";
+export * from "./utils/redaction.util";
+export * from "./dto/request/pagination.req";
+export * from "./dto/response/paginated.res";
+export * from "./schemas/pagination.schema";
+export * from "./utils/pagination.util";
+export * from "./utils/query-filter.util";
+export * from "./schemas/list-query.schema";
+export * from "./core/openapi/json-schema";
+export * from "./core/openapi/document";
+export * from "./core/api/route";
+export * from "./core/api/versioning";
+export * from "./core/health/health-check";
+export * from "./core/health/health-routes";
+export * from "./core/health/shutdown";
+export * from "./core/subscription/subscription-state";
+export * from "./core/queue/video-queue";
+export * from "./core/payments/payment-webhook";
+export * from "./core/payments/stripe-adapter";
+export * from "./core/payments/google-play-adapter";
+export * from "./core/payments/app-store-adapter";
+export * from "./middlewares/payment-webhook";
@@ -0,0 +1,119 @@
+import { Request, Response, NextFunction } from "express";
+import { UnauthenticatedError } from "../core/api/errors";
+import { SubscriptionPlan } from "../prisma-client/client";
+import {
+  EntitlementLimits,
+  EntitlementResolver,
+  EntitlementResolverOptions,
+  Entitlements,
+  Feature,
+  createEntitlementResolver,
+  defaultEntitlementCatalog,
+  entitlementDenied,
+} from "../core/subscription/entitlements";
+
+export interface EntitlementGuardOptions extends EntitlementResolverOptions {
+  /**
+   * Resolves the caller's entitlements
+   * @default createEntitlementResolver(options)
+   */
+  resolveEntitlements?: EntitlementResolver;
+
+  /**
+   * Link included in upgrade hints
+   */
+  upgradeUrl?: string;
+}
+
+/**
+ * @description Creates `requireEntitlement` middlewares sharing one resolver.
+ * Each middleware must run after `verifyAccessToken` and leaves the
+ * entitlements on the request for `getEntitlements`. Without features it
+ * only loads them.
+ *
+ * @example
+ * const requireEntitlement = createEntitlementGuard({ upgradeUrl });
+ * controller.post("/videos/4k", render4k, [
+ *   verifyAccessToken(),
+ *   requireEntitlement("4k"),
+ * ]);
+ */
+export const createEntitlementGuard = (
+  options: EntitlementGuardOptions = {}
+) => {
+  const {
+    catalog = defaultEntitlementCatalog,
+    resolveEntitlements = createEntitlementResolver(options),
+    upgradeUrl,
+  } = options;
+
+  return (...features: Feature[]) =>
+    async (req: Request, res: Response, next: NextFunction) => {
+      const userId: string | undefined = (req as any).userId;
+      if (!userId) {
+        return next(new UnauthenticatedError("Authentication required"));
+      }
+
+      let entitlements: Entitlements;
+      try {
+        entitlements = await resolveEntitlements(userId);
+      } catch (error) {
+        // Fail closed: an outage must not unlock paid features
+        return next(error);
+      }
+      (req as any).entitlements = entitlements;
+
+      const feature = features.find((name) => entitlements.denied[name]);
+      if (!feature) return next();
+
+      const reason = entitlements.denied[feature]!;
+      const plans = (Object.keys(catalog) as SubscriptionPlan[]).filter(
+        (plan) => catalog[plan].features[feature]
+      );
+      return next(
+        entitlementDenied(
+          entitlements,
+          reason,
+          `The ${entitlements.plan} plan does not include ${feature}`,
+          {
+            feature,
+            upgrade: plans.length > 0 ? { plans, url: upgradeUrl } : null,
+          }
+        )
+      );
+    };
+};
+
+let defaultGuard: ReturnType<typeof createEntitlementGuard> | undefined;
+
+/**
+ * @description `createEntitlementGuard` with default options, created on
+ * first use
+ */
+export const requireEntitlement = (...features: Feature[]) => {
+  if (!defaultGuard) defaultGuard = createEntitlementGuard();
+  return defaultGuard(...features);
+};
+
+/**
+ * @description Entitlements loaded by `requireEntitlement` for this request
+ * @throws Error if no entitlement middleware ran before the handler
+ */
+export const getEntitlements = (req: Request): Entitlements => {
+  const entitlements: Entitlements | undefined = (req as any).entitlements;
+  if (!entitlements) {
+    throw new Error(
+      "Entitlements not loaded; add requireEntitlement() to the route"
+    );
+  }
+  return entitlements;
+};
+
+/**
+ * @description Reads one limit of the caller's plan, e.g. the maximum
+ * `Video.duration` or the allowed `VideoStyle` values
+ */
+export const getEntitlementLimit = <K extends keyof EntitlementLimits>(
+  req: Request,
+  key: K
+): EntitlementLimits[K] => getEntitlements(req).limits[key];
@@ -1,79 +1,231 @@
 import { Request, Response, NextFunction } from "express";
-import { ApiStatusCodes } from "../core/api/api-status";
+import { STATUS_CODES } from "http";
+import { ApiErrorCodes, ApiStatusCodes } from "../core/api/api-status";
 import { ApiResponse } from "../core/api/response";
+import { mapPrismaError } from "../core/api/prisma-errors";
 import { logger } from "../utils/logger.util";
+import { getRequestContext } from "../core/context/request-context";
 
-export const errorHandler = (
-  err: any,
-  req: Request,
-  res: Response,
-  next: NextFunction
-) => {
-  if (res.headersSent) return next(err);
-
-  // Log error details
-  try {
-    logger.error(
-      JSON.stringify({
-        message: err?.message,
-        name: err?.name,
-        stack: err?.stack,
-        path: req.path,
-        method: req.method,
-        body: req.body,
-        query: req.query,
-        params: req.params,
-        headers: req.headers,
+/**
+ * @description Body format of error responses:
+ * - `envelope`: the standard `ApiResponse` shape
+ * - `problem`: RFC 7807 `application/problem+json`
+ * - `negotiate`: `problem` when the client accepts `application/problem+json`
+ */
+export type ErrorResponseFormat = "envelope" | "problem" | "negotiate";
+
+export interface ErrorHandlerOptions {
+  /**
+   * @default "envelope"
+   */
+  format?: ErrorResponseFormat;
+
+  /**
+   * Base URL for problem `type` URIs, e.g. https://docs.example.com/errors.
+   * The lower-cased error code is appended. Uses `about:blank` when omitted.
+   */
+  problemTypeBaseUrl?: string;
+}
+
+/**
+ * @description RFC 7807 problem details with the API's extension members
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance?: string;
+  code: string;
+  details?: unknown;
+  requestId?: string;
+}
+
+interface NormalizedError {
+  status: number;
+  code: string;
+  message: string;
+  details?: unknown;
+  retryAfter?: number;
+}
+
+const codeForStatus = (status: number): string => {
+  switch (status) {
+    case ApiStatusCodes.BAD_REQUEST:
+      return ApiErrorCodes.BAD_REQUEST;
+    case ApiStatusCodes.UNAUTHORIZED:
+      return ApiErrorCodes.UNAUTHENTICATED;
+    case ApiStatusCodes.FORBIDDEN:
+      return ApiErrorCodes.FORBIDDEN;
+    case ApiStatusCodes.NOT_FOUND:
+      return ApiErrorCodes.NOT_FOUND;
+    case ApiStatusCodes.CONFLICT:
+      return ApiErrorCodes.CONFLICT;
+    case ApiStatusCodes.VALIDATION_ERROR:
+      return ApiErrorCodes.VALIDATION_ERROR;
+    case ApiStatusCodes.TOO_MANY_REQUESTS:
+      return ApiErrorCodes.TOO_MANY_REQUESTS;
+    case ApiStatusCodes.SERVICE_UNAVAILABLE:
+      return ApiErrorCodes.SERVICE_UNAVAILABLE;
+    default:
+      return status >= 500
+        ? ApiErrorCodes.INTERNAL_SERVER_ERROR
+        : ApiErrorCodes.BAD_REQUEST;
+  }
+};
+
+const normalizeValidationError = (err: any): NormalizedError => {
+  const errors = err.details || err.errors;
+  const status = err?.statusCode ?? ApiStatusCodes.VALIDATION_ERROR;
+  const code = err?.code ?? ApiErrorCodes.VALIDATION_ERROR;
+
+  if (Array.isArray(errors) && errors.length > 0) {
+    const fields = errors.map((e: any) => {
+      const path = e?.path?.join?.(".") || e?.path || "";
+      const msg = (e?.message || String(e))
+        .replace(/"([^\"]+)"/g, "$1")
+        .trim();
+      return { path, message: msg };
+    });
+
+    const message = fields
+      .map(({ path, message: msg }) => {
+        // Avoid duplicate field name if message already starts with it
+        if (path && msg.toLowerCase().startsWith(path.toLowerCase())) {
+          return msg;
+        }
+        return path ? `${path}: ${msg}` : msg;
       })
-    );
-  } catch {
-    console.error("Error while logging:", err);
+      .filter(Boolean)
+      .join(", ");
+
+    return {
+      status,
+      code,
+      message: message || "Validation Error",
+      details: fields,
+    };
   }
 
+  return { status, code, message: err.message ?? "Validation Error" };
+};
+
+const normalizeError = (err: any): NormalizedError => {
   // Handle validation errors
   if (err?.name === "ValidationError") {
-    const errors = err.details || err.errors;
-    const status = err?.statusCode ?? ApiStatusCodes.VALIDATION_ERROR;
-
-    if (Array.isArray(errors) && errors.length > 0) {
-      const message = errors
-        .map((e: any) => {
-          const path = e?.path?.join?.(".") || e?.path || "";
-          const msg = (e?.message || String(e))
-            .replace(/"([^\"]+)"/g, "$1")
-            .trim();
-          // Avoid duplicate field name if message already starts with it
-          if (path && msg.toLowerCase().startsWith(path.toLowerCase())) {
-            return msg;
-          }
-          return path ? `${path}: ${msg}` : msg;
-        })
-        .filter(Boolean)
-        .join(", ");
-
-      return res.status(status).json({
-        isSuccess: false,
-        error: message || "Validation Error",
-      } as ApiResponse<null>);
-    }
+    return normalizeValidationError(err);
+  }
 
-    return res.status(status).json({
-      isSuccess: false,
-      error: err.message ?? "Validation Error",
-    } as ApiResponse<null>);
+  // Translate Prisma request errors (unique violations, missing records, ...)
+  const prismaError = mapPrismaError(err);
+  if (prismaError) {
+    return {
+      status: prismaError.statusCode,
+      code: prismaError.code,
+      message: prismaError.message,
+      details: prismaError.details,
+    };
   }
 
   // Handle known errors with statusCode
   if (typeof err?.statusCode === "number") {
-    return res.status(err.statusCode).json({
-      isSuccess: false,
-      error: err.message || err.name || "Error",
-    });
+    return {
+      status: err.statusCode,
+      code:
+        typeof err.code === "string" ? err.code : codeForStatus(err.statusCode),
+      message: err.message || err.name || "Error",
+      details: err.details,
+      retryAfter: err.retryAfter,
+    };
   }
 
   // Fallback for unexpected errors
-  return res.status(ApiStatusCodes.INTERNAL_SERVER_ERROR).json({
-    isSuccess: false,
-    error: "Internal Server Error",
-  });
+  return {
+    status: ApiStatusCodes.INTERNAL_SERVER_ERROR,
+    code: ApiErrorCodes.INTERNAL_SERVER_ERROR,
+    message: "Internal Server Error",
+  };
 };
+
+/**
+ * @description Creates the error-handling middleware. Register it last.
+ *
+ * @example
+ * app.use(createErrorHandler({ format: "negotiate" }));
+ */
+export const createErrorHandler = (options: ErrorHandlerOptions = {}) => {
+  const { format = "envelope", problemTypeBaseUrl } = options;
+
+  return (err: any, req: Request, res: Response, next: NextFunction) => {
+    if (res.headersSent) return next(err);
+
+    const requestId: string | undefined =
+      (req as any).requestId ?? getRequestContext()?.requestId;
+
+    // Log error details; credentials and PII are removed by the logger's redaction rules
+    try {
+      logger.log(
+        "error",
+        {
+          error: {
+            message: err?.message,
+            name: err?.name,
+            code: err?.code,
+            stack: err?.stack,
+          },
+          request: {
+            path: req.path,
+            method: req.method,
+            body: req.body,
+            query: req.query,
+            params: req.params,
+            headers: req.headers,
+          },
+        },
+        err?.message ?? "Unhandled error"
+      );
+    } catch {
+      console.error("Error while logging:", err);
+    }
+
+    const { status, code, message, details, retryAfter } = normalizeError(err);
+
+    if (typeof retryAfter === "number") {
+      res.setHeader("Retry-After", Math.ceil(retryAfter).toString());
+    }
+
+    const useProblem =
+      format === "problem" ||
+      (format === "negotiate" &&
+        (req.headers.accept ?? "").includes("application/problem+json"));
+
+    if (useProblem) {
+      const problem: ProblemDetails = {
+        type: problemTypeBaseUrl
+          ? `${problemTypeBaseUrl.replace(/\/$/, "")}/${code.toLowerCase()}`
+          : "about:blank",
+        title: STATUS_CODES[status] ?? "Error",
+        status,
+        detail: message,
+        instance: req.originalUrl,
+        code,
+        details,
+        requestId,
+      };
+      return res
+        .status(status)
+        .type("application/problem+json")
+        .send(JSON.stringify(problem));
+    }
+
+    return res.status(status).json({
+      isSuccess: false,
+      error: message,
+      code,
+      details,
+      requestId,
+    } as ApiResponse<null>);
+  };
+};
+
+export const errorHandler = createErrorHandler();
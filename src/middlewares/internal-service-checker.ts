@@ -1,12 +1,173 @@
-export const internalServiceVerifier = () => {
-  return (req: any, res: any, next: any) => {
-    const serviceKey = req.headers["x-service-key"];
-    if (!serviceKey || serviceKey !== process.env.INTERNAL_SERVICE_KEY) {
-      return res.status(403).json({
-        isSuccess: false,
-        error: "Forbidden: Invalid internal service key",
-      });
+import { timingSafeEqual } from "crypto";
+import {
+  ServiceKeyring,
+  SignatureHeaders,
+  canonicalRequest,
+  loadServiceKeyring,
+  matchesAnySignature,
+} from "../utils/requestSigning.util";
+import { RateLimitStore } from "../core/rate-limit/rate-limit-store";
+import { MemoryStore } from "../core/rate-limit/memory-store";
+import { logger } from "../utils/logger.util";
+import { updateRequestContext } from "../core/context/request-context";
+
+export interface InternalServiceVerifierOptions {
+  /**
+   * Active keys per calling service. Several keys may be listed per service
+   * while rotating.
+   * @default parsed from process.env.INTERNAL_SERVICE_KEYS
+   */
+  keys?: ServiceKeyring;
+
+  /**
+   * Maximum clock difference accepted in milliseconds
+   * @default 300000 (5 minutes)
+   */
+  maxSkewMs?: number;
+
+  /**
+   * Store remembering seen nonces. Share it between replicas to reject
+   * replays sent to a different instance.
+   * @default new MemoryStore()
+   */
+  nonceStore?: RateLimitStore;
+
+  /**
+   * Services allowed to call the routes behind this verifier
+   * @default any service in the keyring
+   */
+  allowedServices?: string[];
+
+  /**
+   * Also accept the legacy static `x-service-key` header while callers migrate
+   * @default false
+   */
+  allowLegacyKey?: boolean;
+}
+
+const getHeader = (req: any, name: string): string | undefined => {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+/**
+ * @description Verifies HMAC-signed service-to-service requests and sets
+ * `req.callerService` to the calling service ID.
+ * The signature covers the method, the path and query of `req.originalUrl`
+ * and the raw body when `req.rawBody` is available (see `captureRawBody`),
+ * otherwise the JSON-serialized parsed body. Proxies in front of the service
+ * must therefore not rewrite the path.
+ */
+export const internalServiceVerifier = (
+  options: InternalServiceVerifierOptions = {}
+) => {
+  const {
+    maxSkewMs = 5 * 60 * 1000,
+    nonceStore = new MemoryStore(),
+    allowedServices,
+    allowLegacyKey = false,
+  } = options;
+  let keyring = options.keys;
+
+  const reject = (res: any, reason: string) =>
+    res.status(403).json({
+      isSuccess: false,
+      error: `Forbidden: ${reason}`,
+    });
+
+  return async (req: any, res: any, next: any) => {
+    try {
+      keyring = keyring ?? loadServiceKeyring();
+
+      const serviceId = getHeader(req, SignatureHeaders.SERVICE_ID);
+      const timestampHeader = getHeader(req, SignatureHeaders.TIMESTAMP);
+      const nonce = getHeader(req, SignatureHeaders.NONCE);
+      const signature = getHeader(req, SignatureHeaders.SIGNATURE);
+
+      if (!serviceId || !timestampHeader || !nonce || !signature) {
+        const legacyKey = Buffer.from(getHeader(req, "x-service-key") ?? "");
+        const expectedKey = Buffer.from(process.env.INTERNAL_SERVICE_KEY ?? "");
+        if (
+          allowLegacyKey &&
+          expectedKey.length > 0 &&
+          legacyKey.length === expectedKey.length &&
+          timingSafeEqual(legacyKey, expectedKey)
+        ) {
+          logger.warn(
+            `Internal request authenticated with legacy service key: path=${req.path}`
+          );
+          return next();
+        }
+        return reject(res, "Missing internal service signature");
+      }
+
+      const secrets = keyring[serviceId];
+      if (
+        !secrets ||
+        secrets.length === 0 ||
+        (allowedServices && !allowedServices.includes(serviceId))
+      ) {
+        return reject(res, `Unknown or disallowed service ${serviceId}`);
+      }
+
+      const timestamp = parseInt(timestampHeader, 10);
+      if (
+        !Number.isFinite(timestamp) ||
+        Math.abs(Date.now() - timestamp) > maxSkewMs
+      ) {
+        return reject(res, "Request timestamp outside allowed clock skew");
+      }
+
+      const [path, rawQuery = ""] = (req.originalUrl ?? req.url).split("?");
+      const body =
+        req.rawBody ??
+        (req.body === undefined ? "" : JSON.stringify(req.body));
+
+      const canonical = canonicalRequest(
+        {
+          method: req.method,
+          path,
+          query: new URLSearchParams(rawQuery),
+          body,
+        },
+        serviceId,
+        timestamp,
+        nonce
+      );
+
+      if (!matchesAnySignature(signature, canonical, secrets)) {
+        return reject(res, "Invalid internal service signature");
+      }
+
+      // Only a valid signature consumes the nonce, so forged requests
+      // cannot burn nonces of legitimate ones
+      const { totalHits } = await nonceStore.increment(
+        `nonce:${serviceId}:${nonce}`,
+        2 * maxSkewMs
+      );
+      if (totalHits > 1) {
+        logger.warn(
+          `Replayed internal request rejected: service=${serviceId}, path=${path}`
+        );
+        return reject(res, "Replayed internal request");
+      }
+
+      req.callerService = serviceId;
+      updateRequestContext({ callerService: serviceId });
+      next();
+    } catch (err) {
+      next(err);
     }
-    next();
   };
 };
+
+/**
+ * @description `verify` callback for `express.json()` that keeps the raw
+ * body on `req.rawBody`, so signatures are checked against the exact bytes
+ *
+ * @example
+ * app.use(express.json({ verify: captureRawBody }));
+ */
+export const captureRawBody = (req: any, _res: any, buf: Buffer) => {
+  req.rawBody = buf;
+};
@@ -0,0 +1,117 @@
+import { Request, Response, NextFunction } from "express";
+import { ApiResponse } from "../core/api/response";
+import { ApiStatusCodes } from "../core/api/api-status";
+import { RateLimitStore } from "../core/rate-limit/rate-limit-store";
+import { MemoryStore } from "../core/rate-limit/memory-store";
+import {
+  NormalizedPaymentEvent,
+  PaymentWebhookAdapter,
+} from "../core/payments/payment-webhook";
+import { logger } from "../utils/logger.util";
+
+export interface PaymentWebhookOptions {
+  adapter: PaymentWebhookAdapter;
+
+  /**
+   * Handles each verified notification once, e.g.
+   * `(event) => subscriptionService.applyPaymentEvent(event)`. Notifications
+   * without a domain event (`type: null`) are passed too.
+   */
+  onEvent: (event: NormalizedPaymentEvent) => Promise<unknown>;
+
+  /**
+   * Store remembering processed event IDs. Share it between replicas in
+   * production.
+   * @default new MemoryStore()
+   */
+  store?: RateLimitStore;
+
+  /**
+   * How long event IDs are remembered; must exceed the provider's retry
+   * window
+   * @default 604800000 (7 days)
+   */
+  dedupeTtlMs?: number;
+}
+
+/**
+ * @description Payload returned to the provider
+ */
+export interface PaymentWebhookAck {
+  eventId: string;
+  type: NormalizedPaymentEvent["type"];
+  duplicate: boolean;
+}
+
+/**
+ * @description Receives the notifications of one payment provider: verifies
+ * them, drops duplicates by event ID and hands each to `onEvent`. When
+ * `onEvent` fails the event ID is released and the error is passed on, so
+ * the non-2xx response makes the provider deliver it again. The raw body is
+ * required, so mount it with `express.raw()` or `captureRawBody`.
+ *
+ * @example
+ * router.post(
+ *   "/webhooks/stripe",
+ *   express.raw({ type: "application/json" }),
+ *   paymentWebhook({
+ *     adapter: new StripeAdapter({ signingSecrets, plans }),
+ *     store: new PostgresStore(),
+ *     onEvent: (event) => subscriptions.applyPaymentEvent(event),
+ *   })
+ * );
+ */
+export const paymentWebhook = (options: PaymentWebhookOptions) => {
+  const {
+    adapter,
+    onEvent,
+    store = new MemoryStore(),
+    dedupeTtlMs = 7 * 24 * 60 * 60 * 1000,
+  } = options;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const rawBody: Buffer | string | undefined =
+      (req as any).rawBody ??
+      (Buffer.isBuffer(req.body) || typeof req.body === "string"
+        ? req.body
+        : undefined);
+    if (rawBody === undefined) {
+      return next(
+        new Error(
+          "Payment webhook needs the raw body; mount express.raw() or captureRawBody"
+        )
+      );
+    }
+
+    let claimed: string | undefined;
+    try {
+      const event = await adapter.verify({
+        headers: req.headers,
+        rawBody,
+        query: req.query as Record<string, unknown>,
+      });
+
+      const key = `webhook:${event.provider}:${event.eventId}`;
+      const { totalHits } = await store.increment(key, dedupeTtlMs);
+      const duplicate = totalHits > 1;
+      if (duplicate) {
+        logger.info(
+          `Duplicate ${event.provider} webhook ignored: ${event.eventId}`
+        );
+      } else {
+        claimed = key;
+        await onEvent(event);
+      }
+
+      return res.status(ApiStatusCodes.SUCCESS).json({
+        isSuccess: true,
+        data: { eventId: event.eventId, type: event.type, duplicate },
+      } as ApiResponse<PaymentWebhookAck>);
+    } catch (err) {
+      if (claimed) {
+        await store.reset(claimed).catch(() => undefined);
+      }
+      next(err);
+    }
+  };
+};
@@ -0,0 +1,237 @@
+import { Request, Response, NextFunction } from "express";
+import { ApiResponse } from "../core/api/response";
+import { UnauthenticatedError } from "../core/api/errors";
+import { ApiErrorCodes, ApiStatusCodes } from "../core/api/api-status";
+import { SubscriptionPlan } from "../prisma-client/client";
+import { RateLimitStore } from "../core/rate-limit/rate-limit-store";
+import { MemoryStore } from "../core/rate-limit/memory-store";
+import {
+  PlanLimits,
+  PlanResolver,
+  ResolvedPlan,
+  createPlanResolver,
+  defaultPlanLimits,
+} from "../core/subscription/plan-limits";
+import { logger } from "../utils/logger.util";
+
+/**
+ * @description Quota a route consumes. The ceiling comes from the caller's plan.
+ */
+export type QuotaName = "requests" | "videoGenerations";
+
+interface QuotaDefinition {
+  limitKey: keyof PlanLimits;
+  windowMs: number;
+  label: string;
+  period: string;
+}
+
+const quotaDefinitions: Record<QuotaName, QuotaDefinition> = {
+  requests: {
+    limitKey: "requestsPerMinute",
+    windowMs: 60 * 1000,
+    label: "request",
+    period: "minute",
+  },
+  videoGenerations: {
+    limitKey: "videoGenerationsPerDay",
+    windowMs: 24 * 60 * 60 * 1000,
+    label: "video generation",
+    period: "day",
+  },
+};
+
+// Plans offered as upgrades, cheapest first
+const PLAN_ORDER: SubscriptionPlan[] = [
+  SubscriptionPlan.FREE,
+  SubscriptionPlan.PREMIUM_MONTHLY,
+  SubscriptionPlan.PREMIUM_YEARLY,
+];
+
+/**
+ * @description Payload returned in `data` when a quota is exhausted
+ */
+export interface QuotaExceededDetails {
+  quota: QuotaName;
+  plan: SubscriptionPlan;
+  limit: number;
+  resetAt: string;
+  upgrade: {
+    plans: Array<{ plan: SubscriptionPlan; limit: number | null }>;
+    url?: string;
+  } | null;
+}
+
+export interface PlanQuotaOptions {
+  /**
+   * Store holding the counters. Share it between replicas in production.
+   * @default new MemoryStore()
+   */
+  store?: RateLimitStore;
+
+  /**
+   * Resolves the caller's plan
+   * @default createPlanResolver()
+   */
+  resolvePlan?: PlanResolver;
+
+  /**
+   * Limits per plan, used to build upgrade hints
+   * @default defaultPlanLimits
+   */
+  planLimits?: Record<SubscriptionPlan, PlanLimits>;
+
+  /**
+   * Link included in upgrade hints
+   */
+  upgradeUrl?: string;
+
+  /**
+   * Give the quota back when the response is not 2xx, including requests
+   * rejected for exceeding it. Needs a store implementing `decrement`.
+   * @default true
+   */
+  skipFailedRequests?: boolean;
+}
+
+const formatLimit = (limit: number | null) =>
+  limit === null ? "unlimited" : String(limit);
+
+/**
+ * @description Enforces a plan-based quota for the authenticated caller.
+ * Must run after `verifyAccessToken` so that `req.userId` is set.
+ * Windows are aligned to the clock, so daily quotas reset at 00:00 UTC.
+ * Requests that do not end with a 2xx response are given back by default.
+ *
+ * @example
+ * const quotas = createPlanQuotas({ store: new PostgresStore() });
+ * controller.post("/videos", createVideo, [
+ *   verifyAccessToken(),
+ *   quotas("requests"),
+ *   quotas("videoGenerations"),
+ * ]);
+ */
+export const createPlanQuotas = (options: PlanQuotaOptions = {}) => {
+  const {
+    store = new MemoryStore(),
+    planLimits = defaultPlanLimits,
+    resolvePlan = createPlanResolver({ planLimits }),
+    upgradeUrl,
+    skipFailedRequests = true,
+  } = options;
+
+  // Refunds a hit unless the response finished with a 2xx status
+  const refundUnlessSuccessful = (res: Response, key: string) => {
+    let settled = false;
+    const settle = () => {
+      if (settled) return;
+      settled = true;
+      const succeeded =
+        res.writableFinished && res.statusCode >= 200 && res.statusCode < 300;
+      if (succeeded || !store.decrement) return;
+      store.decrement(key).catch((error) => {
+        logger.error("Plan quota refund error:", error);
+      });
+    };
+    res.once("finish", settle);
+    res.once("close", settle);
+  };
+
+  const upgradeHint = (
+    resolved: ResolvedPlan,
+    definition: QuotaDefinition
+  ): QuotaExceededDetails["upgrade"] => {
+    const current = resolved.limits[definition.limitKey] ?? Infinity;
+    const plans = PLAN_ORDER.slice(PLAN_ORDER.indexOf(resolved.plan) + 1)
+      .map((plan) => ({ plan, limit: planLimits[plan][definition.limitKey] }))
+      .filter(({ limit }) => (limit ?? Infinity) > current);
+
+    return plans.length > 0 ? { plans, url: upgradeUrl } : null;
+  };
+
+  return (quota: QuotaName) => {
+    const definition = quotaDefinitions[quota];
+
+    return async (req: Request, res: Response, next: NextFunction) => {
+      const userId: string | undefined = (req as any).userId;
+      if (!userId) {
+        return next(new UnauthenticatedError("Authentication required"));
+      }
+
+      let resolved: ResolvedPlan;
+      let hits: number;
+      let resetTime: number;
+      try {
+        resolved = await resolvePlan(userId);
+        const limit = resolved.limits[definition.limitKey];
+        if (limit === null) return next();
+
+        const now = Date.now();
+        const windowIndex = Math.floor(now / definition.windowMs);
+        const windowEnd = (windowIndex + 1) * definition.windowMs;
+        const key = `quota:${quota}:${userId}:${windowIndex}`;
+        ({ totalHits: hits, resetTime } = await store.increment(
+          key,
+          windowEnd - now
+        ));
+        if (skipFailedRequests) refundUnlessSuccessful(res, key);
+
+        res.setHeader("X-Quota-Limit", limit.toString());
+        res.setHeader(
+          "X-Quota-Remaining",
+          Math.max(0, limit - hits).toString()
+        );
+        res.setHeader("X-Quota-Reset", new Date(resetTime).toISOString());
+
+        if (hits <= limit) return next();
+      } catch (error) {
+        logger.error("Plan quota error:", error);
+        // On error, allow request through (fail open)
+        return next();
+      }
+
+      const limit = resolved.limits[definition.limitKey]!;
+      const upgrade = upgradeHint(resolved, definition);
+      const retryAfter = Math.max(
+        1,
+        Math.ceil((resetTime - Date.now()) / 1000)
+      );
+      res.setHeader("Retry-After", retryAfter.toString());
+
+      let message = `The ${resolved.plan} plan allows ${limit} ${definition.label}s per ${definition.period}.`;
+      if (upgrade) {
+        const cheapest = upgrade.plans[0];
+        message += ` Upgrade to ${cheapest.plan} for ${formatLimit(
+          cheapest.limit
+        )} per ${definition.period}.`;
+      }
+
+      logger.warn(
+        `Plan quota exceeded: userId=${userId}, plan=${resolved.plan}, quota=${quota}, hits=${hits}/${limit}`
+      );
+
+      return res.status(ApiStatusCodes.TOO_MANY_REQUESTS).json({
+        isSuccess: false,
+        error: message,
+        code: ApiErrorCodes.QUOTA_EXCEEDED,
+        data: {
+          quota,
+          plan: resolved.plan,
+          limit,
+          resetAt: new Date(resetTime).toISOString(),
+          upgrade,
+        },
+      } as ApiResponse<QuotaExceededDetails>);
+    };
+  };
+};
+
+let defaultQuotas: ReturnType<typeof createPlanQuotas> | undefined;
+
+/**
+ * @description Plan quotas backed by an in-memory store and the default plan resolver
+ */
+export const planQuota = (quota: QuotaName) => {
+  defaultQuotas = defaultQuotas ?? createPlanQuotas();
+  return defaultQuotas(quota);
+};
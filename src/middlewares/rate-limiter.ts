@@ -1,39 +1,14 @@
 import { Request, Response, NextFunction } from "express";
 import { ApiResponse } from "../core/api/response";
+import { ApiErrorCodes, ApiStatusCodes } from "../core/api/api-status";
 import { logger } from "../utils/logger.util";
-
-/**
- * In-memory rate limit store
- */
-class MemoryStore {
-  private hits: Map<string, number> = new Map();
-  private resetTime: Map<string, number> = new Map();
-
-  increment(key: string): number {
-    const current = this.hits.get(key) || 0;
-    this.hits.set(key, current + 1);
-    return current + 1;
-  }
-
-  reset(key: string): void {
-    this.hits.delete(key);
-    this.resetTime.delete(key);
-  }
-
-  getExpiry(key: string): number | null {
-    return this.resetTime.get(key) || null;
-  }
-
-  setExpiry(key: string, ttl: number): void {
-    const resetAt = Date.now() + ttl;
-    this.resetTime.set(key, resetAt);
-
-    // Auto-cleanup after TTL expires
-    setTimeout(() => {
-      this.reset(key);
-    }, ttl);
-  }
-}
+import { RateLimitStore } from "../core/rate-limit/rate-limit-store";
+import { MemoryStore } from "../core/rate-limit/memory-store";
+import {
+  RateLimitAlgorithm,
+  RateLimitAlgorithmName,
+  rateLimitAlgorithms,
+} from "../core/rate-limit/algorithms";
 
 /**
  * Rate limiter configuration options
@@ -61,6 +36,25 @@ export interface RateLimiterOptions {
    * @default Uses IP address
    */
   keyGenerator?: (req: Request) => string;
+
+  /**
+   * Store holding the counters. Use a shared store (PostgresStore,
+   * RedisStore) when the service runs more than one replica.
+   * @default new MemoryStore()
+   */
+  store?: RateLimitStore;
+
+  /**
+   * Counting algorithm, by name or as a custom implementation
+   * @default "fixed-window"
+   */
+  algorithm?: RateLimitAlgorithmName | RateLimitAlgorithm;
+
+  /**
+   * Prefix for store keys, to keep limiters sharing a store apart
+   * @default "ratelimit"
+   */
+  keyPrefix?: string;
 }
 
 /**
@@ -93,6 +87,15 @@ const getClientKey = (req: Request): string => {
  * // Different limits for different routes
  * app.use('/api/auth', createRateLimiter({ max: 5, windowMs: 15 * 60 * 1000 }));
  * app.use('/api/', createRateLimiter({ max: 100 }));
+ *
+ * @example
+ * // Shared across replicas, without boundary bursts
+ * app.use('/api/auth', createRateLimiter({
+ *   max: 5,
+ *   windowMs: 15 * 60 * 1000,
+ *   store: new PostgresStore(),
+ *   algorithm: 'sliding-window',
+ * }));
  */
 export function createRateLimiter(options: RateLimiterOptions = {}) {
   const {
@@ -100,9 +103,13 @@ export function createRateLimiter(options: RateLimiterOptions = {}) {
     max = 100,
     message = "Too many requests, please try again later.",
     keyGenerator,
+    store = new MemoryStore(),
+    algorithm = "fixed-window",
+    keyPrefix = "ratelimit",
   } = options;
 
-  const store = new MemoryStore();
+  const consume =
+    typeof algorithm === "function" ? algorithm : rateLimitAlgorithms[algorithm];
 
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -114,36 +121,36 @@ export function createRateLimiter(options: RateLimiterOptions = {}) {
         return next();
       }
 
-      const rateLimitKey = `ratelimit:${key}`;
+      const rateLimitKey = `${keyPrefix}:${key}`;
 
-      // Increment hit count
-      const hits = store.increment(rateLimitKey);
-
-      // Set expiry on first hit
-      let resetTime = store.getExpiry(rateLimitKey);
-      if (!resetTime || hits === 1) {
-        store.setExpiry(rateLimitKey, windowMs);
-        resetTime = Date.now() + windowMs;
-      }
+      const { allowed, limit, remaining, resetTime, hits } = await consume(
+        store,
+        rateLimitKey,
+        max,
+        windowMs
+      );
 
       // Add rate limit headers
-      const remaining = Math.max(0, max - hits);
-      res.setHeader("X-RateLimit-Limit", max.toString());
+      res.setHeader("X-RateLimit-Limit", limit.toString());
       res.setHeader("X-RateLimit-Remaining", remaining.toString());
       res.setHeader("X-RateLimit-Reset", new Date(resetTime).toISOString());
 
       // Check if limit exceeded
-      if (hits > max) {
-        const retryAfter = Math.ceil((resetTime - Date.now()) / 1000);
+      if (!allowed) {
+        const retryAfter = Math.max(
+          1,
+          Math.ceil((resetTime - Date.now()) / 1000)
+        );
         res.setHeader("Retry-After", retryAfter.toString());
 
         logger.warn(
-          `Rate limit exceeded: ip=${req.ip}, path=${req.path}, hits=${hits}/${max}`
+          `Rate limit exceeded: ip=${req.ip}, path=${req.path}, hits=${hits}/${limit}`
         );
 
-        return res.status(429).json({
+        return res.status(ApiStatusCodes.TOO_MANY_REQUESTS).json({
           isSuccess: false,
           error: message,
+          code: ApiErrorCodes.TOO_MANY_REQUESTS,
         } as ApiResponse<null>);
       }
 
@@ -161,31 +168,38 @@ export function createRateLimiter(options: RateLimiterOptions = {}) {
  */
 export const rateLimiters = {
   /**
-   * Auth endpoints - 5 requests per 15 minutes
+   * Auth endpoints - 5 requests per sliding 15 minutes
    */
-  auth: () =>
+  auth: (store?: RateLimitStore) =>
     createRateLimiter({
       windowMs: 15 * 60 * 1000,
       max: 5,
       message: "Too many authentication attempts, please try again later.",
+      store,
+      algorithm: "sliding-window",
+      keyPrefix: "ratelimit:auth",
     }),
 
   /**
    * API endpoints - 100 requests per minute
    */
-  api: () =>
+  api: (store?: RateLimitStore) =>
     createRateLimiter({
       windowMs: 60 * 1000,
       max: 100,
+      store,
+      keyPrefix: "ratelimit:api",
     }),
 
   /**
    * Strict limits - 10 requests per hour
    */
-  strict: () =>
+  strict: (store?: RateLimitStore) =>
     createRateLimiter({
       windowMs: 60 * 60 * 1000,
       max: 10,
+      store,
+      keyPrefix: "ratelimit:strict",
     }),
 };
 
@@ -0,0 +1,32 @@
+import { Request, Response, NextFunction } from "express";
+import { randomUUID } from "crypto";
+import { runWithRequestContext } from "../core/context/request-context";
+
+export const REQUEST_ID_HEADER = "x-request-id";
+
+// Accept caller-provided IDs only if they are short and log-safe
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * @description Starts a request context holding the request ID, taken from
+ * the `X-Request-Id` header or generated. The ID is echoed in the response
+ * header and stored on `req.requestId`. Register it before any other
+ * middleware so that every log line of the request carries the ID.
+ *
+ * @example
+ * app.use(requestContext());
+ * app.use(requestLogger);
+ */
+export const requestContext = () => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const header = req.headers[REQUEST_ID_HEADER];
+    const incoming = Array.isArray(header) ? header[0] : header;
+    const requestId =
+      incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+
+    (req as any).requestId = requestId;
+    res.setHeader("X-Request-Id", requestId);
+
+    runWithRequestContext({ requestId }, () => next());
+  };
+};
@@ -8,25 +8,29 @@ const formatFn = (tokens: any, req: any, res: any) => {
   const url = tokens.url(req, res) || "";
   const status = tokens.status(req, res) || "0";
   const responseTime = tokens["response-time"](req, res) || "0";
-  return `${method}|${url}|${status}|${responseTime}`;
+  const requestId = req.requestId || "";
+  return `${method}|${url}|${status}|${responseTime}|${requestId}`;
 };
 
 const stream = {
   write: (message: string) => {
     const trimmed = message.trim();
 
-    // Expect format from formatFn: METHOD|URL|STATUS|RESPONSETIME
+    // Expect format from formatFn: METHOD|URL|STATUS|RESPONSETIME|REQUESTID
     const parts = trimmed.split("|");
     let method = parts[0] || "";
-    let url = parts[1] || "";
+    // Query strings may carry tokens
+    let url = logger.redactUrl(parts[1] || "");
     let statusStr = parts[2] || "0";
     let responseTimeStr = parts[3] || "0";
+    const requestId = parts[4] || undefined;
     const status = parseInt(statusStr, 10);
     const responseTime = parseFloat(responseTimeStr);
 
     const logContext = {
       req: { method, url },
       res: { status, responseTime },
+      requestId,
     };
 
     const level: any =
@@ -62,13 +66,15 @@ export const configureRequestLogger = (options?: {
       // Expect the same pipe-separated formatFn output
       const parts = trimmed.split("|");
       const method = parts[0] || "";
-      const url = parts[1] || "";
+      const url = logger.redactUrl(parts[1] || "");
       const status = parseInt(parts[2] || "0", 10);
       const responseTime = parseFloat(parts[3] || "0");
+      const requestId = parts[4] || undefined;
 
       const logContext = {
         req: { method, url },
         res: { status, responseTime },
+        requestId,
       };
 
       const level =
@@ -1,7 +1,6 @@
 import { Request, Response, NextFunction } from "express";
 import Joi from "joi";
 import { ValidationError } from "../core/api/errors";
-import { ApiStatusCodes } from "../core/api/api-status";
 
 export type ValidatorSchema<T = any> = {
   body?: Joi.Schema<T>;
@@ -10,6 +9,16 @@ export type ValidatorSchema<T = any> = {
   headers?: Joi.Schema<T>;
 };
 
+const registeredSchemas = new WeakMap<Function, ValidatorSchema>();
+
+/**
+ * @description Returns the schemas a `validator` middleware was created
+ * with, or undefined for any other middleware. Used for API docs.
+ */
+export const getValidatorSchemas = (
+  middleware: Function
+): ValidatorSchema | undefined => registeredSchemas.get(middleware);
+
 /**
  * @description Middleware to validate incoming requests using Joi schemas.
  * Validates request body, query parameters, path parameters, and headers.
@@ -17,7 +26,11 @@ export type ValidatorSchema<T = any> = {
  * @param schemas The Joi schemas to validate different parts of the request
  */
 export const validator = (schemas: ValidatorSchema) => {
-  return async (req: Request, res: Response, next: NextFunction) => {
+  const middleware = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
     const errors: Array<{ path: string; message: string }> = [];
     const parts: Array<keyof ValidatorSchema> = [
       "body",
@@ -45,22 +58,28 @@ export const validator = (schemas: ValidatorSchema) => {
         // Assign validated value back to request
         if (part === "body") {
           req.body = value;
+        } else if (part === "query") {
+          // Express 5 re-parses req.query on every access, so defaults and
+          // conversions would be lost unless the getter is shadowed
+          Object.defineProperty(req, "query", {
+            value,
+            writable: true,
+            configurable: true,
+            enumerable: true,
+          });
         } else {
-          // For query, params, headers - assign individual properties
+          // For params, headers - assign individual properties
           Object.assign(req[part] as any, value);
         }
       }
     }
 
     if (errors.length > 0) {
-      const ve = new ValidationError("Validation Error");
-      (ve as any).errors = errors;
-      if (typeof (ve as any).statusCode !== "number") {
-        (ve as any).statusCode = ApiStatusCodes.VALIDATION_ERROR;
-      }
-      throw ve;
+      throw new ValidationError("Validation Error", errors);
     }
 
     next();
   };
+  registeredSchemas.set(middleware, schemas);
+  return middleware;
 };
@@ -1,39 +1,217 @@
 import { UnauthenticatedError, ValidationError } from "../core/api/errors";
 import jwt, { JwtPayload } from "jsonwebtoken";
+import { DbClient } from "../core/db/dbClient";
+import { PrismaClient } from "../prisma-client/client";
+import { logger } from "../utils/logger.util";
+import { updateRequestContext } from "../core/context/request-context";
 
-export const verifyAccessToken = () => {
-  return async (req: any, res: any, next: any) => {
-    const authHeader: string = req.headers["authorization"];
-    if (!authHeader) {
-      throw new ValidationError("Missing Authorization header");
-    }
+/**
+ * @description Session details attached to the request as `req.authSession`
+ */
+export interface AuthenticatedSession {
+  id: string;
+  userId: string;
+  deviceId: string;
+  appVersion: string | null;
+  ipAddress: string | null;
+  accessTokenExpiresAt: Date;
+  lastActivityAt: Date;
+}
+
+export interface SessionVerificationOptions {
+  /**
+   * Prisma client to use
+   * @default DbClient.getInstance()
+   */
+  client?: PrismaClient;
+
+  /**
+   * How long a validated session is cached in milliseconds. A revoked session
+   * can be accepted for at most this long by other replicas.
+   * @default 15000 (15 seconds)
+   */
+  cacheTtlMs?: number;
+
+  /**
+   * Minimum interval between `lastActivityAt` writes per session in milliseconds
+   * @default 60000 (1 minute)
+   */
+  activityUpdateIntervalMs?: number;
+}
+
+export interface VerifyAccessTokenOptions {
+  /**
+   * Also validate the token against the `Session` table, rejecting
+   * revoked, inactive or expired sessions
+   * @default false
+   */
+  session?: boolean | SessionVerificationOptions;
+}
+
+interface CachedSession {
+  session: AuthenticatedSession;
+  expiresAt: number;
+}
 
-    const token = authHeader.split(" ")[1];
-    if (!token) {
-      throw new ValidationError("Missing token in Authorization header");
+const MAX_CACHED_SESSIONS = 10000;
+
+// Validated sessions keyed by access token, shared by all verifiers
+const sessionCache: Map<string, CachedSession> = new Map();
+
+/**
+ * @description Drops cached sessions so that a logout or revocation handled
+ * by this process takes effect immediately
+ * @param accessTokenOrSessionId Access token or session ID, all entries when omitted
+ */
+export const invalidateSessionCache = (accessTokenOrSessionId?: string) => {
+  if (!accessTokenOrSessionId) {
+    sessionCache.clear();
+    return;
+  }
+  sessionCache.forEach((cached, token) => {
+    if (
+      token === accessTokenOrSessionId ||
+      cached.session.id === accessTokenOrSessionId
+    ) {
+      sessionCache.delete(token);
     }
+  });
+};
+
+const loadSession = async (
+  client: PrismaClient,
+  token: string
+): Promise<AuthenticatedSession | null> => {
+  const session = await client.session.findUnique({
+    where: { accessToken: token },
+    select: {
+      id: true,
+      userId: true,
+      deviceId: true,
+      appVersion: true,
+      ipAddress: true,
+      accessTokenExpiresAt: true,
+      lastActivityAt: true,
+      isActive: true,
+      isRevoked: true,
+    },
+  });
+
+  if (
+    !session ||
+    !session.isActive ||
+    session.isRevoked ||
+    session.accessTokenExpiresAt <= new Date()
+  ) {
+    return null;
+  }
+
+  const { isActive, isRevoked, ...authenticated } = session;
+  return authenticated;
+};
+
+const touchSession = (
+  client: PrismaClient,
+  session: AuthenticatedSession,
+  intervalMs: number
+) => {
+  const now = new Date();
+  if (now.getTime() - session.lastActivityAt.getTime() < intervalMs) return;
+
+  // Mark before writing so concurrent requests don't issue the same update
+  session.lastActivityAt = now;
+  client.session
+    .update({ where: { id: session.id }, data: { lastActivityAt: now } })
+    .catch((error) => {
+      logger.warn(
+        `Failed to update lastActivityAt for session ${session.id}: ${error?.message}`
+      );
+    });
+};
 
-    // Verify session using access token
-    // const session = await DbClient.getInstance().session.findUnique({
-    //   where: {
-    //     accessToken: token,
-    //     accessTokenExpiresAt: {
-    //       gt: new Date(),
-    //     },
-    //     isActive: true,
-    //     isRevoked: false,
-    //   },
-    // });
+/**
+ * @description Verifies the bearer access token and sets `req.userId`.
+ * In session mode the token must also belong to an active, non-revoked
+ * session, which is attached as `req.authSession` together with `req.device`.
+ *
+ * @example
+ * router.get("/me", verifyAccessToken({ session: true }), handler);
+ */
+export const verifyAccessToken = (options: VerifyAccessTokenOptions = {}) => {
+  const sessionOptions: SessionVerificationOptions | null =
+    options.session === true ? {} : options.session || null;
 
+  return async (req: any, res: any, next: any) => {
     try {
-      const payload: JwtPayload = jwt.verify(
-        token,
-        process.env.ACCESS_TOKEN_SECRET!
-      ) as JwtPayload;
+      const authHeader: string = req.headers["authorization"];
+      if (!authHeader) {
+        throw new ValidationError("Missing Authorization header");
+      }
+
+      const token = authHeader.split(" ")[1];
+      if (!token) {
+        throw new ValidationError("Missing token in Authorization header");
+      }
+
+      let payload: JwtPayload;
+      try {
+        payload = jwt.verify(
+          token,
+          process.env.ACCESS_TOKEN_SECRET!
+        ) as JwtPayload;
+      } catch (err) {
+        throw new UnauthenticatedError("Invalid or expired access token");
+      }
+
+      if (sessionOptions) {
+        const {
+          cacheTtlMs = 15000,
+          activityUpdateIntervalMs = 60000,
+        } = sessionOptions;
+        const client = sessionOptions.client ?? DbClient.getInstance();
+
+        let session: AuthenticatedSession | null = null;
+        const cached = sessionCache.get(token);
+        if (cached && cached.expiresAt > Date.now()) {
+          session = cached.session;
+        } else {
+          session = await loadSession(client, token);
+          if (session) {
+            if (sessionCache.size >= MAX_CACHED_SESSIONS) {
+              sessionCache.delete(sessionCache.keys().next().value!);
+            }
+            sessionCache.set(token, {
+              session,
+              // Never cache past the token's own expiry
+              expiresAt: Math.min(
+                Date.now() + cacheTtlMs,
+                session.accessTokenExpiresAt.getTime()
+              ),
+            });
+          } else {
+            sessionCache.delete(token);
+          }
+        }
+
+        if (!session || session.userId !== payload.userId) {
+          throw new UnauthenticatedError("Session is no longer valid");
+        }
+
+        touchSession(client, session, activityUpdateIntervalMs);
+
+        req.authSession = session;
+        req.device = {
+          deviceId: session.deviceId,
+          appVersion: session.appVersion,
+          ipAddress: session.ipAddress,
+        };
+      }
+
       req.userId = payload.userId;
+      updateRequestContext({ userId: payload.userId });
       next();
     } catch (err) {
-      throw new UnauthenticatedError("Invalid or expired access token");
+      next(err);
     }
   };
 };
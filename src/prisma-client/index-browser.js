@@ -237,6 +237,44 @@ exports.Prisma.AnalyticsEventScalarFieldEnum = {
   timestamp: 'timestamp'
 };
 
+exports.Prisma.RateLimitScalarFieldEnum = {
+  key: 'key',
+  hits: 'hits',
+  tokens: 'tokens',
+  expiresAt: 'expiresAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.TokenTransactionScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  type: 'type',
+  amount: 'amount',
+  balanceAfter: 'balanceAfter',
+  periodStart: 'periodStart',
+  periodEnd: 'periodEnd',
+  videoId: 'videoId',
+  settlesId: 'settlesId',
+  idempotencyKey: 'idempotencyKey',
+  reason: 'reason',
+  metadata: 'metadata',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.VideoJobScalarFieldEnum = {
+  id: 'id',
+  videoId: 'videoId',
+  priority: 'priority',
+  attempts: 'attempts',
+  maxAttempts: 'maxAttempts',
+  availableAt: 'availableAt',
+  lockedBy: 'lockedBy',
+  lockedUntil: 'lockedUntil',
+  lastError: 'lastError',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -328,7 +366,10 @@ exports.Prisma.ModelName = {
   Subscription: 'Subscription',
   SubscriptionHistory: 'SubscriptionHistory',
   Video: 'Video',
-  AnalyticsEvent: 'AnalyticsEvent'
+  AnalyticsEvent: 'AnalyticsEvent',
+  RateLimit: 'RateLimit',
+  TokenTransaction: 'TokenTransaction',
+  VideoJob: 'VideoJob'
 };
 
 /**
@@ -48,6 +48,21 @@ export type Video = $Result.DefaultSelection<Prisma.$VideoPayload>
  * 
  */
 export type AnalyticsEvent = $Result.DefaultSelection<Prisma.$AnalyticsEventPayload>
+/**
+ * Model RateLimit
+ * 
+ */
+export type RateLimit = $Result.DefaultSelection<Prisma.$RateLimitPayload>
+/**
+ * Model TokenTransaction
+ * 
+ */
+export type TokenTransaction = $Result.DefaultSelection<Prisma.$TokenTransactionPayload>
+/**
+ * Model VideoJob
+ * 
+ */
+export type VideoJob = $Result.DefaultSelection<Prisma.$VideoJobPayload>
 
 /**
  * Enums
@@ -345,6 +360,36 @@ export class PrismaClient<
     * ```
     */
   get analyticsEvent(): Prisma.AnalyticsEventDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.rateLimit`: Exposes CRUD operations for the **RateLimit** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more RateLimits
+    * const rateLimits = await prisma.rateLimit.findMany()
+    * ```
+    */
+  get rateLimit(): Prisma.RateLimitDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.tokenTransaction`: Exposes CRUD operations for the **TokenTransaction** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more TokenTransactions
+    * const tokenTransactions = await prisma.tokenTransaction.findMany()
+    * ```
+    */
+  get tokenTransaction(): Prisma.TokenTransactionDelegate<ExtArgs, ClientOptions>;
+
+  /**
+   * `prisma.videoJob`: Exposes CRUD operations for the **VideoJob** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more VideoJobs
+    * const videoJobs = await prisma.videoJob.findMany()
+    * ```
+    */
+  get videoJob(): Prisma.VideoJobDelegate<ExtArgs, ClientOptions>;
 }
 
 export namespace Prisma {
@@ -792,7 +837,10 @@ export namespace Prisma {
     Subscription: 'Subscription',
     SubscriptionHistory: 'SubscriptionHistory',
     Video: 'Video',
-    AnalyticsEvent: 'AnalyticsEvent'
+    AnalyticsEvent: 'AnalyticsEvent',
+    RateLimit: 'RateLimit',
+    TokenTransaction: 'TokenTransaction',
+    VideoJob: 'VideoJob'
   };
 
   export type ModelName = (typeof ModelName)[keyof typeof ModelName]
@@ -811,7 +859,7 @@ export namespace Prisma {
       omit: GlobalOmitOptions
     }
     meta: {
-      modelProps: "user" | "otpCode" | "session" | "subscription" | "subscriptionHistory" | "video" | "analyticsEvent"
+      modelProps: "user" | "otpCode" | "session" | "subscription" | "subscriptionHistory" | "video" | "analyticsEvent" | "rateLimit" | "tokenTransaction" | "videoJob"
       txIsolationLevel: Prisma.TransactionIsolationLevel
     }
     model: {
@@ -1333,6 +1381,228 @@ export namespace Prisma {
           }
         }
       }
+      RateLimit: {
+        payload: Prisma.$RateLimitPayload<ExtArgs>
+        fields: Prisma.RateLimitFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.RateLimitFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$RateLimitPayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.RateLimitFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$RateLimitPayload>
+          }
+          findFirst: {
+            args: Prisma.RateLimitFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$RateLimitPayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.RateLimitFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$RateLimitPayload>
+          }
+          findMany: {
+            args: Prisma.RateLimitFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$RateLimitPayload>[]
+          }
+          create: {
+            args: Prisma.RateLimitCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$RateLimitPayload>
+          }
+          createMany: {
+            args: Prisma.RateLimitCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.RateLimitCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$RateLimitPayload>[]
+          }
+          delete: {
+            args: Prisma.RateLimitDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$RateLimitPayload>
+          }
+          update: {
+            args: Prisma.RateLimitUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$RateLimitPayload>
+          }
+          deleteMany: {
+            args: Prisma.RateLimitDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.RateLimitUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.RateLimitUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$RateLimitPayload>[]
+          }
+          upsert: {
+            args: Prisma.RateLimitUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$RateLimitPayload>
+          }
+          aggregate: {
+            args: Prisma.RateLimitAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateRateLimit>
+          }
+          groupBy: {
+            args: Prisma.RateLimitGroupByArgs<ExtArgs>
+            result: $Utils.Optional<RateLimitGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.RateLimitCountArgs<ExtArgs>
+            result: $Utils.Optional<RateLimitCountAggregateOutputType> | number
+          }
+        }
+      }
+      TokenTransaction: {
+        payload: Prisma.$TokenTransactionPayload<ExtArgs>
+        fields: Prisma.TokenTransactionFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.TokenTransactionFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$TokenTransactionPayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.TokenTransactionFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$TokenTransactionPayload>
+          }
+          findFirst: {
+            args: Prisma.TokenTransactionFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$TokenTransactionPayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.TokenTransactionFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$TokenTransactionPayload>
+          }
+          findMany: {
+            args: Prisma.TokenTransactionFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$TokenTransactionPayload>[]
+          }
+          create: {
+            args: Prisma.TokenTransactionCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$TokenTransactionPayload>
+          }
+          createMany: {
+            args: Prisma.TokenTransactionCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.TokenTransactionCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$TokenTransactionPayload>[]
+          }
+          delete: {
+            args: Prisma.TokenTransactionDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$TokenTransactionPayload>
+          }
+          update: {
+            args: Prisma.TokenTransactionUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$TokenTransactionPayload>
+          }
+          deleteMany: {
+            args: Prisma.TokenTransactionDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.TokenTransactionUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.TokenTransactionUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$TokenTransactionPayload>[]
+          }
+          upsert: {
+            args: Prisma.TokenTransactionUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$TokenTransactionPayload>
+          }
+          aggregate: {
+            args: Prisma.TokenTransactionAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateTokenTransaction>
+          }
+          groupBy: {
+            args: Prisma.TokenTransactionGroupByArgs<ExtArgs>
+            result: $Utils.Optional<TokenTransactionGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.TokenTransactionCountArgs<ExtArgs>
+            result: $Utils.Optional<TokenTransactionCountAggregateOutputType> | number
+          }
+        }
+      }
+      VideoJob: {
+        payload: Prisma.$VideoJobPayload<ExtArgs>
+        fields: Prisma.VideoJobFieldRefs
+        operations: {
+          findUnique: {
+            args: Prisma.VideoJobFindUniqueArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$VideoJobPayload> | null
+          }
+          findUniqueOrThrow: {
+            args: Prisma.VideoJobFindUniqueOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$VideoJobPayload>
+          }
+          findFirst: {
+            args: Prisma.VideoJobFindFirstArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$VideoJobPayload> | null
+          }
+          findFirstOrThrow: {
+            args: Prisma.VideoJobFindFirstOrThrowArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$VideoJobPayload>
+          }
+          findMany: {
+            args: Prisma.VideoJobFindManyArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$VideoJobPayload>[]
+          }
+          create: {
+            args: Prisma.VideoJobCreateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$VideoJobPayload>
+          }
+          createMany: {
+            args: Prisma.VideoJobCreateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          createManyAndReturn: {
+            args: Prisma.VideoJobCreateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$VideoJobPayload>[]
+          }
+          delete: {
+            args: Prisma.VideoJobDeleteArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$VideoJobPayload>
+          }
+          update: {
+            args: Prisma.VideoJobUpdateArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$VideoJobPayload>
+          }
+          deleteMany: {
+            args: Prisma.VideoJobDeleteManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateMany: {
+            args: Prisma.VideoJobUpdateManyArgs<ExtArgs>
+            result: BatchPayload
+          }
+          updateManyAndReturn: {
+            args: Prisma.VideoJobUpdateManyAndReturnArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$VideoJobPayload>[]
+          }
+          upsert: {
+            args: Prisma.VideoJobUpsertArgs<ExtArgs>
+            result: $Utils.PayloadToResult<Prisma.$VideoJobPayload>
+          }
+          aggregate: {
+            args: Prisma.VideoJobAggregateArgs<ExtArgs>
+            result: $Utils.Optional<AggregateVideoJob>
+          }
+          groupBy: {
+            args: Prisma.VideoJobGroupByArgs<ExtArgs>
+            result: $Utils.Optional<VideoJobGroupByOutputType>[]
+          }
+          count: {
+            args: Prisma.VideoJobCountArgs<ExtArgs>
+            result: $Utils.Optional<VideoJobCountAggregateOutputType> | number
+          }
+        }
+      }
     }
   } & {
     other: {
@@ -1436,6 +1706,9 @@ export namespace Prisma {
     subscriptionHistory?: SubscriptionHistoryOmit
     video?: VideoOmit
     analyticsEvent?: AnalyticsEventOmit
+    rateLimit?: RateLimitOmit
+    tokenTransaction?: TokenTransactionOmit
+    videoJob?: VideoJobOmit
   }
 
   /* Types for Logging */
@@ -1520,6 +1793,7 @@ export namespace Prisma {
     sessions: number
     videos: number
     analytics: number
+    tokenLedger: number
   }
 
   export type UserCountOutputTypeSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
@@ -1527,6 +1801,7 @@ export namespace Prisma {
     sessions?: boolean | UserCountOutputTypeCountSessionsArgs
     videos?: boolean | UserCountOutputTypeCountVideosArgs
     analytics?: boolean | UserCountOutputTypeCountAnalyticsArgs
+    tokenLedger?: boolean | UserCountOutputTypeCountTokenLedgerArgs
   }
 
   // Custom InputTypes
@@ -1568,6 +1843,13 @@ export namespace Prisma {
     where?: AnalyticsEventWhereInput
   }
 
+  /**
+   * UserCountOutputType without action
+   */
+  export type UserCountOutputTypeCountTokenLedgerArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: TokenTransactionWhereInput
+  }
+
 
   /**
    * Count Type SubscriptionCountOutputType
@@ -1805,6 +2087,7 @@ export namespace Prisma {
     subscription?: boolean | User$subscriptionArgs<ExtArgs>
     videos?: boolean | User$videosArgs<ExtArgs>
     analytics?: boolean | User$analyticsArgs<ExtArgs>
+    tokenLedger?: boolean | User$tokenLedgerArgs<ExtArgs>
     _count?: boolean | UserCountOutputTypeDefaultArgs<ExtArgs>
   }, ExtArgs["result"]["user"]>
 
@@ -1851,6 +2134,7 @@ export namespace Prisma {
     subscription?: boolean | User$subscriptionArgs<ExtArgs>
     videos?: boolean | User$videosArgs<ExtArgs>
     analytics?: boolean | User$analyticsArgs<ExtArgs>
+    tokenLedger?: boolean | User$tokenLedgerArgs<ExtArgs>
     _count?: boolean | UserCountOutputTypeDefaultArgs<ExtArgs>
   }
   export type UserIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {}
@@ -1864,6 +2148,7 @@ export namespace Prisma {
       subscription: Prisma.$SubscriptionPayload<ExtArgs> | null
       videos: Prisma.$VideoPayload<ExtArgs>[]
       analytics: Prisma.$AnalyticsEventPayload<ExtArgs>[]
+      tokenLedger: Prisma.$TokenTransactionPayload<ExtArgs>[]
     }
     scalars: $Extensions.GetPayloadResult<{
       id: string
@@ -2274,6 +2559,7 @@ export namespace Prisma {
     subscription<T extends User$subscriptionArgs<ExtArgs> = {}>(args?: Subset<T, User$subscriptionArgs<ExtArgs>>): Prisma__SubscriptionClient<$Result.GetResult<Prisma.$SubscriptionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
     videos<T extends User$videosArgs<ExtArgs> = {}>(args?: Subset<T, User$videosArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$VideoPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
     analytics<T extends User$analyticsArgs<ExtArgs> = {}>(args?: Subset<T, User$analyticsArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$AnalyticsEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+    tokenLedger<T extends User$tokenLedgerArgs<ExtArgs> = {}>(args?: Subset<T, User$tokenLedgerArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$TokenTransactionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
     /**
      * Attaches callbacks for the resolution and/or rejection of the Promise.
      * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -2814,6 +3100,30 @@ export namespace Prisma {
     distinct?: AnalyticsEventScalarFieldEnum | AnalyticsEventScalarFieldEnum[]
   }
 
+  /**
+   * User.tokenLedger
+   */
+  export type User$tokenLedgerArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TokenTransaction
+     */
+    select?: TokenTransactionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the TokenTransaction
+     */
+    omit?: TokenTransactionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: TokenTransactionInclude<ExtArgs> | null
+    where?: TokenTransactionWhereInput
+    orderBy?: TokenTransactionOrderByWithRelationInput | TokenTransactionOrderByWithRelationInput[]
+    cursor?: TokenTransactionWhereUniqueInput
+    take?: number
+    skip?: number
+    distinct?: TokenTransactionScalarFieldEnum | TokenTransactionScalarFieldEnum[]
+  }
+
   /**
    * User without action
    */
@@ -7926,6 +8236,7 @@ export namespace Prisma {
     createdAt?: boolean
     updatedAt?: boolean
     user?: boolean | UserDefaultArgs<ExtArgs>
+    job?: boolean | Video$jobArgs<ExtArgs>
   }, ExtArgs["result"]["video"]>
 
   export type VideoSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
@@ -7999,6 +8310,7 @@ export namespace Prisma {
   export type VideoOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "userId" | "title" | "prompt" | "customScript" | "duration" | "style" | "language" | "hasCaptions" | "status" | "errorMessage" | "videoUrl" | "thumbnailUrl" | "captionUrl" | "tokensUsed" | "version" | "metadata" | "createdAt" | "updatedAt", ExtArgs["result"]["video"]>
   export type VideoInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
     user?: boolean | UserDefaultArgs<ExtArgs>
+    job?: boolean | Video$jobArgs<ExtArgs>
   }
   export type VideoIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
     user?: boolean | UserDefaultArgs<ExtArgs>
@@ -8011,6 +8323,7 @@ export namespace Prisma {
     name: "Video"
     objects: {
       user: Prisma.$UserPayload<ExtArgs>
+      job: Prisma.$VideoJobPayload<ExtArgs> | null
     }
     scalars: $Extensions.GetPayloadResult<{
       id: string
@@ -8427,6 +8740,7 @@ export namespace Prisma {
   export interface Prisma__VideoClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
     readonly [Symbol.toStringTag]: "PrismaPromise"
     user<T extends UserDefaultArgs<ExtArgs> = {}>(args?: Subset<T, UserDefaultArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+    job<T extends Video$jobArgs<ExtArgs> = {}>(args?: Subset<T, Video$jobArgs<ExtArgs>>): Prisma__VideoJobClient<$Result.GetResult<Prisma.$VideoJobPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
     /**
      * Attaches callbacks for the resolution and/or rejection of the Promise.
      * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -8870,6 +9184,25 @@ export namespace Prisma {
     limit?: number
   }
 
+  /**
+   * Video.job
+   */
+  export type Video$jobArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the VideoJob
+     */
+    select?: VideoJobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the VideoJob
+     */
+    omit?: VideoJobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: VideoJobInclude<ExtArgs> | null
+    where?: VideoJobWhereInput
+  }
+
   /**
    * Video without action
    */
@@ -10041,73 +10374,3480 @@ export namespace Prisma {
 
 
   /**
-   * Enums
+   * Model RateLimit
    */
 
-  export const TransactionIsolationLevel: {
-    ReadUncommitted: 'ReadUncommitted',
-    ReadCommitted: 'ReadCommitted',
-    RepeatableRead: 'RepeatableRead',
-    Serializable: 'Serializable'
-  };
+  export type AggregateRateLimit = {
+    _count: RateLimitCountAggregateOutputType | null
+    _avg: RateLimitAvgAggregateOutputType | null
+    _sum: RateLimitSumAggregateOutputType | null
+    _min: RateLimitMinAggregateOutputType | null
+    _max: RateLimitMaxAggregateOutputType | null
+  }
 
-  export type TransactionIsolationLevel = (typeof TransactionIsolationLevel)[keyof typeof TransactionIsolationLevel]
+  export type RateLimitAvgAggregateOutputType = {
+    hits: number | null
+    tokens: number | null
+  }
 
+  export type RateLimitSumAggregateOutputType = {
+    hits: number | null
+    tokens: number | null
+  }
 
-  export const UserScalarFieldEnum: {
-    id: 'id',
-    email: 'email',
-    name: 'name',
-    avatarUrl: 'avatarUrl',
-    subscriptionStatus: 'subscriptionStatus',
-    isDeleted: 'isDeleted',
-    deletedAt: 'deletedAt',
-    createdAt: 'createdAt',
-    updatedAt: 'updatedAt'
-  };
+  export type RateLimitMinAggregateOutputType = {
+    key: string | null
+    hits: number | null
+    tokens: number | null
+    expiresAt: Date | null
+    updatedAt: Date | null
+  }
 
-  export type UserScalarFieldEnum = (typeof UserScalarFieldEnum)[keyof typeof UserScalarFieldEnum]
+  export type RateLimitMaxAggregateOutputType = {
+    key: string | null
+    hits: number | null
+    tokens: number | null
+    expiresAt: Date | null
+    updatedAt: Date | null
+  }
 
+  export type RateLimitCountAggregateOutputType = {
+    key: number
+    hits: number
+    tokens: number
+    expiresAt: number
+    updatedAt: number
+    _all: number
+  }
 
-  export const OtpCodeScalarFieldEnum: {
-    id: 'id',
-    userId: 'userId',
-    email: 'email',
-    code: 'code',
-    purpose: 'purpose',
-    expiresAt: 'expiresAt',
-    attempts: 'attempts',
-    isUsed: 'isUsed',
-    usedAt: 'usedAt',
-    isValid: 'isValid',
-    invalidatedAt: 'invalidatedAt',
-    invalidatedReason: 'invalidatedReason',
-    createdAt: 'createdAt',
-    updatedAt: 'updatedAt'
-  };
 
-  export type OtpCodeScalarFieldEnum = (typeof OtpCodeScalarFieldEnum)[keyof typeof OtpCodeScalarFieldEnum]
+  export type RateLimitAvgAggregateInputType = {
+    hits?: true
+    tokens?: true
+  }
 
+  export type RateLimitSumAggregateInputType = {
+    hits?: true
+    tokens?: true
+  }
 
-  export const SessionScalarFieldEnum: {
-    id: 'id',
-    userId: 'userId',
-    accessToken: 'accessToken',
-    refreshToken: 'refreshToken',
-    accessTokenExpiresAt: 'accessTokenExpiresAt',
-    refreshTokenExpiresAt: 'refreshTokenExpiresAt',
-    deviceId: 'deviceId',
-    appVersion: 'appVersion',
-    ipAddress: 'ipAddress',
-    lastActivityAt: 'lastActivityAt',
-    isActive: 'isActive',
-    isRevoked: 'isRevoked',
-    revokedAt: 'revokedAt',
-    revokedReason: 'revokedReason',
-    createdAt: 'createdAt'
-  };
+  export type RateLimitMinAggregateInputType = {
+    key?: true
+    hits?: true
+    tokens?: true
+    expiresAt?: true
+    updatedAt?: true
+  }
 
-  export type SessionScalarFieldEnum = (typeof SessionScalarFieldEnum)[keyof typeof SessionScalarFieldEnum]
+  export type RateLimitMaxAggregateInputType = {
+    key?: true
+    hits?: true
+    tokens?: true
+    expiresAt?: true
+    updatedAt?: true
+  }
+
+  export type RateLimitCountAggregateInputType = {
+    key?: true
+    hits?: true
+    tokens?: true
+    expiresAt?: true
+    updatedAt?: true
+    _all?: true
+  }
+
+  export type RateLimitAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which RateLimit to aggregate.
+     */
+    where?: RateLimitWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of RateLimits to fetch.
+     */
+    orderBy?: RateLimitOrderByWithRelationInput | RateLimitOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: RateLimitWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` RateLimits from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` RateLimits.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned RateLimits
+    **/
+    _count?: true | RateLimitCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to average
+    **/
+    _avg?: RateLimitAvgAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to sum
+    **/
+    _sum?: RateLimitSumAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: RateLimitMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: RateLimitMaxAggregateInputType
+  }
+
+  export type GetRateLimitAggregateType<T extends RateLimitAggregateArgs> = {
+        [P in keyof T & keyof AggregateRateLimit]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateRateLimit[P]>
+      : GetScalarType<T[P], AggregateRateLimit[P]>
+  }
+
+
+
+
+  export type RateLimitGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: RateLimitWhereInput
+    orderBy?: RateLimitOrderByWithAggregationInput | RateLimitOrderByWithAggregationInput[]
+    by: RateLimitScalarFieldEnum[] | RateLimitScalarFieldEnum
+    having?: RateLimitScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: RateLimitCountAggregateInputType | true
+    _avg?: RateLimitAvgAggregateInputType
+    _sum?: RateLimitSumAggregateInputType
+    _min?: RateLimitMinAggregateInputType
+    _max?: RateLimitMaxAggregateInputType
+  }
+
+  export type RateLimitGroupByOutputType = {
+    key: string
+    hits: number
+    tokens: number | null
+    expiresAt: Date
+    updatedAt: Date
+    _count: RateLimitCountAggregateOutputType | null
+    _avg: RateLimitAvgAggregateOutputType | null
+    _sum: RateLimitSumAggregateOutputType | null
+    _min: RateLimitMinAggregateOutputType | null
+    _max: RateLimitMaxAggregateOutputType | null
+  }
+
+  type GetRateLimitGroupByPayload<T extends RateLimitGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<RateLimitGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof RateLimitGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], RateLimitGroupByOutputType[P]>
+            : GetScalarType<T[P], RateLimitGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type RateLimitSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    key?: boolean
+    hits?: boolean
+    tokens?: boolean
+    expiresAt?: boolean
+    updatedAt?: boolean
+  }, ExtArgs["result"]["rateLimit"]>
+
+  export type RateLimitSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    key?: boolean
+    hits?: boolean
+    tokens?: boolean
+    expiresAt?: boolean
+    updatedAt?: boolean
+  }, ExtArgs["result"]["rateLimit"]>
+
+  export type RateLimitSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    key?: boolean
+    hits?: boolean
+    tokens?: boolean
+    expiresAt?: boolean
+    updatedAt?: boolean
+  }, ExtArgs["result"]["rateLimit"]>
+
+  export type RateLimitSelectScalar = {
+    key?: boolean
+    hits?: boolean
+    tokens?: boolean
+    expiresAt?: boolean
+    updatedAt?: boolean
+  }
+
+  export type RateLimitOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"key" | "hits" | "tokens" | "expiresAt" | "updatedAt", ExtArgs["result"]["rateLimit"]>
+
+  export type $RateLimitPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "RateLimit"
+    objects: {}
+    scalars: $Extensions.GetPayloadResult<{
+      key: string
+      hits: number
+      tokens: number | null
+      expiresAt: Date
+      updatedAt: Date
+    }, ExtArgs["result"]["rateLimit"]>
+    composites: {}
+  }
+
+  type RateLimitGetPayload<S extends boolean | null | undefined | RateLimitDefaultArgs> = $Result.GetResult<Prisma.$RateLimitPayload, S>
+
+  type RateLimitCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<RateLimitFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: RateLimitCountAggregateInputType | true
+    }
+
+  export interface RateLimitDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['RateLimit'], meta: { name: 'RateLimit' } }
+    /**
+     * Find zero or one RateLimit that matches the filter.
+     * @param {RateLimitFindUniqueArgs} args - Arguments to find a RateLimit
+     * @example
+     * // Get one RateLimit
+     * const rateLimit = await prisma.rateLimit.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends RateLimitFindUniqueArgs>(args: SelectSubset<T, RateLimitFindUniqueArgs<ExtArgs>>): Prisma__RateLimitClient<$Result.GetResult<Prisma.$RateLimitPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one RateLimit that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {RateLimitFindUniqueOrThrowArgs} args - Arguments to find a RateLimit
+     * @example
+     * // Get one RateLimit
+     * const rateLimit = await prisma.rateLimit.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends RateLimitFindUniqueOrThrowArgs>(args: SelectSubset<T, RateLimitFindUniqueOrThrowArgs<ExtArgs>>): Prisma__RateLimitClient<$Result.GetResult<Prisma.$RateLimitPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first RateLimit that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {RateLimitFindFirstArgs} args - Arguments to find a RateLimit
+     * @example
+     * // Get one RateLimit
+     * const rateLimit = await prisma.rateLimit.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends RateLimitFindFirstArgs>(args?: SelectSubset<T, RateLimitFindFirstArgs<ExtArgs>>): Prisma__RateLimitClient<$Result.GetResult<Prisma.$RateLimitPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first RateLimit that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {RateLimitFindFirstOrThrowArgs} args - Arguments to find a RateLimit
+     * @example
+     * // Get one RateLimit
+     * const rateLimit = await prisma.rateLimit.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends RateLimitFindFirstOrThrowArgs>(args?: SelectSubset<T, RateLimitFindFirstOrThrowArgs<ExtArgs>>): Prisma__RateLimitClient<$Result.GetResult<Prisma.$RateLimitPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more RateLimits that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {RateLimitFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all RateLimits
+     * const rateLimits = await prisma.rateLimit.findMany()
+     * 
+     * // Get first 10 RateLimits
+     * const rateLimits = await prisma.rateLimit.findMany({ take: 10 })
+     * 
+     * // Only select the `key`
+     * const rateLimitWithKeyOnly = await prisma.rateLimit.findMany({ select: { key: true } })
+     * 
+     */
+    findMany<T extends RateLimitFindManyArgs>(args?: SelectSubset<T, RateLimitFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$RateLimitPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a RateLimit.
+     * @param {RateLimitCreateArgs} args - Arguments to create a RateLimit.
+     * @example
+     * // Create one RateLimit
+     * const RateLimit = await prisma.rateLimit.create({
+     *   data: {
+     *     // ... data to create a RateLimit
+     *   }
+     * })
+     * 
+     */
+    create<T extends RateLimitCreateArgs>(args: SelectSubset<T, RateLimitCreateArgs<ExtArgs>>): Prisma__RateLimitClient<$Result.GetResult<Prisma.$RateLimitPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many RateLimits.
+     * @param {RateLimitCreateManyArgs} args - Arguments to create many RateLimits.
+     * @example
+     * // Create many RateLimits
+     * const rateLimit = await prisma.rateLimit.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends RateLimitCreateManyArgs>(args?: SelectSubset<T, RateLimitCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many RateLimits and returns the data saved in the database.
+     * @param {RateLimitCreateManyAndReturnArgs} args - Arguments to create many RateLimits.
+     * @example
+     * // Create many RateLimits
+     * const rateLimit = await prisma.rateLimit.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many RateLimits and only return the `key`
+     * const rateLimitWithKeyOnly = await prisma.rateLimit.createManyAndReturn({
+     *   select: { key: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends RateLimitCreateManyAndReturnArgs>(args?: SelectSubset<T, RateLimitCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$RateLimitPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a RateLimit.
+     * @param {RateLimitDeleteArgs} args - Arguments to delete one RateLimit.
+     * @example
+     * // Delete one RateLimit
+     * const RateLimit = await prisma.rateLimit.delete({
+     *   where: {
+     *     // ... filter to delete one RateLimit
+     *   }
+     * })
+     * 
+     */
+    delete<T extends RateLimitDeleteArgs>(args: SelectSubset<T, RateLimitDeleteArgs<ExtArgs>>): Prisma__RateLimitClient<$Result.GetResult<Prisma.$RateLimitPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one RateLimit.
+     * @param {RateLimitUpdateArgs} args - Arguments to update one RateLimit.
+     * @example
+     * // Update one RateLimit
+     * const rateLimit = await prisma.rateLimit.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends RateLimitUpdateArgs>(args: SelectSubset<T, RateLimitUpdateArgs<ExtArgs>>): Prisma__RateLimitClient<$Result.GetResult<Prisma.$RateLimitPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more RateLimits.
+     * @param {RateLimitDeleteManyArgs} args - Arguments to filter RateLimits to delete.
+     * @example
+     * // Delete a few RateLimits
+     * const { count } = await prisma.rateLimit.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends RateLimitDeleteManyArgs>(args?: SelectSubset<T, RateLimitDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more RateLimits.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {RateLimitUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many RateLimits
+     * const rateLimit = await prisma.rateLimit.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends RateLimitUpdateManyArgs>(args: SelectSubset<T, RateLimitUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more RateLimits and returns the data updated in the database.
+     * @param {RateLimitUpdateManyAndReturnArgs} args - Arguments to update many RateLimits.
+     * @example
+     * // Update many RateLimits
+     * const rateLimit = await prisma.rateLimit.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more RateLimits and only return the `key`
+     * const rateLimitWithKeyOnly = await prisma.rateLimit.updateManyAndReturn({
+     *   select: { key: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends RateLimitUpdateManyAndReturnArgs>(args: SelectSubset<T, RateLimitUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$RateLimitPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one RateLimit.
+     * @param {RateLimitUpsertArgs} args - Arguments to update or create a RateLimit.
+     * @example
+     * // Update or create a RateLimit
+     * const rateLimit = await prisma.rateLimit.upsert({
+     *   create: {
+     *     // ... data to create a RateLimit
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the RateLimit we want to update
+     *   }
+     * })
+     */
+    upsert<T extends RateLimitUpsertArgs>(args: SelectSubset<T, RateLimitUpsertArgs<ExtArgs>>): Prisma__RateLimitClient<$Result.GetResult<Prisma.$RateLimitPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of RateLimits.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {RateLimitCountArgs} args - Arguments to filter RateLimits to count.
+     * @example
+     * // Count the number of RateLimits
+     * const count = await prisma.rateLimit.count({
+     *   where: {
+     *     // ... the filter for the RateLimits we want to count
+     *   }
+     * })
+    **/
+    count<T extends RateLimitCountArgs>(
+      args?: Subset<T, RateLimitCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], RateLimitCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a RateLimit.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {RateLimitAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends RateLimitAggregateArgs>(args: Subset<T, RateLimitAggregateArgs>): Prisma.PrismaPromise<GetRateLimitAggregateType<T>>
+
+    /**
+     * Group by RateLimit.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {RateLimitGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends RateLimitGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: RateLimitGroupByArgs['orderBy'] }
+        : { orderBy?: RateLimitGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, RateLimitGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetRateLimitGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the RateLimit model
+   */
+  readonly fields: RateLimitFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for RateLimit.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__RateLimitClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the RateLimit model
+   */
+  interface RateLimitFieldRefs {
+    readonly key: FieldRef<"RateLimit", 'String'>
+    readonly hits: FieldRef<"RateLimit", 'Int'>
+    readonly tokens: FieldRef<"RateLimit", 'Float'>
+    readonly expiresAt: FieldRef<"RateLimit", 'DateTime'>
+    readonly updatedAt: FieldRef<"RateLimit", 'DateTime'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * RateLimit findUnique
+   */
+  export type RateLimitFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimit
+     */
+    select?: RateLimitSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimit
+     */
+    omit?: RateLimitOmit<ExtArgs> | null
+    /**
+     * Filter, which RateLimit to fetch.
+     */
+    where: RateLimitWhereUniqueInput
+  }
+
+  /**
+   * RateLimit findUniqueOrThrow
+   */
+  export type RateLimitFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimit
+     */
+    select?: RateLimitSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimit
+     */
+    omit?: RateLimitOmit<ExtArgs> | null
+    /**
+     * Filter, which RateLimit to fetch.
+     */
+    where: RateLimitWhereUniqueInput
+  }
+
+  /**
+   * RateLimit findFirst
+   */
+  export type RateLimitFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimit
+     */
+    select?: RateLimitSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimit
+     */
+    omit?: RateLimitOmit<ExtArgs> | null
+    /**
+     * Filter, which RateLimit to fetch.
+     */
+    where?: RateLimitWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of RateLimits to fetch.
+     */
+    orderBy?: RateLimitOrderByWithRelationInput | RateLimitOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for RateLimits.
+     */
+    cursor?: RateLimitWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` RateLimits from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` RateLimits.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of RateLimits.
+     */
+    distinct?: RateLimitScalarFieldEnum | RateLimitScalarFieldEnum[]
+  }
+
+  /**
+   * RateLimit findFirstOrThrow
+   */
+  export type RateLimitFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimit
+     */
+    select?: RateLimitSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimit
+     */
+    omit?: RateLimitOmit<ExtArgs> | null
+    /**
+     * Filter, which RateLimit to fetch.
+     */
+    where?: RateLimitWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of RateLimits to fetch.
+     */
+    orderBy?: RateLimitOrderByWithRelationInput | RateLimitOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for RateLimits.
+     */
+    cursor?: RateLimitWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` RateLimits from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` RateLimits.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of RateLimits.
+     */
+    distinct?: RateLimitScalarFieldEnum | RateLimitScalarFieldEnum[]
+  }
+
+  /**
+   * RateLimit findMany
+   */
+  export type RateLimitFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimit
+     */
+    select?: RateLimitSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimit
+     */
+    omit?: RateLimitOmit<ExtArgs> | null
+    /**
+     * Filter, which RateLimits to fetch.
+     */
+    where?: RateLimitWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of RateLimits to fetch.
+     */
+    orderBy?: RateLimitOrderByWithRelationInput | RateLimitOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing RateLimits.
+     */
+    cursor?: RateLimitWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` RateLimits from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` RateLimits.
+     */
+    skip?: number
+    distinct?: RateLimitScalarFieldEnum | RateLimitScalarFieldEnum[]
+  }
+
+  /**
+   * RateLimit create
+   */
+  export type RateLimitCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimit
+     */
+    select?: RateLimitSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimit
+     */
+    omit?: RateLimitOmit<ExtArgs> | null
+    /**
+     * The data needed to create a RateLimit.
+     */
+    data: XOR<RateLimitCreateInput, RateLimitUncheckedCreateInput>
+  }
+
+  /**
+   * RateLimit createMany
+   */
+  export type RateLimitCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many RateLimits.
+     */
+    data: RateLimitCreateManyInput | RateLimitCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * RateLimit createManyAndReturn
+   */
+  export type RateLimitCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimit
+     */
+    select?: RateLimitSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimit
+     */
+    omit?: RateLimitOmit<ExtArgs> | null
+    /**
+     * The data used to create many RateLimits.
+     */
+    data: RateLimitCreateManyInput | RateLimitCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * RateLimit update
+   */
+  export type RateLimitUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimit
+     */
+    select?: RateLimitSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimit
+     */
+    omit?: RateLimitOmit<ExtArgs> | null
+    /**
+     * The data needed to update a RateLimit.
+     */
+    data: XOR<RateLimitUpdateInput, RateLimitUncheckedUpdateInput>
+    /**
+     * Choose, which RateLimit to update.
+     */
+    where: RateLimitWhereUniqueInput
+  }
+
+  /**
+   * RateLimit updateMany
+   */
+  export type RateLimitUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update RateLimits.
+     */
+    data: XOR<RateLimitUpdateManyMutationInput, RateLimitUncheckedUpdateManyInput>
+    /**
+     * Filter which RateLimits to update
+     */
+    where?: RateLimitWhereInput
+    /**
+     * Limit how many RateLimits to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * RateLimit updateManyAndReturn
+   */
+  export type RateLimitUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimit
+     */
+    select?: RateLimitSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimit
+     */
+    omit?: RateLimitOmit<ExtArgs> | null
+    /**
+     * The data used to update RateLimits.
+     */
+    data: XOR<RateLimitUpdateManyMutationInput, RateLimitUncheckedUpdateManyInput>
+    /**
+     * Filter which RateLimits to update
+     */
+    where?: RateLimitWhereInput
+    /**
+     * Limit how many RateLimits to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * RateLimit upsert
+   */
+  export type RateLimitUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimit
+     */
+    select?: RateLimitSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimit
+     */
+    omit?: RateLimitOmit<ExtArgs> | null
+    /**
+     * The filter to search for the RateLimit to update in case it exists.
+     */
+    where: RateLimitWhereUniqueInput
+    /**
+     * In case the RateLimit found by the `where` argument doesn't exist, create a new RateLimit with this data.
+     */
+    create: XOR<RateLimitCreateInput, RateLimitUncheckedCreateInput>
+    /**
+     * In case the RateLimit was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<RateLimitUpdateInput, RateLimitUncheckedUpdateInput>
+  }
+
+  /**
+   * RateLimit delete
+   */
+  export type RateLimitDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimit
+     */
+    select?: RateLimitSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimit
+     */
+    omit?: RateLimitOmit<ExtArgs> | null
+    /**
+     * Filter which RateLimit to delete.
+     */
+    where: RateLimitWhereUniqueInput
+  }
+
+  /**
+   * RateLimit deleteMany
+   */
+  export type RateLimitDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which RateLimits to delete
+     */
+    where?: RateLimitWhereInput
+    /**
+     * Limit how many RateLimits to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * RateLimit without action
+   */
+  export type RateLimitDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the RateLimit
+     */
+    select?: RateLimitSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the RateLimit
+     */
+    omit?: RateLimitOmit<ExtArgs> | null
+  }
+
+
+  /**
+   * Model TokenTransaction
+   */
+
+  export type AggregateTokenTransaction = {
+    _count: TokenTransactionCountAggregateOutputType | null
+    _avg: TokenTransactionAvgAggregateOutputType | null
+    _sum: TokenTransactionSumAggregateOutputType | null
+    _min: TokenTransactionMinAggregateOutputType | null
+    _max: TokenTransactionMaxAggregateOutputType | null
+  }
+
+  export type TokenTransactionAvgAggregateOutputType = {
+    amount: number | null
+    balanceAfter: number | null
+  }
+
+  export type TokenTransactionSumAggregateOutputType = {
+    amount: number | null
+    balanceAfter: number | null
+  }
+
+  export type TokenTransactionMinAggregateOutputType = {
+    id: string | null
+    userId: string | null
+    type: string | null
+    amount: number | null
+    balanceAfter: number | null
+    periodStart: Date | null
+    periodEnd: Date | null
+    videoId: string | null
+    settlesId: string | null
+    idempotencyKey: string | null
+    reason: string | null
+    createdAt: Date | null
+  }
+
+  export type TokenTransactionMaxAggregateOutputType = {
+    id: string | null
+    userId: string | null
+    type: string | null
+    amount: number | null
+    balanceAfter: number | null
+    periodStart: Date | null
+    periodEnd: Date | null
+    videoId: string | null
+    settlesId: string | null
+    idempotencyKey: string | null
+    reason: string | null
+    createdAt: Date | null
+  }
+
+  export type TokenTransactionCountAggregateOutputType = {
+    id: number
+    userId: number
+    type: number
+    amount: number
+    balanceAfter: number
+    periodStart: number
+    periodEnd: number
+    videoId: number
+    settlesId: number
+    idempotencyKey: number
+    reason: number
+    metadata: number
+    createdAt: number
+    _all: number
+  }
+
+
+  export type TokenTransactionAvgAggregateInputType = {
+    amount?: true
+    balanceAfter?: true
+  }
+
+  export type TokenTransactionSumAggregateInputType = {
+    amount?: true
+    balanceAfter?: true
+  }
+
+  export type TokenTransactionMinAggregateInputType = {
+    id?: true
+    userId?: true
+    type?: true
+    amount?: true
+    balanceAfter?: true
+    periodStart?: true
+    periodEnd?: true
+    videoId?: true
+    settlesId?: true
+    idempotencyKey?: true
+    reason?: true
+    createdAt?: true
+  }
+
+  export type TokenTransactionMaxAggregateInputType = {
+    id?: true
+    userId?: true
+    type?: true
+    amount?: true
+    balanceAfter?: true
+    periodStart?: true
+    periodEnd?: true
+    videoId?: true
+    settlesId?: true
+    idempotencyKey?: true
+    reason?: true
+    createdAt?: true
+  }
+
+  export type TokenTransactionCountAggregateInputType = {
+    id?: true
+    userId?: true
+    type?: true
+    amount?: true
+    balanceAfter?: true
+    periodStart?: true
+    periodEnd?: true
+    videoId?: true
+    settlesId?: true
+    idempotencyKey?: true
+    reason?: true
+    metadata?: true
+    createdAt?: true
+    _all?: true
+  }
+
+  export type TokenTransactionAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which TokenTransaction to aggregate.
+     */
+    where?: TokenTransactionWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of TokenTransactions to fetch.
+     */
+    orderBy?: TokenTransactionOrderByWithRelationInput | TokenTransactionOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: TokenTransactionWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` TokenTransactions from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` TokenTransactions.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned TokenTransactions
+    **/
+    _count?: true | TokenTransactionCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to average
+    **/
+    _avg?: TokenTransactionAvgAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to sum
+    **/
+    _sum?: TokenTransactionSumAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: TokenTransactionMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: TokenTransactionMaxAggregateInputType
+  }
+
+  export type GetTokenTransactionAggregateType<T extends TokenTransactionAggregateArgs> = {
+        [P in keyof T & keyof AggregateTokenTransaction]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateTokenTransaction[P]>
+      : GetScalarType<T[P], AggregateTokenTransaction[P]>
+  }
+
+
+
+
+  export type TokenTransactionGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: TokenTransactionWhereInput
+    orderBy?: TokenTransactionOrderByWithAggregationInput | TokenTransactionOrderByWithAggregationInput[]
+    by: TokenTransactionScalarFieldEnum[] | TokenTransactionScalarFieldEnum
+    having?: TokenTransactionScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: TokenTransactionCountAggregateInputType | true
+    _avg?: TokenTransactionAvgAggregateInputType
+    _sum?: TokenTransactionSumAggregateInputType
+    _min?: TokenTransactionMinAggregateInputType
+    _max?: TokenTransactionMaxAggregateInputType
+  }
+
+  export type TokenTransactionGroupByOutputType = {
+    id: string
+    userId: string
+    type: string
+    amount: number
+    balanceAfter: number
+    periodStart: Date
+    periodEnd: Date
+    videoId: string | null
+    settlesId: string | null
+    idempotencyKey: string | null
+    reason: string | null
+    metadata: JsonValue | null
+    createdAt: Date
+    _count: TokenTransactionCountAggregateOutputType | null
+    _avg: TokenTransactionAvgAggregateOutputType | null
+    _sum: TokenTransactionSumAggregateOutputType | null
+    _min: TokenTransactionMinAggregateOutputType | null
+    _max: TokenTransactionMaxAggregateOutputType | null
+  }
+
+  type GetTokenTransactionGroupByPayload<T extends TokenTransactionGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<TokenTransactionGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof TokenTransactionGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], TokenTransactionGroupByOutputType[P]>
+            : GetScalarType<T[P], TokenTransactionGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type TokenTransactionSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    userId?: boolean
+    type?: boolean
+    amount?: boolean
+    balanceAfter?: boolean
+    periodStart?: boolean
+    periodEnd?: boolean
+    videoId?: boolean
+    settlesId?: boolean
+    idempotencyKey?: boolean
+    reason?: boolean
+    metadata?: boolean
+    createdAt?: boolean
+    user?: boolean | UserDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["tokenTransaction"]>
+
+  export type TokenTransactionSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    userId?: boolean
+    type?: boolean
+    amount?: boolean
+    balanceAfter?: boolean
+    periodStart?: boolean
+    periodEnd?: boolean
+    videoId?: boolean
+    settlesId?: boolean
+    idempotencyKey?: boolean
+    reason?: boolean
+    metadata?: boolean
+    createdAt?: boolean
+    user?: boolean | UserDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["tokenTransaction"]>
+
+  export type TokenTransactionSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    userId?: boolean
+    type?: boolean
+    amount?: boolean
+    balanceAfter?: boolean
+    periodStart?: boolean
+    periodEnd?: boolean
+    videoId?: boolean
+    settlesId?: boolean
+    idempotencyKey?: boolean
+    reason?: boolean
+    metadata?: boolean
+    createdAt?: boolean
+    user?: boolean | UserDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["tokenTransaction"]>
+
+  export type TokenTransactionSelectScalar = {
+    id?: boolean
+    userId?: boolean
+    type?: boolean
+    amount?: boolean
+    balanceAfter?: boolean
+    periodStart?: boolean
+    periodEnd?: boolean
+    videoId?: boolean
+    settlesId?: boolean
+    idempotencyKey?: boolean
+    reason?: boolean
+    metadata?: boolean
+    createdAt?: boolean
+  }
+
+  export type TokenTransactionOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "userId" | "type" | "amount" | "balanceAfter" | "periodStart" | "periodEnd" | "videoId" | "settlesId" | "idempotencyKey" | "reason" | "metadata" | "createdAt", ExtArgs["result"]["tokenTransaction"]>
+  export type TokenTransactionInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    user?: boolean | UserDefaultArgs<ExtArgs>
+  }
+  export type TokenTransactionIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    user?: boolean | UserDefaultArgs<ExtArgs>
+  }
+  export type TokenTransactionIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    user?: boolean | UserDefaultArgs<ExtArgs>
+  }
+
+  export type $TokenTransactionPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "TokenTransaction"
+    objects: {
+      user: Prisma.$UserPayload<ExtArgs>
+    }
+    scalars: $Extensions.GetPayloadResult<{
+      id: string
+      userId: string
+      type: string
+      amount: number
+      balanceAfter: number
+      periodStart: Date
+      periodEnd: Date
+      videoId: string | null
+      settlesId: string | null
+      idempotencyKey: string | null
+      reason: string | null
+      metadata: Prisma.JsonValue | null
+      createdAt: Date
+    }, ExtArgs["result"]["tokenTransaction"]>
+    composites: {}
+  }
+
+  type TokenTransactionGetPayload<S extends boolean | null | undefined | TokenTransactionDefaultArgs> = $Result.GetResult<Prisma.$TokenTransactionPayload, S>
+
+  type TokenTransactionCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<TokenTransactionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: TokenTransactionCountAggregateInputType | true
+    }
+
+  export interface TokenTransactionDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['TokenTransaction'], meta: { name: 'TokenTransaction' } }
+    /**
+     * Find zero or one TokenTransaction that matches the filter.
+     * @param {TokenTransactionFindUniqueArgs} args - Arguments to find a TokenTransaction
+     * @example
+     * // Get one TokenTransaction
+     * const tokenTransaction = await prisma.tokenTransaction.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends TokenTransactionFindUniqueArgs>(args: SelectSubset<T, TokenTransactionFindUniqueArgs<ExtArgs>>): Prisma__TokenTransactionClient<$Result.GetResult<Prisma.$TokenTransactionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one TokenTransaction that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {TokenTransactionFindUniqueOrThrowArgs} args - Arguments to find a TokenTransaction
+     * @example
+     * // Get one TokenTransaction
+     * const tokenTransaction = await prisma.tokenTransaction.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends TokenTransactionFindUniqueOrThrowArgs>(args: SelectSubset<T, TokenTransactionFindUniqueOrThrowArgs<ExtArgs>>): Prisma__TokenTransactionClient<$Result.GetResult<Prisma.$TokenTransactionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first TokenTransaction that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {TokenTransactionFindFirstArgs} args - Arguments to find a TokenTransaction
+     * @example
+     * // Get one TokenTransaction
+     * const tokenTransaction = await prisma.tokenTransaction.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends TokenTransactionFindFirstArgs>(args?: SelectSubset<T, TokenTransactionFindFirstArgs<ExtArgs>>): Prisma__TokenTransactionClient<$Result.GetResult<Prisma.$TokenTransactionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first TokenTransaction that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {TokenTransactionFindFirstOrThrowArgs} args - Arguments to find a TokenTransaction
+     * @example
+     * // Get one TokenTransaction
+     * const tokenTransaction = await prisma.tokenTransaction.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends TokenTransactionFindFirstOrThrowArgs>(args?: SelectSubset<T, TokenTransactionFindFirstOrThrowArgs<ExtArgs>>): Prisma__TokenTransactionClient<$Result.GetResult<Prisma.$TokenTransactionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more TokenTransactions that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {TokenTransactionFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all TokenTransactions
+     * const tokenTransactions = await prisma.tokenTransaction.findMany()
+     * 
+     * // Get first 10 TokenTransactions
+     * const tokenTransactions = await prisma.tokenTransaction.findMany({ take: 10 })
+     * 
+     * // Only select the `id`
+     * const tokenTransactionWithIdOnly = await prisma.tokenTransaction.findMany({ select: { id: true } })
+     * 
+     */
+    findMany<T extends TokenTransactionFindManyArgs>(args?: SelectSubset<T, TokenTransactionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$TokenTransactionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a TokenTransaction.
+     * @param {TokenTransactionCreateArgs} args - Arguments to create a TokenTransaction.
+     * @example
+     * // Create one TokenTransaction
+     * const TokenTransaction = await prisma.tokenTransaction.create({
+     *   data: {
+     *     // ... data to create a TokenTransaction
+     *   }
+     * })
+     * 
+     */
+    create<T extends TokenTransactionCreateArgs>(args: SelectSubset<T, TokenTransactionCreateArgs<ExtArgs>>): Prisma__TokenTransactionClient<$Result.GetResult<Prisma.$TokenTransactionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many TokenTransactions.
+     * @param {TokenTransactionCreateManyArgs} args - Arguments to create many TokenTransactions.
+     * @example
+     * // Create many TokenTransactions
+     * const tokenTransaction = await prisma.tokenTransaction.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends TokenTransactionCreateManyArgs>(args?: SelectSubset<T, TokenTransactionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many TokenTransactions and returns the data saved in the database.
+     * @param {TokenTransactionCreateManyAndReturnArgs} args - Arguments to create many TokenTransactions.
+     * @example
+     * // Create many TokenTransactions
+     * const tokenTransaction = await prisma.tokenTransaction.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many TokenTransactions and only return the `id`
+     * const tokenTransactionWithIdOnly = await prisma.tokenTransaction.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends TokenTransactionCreateManyAndReturnArgs>(args?: SelectSubset<T, TokenTransactionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$TokenTransactionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a TokenTransaction.
+     * @param {TokenTransactionDeleteArgs} args - Arguments to delete one TokenTransaction.
+     * @example
+     * // Delete one TokenTransaction
+     * const TokenTransaction = await prisma.tokenTransaction.delete({
+     *   where: {
+     *     // ... filter to delete one TokenTransaction
+     *   }
+     * })
+     * 
+     */
+    delete<T extends TokenTransactionDeleteArgs>(args: SelectSubset<T, TokenTransactionDeleteArgs<ExtArgs>>): Prisma__TokenTransactionClient<$Result.GetResult<Prisma.$TokenTransactionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one TokenTransaction.
+     * @param {TokenTransactionUpdateArgs} args - Arguments to update one TokenTransaction.
+     * @example
+     * // Update one TokenTransaction
+     * const tokenTransaction = await prisma.tokenTransaction.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends TokenTransactionUpdateArgs>(args: SelectSubset<T, TokenTransactionUpdateArgs<ExtArgs>>): Prisma__TokenTransactionClient<$Result.GetResult<Prisma.$TokenTransactionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more TokenTransactions.
+     * @param {TokenTransactionDeleteManyArgs} args - Arguments to filter TokenTransactions to delete.
+     * @example
+     * // Delete a few TokenTransactions
+     * const { count } = await prisma.tokenTransaction.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends TokenTransactionDeleteManyArgs>(args?: SelectSubset<T, TokenTransactionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more TokenTransactions.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {TokenTransactionUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many TokenTransactions
+     * const tokenTransaction = await prisma.tokenTransaction.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends TokenTransactionUpdateManyArgs>(args: SelectSubset<T, TokenTransactionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more TokenTransactions and returns the data updated in the database.
+     * @param {TokenTransactionUpdateManyAndReturnArgs} args - Arguments to update many TokenTransactions.
+     * @example
+     * // Update many TokenTransactions
+     * const tokenTransaction = await prisma.tokenTransaction.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more TokenTransactions and only return the `id`
+     * const tokenTransactionWithIdOnly = await prisma.tokenTransaction.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends TokenTransactionUpdateManyAndReturnArgs>(args: SelectSubset<T, TokenTransactionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$TokenTransactionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one TokenTransaction.
+     * @param {TokenTransactionUpsertArgs} args - Arguments to update or create a TokenTransaction.
+     * @example
+     * // Update or create a TokenTransaction
+     * const tokenTransaction = await prisma.tokenTransaction.upsert({
+     *   create: {
+     *     // ... data to create a TokenTransaction
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the TokenTransaction we want to update
+     *   }
+     * })
+     */
+    upsert<T extends TokenTransactionUpsertArgs>(args: SelectSubset<T, TokenTransactionUpsertArgs<ExtArgs>>): Prisma__TokenTransactionClient<$Result.GetResult<Prisma.$TokenTransactionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of TokenTransactions.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {TokenTransactionCountArgs} args - Arguments to filter TokenTransactions to count.
+     * @example
+     * // Count the number of TokenTransactions
+     * const count = await prisma.tokenTransaction.count({
+     *   where: {
+     *     // ... the filter for the TokenTransactions we want to count
+     *   }
+     * })
+    **/
+    count<T extends TokenTransactionCountArgs>(
+      args?: Subset<T, TokenTransactionCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], TokenTransactionCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a TokenTransaction.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {TokenTransactionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends TokenTransactionAggregateArgs>(args: Subset<T, TokenTransactionAggregateArgs>): Prisma.PrismaPromise<GetTokenTransactionAggregateType<T>>
+
+    /**
+     * Group by TokenTransaction.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {TokenTransactionGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends TokenTransactionGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: TokenTransactionGroupByArgs['orderBy'] }
+        : { orderBy?: TokenTransactionGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, TokenTransactionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetTokenTransactionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the TokenTransaction model
+   */
+  readonly fields: TokenTransactionFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for TokenTransaction.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__TokenTransactionClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    user<T extends UserDefaultArgs<ExtArgs> = {}>(args?: Subset<T, UserDefaultArgs<ExtArgs>>): Prisma__UserClient<$Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the TokenTransaction model
+   */
+  interface TokenTransactionFieldRefs {
+    readonly id: FieldRef<"TokenTransaction", 'String'>
+    readonly userId: FieldRef<"TokenTransaction", 'String'>
+    readonly type: FieldRef<"TokenTransaction", 'String'>
+    readonly amount: FieldRef<"TokenTransaction", 'Int'>
+    readonly balanceAfter: FieldRef<"TokenTransaction", 'Int'>
+    readonly periodStart: FieldRef<"TokenTransaction", 'DateTime'>
+    readonly periodEnd: FieldRef<"TokenTransaction", 'DateTime'>
+    readonly videoId: FieldRef<"TokenTransaction", 'String'>
+    readonly settlesId: FieldRef<"TokenTransaction", 'String'>
+    readonly idempotencyKey: FieldRef<"TokenTransaction", 'String'>
+    readonly reason: FieldRef<"TokenTransaction", 'String'>
+    readonly metadata: FieldRef<"TokenTransaction", 'Json'>
+    readonly createdAt: FieldRef<"TokenTransaction", 'DateTime'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * TokenTransaction findUnique
+   */
+  export type TokenTransactionFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TokenTransaction
+     */
+    select?: TokenTransactionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the TokenTransaction
+     */
+    omit?: TokenTransactionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: TokenTransactionInclude<ExtArgs> | null
+    /**
+     * Filter, which TokenTransaction to fetch.
+     */
+    where: TokenTransactionWhereUniqueInput
+  }
+
+  /**
+   * TokenTransaction findUniqueOrThrow
+   */
+  export type TokenTransactionFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TokenTransaction
+     */
+    select?: TokenTransactionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the TokenTransaction
+     */
+    omit?: TokenTransactionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: TokenTransactionInclude<ExtArgs> | null
+    /**
+     * Filter, which TokenTransaction to fetch.
+     */
+    where: TokenTransactionWhereUniqueInput
+  }
+
+  /**
+   * TokenTransaction findFirst
+   */
+  export type TokenTransactionFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TokenTransaction
+     */
+    select?: TokenTransactionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the TokenTransaction
+     */
+    omit?: TokenTransactionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: TokenTransactionInclude<ExtArgs> | null
+    /**
+     * Filter, which TokenTransaction to fetch.
+     */
+    where?: TokenTransactionWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of TokenTransactions to fetch.
+     */
+    orderBy?: TokenTransactionOrderByWithRelationInput | TokenTransactionOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for TokenTransactions.
+     */
+    cursor?: TokenTransactionWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` TokenTransactions from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` TokenTransactions.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of TokenTransactions.
+     */
+    distinct?: TokenTransactionScalarFieldEnum | TokenTransactionScalarFieldEnum[]
+  }
+
+  /**
+   * TokenTransaction findFirstOrThrow
+   */
+  export type TokenTransactionFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TokenTransaction
+     */
+    select?: TokenTransactionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the TokenTransaction
+     */
+    omit?: TokenTransactionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: TokenTransactionInclude<ExtArgs> | null
+    /**
+     * Filter, which TokenTransaction to fetch.
+     */
+    where?: TokenTransactionWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of TokenTransactions to fetch.
+     */
+    orderBy?: TokenTransactionOrderByWithRelationInput | TokenTransactionOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for TokenTransactions.
+     */
+    cursor?: TokenTransactionWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` TokenTransactions from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` TokenTransactions.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of TokenTransactions.
+     */
+    distinct?: TokenTransactionScalarFieldEnum | TokenTransactionScalarFieldEnum[]
+  }
+
+  /**
+   * TokenTransaction findMany
+   */
+  export type TokenTransactionFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TokenTransaction
+     */
+    select?: TokenTransactionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the TokenTransaction
+     */
+    omit?: TokenTransactionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: TokenTransactionInclude<ExtArgs> | null
+    /**
+     * Filter, which TokenTransactions to fetch.
+     */
+    where?: TokenTransactionWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of TokenTransactions to fetch.
+     */
+    orderBy?: TokenTransactionOrderByWithRelationInput | TokenTransactionOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing TokenTransactions.
+     */
+    cursor?: TokenTransactionWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` TokenTransactions from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` TokenTransactions.
+     */
+    skip?: number
+    distinct?: TokenTransactionScalarFieldEnum | TokenTransactionScalarFieldEnum[]
+  }
+
+  /**
+   * TokenTransaction create
+   */
+  export type TokenTransactionCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TokenTransaction
+     */
+    select?: TokenTransactionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the TokenTransaction
+     */
+    omit?: TokenTransactionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: TokenTransactionInclude<ExtArgs> | null
+    /**
+     * The data needed to create a TokenTransaction.
+     */
+    data: XOR<TokenTransactionCreateInput, TokenTransactionUncheckedCreateInput>
+  }
+
+  /**
+   * TokenTransaction createMany
+   */
+  export type TokenTransactionCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many TokenTransactions.
+     */
+    data: TokenTransactionCreateManyInput | TokenTransactionCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * TokenTransaction createManyAndReturn
+   */
+  export type TokenTransactionCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TokenTransaction
+     */
+    select?: TokenTransactionSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the TokenTransaction
+     */
+    omit?: TokenTransactionOmit<ExtArgs> | null
+    /**
+     * The data used to create many TokenTransactions.
+     */
+    data: TokenTransactionCreateManyInput | TokenTransactionCreateManyInput[]
+    skipDuplicates?: boolean
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: TokenTransactionIncludeCreateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * TokenTransaction update
+   */
+  export type TokenTransactionUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TokenTransaction
+     */
+    select?: TokenTransactionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the TokenTransaction
+     */
+    omit?: TokenTransactionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: TokenTransactionInclude<ExtArgs> | null
+    /**
+     * The data needed to update a TokenTransaction.
+     */
+    data: XOR<TokenTransactionUpdateInput, TokenTransactionUncheckedUpdateInput>
+    /**
+     * Choose, which TokenTransaction to update.
+     */
+    where: TokenTransactionWhereUniqueInput
+  }
+
+  /**
+   * TokenTransaction updateMany
+   */
+  export type TokenTransactionUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update TokenTransactions.
+     */
+    data: XOR<TokenTransactionUpdateManyMutationInput, TokenTransactionUncheckedUpdateManyInput>
+    /**
+     * Filter which TokenTransactions to update
+     */
+    where?: TokenTransactionWhereInput
+    /**
+     * Limit how many TokenTransactions to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * TokenTransaction updateManyAndReturn
+   */
+  export type TokenTransactionUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TokenTransaction
+     */
+    select?: TokenTransactionSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the TokenTransaction
+     */
+    omit?: TokenTransactionOmit<ExtArgs> | null
+    /**
+     * The data used to update TokenTransactions.
+     */
+    data: XOR<TokenTransactionUpdateManyMutationInput, TokenTransactionUncheckedUpdateManyInput>
+    /**
+     * Filter which TokenTransactions to update
+     */
+    where?: TokenTransactionWhereInput
+    /**
+     * Limit how many TokenTransactions to update.
+     */
+    limit?: number
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: TokenTransactionIncludeUpdateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * TokenTransaction upsert
+   */
+  export type TokenTransactionUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TokenTransaction
+     */
+    select?: TokenTransactionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the TokenTransaction
+     */
+    omit?: TokenTransactionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: TokenTransactionInclude<ExtArgs> | null
+    /**
+     * The filter to search for the TokenTransaction to update in case it exists.
+     */
+    where: TokenTransactionWhereUniqueInput
+    /**
+     * In case the TokenTransaction found by the `where` argument doesn't exist, create a new TokenTransaction with this data.
+     */
+    create: XOR<TokenTransactionCreateInput, TokenTransactionUncheckedCreateInput>
+    /**
+     * In case the TokenTransaction was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<TokenTransactionUpdateInput, TokenTransactionUncheckedUpdateInput>
+  }
+
+  /**
+   * TokenTransaction delete
+   */
+  export type TokenTransactionDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TokenTransaction
+     */
+    select?: TokenTransactionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the TokenTransaction
+     */
+    omit?: TokenTransactionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: TokenTransactionInclude<ExtArgs> | null
+    /**
+     * Filter which TokenTransaction to delete.
+     */
+    where: TokenTransactionWhereUniqueInput
+  }
+
+  /**
+   * TokenTransaction deleteMany
+   */
+  export type TokenTransactionDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which TokenTransactions to delete
+     */
+    where?: TokenTransactionWhereInput
+    /**
+     * Limit how many TokenTransactions to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * TokenTransaction without action
+   */
+  export type TokenTransactionDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the TokenTransaction
+     */
+    select?: TokenTransactionSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the TokenTransaction
+     */
+    omit?: TokenTransactionOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: TokenTransactionInclude<ExtArgs> | null
+  }
+
+
+  /**
+   * Model VideoJob
+   */
+
+  export type AggregateVideoJob = {
+    _count: VideoJobCountAggregateOutputType | null
+    _avg: VideoJobAvgAggregateOutputType | null
+    _sum: VideoJobSumAggregateOutputType | null
+    _min: VideoJobMinAggregateOutputType | null
+    _max: VideoJobMaxAggregateOutputType | null
+  }
+
+  export type VideoJobAvgAggregateOutputType = {
+    priority: number | null
+    attempts: number | null
+    maxAttempts: number | null
+  }
+
+  export type VideoJobSumAggregateOutputType = {
+    priority: number | null
+    attempts: number | null
+    maxAttempts: number | null
+  }
+
+  export type VideoJobMinAggregateOutputType = {
+    id: string | null
+    videoId: string | null
+    priority: number | null
+    attempts: number | null
+    maxAttempts: number | null
+    availableAt: Date | null
+    lockedBy: string | null
+    lockedUntil: Date | null
+    lastError: string | null
+    createdAt: Date | null
+    updatedAt: Date | null
+  }
+
+  export type VideoJobMaxAggregateOutputType = {
+    id: string | null
+    videoId: string | null
+    priority: number | null
+    attempts: number | null
+    maxAttempts: number | null
+    availableAt: Date | null
+    lockedBy: string | null
+    lockedUntil: Date | null
+    lastError: string | null
+    createdAt: Date | null
+    updatedAt: Date | null
+  }
+
+  export type VideoJobCountAggregateOutputType = {
+    id: number
+    videoId: number
+    priority: number
+    attempts: number
+    maxAttempts: number
+    availableAt: number
+    lockedBy: number
+    lockedUntil: number
+    lastError: number
+    createdAt: number
+    updatedAt: number
+    _all: number
+  }
+
+
+  export type VideoJobAvgAggregateInputType = {
+    priority?: true
+    attempts?: true
+    maxAttempts?: true
+  }
+
+  export type VideoJobSumAggregateInputType = {
+    priority?: true
+    attempts?: true
+    maxAttempts?: true
+  }
+
+  export type VideoJobMinAggregateInputType = {
+    id?: true
+    videoId?: true
+    priority?: true
+    attempts?: true
+    maxAttempts?: true
+    availableAt?: true
+    lockedBy?: true
+    lockedUntil?: true
+    lastError?: true
+    createdAt?: true
+    updatedAt?: true
+  }
+
+  export type VideoJobMaxAggregateInputType = {
+    id?: true
+    videoId?: true
+    priority?: true
+    attempts?: true
+    maxAttempts?: true
+    availableAt?: true
+    lockedBy?: true
+    lockedUntil?: true
+    lastError?: true
+    createdAt?: true
+    updatedAt?: true
+  }
+
+  export type VideoJobCountAggregateInputType = {
+    id?: true
+    videoId?: true
+    priority?: true
+    attempts?: true
+    maxAttempts?: true
+    availableAt?: true
+    lockedBy?: true
+    lockedUntil?: true
+    lastError?: true
+    createdAt?: true
+    updatedAt?: true
+    _all?: true
+  }
+
+  export type VideoJobAggregateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which VideoJob to aggregate.
+     */
+    where?: VideoJobWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of VideoJobs to fetch.
+     */
+    orderBy?: VideoJobOrderByWithRelationInput | VideoJobOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the start position
+     */
+    cursor?: VideoJobWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` VideoJobs from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` VideoJobs.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Count returned VideoJobs
+    **/
+    _count?: true | VideoJobCountAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to average
+    **/
+    _avg?: VideoJobAvgAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to sum
+    **/
+    _sum?: VideoJobSumAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the minimum value
+    **/
+    _min?: VideoJobMinAggregateInputType
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+     * 
+     * Select which fields to find the maximum value
+    **/
+    _max?: VideoJobMaxAggregateInputType
+  }
+
+  export type GetVideoJobAggregateType<T extends VideoJobAggregateArgs> = {
+        [P in keyof T & keyof AggregateVideoJob]: P extends '_count' | 'count'
+      ? T[P] extends true
+        ? number
+        : GetScalarType<T[P], AggregateVideoJob[P]>
+      : GetScalarType<T[P], AggregateVideoJob[P]>
+  }
+
+
+
+
+  export type VideoJobGroupByArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    where?: VideoJobWhereInput
+    orderBy?: VideoJobOrderByWithAggregationInput | VideoJobOrderByWithAggregationInput[]
+    by: VideoJobScalarFieldEnum[] | VideoJobScalarFieldEnum
+    having?: VideoJobScalarWhereWithAggregatesInput
+    take?: number
+    skip?: number
+    _count?: VideoJobCountAggregateInputType | true
+    _avg?: VideoJobAvgAggregateInputType
+    _sum?: VideoJobSumAggregateInputType
+    _min?: VideoJobMinAggregateInputType
+    _max?: VideoJobMaxAggregateInputType
+  }
+
+  export type VideoJobGroupByOutputType = {
+    id: string
+    videoId: string
+    priority: number
+    attempts: number
+    maxAttempts: number
+    availableAt: Date
+    lockedBy: string | null
+    lockedUntil: Date | null
+    lastError: string | null
+    createdAt: Date
+    updatedAt: Date
+    _count: VideoJobCountAggregateOutputType | null
+    _avg: VideoJobAvgAggregateOutputType | null
+    _sum: VideoJobSumAggregateOutputType | null
+    _min: VideoJobMinAggregateOutputType | null
+    _max: VideoJobMaxAggregateOutputType | null
+  }
+
+  type GetVideoJobGroupByPayload<T extends VideoJobGroupByArgs> = Prisma.PrismaPromise<
+    Array<
+      PickEnumerable<VideoJobGroupByOutputType, T['by']> &
+        {
+          [P in ((keyof T) & (keyof VideoJobGroupByOutputType))]: P extends '_count'
+            ? T[P] extends boolean
+              ? number
+              : GetScalarType<T[P], VideoJobGroupByOutputType[P]>
+            : GetScalarType<T[P], VideoJobGroupByOutputType[P]>
+        }
+      >
+    >
+
+
+  export type VideoJobSelect<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    videoId?: boolean
+    priority?: boolean
+    attempts?: boolean
+    maxAttempts?: boolean
+    availableAt?: boolean
+    lockedBy?: boolean
+    lockedUntil?: boolean
+    lastError?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+    video?: boolean | VideoDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["videoJob"]>
+
+  export type VideoJobSelectCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    videoId?: boolean
+    priority?: boolean
+    attempts?: boolean
+    maxAttempts?: boolean
+    availableAt?: boolean
+    lockedBy?: boolean
+    lockedUntil?: boolean
+    lastError?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+    video?: boolean | VideoDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["videoJob"]>
+
+  export type VideoJobSelectUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetSelect<{
+    id?: boolean
+    videoId?: boolean
+    priority?: boolean
+    attempts?: boolean
+    maxAttempts?: boolean
+    availableAt?: boolean
+    lockedBy?: boolean
+    lockedUntil?: boolean
+    lastError?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+    video?: boolean | VideoDefaultArgs<ExtArgs>
+  }, ExtArgs["result"]["videoJob"]>
+
+  export type VideoJobSelectScalar = {
+    id?: boolean
+    videoId?: boolean
+    priority?: boolean
+    attempts?: boolean
+    maxAttempts?: boolean
+    availableAt?: boolean
+    lockedBy?: boolean
+    lockedUntil?: boolean
+    lastError?: boolean
+    createdAt?: boolean
+    updatedAt?: boolean
+  }
+
+  export type VideoJobOmit<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = $Extensions.GetOmit<"id" | "videoId" | "priority" | "attempts" | "maxAttempts" | "availableAt" | "lockedBy" | "lockedUntil" | "lastError" | "createdAt" | "updatedAt", ExtArgs["result"]["videoJob"]>
+  export type VideoJobInclude<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    video?: boolean | VideoDefaultArgs<ExtArgs>
+  }
+  export type VideoJobIncludeCreateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    video?: boolean | VideoDefaultArgs<ExtArgs>
+  }
+  export type VideoJobIncludeUpdateManyAndReturn<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    video?: boolean | VideoDefaultArgs<ExtArgs>
+  }
+
+  export type $VideoJobPayload<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    name: "VideoJob"
+    objects: {
+      video: Prisma.$VideoPayload<ExtArgs>
+    }
+    scalars: $Extensions.GetPayloadResult<{
+      id: string
+      videoId: string
+      priority: number
+      attempts: number
+      maxAttempts: number
+      availableAt: Date
+      lockedBy: string | null
+      lockedUntil: Date | null
+      lastError: string | null
+      createdAt: Date
+      updatedAt: Date
+    }, ExtArgs["result"]["videoJob"]>
+    composites: {}
+  }
+
+  type VideoJobGetPayload<S extends boolean | null | undefined | VideoJobDefaultArgs> = $Result.GetResult<Prisma.$VideoJobPayload, S>
+
+  type VideoJobCountArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> =
+    Omit<VideoJobFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+      select?: VideoJobCountAggregateInputType | true
+    }
+
+  export interface VideoJobDelegate<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+    [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['VideoJob'], meta: { name: 'VideoJob' } }
+    /**
+     * Find zero or one VideoJob that matches the filter.
+     * @param {VideoJobFindUniqueArgs} args - Arguments to find a VideoJob
+     * @example
+     * // Get one VideoJob
+     * const videoJob = await prisma.videoJob.findUnique({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUnique<T extends VideoJobFindUniqueArgs>(args: SelectSubset<T, VideoJobFindUniqueArgs<ExtArgs>>): Prisma__VideoJobClient<$Result.GetResult<Prisma.$VideoJobPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find one VideoJob that matches the filter or throw an error with `error.code='P2025'`
+     * if no matches were found.
+     * @param {VideoJobFindUniqueOrThrowArgs} args - Arguments to find a VideoJob
+     * @example
+     * // Get one VideoJob
+     * const videoJob = await prisma.videoJob.findUniqueOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findUniqueOrThrow<T extends VideoJobFindUniqueOrThrowArgs>(args: SelectSubset<T, VideoJobFindUniqueOrThrowArgs<ExtArgs>>): Prisma__VideoJobClient<$Result.GetResult<Prisma.$VideoJobPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first VideoJob that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {VideoJobFindFirstArgs} args - Arguments to find a VideoJob
+     * @example
+     * // Get one VideoJob
+     * const videoJob = await prisma.videoJob.findFirst({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirst<T extends VideoJobFindFirstArgs>(args?: SelectSubset<T, VideoJobFindFirstArgs<ExtArgs>>): Prisma__VideoJobClient<$Result.GetResult<Prisma.$VideoJobPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find the first VideoJob that matches the filter or
+     * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {VideoJobFindFirstOrThrowArgs} args - Arguments to find a VideoJob
+     * @example
+     * // Get one VideoJob
+     * const videoJob = await prisma.videoJob.findFirstOrThrow({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     */
+    findFirstOrThrow<T extends VideoJobFindFirstOrThrowArgs>(args?: SelectSubset<T, VideoJobFindFirstOrThrowArgs<ExtArgs>>): Prisma__VideoJobClient<$Result.GetResult<Prisma.$VideoJobPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Find zero or more VideoJobs that matches the filter.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {VideoJobFindManyArgs} args - Arguments to filter and select certain fields only.
+     * @example
+     * // Get all VideoJobs
+     * const videoJobs = await prisma.videoJob.findMany()
+     * 
+     * // Get first 10 VideoJobs
+     * const videoJobs = await prisma.videoJob.findMany({ take: 10 })
+     * 
+     * // Only select the `id`
+     * const videoJobWithIdOnly = await prisma.videoJob.findMany({ select: { id: true } })
+     * 
+     */
+    findMany<T extends VideoJobFindManyArgs>(args?: SelectSubset<T, VideoJobFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$VideoJobPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+    /**
+     * Create a VideoJob.
+     * @param {VideoJobCreateArgs} args - Arguments to create a VideoJob.
+     * @example
+     * // Create one VideoJob
+     * const VideoJob = await prisma.videoJob.create({
+     *   data: {
+     *     // ... data to create a VideoJob
+     *   }
+     * })
+     * 
+     */
+    create<T extends VideoJobCreateArgs>(args: SelectSubset<T, VideoJobCreateArgs<ExtArgs>>): Prisma__VideoJobClient<$Result.GetResult<Prisma.$VideoJobPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Create many VideoJobs.
+     * @param {VideoJobCreateManyArgs} args - Arguments to create many VideoJobs.
+     * @example
+     * // Create many VideoJobs
+     * const videoJob = await prisma.videoJob.createMany({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     *     
+     */
+    createMany<T extends VideoJobCreateManyArgs>(args?: SelectSubset<T, VideoJobCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Create many VideoJobs and returns the data saved in the database.
+     * @param {VideoJobCreateManyAndReturnArgs} args - Arguments to create many VideoJobs.
+     * @example
+     * // Create many VideoJobs
+     * const videoJob = await prisma.videoJob.createManyAndReturn({
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Create many VideoJobs and only return the `id`
+     * const videoJobWithIdOnly = await prisma.videoJob.createManyAndReturn({
+     *   select: { id: true },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    createManyAndReturn<T extends VideoJobCreateManyAndReturnArgs>(args?: SelectSubset<T, VideoJobCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$VideoJobPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Delete a VideoJob.
+     * @param {VideoJobDeleteArgs} args - Arguments to delete one VideoJob.
+     * @example
+     * // Delete one VideoJob
+     * const VideoJob = await prisma.videoJob.delete({
+     *   where: {
+     *     // ... filter to delete one VideoJob
+     *   }
+     * })
+     * 
+     */
+    delete<T extends VideoJobDeleteArgs>(args: SelectSubset<T, VideoJobDeleteArgs<ExtArgs>>): Prisma__VideoJobClient<$Result.GetResult<Prisma.$VideoJobPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Update one VideoJob.
+     * @param {VideoJobUpdateArgs} args - Arguments to update one VideoJob.
+     * @example
+     * // Update one VideoJob
+     * const videoJob = await prisma.videoJob.update({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    update<T extends VideoJobUpdateArgs>(args: SelectSubset<T, VideoJobUpdateArgs<ExtArgs>>): Prisma__VideoJobClient<$Result.GetResult<Prisma.$VideoJobPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+    /**
+     * Delete zero or more VideoJobs.
+     * @param {VideoJobDeleteManyArgs} args - Arguments to filter VideoJobs to delete.
+     * @example
+     * // Delete a few VideoJobs
+     * const { count } = await prisma.videoJob.deleteMany({
+     *   where: {
+     *     // ... provide filter here
+     *   }
+     * })
+     * 
+     */
+    deleteMany<T extends VideoJobDeleteManyArgs>(args?: SelectSubset<T, VideoJobDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more VideoJobs.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {VideoJobUpdateManyArgs} args - Arguments to update one or more rows.
+     * @example
+     * // Update many VideoJobs
+     * const videoJob = await prisma.videoJob.updateMany({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: {
+     *     // ... provide data here
+     *   }
+     * })
+     * 
+     */
+    updateMany<T extends VideoJobUpdateManyArgs>(args: SelectSubset<T, VideoJobUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<BatchPayload>
+
+    /**
+     * Update zero or more VideoJobs and returns the data updated in the database.
+     * @param {VideoJobUpdateManyAndReturnArgs} args - Arguments to update many VideoJobs.
+     * @example
+     * // Update many VideoJobs
+     * const videoJob = await prisma.videoJob.updateManyAndReturn({
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * 
+     * // Update zero or more VideoJobs and only return the `id`
+     * const videoJobWithIdOnly = await prisma.videoJob.updateManyAndReturn({
+     *   select: { id: true },
+     *   where: {
+     *     // ... provide filter here
+     *   },
+     *   data: [
+     *     // ... provide data here
+     *   ]
+     * })
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * 
+     */
+    updateManyAndReturn<T extends VideoJobUpdateManyAndReturnArgs>(args: SelectSubset<T, VideoJobUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<$Result.GetResult<Prisma.$VideoJobPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+    /**
+     * Create or update one VideoJob.
+     * @param {VideoJobUpsertArgs} args - Arguments to update or create a VideoJob.
+     * @example
+     * // Update or create a VideoJob
+     * const videoJob = await prisma.videoJob.upsert({
+     *   create: {
+     *     // ... data to create a VideoJob
+     *   },
+     *   update: {
+     *     // ... in case it already exists, update
+     *   },
+     *   where: {
+     *     // ... the filter for the VideoJob we want to update
+     *   }
+     * })
+     */
+    upsert<T extends VideoJobUpsertArgs>(args: SelectSubset<T, VideoJobUpsertArgs<ExtArgs>>): Prisma__VideoJobClient<$Result.GetResult<Prisma.$VideoJobPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+    /**
+     * Count the number of VideoJobs.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {VideoJobCountArgs} args - Arguments to filter VideoJobs to count.
+     * @example
+     * // Count the number of VideoJobs
+     * const count = await prisma.videoJob.count({
+     *   where: {
+     *     // ... the filter for the VideoJobs we want to count
+     *   }
+     * })
+    **/
+    count<T extends VideoJobCountArgs>(
+      args?: Subset<T, VideoJobCountArgs>,
+    ): Prisma.PrismaPromise<
+      T extends $Utils.Record<'select', any>
+        ? T['select'] extends true
+          ? number
+          : GetScalarType<T['select'], VideoJobCountAggregateOutputType>
+        : number
+    >
+
+    /**
+     * Allows you to perform aggregations operations on a VideoJob.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {VideoJobAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+     * @example
+     * // Ordered by age ascending
+     * // Where email contains prisma.io
+     * // Limited to the 10 users
+     * const aggregations = await prisma.user.aggregate({
+     *   _avg: {
+     *     age: true,
+     *   },
+     *   where: {
+     *     email: {
+     *       contains: "prisma.io",
+     *     },
+     *   },
+     *   orderBy: {
+     *     age: "asc",
+     *   },
+     *   take: 10,
+     * })
+    **/
+    aggregate<T extends VideoJobAggregateArgs>(args: Subset<T, VideoJobAggregateArgs>): Prisma.PrismaPromise<GetVideoJobAggregateType<T>>
+
+    /**
+     * Group by VideoJob.
+     * Note, that providing `undefined` is treated as the value not being there.
+     * Read more here: https://pris.ly/d/null-undefined
+     * @param {VideoJobGroupByArgs} args - Group by arguments.
+     * @example
+     * // Group by city, order by createdAt, get count
+     * const result = await prisma.user.groupBy({
+     *   by: ['city', 'createdAt'],
+     *   orderBy: {
+     *     createdAt: true
+     *   },
+     *   _count: {
+     *     _all: true
+     *   },
+     * })
+     * 
+    **/
+    groupBy<
+      T extends VideoJobGroupByArgs,
+      HasSelectOrTake extends Or<
+        Extends<'skip', Keys<T>>,
+        Extends<'take', Keys<T>>
+      >,
+      OrderByArg extends True extends HasSelectOrTake
+        ? { orderBy: VideoJobGroupByArgs['orderBy'] }
+        : { orderBy?: VideoJobGroupByArgs['orderBy'] },
+      OrderFields extends ExcludeUnderscoreKeys<Keys<MaybeTupleToUnion<T['orderBy']>>>,
+      ByFields extends MaybeTupleToUnion<T['by']>,
+      ByValid extends Has<ByFields, OrderFields>,
+      HavingFields extends GetHavingFields<T['having']>,
+      HavingValid extends Has<ByFields, HavingFields>,
+      ByEmpty extends T['by'] extends never[] ? True : False,
+      InputErrors extends ByEmpty extends True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends False
+      ? {
+          [P in HavingFields]: P extends ByFields
+            ? never
+            : P extends string
+            ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+            : [
+                Error,
+                'Field ',
+                P,
+                ` in "having" needs to be provided in "by"`,
+              ]
+        }[HavingFields]
+      : 'take' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "take", you also need to provide "orderBy"'
+      : 'skip' extends Keys<T>
+      ? 'orderBy' extends Keys<T>
+        ? ByValid extends True
+          ? {}
+          : {
+              [P in OrderFields]: P extends ByFields
+                ? never
+                : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+            }[OrderFields]
+        : 'Error: If you provide "skip", you also need to provide "orderBy"'
+      : ByValid extends True
+      ? {}
+      : {
+          [P in OrderFields]: P extends ByFields
+            ? never
+            : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+        }[OrderFields]
+    >(args: SubsetIntersection<T, VideoJobGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetVideoJobGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+  /**
+   * Fields of the VideoJob model
+   */
+  readonly fields: VideoJobFieldRefs;
+  }
+
+  /**
+   * The delegate class that acts as a "Promise-like" for VideoJob.
+   * Why is this prefixed with `Prisma__`?
+   * Because we want to prevent naming conflicts as mentioned in
+   * https://github.com/prisma/prisma-client-js/issues/707
+   */
+  export interface Prisma__VideoJobClient<T, Null = never, ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+    readonly [Symbol.toStringTag]: "PrismaPromise"
+    video<T extends VideoDefaultArgs<ExtArgs> = {}>(args?: Subset<T, VideoDefaultArgs<ExtArgs>>): Prisma__VideoClient<$Result.GetResult<Prisma.$VideoPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+    /**
+     * Attaches callbacks for the resolution and/or rejection of the Promise.
+     * @param onfulfilled The callback to execute when the Promise is resolved.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of which ever callback is executed.
+     */
+    then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): $Utils.JsPromise<TResult1 | TResult2>
+    /**
+     * Attaches a callback for only the rejection of the Promise.
+     * @param onrejected The callback to execute when the Promise is rejected.
+     * @returns A Promise for the completion of the callback.
+     */
+    catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): $Utils.JsPromise<T | TResult>
+    /**
+     * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+     * resolved value cannot be modified from the callback.
+     * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+     * @returns A Promise for the completion of the callback.
+     */
+    finally(onfinally?: (() => void) | undefined | null): $Utils.JsPromise<T>
+  }
+
+
+
+
+  /**
+   * Fields of the VideoJob model
+   */
+  interface VideoJobFieldRefs {
+    readonly id: FieldRef<"VideoJob", 'String'>
+    readonly videoId: FieldRef<"VideoJob", 'String'>
+    readonly priority: FieldRef<"VideoJob", 'Int'>
+    readonly attempts: FieldRef<"VideoJob", 'Int'>
+    readonly maxAttempts: FieldRef<"VideoJob", 'Int'>
+    readonly availableAt: FieldRef<"VideoJob", 'DateTime'>
+    readonly lockedBy: FieldRef<"VideoJob", 'String'>
+    readonly lockedUntil: FieldRef<"VideoJob", 'DateTime'>
+    readonly lastError: FieldRef<"VideoJob", 'String'>
+    readonly createdAt: FieldRef<"VideoJob", 'DateTime'>
+    readonly updatedAt: FieldRef<"VideoJob", 'DateTime'>
+  }
+    
+
+  // Custom InputTypes
+  /**
+   * VideoJob findUnique
+   */
+  export type VideoJobFindUniqueArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the VideoJob
+     */
+    select?: VideoJobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the VideoJob
+     */
+    omit?: VideoJobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: VideoJobInclude<ExtArgs> | null
+    /**
+     * Filter, which VideoJob to fetch.
+     */
+    where: VideoJobWhereUniqueInput
+  }
+
+  /**
+   * VideoJob findUniqueOrThrow
+   */
+  export type VideoJobFindUniqueOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the VideoJob
+     */
+    select?: VideoJobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the VideoJob
+     */
+    omit?: VideoJobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: VideoJobInclude<ExtArgs> | null
+    /**
+     * Filter, which VideoJob to fetch.
+     */
+    where: VideoJobWhereUniqueInput
+  }
+
+  /**
+   * VideoJob findFirst
+   */
+  export type VideoJobFindFirstArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the VideoJob
+     */
+    select?: VideoJobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the VideoJob
+     */
+    omit?: VideoJobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: VideoJobInclude<ExtArgs> | null
+    /**
+     * Filter, which VideoJob to fetch.
+     */
+    where?: VideoJobWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of VideoJobs to fetch.
+     */
+    orderBy?: VideoJobOrderByWithRelationInput | VideoJobOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for VideoJobs.
+     */
+    cursor?: VideoJobWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` VideoJobs from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` VideoJobs.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of VideoJobs.
+     */
+    distinct?: VideoJobScalarFieldEnum | VideoJobScalarFieldEnum[]
+  }
+
+  /**
+   * VideoJob findFirstOrThrow
+   */
+  export type VideoJobFindFirstOrThrowArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the VideoJob
+     */
+    select?: VideoJobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the VideoJob
+     */
+    omit?: VideoJobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: VideoJobInclude<ExtArgs> | null
+    /**
+     * Filter, which VideoJob to fetch.
+     */
+    where?: VideoJobWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of VideoJobs to fetch.
+     */
+    orderBy?: VideoJobOrderByWithRelationInput | VideoJobOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for searching for VideoJobs.
+     */
+    cursor?: VideoJobWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` VideoJobs from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` VideoJobs.
+     */
+    skip?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+     * 
+     * Filter by unique combinations of VideoJobs.
+     */
+    distinct?: VideoJobScalarFieldEnum | VideoJobScalarFieldEnum[]
+  }
+
+  /**
+   * VideoJob findMany
+   */
+  export type VideoJobFindManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the VideoJob
+     */
+    select?: VideoJobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the VideoJob
+     */
+    omit?: VideoJobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: VideoJobInclude<ExtArgs> | null
+    /**
+     * Filter, which VideoJobs to fetch.
+     */
+    where?: VideoJobWhereInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+     * 
+     * Determine the order of VideoJobs to fetch.
+     */
+    orderBy?: VideoJobOrderByWithRelationInput | VideoJobOrderByWithRelationInput[]
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+     * 
+     * Sets the position for listing VideoJobs.
+     */
+    cursor?: VideoJobWhereUniqueInput
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Take `±n` VideoJobs from the position of the cursor.
+     */
+    take?: number
+    /**
+     * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+     * 
+     * Skip the first `n` VideoJobs.
+     */
+    skip?: number
+    distinct?: VideoJobScalarFieldEnum | VideoJobScalarFieldEnum[]
+  }
+
+  /**
+   * VideoJob create
+   */
+  export type VideoJobCreateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the VideoJob
+     */
+    select?: VideoJobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the VideoJob
+     */
+    omit?: VideoJobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: VideoJobInclude<ExtArgs> | null
+    /**
+     * The data needed to create a VideoJob.
+     */
+    data: XOR<VideoJobCreateInput, VideoJobUncheckedCreateInput>
+  }
+
+  /**
+   * VideoJob createMany
+   */
+  export type VideoJobCreateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to create many VideoJobs.
+     */
+    data: VideoJobCreateManyInput | VideoJobCreateManyInput[]
+    skipDuplicates?: boolean
+  }
+
+  /**
+   * VideoJob createManyAndReturn
+   */
+  export type VideoJobCreateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the VideoJob
+     */
+    select?: VideoJobSelectCreateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the VideoJob
+     */
+    omit?: VideoJobOmit<ExtArgs> | null
+    /**
+     * The data used to create many VideoJobs.
+     */
+    data: VideoJobCreateManyInput | VideoJobCreateManyInput[]
+    skipDuplicates?: boolean
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: VideoJobIncludeCreateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * VideoJob update
+   */
+  export type VideoJobUpdateArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the VideoJob
+     */
+    select?: VideoJobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the VideoJob
+     */
+    omit?: VideoJobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: VideoJobInclude<ExtArgs> | null
+    /**
+     * The data needed to update a VideoJob.
+     */
+    data: XOR<VideoJobUpdateInput, VideoJobUncheckedUpdateInput>
+    /**
+     * Choose, which VideoJob to update.
+     */
+    where: VideoJobWhereUniqueInput
+  }
+
+  /**
+   * VideoJob updateMany
+   */
+  export type VideoJobUpdateManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * The data used to update VideoJobs.
+     */
+    data: XOR<VideoJobUpdateManyMutationInput, VideoJobUncheckedUpdateManyInput>
+    /**
+     * Filter which VideoJobs to update
+     */
+    where?: VideoJobWhereInput
+    /**
+     * Limit how many VideoJobs to update.
+     */
+    limit?: number
+  }
+
+  /**
+   * VideoJob updateManyAndReturn
+   */
+  export type VideoJobUpdateManyAndReturnArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the VideoJob
+     */
+    select?: VideoJobSelectUpdateManyAndReturn<ExtArgs> | null
+    /**
+     * Omit specific fields from the VideoJob
+     */
+    omit?: VideoJobOmit<ExtArgs> | null
+    /**
+     * The data used to update VideoJobs.
+     */
+    data: XOR<VideoJobUpdateManyMutationInput, VideoJobUncheckedUpdateManyInput>
+    /**
+     * Filter which VideoJobs to update
+     */
+    where?: VideoJobWhereInput
+    /**
+     * Limit how many VideoJobs to update.
+     */
+    limit?: number
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: VideoJobIncludeUpdateManyAndReturn<ExtArgs> | null
+  }
+
+  /**
+   * VideoJob upsert
+   */
+  export type VideoJobUpsertArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the VideoJob
+     */
+    select?: VideoJobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the VideoJob
+     */
+    omit?: VideoJobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: VideoJobInclude<ExtArgs> | null
+    /**
+     * The filter to search for the VideoJob to update in case it exists.
+     */
+    where: VideoJobWhereUniqueInput
+    /**
+     * In case the VideoJob found by the `where` argument doesn't exist, create a new VideoJob with this data.
+     */
+    create: XOR<VideoJobCreateInput, VideoJobUncheckedCreateInput>
+    /**
+     * In case the VideoJob was found with the provided `where` argument, update it with this data.
+     */
+    update: XOR<VideoJobUpdateInput, VideoJobUncheckedUpdateInput>
+  }
+
+  /**
+   * VideoJob delete
+   */
+  export type VideoJobDeleteArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the VideoJob
+     */
+    select?: VideoJobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the VideoJob
+     */
+    omit?: VideoJobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: VideoJobInclude<ExtArgs> | null
+    /**
+     * Filter which VideoJob to delete.
+     */
+    where: VideoJobWhereUniqueInput
+  }
+
+  /**
+   * VideoJob deleteMany
+   */
+  export type VideoJobDeleteManyArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Filter which VideoJobs to delete
+     */
+    where?: VideoJobWhereInput
+    /**
+     * Limit how many VideoJobs to delete.
+     */
+    limit?: number
+  }
+
+  /**
+   * VideoJob without action
+   */
+  export type VideoJobDefaultArgs<ExtArgs extends $Extensions.InternalArgs = $Extensions.DefaultArgs> = {
+    /**
+     * Select specific fields to fetch from the VideoJob
+     */
+    select?: VideoJobSelect<ExtArgs> | null
+    /**
+     * Omit specific fields from the VideoJob
+     */
+    omit?: VideoJobOmit<ExtArgs> | null
+    /**
+     * Choose, which related nodes to fetch as well
+     */
+    include?: VideoJobInclude<ExtArgs> | null
+  }
+
+
+  /**
+   * Enums
+   */
+
+  export const TransactionIsolationLevel: {
+    ReadUncommitted: 'ReadUncommitted',
+    ReadCommitted: 'ReadCommitted',
+    RepeatableRead: 'RepeatableRead',
+    Serializable: 'Serializable'
+  };
+
+  export type TransactionIsolationLevel = (typeof TransactionIsolationLevel)[keyof typeof TransactionIsolationLevel]
+
+
+  export const UserScalarFieldEnum: {
+    id: 'id',
+    email: 'email',
+    name: 'name',
+    avatarUrl: 'avatarUrl',
+    subscriptionStatus: 'subscriptionStatus',
+    isDeleted: 'isDeleted',
+    deletedAt: 'deletedAt',
+    createdAt: 'createdAt',
+    updatedAt: 'updatedAt'
+  };
+
+  export type UserScalarFieldEnum = (typeof UserScalarFieldEnum)[keyof typeof UserScalarFieldEnum]
+
+
+  export const OtpCodeScalarFieldEnum: {
+    id: 'id',
+    userId: 'userId',
+    email: 'email',
+    code: 'code',
+    purpose: 'purpose',
+    expiresAt: 'expiresAt',
+    attempts: 'attempts',
+    isUsed: 'isUsed',
+    usedAt: 'usedAt',
+    isValid: 'isValid',
+    invalidatedAt: 'invalidatedAt',
+    invalidatedReason: 'invalidatedReason',
+    createdAt: 'createdAt',
+    updatedAt: 'updatedAt'
+  };
+
+  export type OtpCodeScalarFieldEnum = (typeof OtpCodeScalarFieldEnum)[keyof typeof OtpCodeScalarFieldEnum]
+
+
+  export const SessionScalarFieldEnum: {
+    id: 'id',
+    userId: 'userId',
+    accessToken: 'accessToken',
+    refreshToken: 'refreshToken',
+    accessTokenExpiresAt: 'accessTokenExpiresAt',
+    refreshTokenExpiresAt: 'refreshTokenExpiresAt',
+    deviceId: 'deviceId',
+    appVersion: 'appVersion',
+    ipAddress: 'ipAddress',
+    lastActivityAt: 'lastActivityAt',
+    isActive: 'isActive',
+    isRevoked: 'isRevoked',
+    revokedAt: 'revokedAt',
+    revokedReason: 'revokedReason',
+    createdAt: 'createdAt'
+  };
+
+  export type SessionScalarFieldEnum = (typeof SessionScalarFieldEnum)[keyof typeof SessionScalarFieldEnum]
 
 
   export const SubscriptionScalarFieldEnum: {
@@ -10191,6 +13931,53 @@ export namespace Prisma {
   export type AnalyticsEventScalarFieldEnum = (typeof AnalyticsEventScalarFieldEnum)[keyof typeof AnalyticsEventScalarFieldEnum]
 
 
+  export const RateLimitScalarFieldEnum: {
+    key: 'key',
+    hits: 'hits',
+    tokens: 'tokens',
+    expiresAt: 'expiresAt',
+    updatedAt: 'updatedAt'
+  };
+
+  export type RateLimitScalarFieldEnum = (typeof RateLimitScalarFieldEnum)[keyof typeof RateLimitScalarFieldEnum]
+
+
+  export const TokenTransactionScalarFieldEnum: {
+    id: 'id',
+    userId: 'userId',
+    type: 'type',
+    amount: 'amount',
+    balanceAfter: 'balanceAfter',
+    periodStart: 'periodStart',
+    periodEnd: 'periodEnd',
+    videoId: 'videoId',
+    settlesId: 'settlesId',
+    idempotencyKey: 'idempotencyKey',
+    reason: 'reason',
+    metadata: 'metadata',
+    createdAt: 'createdAt'
+  };
+
+  export type TokenTransactionScalarFieldEnum = (typeof TokenTransactionScalarFieldEnum)[keyof typeof TokenTransactionScalarFieldEnum]
+
+
+  export const VideoJobScalarFieldEnum: {
+    id: 'id',
+    videoId: 'videoId',
+    priority: 'priority',
+    attempts: 'attempts',
+    maxAttempts: 'maxAttempts',
+    availableAt: 'availableAt',
+    lockedBy: 'lockedBy',
+    lockedUntil: 'lockedUntil',
+    lastError: 'lastError',
+    createdAt: 'createdAt',
+    updatedAt: 'updatedAt'
+  };
+
+  export type VideoJobScalarFieldEnum = (typeof VideoJobScalarFieldEnum)[keyof typeof VideoJobScalarFieldEnum]
+
+
   export const SortOrder: {
     asc: 'asc',
     desc: 'desc'
@@ -10454,6 +14241,7 @@ export namespace Prisma {
     subscription?: XOR<SubscriptionNullableScalarRelationFilter, SubscriptionWhereInput> | null
     videos?: VideoListRelationFilter
     analytics?: AnalyticsEventListRelationFilter
+    tokenLedger?: TokenTransactionListRelationFilter
   }
 
   export type UserOrderByWithRelationInput = {
@@ -10471,6 +14259,7 @@ export namespace Prisma {
     subscription?: SubscriptionOrderByWithRelationInput
     videos?: VideoOrderByRelationAggregateInput
     analytics?: AnalyticsEventOrderByRelationAggregateInput
+    tokenLedger?: TokenTransactionOrderByRelationAggregateInput
   }
 
   export type UserWhereUniqueInput = Prisma.AtLeast<{
@@ -10491,6 +14280,7 @@ export namespace Prisma {
     subscription?: XOR<SubscriptionNullableScalarRelationFilter, SubscriptionWhereInput> | null
     videos?: VideoListRelationFilter
     analytics?: AnalyticsEventListRelationFilter
+    tokenLedger?: TokenTransactionListRelationFilter
   }, "id" | "email">
 
   export type UserOrderByWithAggregationInput = {
@@ -10954,6 +14744,7 @@ export namespace Prisma {
     createdAt?: DateTimeFilter<"Video"> | Date | string
     updatedAt?: DateTimeFilter<"Video"> | Date | string
     user?: XOR<UserScalarRelationFilter, UserWhereInput>
+    job?: XOR<VideoJobNullableScalarRelationFilter, VideoJobWhereInput> | null
   }
 
   export type VideoOrderByWithRelationInput = {
@@ -10977,6 +14768,7 @@ export namespace Prisma {
     createdAt?: SortOrder
     updatedAt?: SortOrder
     user?: UserOrderByWithRelationInput
+    job?: VideoJobOrderByWithRelationInput
   }
 
   export type VideoWhereUniqueInput = Prisma.AtLeast<{
@@ -11003,6 +14795,7 @@ export namespace Prisma {
     createdAt?: DateTimeFilter<"Video"> | Date | string
     updatedAt?: DateTimeFilter<"Video"> | Date | string
     user?: XOR<UserScalarRelationFilter, UserWhereInput>
+    job?: XOR<VideoJobNullableScalarRelationFilter, VideoJobWhereInput> | null
   }, "id">
 
   export type VideoOrderByWithAggregationInput = {
@@ -11125,21 +14918,259 @@ export namespace Prisma {
     _min?: AnalyticsEventMinOrderByAggregateInput
   }
 
-  export type AnalyticsEventScalarWhereWithAggregatesInput = {
-    AND?: AnalyticsEventScalarWhereWithAggregatesInput | AnalyticsEventScalarWhereWithAggregatesInput[]
-    OR?: AnalyticsEventScalarWhereWithAggregatesInput[]
-    NOT?: AnalyticsEventScalarWhereWithAggregatesInput | AnalyticsEventScalarWhereWithAggregatesInput[]
-    id?: StringWithAggregatesFilter<"AnalyticsEvent"> | string
-    userId?: StringNullableWithAggregatesFilter<"AnalyticsEvent"> | string | null
-    eventName?: StringWithAggregatesFilter<"AnalyticsEvent"> | string
-    eventCategory?: StringWithAggregatesFilter<"AnalyticsEvent"> | string
-    properties?: JsonNullableWithAggregatesFilter<"AnalyticsEvent">
-    sessionId?: StringNullableWithAggregatesFilter<"AnalyticsEvent"> | string | null
-    deviceId?: StringNullableWithAggregatesFilter<"AnalyticsEvent"> | string | null
-    platform?: StringNullableWithAggregatesFilter<"AnalyticsEvent"> | string | null
-    appVersion?: StringNullableWithAggregatesFilter<"AnalyticsEvent"> | string | null
-    ipAddress?: StringNullableWithAggregatesFilter<"AnalyticsEvent"> | string | null
-    timestamp?: DateTimeWithAggregatesFilter<"AnalyticsEvent"> | Date | string
+  export type AnalyticsEventScalarWhereWithAggregatesInput = {
+    AND?: AnalyticsEventScalarWhereWithAggregatesInput | AnalyticsEventScalarWhereWithAggregatesInput[]
+    OR?: AnalyticsEventScalarWhereWithAggregatesInput[]
+    NOT?: AnalyticsEventScalarWhereWithAggregatesInput | AnalyticsEventScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"AnalyticsEvent"> | string
+    userId?: StringNullableWithAggregatesFilter<"AnalyticsEvent"> | string | null
+    eventName?: StringWithAggregatesFilter<"AnalyticsEvent"> | string
+    eventCategory?: StringWithAggregatesFilter<"AnalyticsEvent"> | string
+    properties?: JsonNullableWithAggregatesFilter<"AnalyticsEvent">
+    sessionId?: StringNullableWithAggregatesFilter<"AnalyticsEvent"> | string | null
+    deviceId?: StringNullableWithAggregatesFilter<"AnalyticsEvent"> | string | null
+    platform?: StringNullableWithAggregatesFilter<"AnalyticsEvent"> | string | null
+    appVersion?: StringNullableWithAggregatesFilter<"AnalyticsEvent"> | string | null
+    ipAddress?: StringNullableWithAggregatesFilter<"AnalyticsEvent"> | string | null
+    timestamp?: DateTimeWithAggregatesFilter<"AnalyticsEvent"> | Date | string
+  }
+
+  export type RateLimitWhereInput = {
+    AND?: RateLimitWhereInput | RateLimitWhereInput[]
+    OR?: RateLimitWhereInput[]
+    NOT?: RateLimitWhereInput | RateLimitWhereInput[]
+    key?: StringFilter<"RateLimit"> | string
+    hits?: IntFilter<"RateLimit"> | number
+    tokens?: FloatNullableFilter<"RateLimit"> | number | null
+    expiresAt?: DateTimeFilter<"RateLimit"> | Date | string
+    updatedAt?: DateTimeFilter<"RateLimit"> | Date | string
+  }
+
+  export type RateLimitOrderByWithRelationInput = {
+    key?: SortOrder
+    hits?: SortOrder
+    tokens?: SortOrderInput | SortOrder
+    expiresAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type RateLimitWhereUniqueInput = Prisma.AtLeast<{
+    key?: string
+    AND?: RateLimitWhereInput | RateLimitWhereInput[]
+    OR?: RateLimitWhereInput[]
+    NOT?: RateLimitWhereInput | RateLimitWhereInput[]
+    hits?: IntFilter<"RateLimit"> | number
+    tokens?: FloatNullableFilter<"RateLimit"> | number | null
+    expiresAt?: DateTimeFilter<"RateLimit"> | Date | string
+    updatedAt?: DateTimeFilter<"RateLimit"> | Date | string
+  }, "key">
+
+  export type RateLimitOrderByWithAggregationInput = {
+    key?: SortOrder
+    hits?: SortOrder
+    tokens?: SortOrderInput | SortOrder
+    expiresAt?: SortOrder
+    updatedAt?: SortOrder
+    _count?: RateLimitCountOrderByAggregateInput
+    _avg?: RateLimitAvgOrderByAggregateInput
+    _max?: RateLimitMaxOrderByAggregateInput
+    _min?: RateLimitMinOrderByAggregateInput
+    _sum?: RateLimitSumOrderByAggregateInput
+  }
+
+  export type RateLimitScalarWhereWithAggregatesInput = {
+    AND?: RateLimitScalarWhereWithAggregatesInput | RateLimitScalarWhereWithAggregatesInput[]
+    OR?: RateLimitScalarWhereWithAggregatesInput[]
+    NOT?: RateLimitScalarWhereWithAggregatesInput | RateLimitScalarWhereWithAggregatesInput[]
+    key?: StringWithAggregatesFilter<"RateLimit"> | string
+    hits?: IntWithAggregatesFilter<"RateLimit"> | number
+    tokens?: FloatNullableWithAggregatesFilter<"RateLimit"> | number | null
+    expiresAt?: DateTimeWithAggregatesFilter<"RateLimit"> | Date | string
+    updatedAt?: DateTimeWithAggregatesFilter<"RateLimit"> | Date | string
+  }
+
+  export type TokenTransactionWhereInput = {
+    AND?: TokenTransactionWhereInput | TokenTransactionWhereInput[]
+    OR?: TokenTransactionWhereInput[]
+    NOT?: TokenTransactionWhereInput | TokenTransactionWhereInput[]
+    id?: StringFilter<"TokenTransaction"> | string
+    userId?: StringFilter<"TokenTransaction"> | string
+    type?: StringFilter<"TokenTransaction"> | string
+    amount?: IntFilter<"TokenTransaction"> | number
+    balanceAfter?: IntFilter<"TokenTransaction"> | number
+    periodStart?: DateTimeFilter<"TokenTransaction"> | Date | string
+    periodEnd?: DateTimeFilter<"TokenTransaction"> | Date | string
+    videoId?: StringNullableFilter<"TokenTransaction"> | string | null
+    settlesId?: StringNullableFilter<"TokenTransaction"> | string | null
+    idempotencyKey?: StringNullableFilter<"TokenTransaction"> | string | null
+    reason?: StringNullableFilter<"TokenTransaction"> | string | null
+    metadata?: JsonNullableFilter<"TokenTransaction">
+    createdAt?: DateTimeFilter<"TokenTransaction"> | Date | string
+    user?: XOR<UserScalarRelationFilter, UserWhereInput>
+  }
+
+  export type TokenTransactionOrderByWithRelationInput = {
+    id?: SortOrder
+    userId?: SortOrder
+    type?: SortOrder
+    amount?: SortOrder
+    balanceAfter?: SortOrder
+    periodStart?: SortOrder
+    periodEnd?: SortOrder
+    videoId?: SortOrderInput | SortOrder
+    settlesId?: SortOrderInput | SortOrder
+    idempotencyKey?: SortOrderInput | SortOrder
+    reason?: SortOrderInput | SortOrder
+    metadata?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    user?: UserOrderByWithRelationInput
+  }
+
+  export type TokenTransactionWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    settlesId?: string
+    idempotencyKey?: string
+    AND?: TokenTransactionWhereInput | TokenTransactionWhereInput[]
+    OR?: TokenTransactionWhereInput[]
+    NOT?: TokenTransactionWhereInput | TokenTransactionWhereInput[]
+    userId?: StringFilter<"TokenTransaction"> | string
+    type?: StringFilter<"TokenTransaction"> | string
+    amount?: IntFilter<"TokenTransaction"> | number
+    balanceAfter?: IntFilter<"TokenTransaction"> | number
+    periodStart?: DateTimeFilter<"TokenTransaction"> | Date | string
+    periodEnd?: DateTimeFilter<"TokenTransaction"> | Date | string
+    videoId?: StringNullableFilter<"TokenTransaction"> | string | null
+    reason?: StringNullableFilter<"TokenTransaction"> | string | null
+    metadata?: JsonNullableFilter<"TokenTransaction">
+    createdAt?: DateTimeFilter<"TokenTransaction"> | Date | string
+    user?: XOR<UserScalarRelationFilter, UserWhereInput>
+  }, "id" | "settlesId" | "idempotencyKey">
+
+  export type TokenTransactionOrderByWithAggregationInput = {
+    id?: SortOrder
+    userId?: SortOrder
+    type?: SortOrder
+    amount?: SortOrder
+    balanceAfter?: SortOrder
+    periodStart?: SortOrder
+    periodEnd?: SortOrder
+    videoId?: SortOrderInput | SortOrder
+    settlesId?: SortOrderInput | SortOrder
+    idempotencyKey?: SortOrderInput | SortOrder
+    reason?: SortOrderInput | SortOrder
+    metadata?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    _count?: TokenTransactionCountOrderByAggregateInput
+    _avg?: TokenTransactionAvgOrderByAggregateInput
+    _max?: TokenTransactionMaxOrderByAggregateInput
+    _min?: TokenTransactionMinOrderByAggregateInput
+    _sum?: TokenTransactionSumOrderByAggregateInput
+  }
+
+  export type TokenTransactionScalarWhereWithAggregatesInput = {
+    AND?: TokenTransactionScalarWhereWithAggregatesInput | TokenTransactionScalarWhereWithAggregatesInput[]
+    OR?: TokenTransactionScalarWhereWithAggregatesInput[]
+    NOT?: TokenTransactionScalarWhereWithAggregatesInput | TokenTransactionScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"TokenTransaction"> | string
+    userId?: StringWithAggregatesFilter<"TokenTransaction"> | string
+    type?: StringWithAggregatesFilter<"TokenTransaction"> | string
+    amount?: IntWithAggregatesFilter<"TokenTransaction"> | number
+    balanceAfter?: IntWithAggregatesFilter<"TokenTransaction"> | number
+    periodStart?: DateTimeWithAggregatesFilter<"TokenTransaction"> | Date | string
+    periodEnd?: DateTimeWithAggregatesFilter<"TokenTransaction"> | Date | string
+    videoId?: StringNullableWithAggregatesFilter<"TokenTransaction"> | string | null
+    settlesId?: StringNullableWithAggregatesFilter<"TokenTransaction"> | string | null
+    idempotencyKey?: StringNullableWithAggregatesFilter<"TokenTransaction"> | string | null
+    reason?: StringNullableWithAggregatesFilter<"TokenTransaction"> | string | null
+    metadata?: JsonNullableWithAggregatesFilter<"TokenTransaction">
+    createdAt?: DateTimeWithAggregatesFilter<"TokenTransaction"> | Date | string
+  }
+
+  export type VideoJobWhereInput = {
+    AND?: VideoJobWhereInput | VideoJobWhereInput[]
+    OR?: VideoJobWhereInput[]
+    NOT?: VideoJobWhereInput | VideoJobWhereInput[]
+    id?: StringFilter<"VideoJob"> | string
+    videoId?: StringFilter<"VideoJob"> | string
+    priority?: IntFilter<"VideoJob"> | number
+    attempts?: IntFilter<"VideoJob"> | number
+    maxAttempts?: IntFilter<"VideoJob"> | number
+    availableAt?: DateTimeFilter<"VideoJob"> | Date | string
+    lockedBy?: StringNullableFilter<"VideoJob"> | string | null
+    lockedUntil?: DateTimeNullableFilter<"VideoJob"> | Date | string | null
+    lastError?: StringNullableFilter<"VideoJob"> | string | null
+    createdAt?: DateTimeFilter<"VideoJob"> | Date | string
+    updatedAt?: DateTimeFilter<"VideoJob"> | Date | string
+    video?: XOR<VideoScalarRelationFilter, VideoWhereInput>
+  }
+
+  export type VideoJobOrderByWithRelationInput = {
+    id?: SortOrder
+    videoId?: SortOrder
+    priority?: SortOrder
+    attempts?: SortOrder
+    maxAttempts?: SortOrder
+    availableAt?: SortOrder
+    lockedBy?: SortOrderInput | SortOrder
+    lockedUntil?: SortOrderInput | SortOrder
+    lastError?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+    video?: VideoOrderByWithRelationInput
+  }
+
+  export type VideoJobWhereUniqueInput = Prisma.AtLeast<{
+    id?: string
+    videoId?: string
+    AND?: VideoJobWhereInput | VideoJobWhereInput[]
+    OR?: VideoJobWhereInput[]
+    NOT?: VideoJobWhereInput | VideoJobWhereInput[]
+    priority?: IntFilter<"VideoJob"> | number
+    attempts?: IntFilter<"VideoJob"> | number
+    maxAttempts?: IntFilter<"VideoJob"> | number
+    availableAt?: DateTimeFilter<"VideoJob"> | Date | string
+    lockedBy?: StringNullableFilter<"VideoJob"> | string | null
+    lockedUntil?: DateTimeNullableFilter<"VideoJob"> | Date | string | null
+    lastError?: StringNullableFilter<"VideoJob"> | string | null
+    createdAt?: DateTimeFilter<"VideoJob"> | Date | string
+    updatedAt?: DateTimeFilter<"VideoJob"> | Date | string
+    video?: XOR<VideoScalarRelationFilter, VideoWhereInput>
+  }, "id" | "videoId">
+
+  export type VideoJobOrderByWithAggregationInput = {
+    id?: SortOrder
+    videoId?: SortOrder
+    priority?: SortOrder
+    attempts?: SortOrder
+    maxAttempts?: SortOrder
+    availableAt?: SortOrder
+    lockedBy?: SortOrderInput | SortOrder
+    lockedUntil?: SortOrderInput | SortOrder
+    lastError?: SortOrderInput | SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+    _count?: VideoJobCountOrderByAggregateInput
+    _avg?: VideoJobAvgOrderByAggregateInput
+    _max?: VideoJobMaxOrderByAggregateInput
+    _min?: VideoJobMinOrderByAggregateInput
+    _sum?: VideoJobSumOrderByAggregateInput
+  }
+
+  export type VideoJobScalarWhereWithAggregatesInput = {
+    AND?: VideoJobScalarWhereWithAggregatesInput | VideoJobScalarWhereWithAggregatesInput[]
+    OR?: VideoJobScalarWhereWithAggregatesInput[]
+    NOT?: VideoJobScalarWhereWithAggregatesInput | VideoJobScalarWhereWithAggregatesInput[]
+    id?: StringWithAggregatesFilter<"VideoJob"> | string
+    videoId?: StringWithAggregatesFilter<"VideoJob"> | string
+    priority?: IntWithAggregatesFilter<"VideoJob"> | number
+    attempts?: IntWithAggregatesFilter<"VideoJob"> | number
+    maxAttempts?: IntWithAggregatesFilter<"VideoJob"> | number
+    availableAt?: DateTimeWithAggregatesFilter<"VideoJob"> | Date | string
+    lockedBy?: StringNullableWithAggregatesFilter<"VideoJob"> | string | null
+    lockedUntil?: DateTimeNullableWithAggregatesFilter<"VideoJob"> | Date | string | null
+    lastError?: StringNullableWithAggregatesFilter<"VideoJob"> | string | null
+    createdAt?: DateTimeWithAggregatesFilter<"VideoJob"> | Date | string
+    updatedAt?: DateTimeWithAggregatesFilter<"VideoJob"> | Date | string
   }
 
   export type UserCreateInput = {
@@ -11157,6 +15188,7 @@ export namespace Prisma {
     subscription?: SubscriptionCreateNestedOneWithoutUserInput
     videos?: VideoCreateNestedManyWithoutUserInput
     analytics?: AnalyticsEventCreateNestedManyWithoutUserInput
+    tokenLedger?: TokenTransactionCreateNestedManyWithoutUserInput
   }
 
   export type UserUncheckedCreateInput = {
@@ -11174,6 +15206,7 @@ export namespace Prisma {
     subscription?: SubscriptionUncheckedCreateNestedOneWithoutUserInput
     videos?: VideoUncheckedCreateNestedManyWithoutUserInput
     analytics?: AnalyticsEventUncheckedCreateNestedManyWithoutUserInput
+    tokenLedger?: TokenTransactionUncheckedCreateNestedManyWithoutUserInput
   }
 
   export type UserUpdateInput = {
@@ -11191,6 +15224,7 @@ export namespace Prisma {
     subscription?: SubscriptionUpdateOneWithoutUserNestedInput
     videos?: VideoUpdateManyWithoutUserNestedInput
     analytics?: AnalyticsEventUpdateManyWithoutUserNestedInput
+    tokenLedger?: TokenTransactionUpdateManyWithoutUserNestedInput
   }
 
   export type UserUncheckedUpdateInput = {
@@ -11208,6 +15242,7 @@ export namespace Prisma {
     subscription?: SubscriptionUncheckedUpdateOneWithoutUserNestedInput
     videos?: VideoUncheckedUpdateManyWithoutUserNestedInput
     analytics?: AnalyticsEventUncheckedUpdateManyWithoutUserNestedInput
+    tokenLedger?: TokenTransactionUncheckedUpdateManyWithoutUserNestedInput
   }
 
   export type UserCreateManyInput = {
@@ -11742,6 +15777,7 @@ export namespace Prisma {
     createdAt?: Date | string
     updatedAt?: Date | string
     user: UserCreateNestedOneWithoutVideosInput
+    job?: VideoJobCreateNestedOneWithoutVideoInput
   }
 
   export type VideoUncheckedCreateInput = {
@@ -11764,6 +15800,7 @@ export namespace Prisma {
     metadata?: NullableJsonNullValueInput | InputJsonValue
     createdAt?: Date | string
     updatedAt?: Date | string
+    job?: VideoJobUncheckedCreateNestedOneWithoutVideoInput
   }
 
   export type VideoUpdateInput = {
@@ -11786,6 +15823,7 @@ export namespace Prisma {
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
     user?: UserUpdateOneRequiredWithoutVideosNestedInput
+    job?: VideoJobUpdateOneWithoutVideoNestedInput
   }
 
   export type VideoUncheckedUpdateInput = {
@@ -11808,6 +15846,7 @@ export namespace Prisma {
     metadata?: NullableJsonNullValueInput | InputJsonValue
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    job?: VideoJobUncheckedUpdateOneWithoutVideoNestedInput
   }
 
   export type VideoCreateManyInput = {
@@ -11972,6 +16011,270 @@ export namespace Prisma {
     timestamp?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
+  export type RateLimitCreateInput = {
+    key: string
+    hits?: number
+    tokens?: number | null
+    expiresAt: Date | string
+    updatedAt?: Date | string
+  }
+
+  export type RateLimitUncheckedCreateInput = {
+    key: string
+    hits?: number
+    tokens?: number | null
+    expiresAt: Date | string
+    updatedAt?: Date | string
+  }
+
+  export type RateLimitUpdateInput = {
+    key?: StringFieldUpdateOperationsInput | string
+    hits?: IntFieldUpdateOperationsInput | number
+    tokens?: NullableFloatFieldUpdateOperationsInput | number | null
+    expiresAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type RateLimitUncheckedUpdateInput = {
+    key?: StringFieldUpdateOperationsInput | string
+    hits?: IntFieldUpdateOperationsInput | number
+    tokens?: NullableFloatFieldUpdateOperationsInput | number | null
+    expiresAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type RateLimitCreateManyInput = {
+    key: string
+    hits?: number
+    tokens?: number | null
+    expiresAt: Date | string
+    updatedAt?: Date | string
+  }
+
+  export type RateLimitUpdateManyMutationInput = {
+    key?: StringFieldUpdateOperationsInput | string
+    hits?: IntFieldUpdateOperationsInput | number
+    tokens?: NullableFloatFieldUpdateOperationsInput | number | null
+    expiresAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type RateLimitUncheckedUpdateManyInput = {
+    key?: StringFieldUpdateOperationsInput | string
+    hits?: IntFieldUpdateOperationsInput | number
+    tokens?: NullableFloatFieldUpdateOperationsInput | number | null
+    expiresAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type TokenTransactionCreateInput = {
+    id?: string
+    type: string
+    amount: number
+    balanceAfter: number
+    periodStart: Date | string
+    periodEnd: Date | string
+    videoId?: string | null
+    settlesId?: string | null
+    idempotencyKey?: string | null
+    reason?: string | null
+    metadata?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: Date | string
+    user: UserCreateNestedOneWithoutTokenLedgerInput
+  }
+
+  export type TokenTransactionUncheckedCreateInput = {
+    id?: string
+    userId: string
+    type: string
+    amount: number
+    balanceAfter: number
+    periodStart: Date | string
+    periodEnd: Date | string
+    videoId?: string | null
+    settlesId?: string | null
+    idempotencyKey?: string | null
+    reason?: string | null
+    metadata?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: Date | string
+  }
+
+  export type TokenTransactionUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    type?: StringFieldUpdateOperationsInput | string
+    amount?: IntFieldUpdateOperationsInput | number
+    balanceAfter?: IntFieldUpdateOperationsInput | number
+    periodStart?: DateTimeFieldUpdateOperationsInput | Date | string
+    periodEnd?: DateTimeFieldUpdateOperationsInput | Date | string
+    videoId?: NullableStringFieldUpdateOperationsInput | string | null
+    settlesId?: NullableStringFieldUpdateOperationsInput | string | null
+    idempotencyKey?: NullableStringFieldUpdateOperationsInput | string | null
+    reason?: NullableStringFieldUpdateOperationsInput | string | null
+    metadata?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    user?: UserUpdateOneRequiredWithoutTokenLedgerNestedInput
+  }
+
+  export type TokenTransactionUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    userId?: StringFieldUpdateOperationsInput | string
+    type?: StringFieldUpdateOperationsInput | string
+    amount?: IntFieldUpdateOperationsInput | number
+    balanceAfter?: IntFieldUpdateOperationsInput | number
+    periodStart?: DateTimeFieldUpdateOperationsInput | Date | string
+    periodEnd?: DateTimeFieldUpdateOperationsInput | Date | string
+    videoId?: NullableStringFieldUpdateOperationsInput | string | null
+    settlesId?: NullableStringFieldUpdateOperationsInput | string | null
+    idempotencyKey?: NullableStringFieldUpdateOperationsInput | string | null
+    reason?: NullableStringFieldUpdateOperationsInput | string | null
+    metadata?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type TokenTransactionCreateManyInput = {
+    id?: string
+    userId: string
+    type: string
+    amount: number
+    balanceAfter: number
+    periodStart: Date | string
+    periodEnd: Date | string
+    videoId?: string | null
+    settlesId?: string | null
+    idempotencyKey?: string | null
+    reason?: string | null
+    metadata?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: Date | string
+  }
+
+  export type TokenTransactionUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    type?: StringFieldUpdateOperationsInput | string
+    amount?: IntFieldUpdateOperationsInput | number
+    balanceAfter?: IntFieldUpdateOperationsInput | number
+    periodStart?: DateTimeFieldUpdateOperationsInput | Date | string
+    periodEnd?: DateTimeFieldUpdateOperationsInput | Date | string
+    videoId?: NullableStringFieldUpdateOperationsInput | string | null
+    settlesId?: NullableStringFieldUpdateOperationsInput | string | null
+    idempotencyKey?: NullableStringFieldUpdateOperationsInput | string | null
+    reason?: NullableStringFieldUpdateOperationsInput | string | null
+    metadata?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type TokenTransactionUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    userId?: StringFieldUpdateOperationsInput | string
+    type?: StringFieldUpdateOperationsInput | string
+    amount?: IntFieldUpdateOperationsInput | number
+    balanceAfter?: IntFieldUpdateOperationsInput | number
+    periodStart?: DateTimeFieldUpdateOperationsInput | Date | string
+    periodEnd?: DateTimeFieldUpdateOperationsInput | Date | string
+    videoId?: NullableStringFieldUpdateOperationsInput | string | null
+    settlesId?: NullableStringFieldUpdateOperationsInput | string | null
+    idempotencyKey?: NullableStringFieldUpdateOperationsInput | string | null
+    reason?: NullableStringFieldUpdateOperationsInput | string | null
+    metadata?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type VideoJobCreateInput = {
+    id?: string
+    priority?: number
+    attempts?: number
+    maxAttempts?: number
+    availableAt?: Date | string
+    lockedBy?: string | null
+    lockedUntil?: Date | string | null
+    lastError?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    video: VideoCreateNestedOneWithoutJobInput
+  }
+
+  export type VideoJobUncheckedCreateInput = {
+    id?: string
+    videoId: string
+    priority?: number
+    attempts?: number
+    maxAttempts?: number
+    availableAt?: Date | string
+    lockedBy?: string | null
+    lockedUntil?: Date | string | null
+    lastError?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+  }
+
+  export type VideoJobUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    priority?: IntFieldUpdateOperationsInput | number
+    attempts?: IntFieldUpdateOperationsInput | number
+    maxAttempts?: IntFieldUpdateOperationsInput | number
+    availableAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    lockedBy?: NullableStringFieldUpdateOperationsInput | string | null
+    lockedUntil?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    lastError?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    video?: VideoUpdateOneRequiredWithoutJobNestedInput
+  }
+
+  export type VideoJobUncheckedUpdateInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    videoId?: StringFieldUpdateOperationsInput | string
+    priority?: IntFieldUpdateOperationsInput | number
+    attempts?: IntFieldUpdateOperationsInput | number
+    maxAttempts?: IntFieldUpdateOperationsInput | number
+    availableAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    lockedBy?: NullableStringFieldUpdateOperationsInput | string | null
+    lockedUntil?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    lastError?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type VideoJobCreateManyInput = {
+    id?: string
+    videoId: string
+    priority?: number
+    attempts?: number
+    maxAttempts?: number
+    availableAt?: Date | string
+    lockedBy?: string | null
+    lockedUntil?: Date | string | null
+    lastError?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+  }
+
+  export type VideoJobUpdateManyMutationInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    priority?: IntFieldUpdateOperationsInput | number
+    attempts?: IntFieldUpdateOperationsInput | number
+    maxAttempts?: IntFieldUpdateOperationsInput | number
+    availableAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    lockedBy?: NullableStringFieldUpdateOperationsInput | string | null
+    lockedUntil?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    lastError?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type VideoJobUncheckedUpdateManyInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    videoId?: StringFieldUpdateOperationsInput | string
+    priority?: IntFieldUpdateOperationsInput | number
+    attempts?: IntFieldUpdateOperationsInput | number
+    maxAttempts?: IntFieldUpdateOperationsInput | number
+    availableAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    lockedBy?: NullableStringFieldUpdateOperationsInput | string | null
+    lockedUntil?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    lastError?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
   export type StringFilter<$PrismaModel = never> = {
     equals?: string | StringFieldRefInput<$PrismaModel>
     in?: string[] | ListStringFieldRefInput<$PrismaModel>
@@ -12065,6 +16368,12 @@ export namespace Prisma {
     none?: AnalyticsEventWhereInput
   }
 
+  export type TokenTransactionListRelationFilter = {
+    every?: TokenTransactionWhereInput
+    some?: TokenTransactionWhereInput
+    none?: TokenTransactionWhereInput
+  }
+
   export type SortOrderInput = {
     sort: SortOrder
     nulls?: NullsOrder
@@ -12086,6 +16395,10 @@ export namespace Prisma {
     _count?: SortOrder
   }
 
+  export type TokenTransactionOrderByRelationAggregateInput = {
+    _count?: SortOrder
+  }
+
   export type UserCountOrderByAggregateInput = {
     id?: SortOrder
     email?: SortOrder
@@ -12714,6 +17027,11 @@ export namespace Prisma {
     not?: NestedEnumVideoStatusFilter<$PrismaModel> | $Enums.VideoStatus
   }
 
+  export type VideoJobNullableScalarRelationFilter = {
+    is?: VideoJobWhereInput | null
+    isNot?: VideoJobWhereInput | null
+  }
+
   export type VideoCountOrderByAggregateInput = {
     id?: SortOrder
     userId?: SortOrder
@@ -12851,6 +17169,182 @@ export namespace Prisma {
     timestamp?: SortOrder
   }
 
+  export type FloatNullableFilter<$PrismaModel = never> = {
+    equals?: number | FloatFieldRefInput<$PrismaModel> | null
+    in?: number[] | ListFloatFieldRefInput<$PrismaModel> | null
+    notIn?: number[] | ListFloatFieldRefInput<$PrismaModel> | null
+    lt?: number | FloatFieldRefInput<$PrismaModel>
+    lte?: number | FloatFieldRefInput<$PrismaModel>
+    gt?: number | FloatFieldRefInput<$PrismaModel>
+    gte?: number | FloatFieldRefInput<$PrismaModel>
+    not?: NestedFloatNullableFilter<$PrismaModel> | number | null
+  }
+
+  export type RateLimitCountOrderByAggregateInput = {
+    key?: SortOrder
+    hits?: SortOrder
+    tokens?: SortOrder
+    expiresAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type RateLimitAvgOrderByAggregateInput = {
+    hits?: SortOrder
+    tokens?: SortOrder
+  }
+
+  export type RateLimitMaxOrderByAggregateInput = {
+    key?: SortOrder
+    hits?: SortOrder
+    tokens?: SortOrder
+    expiresAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type RateLimitMinOrderByAggregateInput = {
+    key?: SortOrder
+    hits?: SortOrder
+    tokens?: SortOrder
+    expiresAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type RateLimitSumOrderByAggregateInput = {
+    hits?: SortOrder
+    tokens?: SortOrder
+  }
+
+  export type FloatNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: number | FloatFieldRefInput<$PrismaModel> | null
+    in?: number[] | ListFloatFieldRefInput<$PrismaModel> | null
+    notIn?: number[] | ListFloatFieldRefInput<$PrismaModel> | null
+    lt?: number | FloatFieldRefInput<$PrismaModel>
+    lte?: number | FloatFieldRefInput<$PrismaModel>
+    gt?: number | FloatFieldRefInput<$PrismaModel>
+    gte?: number | FloatFieldRefInput<$PrismaModel>
+    not?: NestedFloatNullableWithAggregatesFilter<$PrismaModel> | number | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _avg?: NestedFloatNullableFilter<$PrismaModel>
+    _sum?: NestedFloatNullableFilter<$PrismaModel>
+    _min?: NestedFloatNullableFilter<$PrismaModel>
+    _max?: NestedFloatNullableFilter<$PrismaModel>
+  }
+
+  export type TokenTransactionCountOrderByAggregateInput = {
+    id?: SortOrder
+    userId?: SortOrder
+    type?: SortOrder
+    amount?: SortOrder
+    balanceAfter?: SortOrder
+    periodStart?: SortOrder
+    periodEnd?: SortOrder
+    videoId?: SortOrder
+    settlesId?: SortOrder
+    idempotencyKey?: SortOrder
+    reason?: SortOrder
+    metadata?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type TokenTransactionAvgOrderByAggregateInput = {
+    amount?: SortOrder
+    balanceAfter?: SortOrder
+  }
+
+  export type TokenTransactionMaxOrderByAggregateInput = {
+    id?: SortOrder
+    userId?: SortOrder
+    type?: SortOrder
+    amount?: SortOrder
+    balanceAfter?: SortOrder
+    periodStart?: SortOrder
+    periodEnd?: SortOrder
+    videoId?: SortOrder
+    settlesId?: SortOrder
+    idempotencyKey?: SortOrder
+    reason?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type TokenTransactionMinOrderByAggregateInput = {
+    id?: SortOrder
+    userId?: SortOrder
+    type?: SortOrder
+    amount?: SortOrder
+    balanceAfter?: SortOrder
+    periodStart?: SortOrder
+    periodEnd?: SortOrder
+    videoId?: SortOrder
+    settlesId?: SortOrder
+    idempotencyKey?: SortOrder
+    reason?: SortOrder
+    createdAt?: SortOrder
+  }
+
+  export type TokenTransactionSumOrderByAggregateInput = {
+    amount?: SortOrder
+    balanceAfter?: SortOrder
+  }
+
+  export type VideoScalarRelationFilter = {
+    is?: VideoWhereInput
+    isNot?: VideoWhereInput
+  }
+
+  export type VideoJobCountOrderByAggregateInput = {
+    id?: SortOrder
+    videoId?: SortOrder
+    priority?: SortOrder
+    attempts?: SortOrder
+    maxAttempts?: SortOrder
+    availableAt?: SortOrder
+    lockedBy?: SortOrder
+    lockedUntil?: SortOrder
+    lastError?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type VideoJobAvgOrderByAggregateInput = {
+    priority?: SortOrder
+    attempts?: SortOrder
+    maxAttempts?: SortOrder
+  }
+
+  export type VideoJobMaxOrderByAggregateInput = {
+    id?: SortOrder
+    videoId?: SortOrder
+    priority?: SortOrder
+    attempts?: SortOrder
+    maxAttempts?: SortOrder
+    availableAt?: SortOrder
+    lockedBy?: SortOrder
+    lockedUntil?: SortOrder
+    lastError?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type VideoJobMinOrderByAggregateInput = {
+    id?: SortOrder
+    videoId?: SortOrder
+    priority?: SortOrder
+    attempts?: SortOrder
+    maxAttempts?: SortOrder
+    availableAt?: SortOrder
+    lockedBy?: SortOrder
+    lockedUntil?: SortOrder
+    lastError?: SortOrder
+    createdAt?: SortOrder
+    updatedAt?: SortOrder
+  }
+
+  export type VideoJobSumOrderByAggregateInput = {
+    priority?: SortOrder
+    attempts?: SortOrder
+    maxAttempts?: SortOrder
+  }
+
   export type OtpCodeCreateNestedManyWithoutUserInput = {
     create?: XOR<OtpCodeCreateWithoutUserInput, OtpCodeUncheckedCreateWithoutUserInput> | OtpCodeCreateWithoutUserInput[] | OtpCodeUncheckedCreateWithoutUserInput[]
     connectOrCreate?: OtpCodeCreateOrConnectWithoutUserInput | OtpCodeCreateOrConnectWithoutUserInput[]
@@ -12885,6 +17379,13 @@ export namespace Prisma {
     connect?: AnalyticsEventWhereUniqueInput | AnalyticsEventWhereUniqueInput[]
   }
 
+  export type TokenTransactionCreateNestedManyWithoutUserInput = {
+    create?: XOR<TokenTransactionCreateWithoutUserInput, TokenTransactionUncheckedCreateWithoutUserInput> | TokenTransactionCreateWithoutUserInput[] | TokenTransactionUncheckedCreateWithoutUserInput[]
+    connectOrCreate?: TokenTransactionCreateOrConnectWithoutUserInput | TokenTransactionCreateOrConnectWithoutUserInput[]
+    createMany?: TokenTransactionCreateManyUserInputEnvelope
+    connect?: TokenTransactionWhereUniqueInput | TokenTransactionWhereUniqueInput[]
+  }
+
   export type OtpCodeUncheckedCreateNestedManyWithoutUserInput = {
     create?: XOR<OtpCodeCreateWithoutUserInput, OtpCodeUncheckedCreateWithoutUserInput> | OtpCodeCreateWithoutUserInput[] | OtpCodeUncheckedCreateWithoutUserInput[]
     connectOrCreate?: OtpCodeCreateOrConnectWithoutUserInput | OtpCodeCreateOrConnectWithoutUserInput[]
@@ -12919,6 +17420,13 @@ export namespace Prisma {
     connect?: AnalyticsEventWhereUniqueInput | AnalyticsEventWhereUniqueInput[]
   }
 
+  export type TokenTransactionUncheckedCreateNestedManyWithoutUserInput = {
+    create?: XOR<TokenTransactionCreateWithoutUserInput, TokenTransactionUncheckedCreateWithoutUserInput> | TokenTransactionCreateWithoutUserInput[] | TokenTransactionUncheckedCreateWithoutUserInput[]
+    connectOrCreate?: TokenTransactionCreateOrConnectWithoutUserInput | TokenTransactionCreateOrConnectWithoutUserInput[]
+    createMany?: TokenTransactionCreateManyUserInputEnvelope
+    connect?: TokenTransactionWhereUniqueInput | TokenTransactionWhereUniqueInput[]
+  }
+
   export type StringFieldUpdateOperationsInput = {
     set?: string
   }
@@ -13009,6 +17517,20 @@ export namespace Prisma {
     deleteMany?: AnalyticsEventScalarWhereInput | AnalyticsEventScalarWhereInput[]
   }
 
+  export type TokenTransactionUpdateManyWithoutUserNestedInput = {
+    create?: XOR<TokenTransactionCreateWithoutUserInput, TokenTransactionUncheckedCreateWithoutUserInput> | TokenTransactionCreateWithoutUserInput[] | TokenTransactionUncheckedCreateWithoutUserInput[]
+    connectOrCreate?: TokenTransactionCreateOrConnectWithoutUserInput | TokenTransactionCreateOrConnectWithoutUserInput[]
+    upsert?: TokenTransactionUpsertWithWhereUniqueWithoutUserInput | TokenTransactionUpsertWithWhereUniqueWithoutUserInput[]
+    createMany?: TokenTransactionCreateManyUserInputEnvelope
+    set?: TokenTransactionWhereUniqueInput | TokenTransactionWhereUniqueInput[]
+    disconnect?: TokenTransactionWhereUniqueInput | TokenTransactionWhereUniqueInput[]
+    delete?: TokenTransactionWhereUniqueInput | TokenTransactionWhereUniqueInput[]
+    connect?: TokenTransactionWhereUniqueInput | TokenTransactionWhereUniqueInput[]
+    update?: TokenTransactionUpdateWithWhereUniqueWithoutUserInput | TokenTransactionUpdateWithWhereUniqueWithoutUserInput[]
+    updateMany?: TokenTransactionUpdateManyWithWhereWithoutUserInput | TokenTransactionUpdateManyWithWhereWithoutUserInput[]
+    deleteMany?: TokenTransactionScalarWhereInput | TokenTransactionScalarWhereInput[]
+  }
+
   export type OtpCodeUncheckedUpdateManyWithoutUserNestedInput = {
     create?: XOR<OtpCodeCreateWithoutUserInput, OtpCodeUncheckedCreateWithoutUserInput> | OtpCodeCreateWithoutUserInput[] | OtpCodeUncheckedCreateWithoutUserInput[]
     connectOrCreate?: OtpCodeCreateOrConnectWithoutUserInput | OtpCodeCreateOrConnectWithoutUserInput[]
@@ -13075,6 +17597,20 @@ export namespace Prisma {
     deleteMany?: AnalyticsEventScalarWhereInput | AnalyticsEventScalarWhereInput[]
   }
 
+  export type TokenTransactionUncheckedUpdateManyWithoutUserNestedInput = {
+    create?: XOR<TokenTransactionCreateWithoutUserInput, TokenTransactionUncheckedCreateWithoutUserInput> | TokenTransactionCreateWithoutUserInput[] | TokenTransactionUncheckedCreateWithoutUserInput[]
+    connectOrCreate?: TokenTransactionCreateOrConnectWithoutUserInput | TokenTransactionCreateOrConnectWithoutUserInput[]
+    upsert?: TokenTransactionUpsertWithWhereUniqueWithoutUserInput | TokenTransactionUpsertWithWhereUniqueWithoutUserInput[]
+    createMany?: TokenTransactionCreateManyUserInputEnvelope
+    set?: TokenTransactionWhereUniqueInput | TokenTransactionWhereUniqueInput[]
+    disconnect?: TokenTransactionWhereUniqueInput | TokenTransactionWhereUniqueInput[]
+    delete?: TokenTransactionWhereUniqueInput | TokenTransactionWhereUniqueInput[]
+    connect?: TokenTransactionWhereUniqueInput | TokenTransactionWhereUniqueInput[]
+    update?: TokenTransactionUpdateWithWhereUniqueWithoutUserInput | TokenTransactionUpdateWithWhereUniqueWithoutUserInput[]
+    updateMany?: TokenTransactionUpdateManyWithWhereWithoutUserInput | TokenTransactionUpdateManyWithWhereWithoutUserInput[]
+    deleteMany?: TokenTransactionScalarWhereInput | TokenTransactionScalarWhereInput[]
+  }
+
   export type UserCreateNestedOneWithoutOtpCodesInput = {
     create?: XOR<UserCreateWithoutOtpCodesInput, UserUncheckedCreateWithoutOtpCodesInput>
     connectOrCreate?: UserCreateOrConnectWithoutOtpCodesInput
@@ -13223,6 +17759,18 @@ export namespace Prisma {
     connect?: UserWhereUniqueInput
   }
 
+  export type VideoJobCreateNestedOneWithoutVideoInput = {
+    create?: XOR<VideoJobCreateWithoutVideoInput, VideoJobUncheckedCreateWithoutVideoInput>
+    connectOrCreate?: VideoJobCreateOrConnectWithoutVideoInput
+    connect?: VideoJobWhereUniqueInput
+  }
+
+  export type VideoJobUncheckedCreateNestedOneWithoutVideoInput = {
+    create?: XOR<VideoJobCreateWithoutVideoInput, VideoJobUncheckedCreateWithoutVideoInput>
+    connectOrCreate?: VideoJobCreateOrConnectWithoutVideoInput
+    connect?: VideoJobWhereUniqueInput
+  }
+
   export type VideoUpdatepromptInput = {
     set?: string[]
     push?: string | string[]
@@ -13244,6 +17792,26 @@ export namespace Prisma {
     update?: XOR<XOR<UserUpdateToOneWithWhereWithoutVideosInput, UserUpdateWithoutVideosInput>, UserUncheckedUpdateWithoutVideosInput>
   }
 
+  export type VideoJobUpdateOneWithoutVideoNestedInput = {
+    create?: XOR<VideoJobCreateWithoutVideoInput, VideoJobUncheckedCreateWithoutVideoInput>
+    connectOrCreate?: VideoJobCreateOrConnectWithoutVideoInput
+    upsert?: VideoJobUpsertWithoutVideoInput
+    disconnect?: VideoJobWhereInput | boolean
+    delete?: VideoJobWhereInput | boolean
+    connect?: VideoJobWhereUniqueInput
+    update?: XOR<XOR<VideoJobUpdateToOneWithWhereWithoutVideoInput, VideoJobUpdateWithoutVideoInput>, VideoJobUncheckedUpdateWithoutVideoInput>
+  }
+
+  export type VideoJobUncheckedUpdateOneWithoutVideoNestedInput = {
+    create?: XOR<VideoJobCreateWithoutVideoInput, VideoJobUncheckedCreateWithoutVideoInput>
+    connectOrCreate?: VideoJobCreateOrConnectWithoutVideoInput
+    upsert?: VideoJobUpsertWithoutVideoInput
+    disconnect?: VideoJobWhereInput | boolean
+    delete?: VideoJobWhereInput | boolean
+    connect?: VideoJobWhereUniqueInput
+    update?: XOR<XOR<VideoJobUpdateToOneWithWhereWithoutVideoInput, VideoJobUpdateWithoutVideoInput>, VideoJobUncheckedUpdateWithoutVideoInput>
+  }
+
   export type UserCreateNestedOneWithoutAnalyticsInput = {
     create?: XOR<UserCreateWithoutAnalyticsInput, UserUncheckedCreateWithoutAnalyticsInput>
     connectOrCreate?: UserCreateOrConnectWithoutAnalyticsInput
@@ -13260,6 +17828,42 @@ export namespace Prisma {
     update?: XOR<XOR<UserUpdateToOneWithWhereWithoutAnalyticsInput, UserUpdateWithoutAnalyticsInput>, UserUncheckedUpdateWithoutAnalyticsInput>
   }
 
+  export type NullableFloatFieldUpdateOperationsInput = {
+    set?: number | null
+    increment?: number
+    decrement?: number
+    multiply?: number
+    divide?: number
+  }
+
+  export type UserCreateNestedOneWithoutTokenLedgerInput = {
+    create?: XOR<UserCreateWithoutTokenLedgerInput, UserUncheckedCreateWithoutTokenLedgerInput>
+    connectOrCreate?: UserCreateOrConnectWithoutTokenLedgerInput
+    connect?: UserWhereUniqueInput
+  }
+
+  export type UserUpdateOneRequiredWithoutTokenLedgerNestedInput = {
+    create?: XOR<UserCreateWithoutTokenLedgerInput, UserUncheckedCreateWithoutTokenLedgerInput>
+    connectOrCreate?: UserCreateOrConnectWithoutTokenLedgerInput
+    upsert?: UserUpsertWithoutTokenLedgerInput
+    connect?: UserWhereUniqueInput
+    update?: XOR<XOR<UserUpdateToOneWithWhereWithoutTokenLedgerInput, UserUpdateWithoutTokenLedgerInput>, UserUncheckedUpdateWithoutTokenLedgerInput>
+  }
+
+  export type VideoCreateNestedOneWithoutJobInput = {
+    create?: XOR<VideoCreateWithoutJobInput, VideoUncheckedCreateWithoutJobInput>
+    connectOrCreate?: VideoCreateOrConnectWithoutJobInput
+    connect?: VideoWhereUniqueInput
+  }
+
+  export type VideoUpdateOneRequiredWithoutJobNestedInput = {
+    create?: XOR<VideoCreateWithoutJobInput, VideoUncheckedCreateWithoutJobInput>
+    connectOrCreate?: VideoCreateOrConnectWithoutJobInput
+    upsert?: VideoUpsertWithoutJobInput
+    connect?: VideoWhereUniqueInput
+    update?: XOR<XOR<VideoUpdateToOneWithWhereWithoutJobInput, VideoUpdateWithoutJobInput>, VideoUncheckedUpdateWithoutJobInput>
+  }
+
   export type NestedStringFilter<$PrismaModel = never> = {
     equals?: string | StringFieldRefInput<$PrismaModel>
     in?: string[] | ListStringFieldRefInput<$PrismaModel>
@@ -13660,6 +18264,33 @@ export namespace Prisma {
     _max?: NestedEnumVideoStatusFilter<$PrismaModel>
   }
 
+  export type NestedFloatNullableFilter<$PrismaModel = never> = {
+    equals?: number | FloatFieldRefInput<$PrismaModel> | null
+    in?: number[] | ListFloatFieldRefInput<$PrismaModel> | null
+    notIn?: number[] | ListFloatFieldRefInput<$PrismaModel> | null
+    lt?: number | FloatFieldRefInput<$PrismaModel>
+    lte?: number | FloatFieldRefInput<$PrismaModel>
+    gt?: number | FloatFieldRefInput<$PrismaModel>
+    gte?: number | FloatFieldRefInput<$PrismaModel>
+    not?: NestedFloatNullableFilter<$PrismaModel> | number | null
+  }
+
+  export type NestedFloatNullableWithAggregatesFilter<$PrismaModel = never> = {
+    equals?: number | FloatFieldRefInput<$PrismaModel> | null
+    in?: number[] | ListFloatFieldRefInput<$PrismaModel> | null
+    notIn?: number[] | ListFloatFieldRefInput<$PrismaModel> | null
+    lt?: number | FloatFieldRefInput<$PrismaModel>
+    lte?: number | FloatFieldRefInput<$PrismaModel>
+    gt?: number | FloatFieldRefInput<$PrismaModel>
+    gte?: number | FloatFieldRefInput<$PrismaModel>
+    not?: NestedFloatNullableWithAggregatesFilter<$PrismaModel> | number | null
+    _count?: NestedIntNullableFilter<$PrismaModel>
+    _avg?: NestedFloatNullableFilter<$PrismaModel>
+    _sum?: NestedFloatNullableFilter<$PrismaModel>
+    _min?: NestedFloatNullableFilter<$PrismaModel>
+    _max?: NestedFloatNullableFilter<$PrismaModel>
+  }
+
   export type OtpCodeCreateWithoutUserInput = {
     id?: string
     email: string
@@ -13808,6 +18439,7 @@ export namespace Prisma {
     metadata?: NullableJsonNullValueInput | InputJsonValue
     createdAt?: Date | string
     updatedAt?: Date | string
+    job?: VideoJobCreateNestedOneWithoutVideoInput
   }
 
   export type VideoUncheckedCreateWithoutUserInput = {
@@ -13829,6 +18461,7 @@ export namespace Prisma {
     metadata?: NullableJsonNullValueInput | InputJsonValue
     createdAt?: Date | string
     updatedAt?: Date | string
+    job?: VideoJobUncheckedCreateNestedOneWithoutVideoInput
   }
 
   export type VideoCreateOrConnectWithoutUserInput = {
@@ -13877,6 +18510,46 @@ export namespace Prisma {
     skipDuplicates?: boolean
   }
 
+  export type TokenTransactionCreateWithoutUserInput = {
+    id?: string
+    type: string
+    amount: number
+    balanceAfter: number
+    periodStart: Date | string
+    periodEnd: Date | string
+    videoId?: string | null
+    settlesId?: string | null
+    idempotencyKey?: string | null
+    reason?: string | null
+    metadata?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: Date | string
+  }
+
+  export type TokenTransactionUncheckedCreateWithoutUserInput = {
+    id?: string
+    type: string
+    amount: number
+    balanceAfter: number
+    periodStart: Date | string
+    periodEnd: Date | string
+    videoId?: string | null
+    settlesId?: string | null
+    idempotencyKey?: string | null
+    reason?: string | null
+    metadata?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: Date | string
+  }
+
+  export type TokenTransactionCreateOrConnectWithoutUserInput = {
+    where: TokenTransactionWhereUniqueInput
+    create: XOR<TokenTransactionCreateWithoutUserInput, TokenTransactionUncheckedCreateWithoutUserInput>
+  }
+
+  export type TokenTransactionCreateManyUserInputEnvelope = {
+    data: TokenTransactionCreateManyUserInput | TokenTransactionCreateManyUserInput[]
+    skipDuplicates?: boolean
+  }
+
   export type OtpCodeUpsertWithWhereUniqueWithoutUserInput = {
     where: OtpCodeWhereUniqueInput
     update: XOR<OtpCodeUpdateWithoutUserInput, OtpCodeUncheckedUpdateWithoutUserInput>
@@ -14073,6 +18746,41 @@ export namespace Prisma {
     timestamp?: DateTimeFilter<"AnalyticsEvent"> | Date | string
   }
 
+  export type TokenTransactionUpsertWithWhereUniqueWithoutUserInput = {
+    where: TokenTransactionWhereUniqueInput
+    update: XOR<TokenTransactionUpdateWithoutUserInput, TokenTransactionUncheckedUpdateWithoutUserInput>
+    create: XOR<TokenTransactionCreateWithoutUserInput, TokenTransactionUncheckedCreateWithoutUserInput>
+  }
+
+  export type TokenTransactionUpdateWithWhereUniqueWithoutUserInput = {
+    where: TokenTransactionWhereUniqueInput
+    data: XOR<TokenTransactionUpdateWithoutUserInput, TokenTransactionUncheckedUpdateWithoutUserInput>
+  }
+
+  export type TokenTransactionUpdateManyWithWhereWithoutUserInput = {
+    where: TokenTransactionScalarWhereInput
+    data: XOR<TokenTransactionUpdateManyMutationInput, TokenTransactionUncheckedUpdateManyWithoutUserInput>
+  }
+
+  export type TokenTransactionScalarWhereInput = {
+    AND?: TokenTransactionScalarWhereInput | TokenTransactionScalarWhereInput[]
+    OR?: TokenTransactionScalarWhereInput[]
+    NOT?: TokenTransactionScalarWhereInput | TokenTransactionScalarWhereInput[]
+    id?: StringFilter<"TokenTransaction"> | string
+    userId?: StringFilter<"TokenTransaction"> | string
+    type?: StringFilter<"TokenTransaction"> | string
+    amount?: IntFilter<"TokenTransaction"> | number
+    balanceAfter?: IntFilter<"TokenTransaction"> | number
+    periodStart?: DateTimeFilter<"TokenTransaction"> | Date | string
+    periodEnd?: DateTimeFilter<"TokenTransaction"> | Date | string
+    videoId?: StringNullableFilter<"TokenTransaction"> | string | null
+    settlesId?: StringNullableFilter<"TokenTransaction"> | string | null
+    idempotencyKey?: StringNullableFilter<"TokenTransaction"> | string | null
+    reason?: StringNullableFilter<"TokenTransaction"> | string | null
+    metadata?: JsonNullableFilter<"TokenTransaction">
+    createdAt?: DateTimeFilter<"TokenTransaction"> | Date | string
+  }
+
   export type UserCreateWithoutOtpCodesInput = {
     id?: string
     email: string
@@ -14087,6 +18795,7 @@ export namespace Prisma {
     subscription?: SubscriptionCreateNestedOneWithoutUserInput
     videos?: VideoCreateNestedManyWithoutUserInput
     analytics?: AnalyticsEventCreateNestedManyWithoutUserInput
+    tokenLedger?: TokenTransactionCreateNestedManyWithoutUserInput
   }
 
   export type UserUncheckedCreateWithoutOtpCodesInput = {
@@ -14103,6 +18812,7 @@ export namespace Prisma {
     subscription?: SubscriptionUncheckedCreateNestedOneWithoutUserInput
     videos?: VideoUncheckedCreateNestedManyWithoutUserInput
     analytics?: AnalyticsEventUncheckedCreateNestedManyWithoutUserInput
+    tokenLedger?: TokenTransactionUncheckedCreateNestedManyWithoutUserInput
   }
 
   export type UserCreateOrConnectWithoutOtpCodesInput = {
@@ -14135,6 +18845,7 @@ export namespace Prisma {
     subscription?: SubscriptionUpdateOneWithoutUserNestedInput
     videos?: VideoUpdateManyWithoutUserNestedInput
     analytics?: AnalyticsEventUpdateManyWithoutUserNestedInput
+    tokenLedger?: TokenTransactionUpdateManyWithoutUserNestedInput
   }
 
   export type UserUncheckedUpdateWithoutOtpCodesInput = {
@@ -14151,6 +18862,7 @@ export namespace Prisma {
     subscription?: SubscriptionUncheckedUpdateOneWithoutUserNestedInput
     videos?: VideoUncheckedUpdateManyWithoutUserNestedInput
     analytics?: AnalyticsEventUncheckedUpdateManyWithoutUserNestedInput
+    tokenLedger?: TokenTransactionUncheckedUpdateManyWithoutUserNestedInput
   }
 
   export type UserCreateWithoutSessionsInput = {
@@ -14167,6 +18879,7 @@ export namespace Prisma {
     subscription?: SubscriptionCreateNestedOneWithoutUserInput
     videos?: VideoCreateNestedManyWithoutUserInput
     analytics?: AnalyticsEventCreateNestedManyWithoutUserInput
+    tokenLedger?: TokenTransactionCreateNestedManyWithoutUserInput
   }
 
   export type UserUncheckedCreateWithoutSessionsInput = {
@@ -14183,6 +18896,7 @@ export namespace Prisma {
     subscription?: SubscriptionUncheckedCreateNestedOneWithoutUserInput
     videos?: VideoUncheckedCreateNestedManyWithoutUserInput
     analytics?: AnalyticsEventUncheckedCreateNestedManyWithoutUserInput
+    tokenLedger?: TokenTransactionUncheckedCreateNestedManyWithoutUserInput
   }
 
   export type UserCreateOrConnectWithoutSessionsInput = {
@@ -14215,6 +18929,7 @@ export namespace Prisma {
     subscription?: SubscriptionUpdateOneWithoutUserNestedInput
     videos?: VideoUpdateManyWithoutUserNestedInput
     analytics?: AnalyticsEventUpdateManyWithoutUserNestedInput
+    tokenLedger?: TokenTransactionUpdateManyWithoutUserNestedInput
   }
 
   export type UserUncheckedUpdateWithoutSessionsInput = {
@@ -14231,6 +18946,7 @@ export namespace Prisma {
     subscription?: SubscriptionUncheckedUpdateOneWithoutUserNestedInput
     videos?: VideoUncheckedUpdateManyWithoutUserNestedInput
     analytics?: AnalyticsEventUncheckedUpdateManyWithoutUserNestedInput
+    tokenLedger?: TokenTransactionUncheckedUpdateManyWithoutUserNestedInput
   }
 
   export type UserCreateWithoutSubscriptionInput = {
@@ -14247,6 +18963,7 @@ export namespace Prisma {
     sessions?: SessionCreateNestedManyWithoutUserInput
     videos?: VideoCreateNestedManyWithoutUserInput
     analytics?: AnalyticsEventCreateNestedManyWithoutUserInput
+    tokenLedger?: TokenTransactionCreateNestedManyWithoutUserInput
   }
 
   export type UserUncheckedCreateWithoutSubscriptionInput = {
@@ -14263,6 +18980,7 @@ export namespace Prisma {
     sessions?: SessionUncheckedCreateNestedManyWithoutUserInput
     videos?: VideoUncheckedCreateNestedManyWithoutUserInput
     analytics?: AnalyticsEventUncheckedCreateNestedManyWithoutUserInput
+    tokenLedger?: TokenTransactionUncheckedCreateNestedManyWithoutUserInput
   }
 
   export type UserCreateOrConnectWithoutSubscriptionInput = {
@@ -14331,6 +19049,7 @@ export namespace Prisma {
     sessions?: SessionUpdateManyWithoutUserNestedInput
     videos?: VideoUpdateManyWithoutUserNestedInput
     analytics?: AnalyticsEventUpdateManyWithoutUserNestedInput
+    tokenLedger?: TokenTransactionUpdateManyWithoutUserNestedInput
   }
 
   export type UserUncheckedUpdateWithoutSubscriptionInput = {
@@ -14347,6 +19066,7 @@ export namespace Prisma {
     sessions?: SessionUncheckedUpdateManyWithoutUserNestedInput
     videos?: VideoUncheckedUpdateManyWithoutUserNestedInput
     analytics?: AnalyticsEventUncheckedUpdateManyWithoutUserNestedInput
+    tokenLedger?: TokenTransactionUncheckedUpdateManyWithoutUserNestedInput
   }
 
   export type SubscriptionHistoryUpsertWithWhereUniqueWithoutSubscriptionInput = {
@@ -14488,6 +19208,7 @@ export namespace Prisma {
     sessions?: SessionCreateNestedManyWithoutUserInput
     subscription?: SubscriptionCreateNestedOneWithoutUserInput
     analytics?: AnalyticsEventCreateNestedManyWithoutUserInput
+    tokenLedger?: TokenTransactionCreateNestedManyWithoutUserInput
   }
 
   export type UserUncheckedCreateWithoutVideosInput = {
@@ -14504,6 +19225,7 @@ export namespace Prisma {
     sessions?: SessionUncheckedCreateNestedManyWithoutUserInput
     subscription?: SubscriptionUncheckedCreateNestedOneWithoutUserInput
     analytics?: AnalyticsEventUncheckedCreateNestedManyWithoutUserInput
+    tokenLedger?: TokenTransactionUncheckedCreateNestedManyWithoutUserInput
   }
 
   export type UserCreateOrConnectWithoutVideosInput = {
@@ -14511,6 +19233,37 @@ export namespace Prisma {
     create: XOR<UserCreateWithoutVideosInput, UserUncheckedCreateWithoutVideosInput>
   }
 
+  export type VideoJobCreateWithoutVideoInput = {
+    id?: string
+    priority?: number
+    attempts?: number
+    maxAttempts?: number
+    availableAt?: Date | string
+    lockedBy?: string | null
+    lockedUntil?: Date | string | null
+    lastError?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+  }
+
+  export type VideoJobUncheckedCreateWithoutVideoInput = {
+    id?: string
+    priority?: number
+    attempts?: number
+    maxAttempts?: number
+    availableAt?: Date | string
+    lockedBy?: string | null
+    lockedUntil?: Date | string | null
+    lastError?: string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+  }
+
+  export type VideoJobCreateOrConnectWithoutVideoInput = {
+    where: VideoJobWhereUniqueInput
+    create: XOR<VideoJobCreateWithoutVideoInput, VideoJobUncheckedCreateWithoutVideoInput>
+  }
+
   export type UserUpsertWithoutVideosInput = {
     update: XOR<UserUpdateWithoutVideosInput, UserUncheckedUpdateWithoutVideosInput>
     create: XOR<UserCreateWithoutVideosInput, UserUncheckedCreateWithoutVideosInput>
@@ -14536,6 +19289,7 @@ export namespace Prisma {
     sessions?: SessionUpdateManyWithoutUserNestedInput
     subscription?: SubscriptionUpdateOneWithoutUserNestedInput
     analytics?: AnalyticsEventUpdateManyWithoutUserNestedInput
+    tokenLedger?: TokenTransactionUpdateManyWithoutUserNestedInput
   }
 
   export type UserUncheckedUpdateWithoutVideosInput = {
@@ -14552,6 +19306,44 @@ export namespace Prisma {
     sessions?: SessionUncheckedUpdateManyWithoutUserNestedInput
     subscription?: SubscriptionUncheckedUpdateOneWithoutUserNestedInput
     analytics?: AnalyticsEventUncheckedUpdateManyWithoutUserNestedInput
+    tokenLedger?: TokenTransactionUncheckedUpdateManyWithoutUserNestedInput
+  }
+
+  export type VideoJobUpsertWithoutVideoInput = {
+    update: XOR<VideoJobUpdateWithoutVideoInput, VideoJobUncheckedUpdateWithoutVideoInput>
+    create: XOR<VideoJobCreateWithoutVideoInput, VideoJobUncheckedCreateWithoutVideoInput>
+    where?: VideoJobWhereInput
+  }
+
+  export type VideoJobUpdateToOneWithWhereWithoutVideoInput = {
+    where?: VideoJobWhereInput
+    data: XOR<VideoJobUpdateWithoutVideoInput, VideoJobUncheckedUpdateWithoutVideoInput>
+  }
+
+  export type VideoJobUpdateWithoutVideoInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    priority?: IntFieldUpdateOperationsInput | number
+    attempts?: IntFieldUpdateOperationsInput | number
+    maxAttempts?: IntFieldUpdateOperationsInput | number
+    availableAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    lockedBy?: NullableStringFieldUpdateOperationsInput | string | null
+    lockedUntil?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    lastError?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type VideoJobUncheckedUpdateWithoutVideoInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    priority?: IntFieldUpdateOperationsInput | number
+    attempts?: IntFieldUpdateOperationsInput | number
+    maxAttempts?: IntFieldUpdateOperationsInput | number
+    availableAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    lockedBy?: NullableStringFieldUpdateOperationsInput | string | null
+    lockedUntil?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    lastError?: NullableStringFieldUpdateOperationsInput | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
   export type UserCreateWithoutAnalyticsInput = {
@@ -14568,6 +19360,7 @@ export namespace Prisma {
     sessions?: SessionCreateNestedManyWithoutUserInput
     subscription?: SubscriptionCreateNestedOneWithoutUserInput
     videos?: VideoCreateNestedManyWithoutUserInput
+    tokenLedger?: TokenTransactionCreateNestedManyWithoutUserInput
   }
 
   export type UserUncheckedCreateWithoutAnalyticsInput = {
@@ -14584,6 +19377,7 @@ export namespace Prisma {
     sessions?: SessionUncheckedCreateNestedManyWithoutUserInput
     subscription?: SubscriptionUncheckedCreateNestedOneWithoutUserInput
     videos?: VideoUncheckedCreateNestedManyWithoutUserInput
+    tokenLedger?: TokenTransactionUncheckedCreateNestedManyWithoutUserInput
   }
 
   export type UserCreateOrConnectWithoutAnalyticsInput = {
@@ -14616,6 +19410,7 @@ export namespace Prisma {
     sessions?: SessionUpdateManyWithoutUserNestedInput
     subscription?: SubscriptionUpdateOneWithoutUserNestedInput
     videos?: VideoUpdateManyWithoutUserNestedInput
+    tokenLedger?: TokenTransactionUpdateManyWithoutUserNestedInput
   }
 
   export type UserUncheckedUpdateWithoutAnalyticsInput = {
@@ -14632,6 +19427,195 @@ export namespace Prisma {
     sessions?: SessionUncheckedUpdateManyWithoutUserNestedInput
     subscription?: SubscriptionUncheckedUpdateOneWithoutUserNestedInput
     videos?: VideoUncheckedUpdateManyWithoutUserNestedInput
+    tokenLedger?: TokenTransactionUncheckedUpdateManyWithoutUserNestedInput
+  }
+
+  export type UserCreateWithoutTokenLedgerInput = {
+    id?: string
+    email: string
+    name?: string | null
+    avatarUrl?: string | null
+    subscriptionStatus?: $Enums.SubscriptionStatus
+    isDeleted?: boolean
+    deletedAt?: Date | string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    otpCodes?: OtpCodeCreateNestedManyWithoutUserInput
+    sessions?: SessionCreateNestedManyWithoutUserInput
+    subscription?: SubscriptionCreateNestedOneWithoutUserInput
+    videos?: VideoCreateNestedManyWithoutUserInput
+    analytics?: AnalyticsEventCreateNestedManyWithoutUserInput
+  }
+
+  export type UserUncheckedCreateWithoutTokenLedgerInput = {
+    id?: string
+    email: string
+    name?: string | null
+    avatarUrl?: string | null
+    subscriptionStatus?: $Enums.SubscriptionStatus
+    isDeleted?: boolean
+    deletedAt?: Date | string | null
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    otpCodes?: OtpCodeUncheckedCreateNestedManyWithoutUserInput
+    sessions?: SessionUncheckedCreateNestedManyWithoutUserInput
+    subscription?: SubscriptionUncheckedCreateNestedOneWithoutUserInput
+    videos?: VideoUncheckedCreateNestedManyWithoutUserInput
+    analytics?: AnalyticsEventUncheckedCreateNestedManyWithoutUserInput
+  }
+
+  export type UserCreateOrConnectWithoutTokenLedgerInput = {
+    where: UserWhereUniqueInput
+    create: XOR<UserCreateWithoutTokenLedgerInput, UserUncheckedCreateWithoutTokenLedgerInput>
+  }
+
+  export type UserUpsertWithoutTokenLedgerInput = {
+    update: XOR<UserUpdateWithoutTokenLedgerInput, UserUncheckedUpdateWithoutTokenLedgerInput>
+    create: XOR<UserCreateWithoutTokenLedgerInput, UserUncheckedCreateWithoutTokenLedgerInput>
+    where?: UserWhereInput
+  }
+
+  export type UserUpdateToOneWithWhereWithoutTokenLedgerInput = {
+    where?: UserWhereInput
+    data: XOR<UserUpdateWithoutTokenLedgerInput, UserUncheckedUpdateWithoutTokenLedgerInput>
+  }
+
+  export type UserUpdateWithoutTokenLedgerInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    email?: StringFieldUpdateOperationsInput | string
+    name?: NullableStringFieldUpdateOperationsInput | string | null
+    avatarUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    subscriptionStatus?: EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+    isDeleted?: BoolFieldUpdateOperationsInput | boolean
+    deletedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    otpCodes?: OtpCodeUpdateManyWithoutUserNestedInput
+    sessions?: SessionUpdateManyWithoutUserNestedInput
+    subscription?: SubscriptionUpdateOneWithoutUserNestedInput
+    videos?: VideoUpdateManyWithoutUserNestedInput
+    analytics?: AnalyticsEventUpdateManyWithoutUserNestedInput
+  }
+
+  export type UserUncheckedUpdateWithoutTokenLedgerInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    email?: StringFieldUpdateOperationsInput | string
+    name?: NullableStringFieldUpdateOperationsInput | string | null
+    avatarUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    subscriptionStatus?: EnumSubscriptionStatusFieldUpdateOperationsInput | $Enums.SubscriptionStatus
+    isDeleted?: BoolFieldUpdateOperationsInput | boolean
+    deletedAt?: NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    otpCodes?: OtpCodeUncheckedUpdateManyWithoutUserNestedInput
+    sessions?: SessionUncheckedUpdateManyWithoutUserNestedInput
+    subscription?: SubscriptionUncheckedUpdateOneWithoutUserNestedInput
+    videos?: VideoUncheckedUpdateManyWithoutUserNestedInput
+    analytics?: AnalyticsEventUncheckedUpdateManyWithoutUserNestedInput
+  }
+
+  export type VideoCreateWithoutJobInput = {
+    id?: string
+    title: string
+    prompt?: VideoCreatepromptInput | string[]
+    customScript?: string | null
+    duration: number
+    style: $Enums.VideoStyle
+    language: string
+    hasCaptions?: boolean
+    status?: $Enums.VideoStatus
+    errorMessage?: string | null
+    videoUrl?: string | null
+    thumbnailUrl?: string | null
+    captionUrl?: string | null
+    tokensUsed?: number
+    version?: string
+    metadata?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: Date | string
+    updatedAt?: Date | string
+    user: UserCreateNestedOneWithoutVideosInput
+  }
+
+  export type VideoUncheckedCreateWithoutJobInput = {
+    id?: string
+    userId: string
+    title: string
+    prompt?: VideoCreatepromptInput | string[]
+    customScript?: string | null
+    duration: number
+    style: $Enums.VideoStyle
+    language: string
+    hasCaptions?: boolean
+    status?: $Enums.VideoStatus
+    errorMessage?: string | null
+    videoUrl?: string | null
+    thumbnailUrl?: string | null
+    captionUrl?: string | null
+    tokensUsed?: number
+    version?: string
+    metadata?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: Date | string
+    updatedAt?: Date | string
+  }
+
+  export type VideoCreateOrConnectWithoutJobInput = {
+    where: VideoWhereUniqueInput
+    create: XOR<VideoCreateWithoutJobInput, VideoUncheckedCreateWithoutJobInput>
+  }
+
+  export type VideoUpsertWithoutJobInput = {
+    update: XOR<VideoUpdateWithoutJobInput, VideoUncheckedUpdateWithoutJobInput>
+    create: XOR<VideoCreateWithoutJobInput, VideoUncheckedCreateWithoutJobInput>
+    where?: VideoWhereInput
+  }
+
+  export type VideoUpdateToOneWithWhereWithoutJobInput = {
+    where?: VideoWhereInput
+    data: XOR<VideoUpdateWithoutJobInput, VideoUncheckedUpdateWithoutJobInput>
+  }
+
+  export type VideoUpdateWithoutJobInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    title?: StringFieldUpdateOperationsInput | string
+    prompt?: VideoUpdatepromptInput | string[]
+    customScript?: NullableStringFieldUpdateOperationsInput | string | null
+    duration?: IntFieldUpdateOperationsInput | number
+    style?: EnumVideoStyleFieldUpdateOperationsInput | $Enums.VideoStyle
+    language?: StringFieldUpdateOperationsInput | string
+    hasCaptions?: BoolFieldUpdateOperationsInput | boolean
+    status?: EnumVideoStatusFieldUpdateOperationsInput | $Enums.VideoStatus
+    errorMessage?: NullableStringFieldUpdateOperationsInput | string | null
+    videoUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    thumbnailUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    captionUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    tokensUsed?: IntFieldUpdateOperationsInput | number
+    version?: StringFieldUpdateOperationsInput | string
+    metadata?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    user?: UserUpdateOneRequiredWithoutVideosNestedInput
+  }
+
+  export type VideoUncheckedUpdateWithoutJobInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    userId?: StringFieldUpdateOperationsInput | string
+    title?: StringFieldUpdateOperationsInput | string
+    prompt?: VideoUpdatepromptInput | string[]
+    customScript?: NullableStringFieldUpdateOperationsInput | string | null
+    duration?: IntFieldUpdateOperationsInput | number
+    style?: EnumVideoStyleFieldUpdateOperationsInput | $Enums.VideoStyle
+    language?: StringFieldUpdateOperationsInput | string
+    hasCaptions?: BoolFieldUpdateOperationsInput | boolean
+    status?: EnumVideoStatusFieldUpdateOperationsInput | $Enums.VideoStatus
+    errorMessage?: NullableStringFieldUpdateOperationsInput | string | null
+    videoUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    thumbnailUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    captionUrl?: NullableStringFieldUpdateOperationsInput | string | null
+    tokensUsed?: IntFieldUpdateOperationsInput | number
+    version?: StringFieldUpdateOperationsInput | string
+    metadata?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
   export type OtpCodeCreateManyUserInput = {
@@ -14701,6 +19685,21 @@ export namespace Prisma {
     timestamp?: Date | string
   }
 
+  export type TokenTransactionCreateManyUserInput = {
+    id?: string
+    type: string
+    amount: number
+    balanceAfter: number
+    periodStart: Date | string
+    periodEnd: Date | string
+    videoId?: string | null
+    settlesId?: string | null
+    idempotencyKey?: string | null
+    reason?: string | null
+    metadata?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: Date | string
+  }
+
   export type OtpCodeUpdateWithoutUserInput = {
     id?: StringFieldUpdateOperationsInput | string
     email?: StringFieldUpdateOperationsInput | string
@@ -14819,6 +19818,7 @@ export namespace Prisma {
     metadata?: NullableJsonNullValueInput | InputJsonValue
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    job?: VideoJobUpdateOneWithoutVideoNestedInput
   }
 
   export type VideoUncheckedUpdateWithoutUserInput = {
@@ -14840,6 +19840,7 @@ export namespace Prisma {
     metadata?: NullableJsonNullValueInput | InputJsonValue
     createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
     updatedAt?: DateTimeFieldUpdateOperationsInput | Date | string
+    job?: VideoJobUncheckedUpdateOneWithoutVideoNestedInput
   }
 
   export type VideoUncheckedUpdateManyWithoutUserInput = {
@@ -14902,6 +19903,51 @@ export namespace Prisma {
     timestamp?: DateTimeFieldUpdateOperationsInput | Date | string
   }
 
+  export type TokenTransactionUpdateWithoutUserInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    type?: StringFieldUpdateOperationsInput | string
+    amount?: IntFieldUpdateOperationsInput | number
+    balanceAfter?: IntFieldUpdateOperationsInput | number
+    periodStart?: DateTimeFieldUpdateOperationsInput | Date | string
+    periodEnd?: DateTimeFieldUpdateOperationsInput | Date | string
+    videoId?: NullableStringFieldUpdateOperationsInput | string | null
+    settlesId?: NullableStringFieldUpdateOperationsInput | string | null
+    idempotencyKey?: NullableStringFieldUpdateOperationsInput | string | null
+    reason?: NullableStringFieldUpdateOperationsInput | string | null
+    metadata?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type TokenTransactionUncheckedUpdateWithoutUserInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    type?: StringFieldUpdateOperationsInput | string
+    amount?: IntFieldUpdateOperationsInput | number
+    balanceAfter?: IntFieldUpdateOperationsInput | number
+    periodStart?: DateTimeFieldUpdateOperationsInput | Date | string
+    periodEnd?: DateTimeFieldUpdateOperationsInput | Date | string
+    videoId?: NullableStringFieldUpdateOperationsInput | string | null
+    settlesId?: NullableStringFieldUpdateOperationsInput | string | null
+    idempotencyKey?: NullableStringFieldUpdateOperationsInput | string | null
+    reason?: NullableStringFieldUpdateOperationsInput | string | null
+    metadata?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
+  export type TokenTransactionUncheckedUpdateManyWithoutUserInput = {
+    id?: StringFieldUpdateOperationsInput | string
+    type?: StringFieldUpdateOperationsInput | string
+    amount?: IntFieldUpdateOperationsInput | number
+    balanceAfter?: IntFieldUpdateOperationsInput | number
+    periodStart?: DateTimeFieldUpdateOperationsInput | Date | string
+    periodEnd?: DateTimeFieldUpdateOperationsInput | Date | string
+    videoId?: NullableStringFieldUpdateOperationsInput | string | null
+    settlesId?: NullableStringFieldUpdateOperationsInput | string | null
+    idempotencyKey?: NullableStringFieldUpdateOperationsInput | string | null
+    reason?: NullableStringFieldUpdateOperationsInput | string | null
+    metadata?: NullableJsonNullValueInput | InputJsonValue
+    createdAt?: DateTimeFieldUpdateOperationsInput | Date | string
+  }
+
   export type SubscriptionHistoryCreateManySubscriptionInput = {
     id?: string
     eventType: $Enums.SubscriptionEventType
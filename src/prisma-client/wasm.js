@@ -209,6 +209,44 @@ exports.Prisma.AnalyticsEventScalarFieldEnum = {
   timestamp: 'timestamp'
 };
 
+exports.Prisma.RateLimitScalarFieldEnum = {
+  key: 'key',
+  hits: 'hits',
+  tokens: 'tokens',
+  expiresAt: 'expiresAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.TokenTransactionScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  type: 'type',
+  amount: 'amount',
+  balanceAfter: 'balanceAfter',
+  periodStart: 'periodStart',
+  periodEnd: 'periodEnd',
+  videoId: 'videoId',
+  settlesId: 'settlesId',
+  idempotencyKey: 'idempotencyKey',
+  reason: 'reason',
+  metadata: 'metadata',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.VideoJobScalarFieldEnum = {
+  id: 'id',
+  videoId: 'videoId',
+  priority: 'priority',
+  attempts: 'attempts',
+  maxAttempts: 'maxAttempts',
+  availableAt: 'availableAt',
+  lockedBy: 'lockedBy',
+  lockedUntil: 'lockedUntil',
+  lastError: 'lastError',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.SortOrder = {
   asc: 'asc',
   desc: 'desc'
@@ -300,7 +338,10 @@ exports.Prisma.ModelName = {
   Subscription: 'Subscription',
   SubscriptionHistory: 'SubscriptionHistory',
   Video: 'Video',
-  AnalyticsEvent: 'AnalyticsEvent'
+  AnalyticsEvent: 'AnalyticsEvent',
+  RateLimit: 'RateLimit',
+  TokenTransaction: 'TokenTransaction',
+  VideoJob: 'VideoJob'
 };
 /**
  * Create the Client
@@ -313,7 +354,7 @@ const config = {
       "value": "prisma-client-js"
     },
     "output": {
-      "value": "/Users/suvrobose/Developer/clipcraft/clipcraft_server/shared/src/prisma-client",
+      "value": "/root/tree/src/prisma-client",
       "fromEnvVar": null
     },
     "config": {
@@ -322,17 +363,16 @@ const config = {
     "binaryTargets": [
       {
         "fromEnvVar": null,
-        "value": "darwin-arm64",
+        "value": "debian-openssl-3.0.x",
         "native": true
       }
     ],
     "previewFeatures": [],
-    "sourceFilePath": "/Users/suvrobose/Developer/clipcraft/clipcraft_server/shared/prisma/schema.prisma",
+    "sourceFilePath": "/root/tree/prisma/schema.prisma",
     "isCustomOutput": true
   },
   "relativeEnvPaths": {
-    "rootEnvPath": null,
-    "schemaEnvPath": "../../.env"
+    "rootEnvPath": null
   },
   "relativePath": "../../prisma",
   "clientVersion": "6.19.0",
@@ -341,6 +381,7 @@ const config = {
     "db"
   ],
   "activeProvider": "postgresql",
+  "postinstall": false,
   "inlineDatasources": {
     "db": {
       "url": {
@@ -349,13 +390,13 @@ const config = {
       }
     }
   },
-  "inlineSchema": "generator client {\n  provider      = \"prisma-client-js\"\n  output        = \"../src/prisma-client\"\n  binaryTargets = [\"native\"]\n}\n\ndatasource db {\n  provider = \"postgresql\"\n  url      = env(\"DATABASE_URL\")\n}\n\nmodel User {\n  id    String @id @default(cuid())\n  email String @unique\n\n  // Profile\n  name      String?\n  avatarUrl String?\n\n  // Subscription\n  subscriptionStatus SubscriptionStatus @default(FREE)\n\n  // Soft delete\n  isDeleted Boolean   @default(false)\n  deletedAt DateTime?\n\n  // Timestamps\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  // Relations\n  otpCodes     OtpCode[]\n  sessions     Session[]\n  subscription Subscription?\n  videos       Video[]\n  analytics    AnalyticsEvent[]\n\n  @@index([email])\n  @@index([subscriptionStatus])\n  @@map(\"users\")\n}\n\nmodel OtpCode {\n  id      String     @id @default(uuid())\n  userId  String\n  user    User       @relation(fields: [userId], references: [id], onDelete: Cascade)\n  email   String // Store email even if user doesn't exist \n  code    String // Hashed OTP code\n  purpose OtpPurpose\n\n  // Expiration & attempts\n  expiresAt DateTime\n  attempts  Int      @default(0)\n\n  // Status\n  isUsed Boolean   @default(false)\n  usedAt DateTime?\n\n  // Invalidation\n  isValid           Boolean   @default(true)\n  invalidatedAt     DateTime?\n  invalidatedReason String?\n\n  // Timestamps\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([userId, isUsed])\n  @@index([email, expiresAt])\n  @@index([code, expiresAt])\n  @@map(\"otp_codes\")\n}\n\nmodel Session {\n  id     String @id @default(uuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Tokens\n  accessToken  String @unique\n  refreshToken String @unique\n\n  // Token metadata\n  accessTokenExpiresAt  DateTime\n  refreshTokenExpiresAt DateTime\n\n  // Device info\n  deviceId       String\n  appVersion     String?\n  ipAddress      String?\n  lastActivityAt DateTime @default(now())\n\n  // Session status\n  isActive      Boolean   @default(true)\n  isRevoked     Boolean   @default(false)\n  revokedAt     DateTime?\n  revokedReason String?\n\n  // Timestamps\n  createdAt DateTime @default(now())\n\n  @@index([userId, isActive])\n  @@index([accessToken])\n  @@index([refreshToken])\n  @@index([accessTokenExpiresAt])\n  @@map(\"sessions\")\n}\n\nmodel Subscription {\n  id     String @id @default(uuid())\n  userId String @unique\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Subscription details\n  status     SubscriptionStatus\n  plan       SubscriptionPlan\n  provider   PaymentProvider // stripe, google_play, app_store\n  providerId String?            @unique // External subscription ID\n\n  // Billing\n  currentPeriodStart DateTime\n  currentPeriodEnd   DateTime\n  cancelAtPeriodEnd  Boolean   @default(false)\n  canceledAt         DateTime?\n  trialStart         DateTime?\n  trialEnd           DateTime?\n\n  // Features\n  features Json // Store enabled features as JSON\n  limits   Json // e.g., number of tokens available\n\n  // Timestamps\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  // Relations\n  history SubscriptionHistory[]\n\n  @@index([userId, status])\n  @@index([currentPeriodEnd])\n  @@index([providerId])\n  @@map(\"subscriptions\")\n}\n\nmodel SubscriptionHistory {\n  id             String       @id @default(uuid())\n  subscriptionId String\n  subscription   Subscription @relation(fields: [subscriptionId], references: [id], onDelete: Cascade)\n\n  // Event details\n  eventType  SubscriptionEventType\n  fromStatus SubscriptionStatus?\n  toStatus   SubscriptionStatus\n  fromPlan   SubscriptionPlan?\n  toPlan     SubscriptionPlan\n\n  // Payment details\n  amount   Decimal? @db.Decimal(10, 2)\n  currency String?\n\n  // Metadata\n  metadata  Json?\n  createdAt DateTime @default(now())\n\n  @@index([subscriptionId])\n  @@index([createdAt])\n  @@map(\"subscription_history\")\n}\n\nmodel Video {\n  id     String @id @default(uuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Creation details\n  title        String\n  prompt       String[]   @db.Text\n  customScript String?    @db.Text\n  duration     Int // in seconds\n  style        VideoStyle\n  language     String\n  hasCaptions  Boolean    @default(false)\n\n  // Processing status\n  status       VideoStatus @default(QUEUED)\n  errorMessage String?\n\n  // Asset URLs\n  videoUrl     String?\n  thumbnailUrl String?\n  captionUrl   String?\n\n  // Tokens used\n  tokensUsed Int @default(0)\n\n  // Metadata\n  version  String @default(\"1.0\")\n  metadata Json?\n\n  // Timestamps\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@map(\"videos\")\n}\n\nmodel AnalyticsEvent {\n  id     String  @id @default(uuid())\n  userId String?\n  user   User?   @relation(fields: [userId], references: [id], onDelete: SetNull)\n\n  eventName     String\n  eventCategory String\n  properties    Json?\n\n  // Session info\n  sessionId  String?\n  deviceId   String?\n  platform   String?\n  appVersion String?\n\n  // Location\n  ipAddress String?\n\n  timestamp DateTime @default(now())\n\n  @@index([userId, timestamp])\n  @@index([eventName, timestamp])\n  @@index([timestamp])\n  @@map(\"analytics_events\")\n}\n\nenum OtpPurpose {\n  LOGIN\n  SIGNUP\n}\n\nenum SubscriptionStatus {\n  FREE\n  ACTIVE\n  TRIALING\n  PAST_DUE\n  CANCELED\n  EXPIRED\n}\n\nenum SubscriptionPlan {\n  FREE\n  PREMIUM_MONTHLY\n  PREMIUM_YEARLY\n}\n\nenum SubscriptionEventType {\n  CREATED\n  ACTIVATED\n  RENEWED\n  UPGRADED\n  DOWNGRADED\n  CANCELED\n  EXPIRED\n  TRIAL_STARTED\n  TRIAL_ENDED\n  PAYMENT_FAILED\n}\n\nenum PaymentProvider {\n  STRIPE\n  GOOGLE_PLAY\n  APP_STORE\n  MANUAL\n}\n\nenum VideoStyle {\n  REALISTIC\n  ANIMATED\n  CARTOON\n  ANIME\n  ABSTRACT\n}\n\nenum VideoStatus {\n  QUEUED\n  PROCESSING\n  COMPLETED\n  FAILED\n}\n",
-  "inlineSchemaHash": "71c53212859916fe93789a3f8bff82769e6d53ce43e987771ee361cd571f9ff0",
+  "inlineSchema": "generator client {\n  provider      = \"prisma-client-js\"\n  output        = \"../src/prisma-client\"\n  binaryTargets = [\"native\"]\n}\n\ndatasource db {\n  provider = \"postgresql\"\n  url      = env(\"DATABASE_URL\")\n}\n\nmodel User {\n  id    String @id @default(cuid())\n  email String @unique\n\n  // Profile\n  name      String?\n  avatarUrl String?\n\n  // Subscription\n  subscriptionStatus SubscriptionStatus @default(FREE)\n\n  // Soft delete\n  isDeleted Boolean   @default(false)\n  deletedAt DateTime?\n\n  // Timestamps\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  // Relations\n  otpCodes     OtpCode[]\n  sessions     Session[]\n  subscription Subscription?\n  videos       Video[]\n  analytics    AnalyticsEvent[]\n  tokenLedger  TokenTransaction[]\n\n  @@index([email])\n  @@index([subscriptionStatus])\n  @@map(\"users\")\n}\n\nmodel OtpCode {\n  id      String     @id @default(uuid())\n  userId  String\n  user    User       @relation(fields: [userId], references: [id], onDelete: Cascade)\n  email   String // Store email even if user doesn't exist \n  code    String // Hashed OTP code\n  purpose OtpPurpose\n\n  // Expiration & attempts\n  expiresAt DateTime\n  attempts  Int      @default(0)\n\n  // Status\n  isUsed Boolean   @default(false)\n  usedAt DateTime?\n\n  // Invalidation\n  isValid           Boolean   @default(true)\n  invalidatedAt     DateTime?\n  invalidatedReason String?\n\n  // Timestamps\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([userId, isUsed])\n  @@index([email, expiresAt])\n  @@index([code, expiresAt])\n  @@map(\"otp_codes\")\n}\n\nmodel Session {\n  id     String @id @default(uuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Tokens\n  accessToken  String @unique\n  refreshToken String @unique\n\n  // Token metadata\n  accessTokenExpiresAt  DateTime\n  refreshTokenExpiresAt DateTime\n\n  // Device info\n  deviceId       String\n  appVersion     String?\n  ipAddress      String?\n  lastActivityAt DateTime @default(now())\n\n  // Session status\n  isActive      Boolean   @default(true)\n  isRevoked     Boolean   @default(false)\n  revokedAt     DateTime?\n  revokedReason String?\n\n  // Timestamps\n  createdAt DateTime @default(now())\n\n  @@index([userId, isActive])\n  @@index([accessToken])\n  @@index([refreshToken])\n  @@index([accessTokenExpiresAt])\n  @@map(\"sessions\")\n}\n\nmodel Subscription {\n  id     String @id @default(uuid())\n  userId String @unique\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Subscription details\n  status     SubscriptionStatus\n  plan       SubscriptionPlan\n  provider   PaymentProvider // stripe, google_play, app_store\n  providerId String?            @unique // External subscription ID\n\n  // Billing\n  currentPeriodStart DateTime\n  currentPeriodEnd   DateTime\n  cancelAtPeriodEnd  Boolean   @default(false)\n  canceledAt         DateTime?\n  trialStart         DateTime?\n  trialEnd           DateTime?\n\n  // Features\n  features Json // Store enabled features as JSON\n  limits   Json // e.g., number of tokens available\n\n  // Timestamps\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  // Relations\n  history SubscriptionHistory[]\n\n  @@index([userId, status])\n  @@index([currentPeriodEnd])\n  @@index([providerId])\n  @@map(\"subscriptions\")\n}\n\nmodel SubscriptionHistory {\n  id             String       @id @default(uuid())\n  subscriptionId String\n  subscription   Subscription @relation(fields: [subscriptionId], references: [id], onDelete: Cascade)\n\n  // Event details\n  eventType  SubscriptionEventType\n  fromStatus SubscriptionStatus?\n  toStatus   SubscriptionStatus\n  fromPlan   SubscriptionPlan?\n  toPlan     SubscriptionPlan\n\n  // Payment details\n  amount   Decimal? @db.Decimal(10, 2)\n  currency String?\n\n  // Metadata\n  metadata  Json?\n  createdAt DateTime @default(now())\n\n  @@index([subscriptionId])\n  @@index([createdAt])\n  @@map(\"subscription_history\")\n}\n\nmodel Video {\n  id     String @id @default(uuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Creation details\n  title        String\n  prompt       String[]   @db.Text\n  customScript String?    @db.Text\n  duration     Int // in seconds\n  style        VideoStyle\n  language     String\n  hasCaptions  Boolean    @default(false)\n\n  // Processing status\n  status       VideoStatus @default(QUEUED)\n  errorMessage String?\n\n  // Asset URLs\n  videoUrl     String?\n  thumbnailUrl String?\n  captionUrl   String?\n\n  // Tokens used\n  tokensUsed Int @default(0)\n\n  // Metadata\n  version  String @default(\"1.0\")\n  metadata Json?\n\n  // Timestamps\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  // Processing job while QUEUED or PROCESSING\n  job VideoJob?\n\n  @@map(\"videos\")\n}\n\nmodel AnalyticsEvent {\n  id     String  @id @default(uuid())\n  userId String?\n  user   User?   @relation(fields: [userId], references: [id], onDelete: SetNull)\n\n  eventName     String\n  eventCategory String\n  properties    Json?\n\n  // Session info\n  sessionId  String?\n  deviceId   String?\n  platform   String?\n  appVersion String?\n\n  // Location\n  ipAddress String?\n\n  timestamp DateTime @default(now())\n\n  @@index([userId, timestamp])\n  @@index([eventName, timestamp])\n  @@index([timestamp])\n  @@map(\"analytics_events\")\n}\n\nmodel RateLimit {\n  key String @id\n\n  // Fixed/sliding window counter\n  hits Int @default(0)\n\n  // Token bucket state\n  tokens Float?\n\n  expiresAt DateTime\n  updatedAt DateTime @default(now())\n\n  @@index([expiresAt])\n  @@map(\"rate_limits\")\n}\n\nmodel TokenTransaction {\n  id     String @id @default(uuid())\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // GRANT, EXPIRE, RESERVE, COMMIT, REFUND or ADJUST\n  type         String\n  // Signed change of the available balance\n  amount       Int\n  balanceAfter Int\n\n  // Allowance period the row belongs to\n  periodStart DateTime\n  periodEnd   DateTime\n\n  videoId   String?\n  // RESERVE row settled by a COMMIT or REFUND; unique so it settles once\n  settlesId String? @unique\n\n  idempotencyKey String? @unique\n  reason         String?\n  metadata       Json?\n\n  createdAt DateTime @default(now())\n\n  @@index([userId, createdAt])\n  @@index([videoId])\n  @@map(\"token_transactions\")\n}\n\nmodel VideoJob {\n  id      String @id @default(uuid())\n  videoId String @unique\n  video   Video  @relation(fields: [videoId], references: [id], onDelete: Cascade)\n\n  // Higher runs first\n  priority    Int      @default(0)\n  attempts    Int      @default(0)\n  maxAttempts Int      @default(5)\n  availableAt DateTime @default(now())\n\n  // Lease of the worker processing the job\n  lockedBy    String?\n  lockedUntil DateTime?\n\n  lastError String?\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @default(now())\n\n  @@index([priority, availableAt])\n  @@index([lockedUntil])\n  @@map(\"video_jobs\")\n}\n\nenum OtpPurpose {\n  LOGIN\n  SIGNUP\n}\n\nenum SubscriptionStatus {\n  FREE\n  ACTIVE\n  TRIALING\n  PAST_DUE\n  CANCELED\n  EXPIRED\n}\n\nenum SubscriptionPlan {\n  FREE\n  PREMIUM_MONTHLY\n  PREMIUM_YEARLY\n}\n\nenum SubscriptionEventType {\n  CREATED\n  ACTIVATED\n  RENEWED\n  UPGRADED\n  DOWNGRADED\n  CANCELED\n  EXPIRED\n  TRIAL_STARTED\n  TRIAL_ENDED\n  PAYMENT_FAILED\n}\n\nenum PaymentProvider {\n  STRIPE\n  GOOGLE_PLAY\n  APP_STORE\n  MANUAL\n}\n\nenum VideoStyle {\n  REALISTIC\n  ANIMATED\n  CARTOON\n  ANIME\n  ABSTRACT\n}\n\nenum VideoStatus {\n  QUEUED\n  PROCESSING\n  COMPLETED\n  FAILED\n}\n",
+  "inlineSchemaHash": "047bfb29f014c7325cc83934e8566962bb837884f7fc40bf8b072eb515232dde",
   "copyEngine": true
 }
 config.dirname = '/'
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"avatarUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subscriptionStatus\",\"kind\":\"enum\",\"type\":\"SubscriptionStatus\"},{\"name\":\"isDeleted\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"otpCodes\",\"kind\":\"object\",\"type\":\"OtpCode\",\"relationName\":\"OtpCodeToUser\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"Session\",\"relationName\":\"SessionToUser\"},{\"name\":\"subscription\",\"kind\":\"object\",\"type\":\"Subscription\",\"relationName\":\"SubscriptionToUser\"},{\"name\":\"videos\",\"kind\":\"object\",\"type\":\"Video\",\"relationName\":\"UserToVideo\"},{\"name\":\"analytics\",\"kind\":\"object\",\"type\":\"AnalyticsEvent\",\"relationName\":\"AnalyticsEventToUser\"}],\"dbName\":\"users\"},\"OtpCode\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"OtpCodeToUser\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"code\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"purpose\",\"kind\":\"enum\",\"type\":\"OtpPurpose\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"attempts\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"isUsed\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"usedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isValid\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"invalidatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"invalidatedReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"otp_codes\"},\"Session\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SessionToUser\"},{\"name\":\"accessToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refreshToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accessTokenExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"refreshTokenExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deviceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"appVersion\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastActivityAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"isRevoked\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"revokedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revokedReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"sessions\"},\"Subscription\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SubscriptionToUser\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"SubscriptionStatus\"},{\"name\":\"plan\",\"kind\":\"enum\",\"type\":\"SubscriptionPlan\"},{\"name\":\"provider\",\"kind\":\"enum\",\"type\":\"PaymentProvider\"},{\"name\":\"providerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currentPeriodStart\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"currentPeriodEnd\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cancelAtPeriodEnd\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"canceledAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trialStart\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trialEnd\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"features\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"limits\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"history\",\"kind\":\"object\",\"type\":\"SubscriptionHistory\",\"relationName\":\"SubscriptionToSubscriptionHistory\"}],\"dbName\":\"subscriptions\"},\"SubscriptionHistory\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subscriptionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subscription\",\"kind\":\"object\",\"type\":\"Subscription\",\"relationName\":\"SubscriptionToSubscriptionHistory\"},{\"name\":\"eventType\",\"kind\":\"enum\",\"type\":\"SubscriptionEventType\"},{\"name\":\"fromStatus\",\"kind\":\"enum\",\"type\":\"SubscriptionStatus\"},{\"name\":\"toStatus\",\"kind\":\"enum\",\"type\":\"SubscriptionStatus\"},{\"name\":\"fromPlan\",\"kind\":\"enum\",\"type\":\"SubscriptionPlan\"},{\"name\":\"toPlan\",\"kind\":\"enum\",\"type\":\"SubscriptionPlan\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"subscription_history\"},\"Video\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UserToVideo\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"prompt\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customScript\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"duration\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"style\",\"kind\":\"enum\",\"type\":\"VideoStyle\"},{\"name\":\"language\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"hasCaptions\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"VideoStatus\"},{\"name\":\"errorMessage\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"videoUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"thumbnailUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"captionUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokensUsed\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"version\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"videos\"},\"AnalyticsEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AnalyticsEventToUser\"},{\"name\":\"eventName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"eventCategory\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"properties\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"sessionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"deviceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"platform\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"appVersion\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"timestamp\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"analytics_events\"}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"avatarUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subscriptionStatus\",\"kind\":\"enum\",\"type\":\"SubscriptionStatus\"},{\"name\":\"isDeleted\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"otpCodes\",\"kind\":\"object\",\"type\":\"OtpCode\",\"relationName\":\"OtpCodeToUser\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"Session\",\"relationName\":\"SessionToUser\"},{\"name\":\"subscription\",\"kind\":\"object\",\"type\":\"Subscription\",\"relationName\":\"SubscriptionToUser\"},{\"name\":\"videos\",\"kind\":\"object\",\"type\":\"Video\",\"relationName\":\"UserToVideo\"},{\"name\":\"analytics\",\"kind\":\"object\",\"type\":\"AnalyticsEvent\",\"relationName\":\"AnalyticsEventToUser\"},{\"name\":\"tokenLedger\",\"kind\":\"object\",\"type\":\"TokenTransaction\",\"relationName\":\"TokenTransactionToUser\"}],\"dbName\":\"users\"},\"OtpCode\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"OtpCodeToUser\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"code\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"purpose\",\"kind\":\"enum\",\"type\":\"OtpPurpose\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"attempts\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"isUsed\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"usedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isValid\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"invalidatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"invalidatedReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"otp_codes\"},\"Session\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SessionToUser\"},{\"name\":\"accessToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"refreshToken\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"accessTokenExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"refreshTokenExpiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deviceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"appVersion\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastActivityAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"isRevoked\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"revokedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revokedReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"sessions\"},\"Subscription\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SubscriptionToUser\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"SubscriptionStatus\"},{\"name\":\"plan\",\"kind\":\"enum\",\"type\":\"SubscriptionPlan\"},{\"name\":\"provider\",\"kind\":\"enum\",\"type\":\"PaymentProvider\"},{\"name\":\"providerId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currentPeriodStart\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"currentPeriodEnd\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cancelAtPeriodEnd\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"canceledAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trialStart\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"trialEnd\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"features\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"limits\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"history\",\"kind\":\"object\",\"type\":\"SubscriptionHistory\",\"relationName\":\"SubscriptionToSubscriptionHistory\"}],\"dbName\":\"subscriptions\"},\"SubscriptionHistory\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subscriptionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subscription\",\"kind\":\"object\",\"type\":\"Subscription\",\"relationName\":\"SubscriptionToSubscriptionHistory\"},{\"name\":\"eventType\",\"kind\":\"enum\",\"type\":\"SubscriptionEventType\"},{\"name\":\"fromStatus\",\"kind\":\"enum\",\"type\":\"SubscriptionStatus\"},{\"name\":\"toStatus\",\"kind\":\"enum\",\"type\":\"SubscriptionStatus\"},{\"name\":\"fromPlan\",\"kind\":\"enum\",\"type\":\"SubscriptionPlan\"},{\"name\":\"toPlan\",\"kind\":\"enum\",\"type\":\"SubscriptionPlan\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Decimal\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"subscription_history\"},\"Video\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UserToVideo\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"prompt\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"customScript\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"duration\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"style\",\"kind\":\"enum\",\"type\":\"VideoStyle\"},{\"name\":\"language\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"hasCaptions\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"VideoStatus\"},{\"name\":\"errorMessage\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"videoUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"thumbnailUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"captionUrl\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tokensUsed\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"version\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"job\",\"kind\":\"object\",\"type\":\"VideoJob\",\"relationName\":\"VideoToVideoJob\"}],\"dbName\":\"videos\"},\"AnalyticsEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AnalyticsEventToUser\"},{\"name\":\"eventName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"eventCategory\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"properties\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"sessionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"deviceId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"platform\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"appVersion\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"timestamp\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"analytics_events\"},\"RateLimit\":{\"fields\":[{\"name\":\"key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"hits\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"tokens\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"rate_limits\"},\"TokenTransaction\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TokenTransactionToUser\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"balanceAfter\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"periodStart\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"periodEnd\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"videoId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"settlesId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"idempotencyKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"token_transactions\"},\"VideoJob\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"videoId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"video\",\"kind\":\"object\",\"type\":\"Video\",\"relationName\":\"VideoToVideoJob\"},{\"name\":\"priority\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"attempts\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"maxAttempts\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"availableAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lockedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lockedUntil\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastError\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":\"video_jobs\"}},\"enums\":{},\"types\":{}}")
 defineDmmfProperty(exports.Prisma, config.runtimeDataModel)
 config.engineWasm = {
   getRuntime: async () => require('./query_engine_bg.js'),
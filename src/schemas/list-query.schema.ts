@@ -0,0 +1,48 @@
+import {
+  Prisma,
+  SubscriptionEventType,
+  SubscriptionPlan,
+  SubscriptionStatus,
+  VideoStatus,
+  VideoStyle,
+} from "../prisma-client/client";
+import { defineListQuery } from "../utils/query-filter.util";
+
+/**
+ * @description Filters for a user's video history
+ */
+export const videoListQuery = defineListQuery<
+  Prisma.VideoWhereInput,
+  Prisma.VideoOrderByWithRelationInput
+>({
+  filters: {
+    status: { type: "enum", values: Object.values(VideoStatus) },
+    style: { type: "enum", values: Object.values(VideoStyle) },
+    language: { type: "string" },
+    hasCaptions: { type: "boolean", operators: ["eq"] },
+    title: { type: "string", operators: ["eq", "contains"] },
+    duration: { type: "number", operators: ["eq", "gte", "lte"] },
+    createdAt: { type: "date", operators: ["gte", "lte", "gt", "lt"] },
+  },
+  sortable: ["createdAt", "updatedAt", "title", "duration", "status"],
+  defaultSort: "-createdAt",
+  tiebreaker: "id",
+});
+
+/**
+ * @description Filters for a subscription's history
+ */
+export const subscriptionHistoryListQuery = defineListQuery<
+  Prisma.SubscriptionHistoryWhereInput,
+  Prisma.SubscriptionHistoryOrderByWithRelationInput
+>({
+  filters: {
+    eventType: { type: "enum", values: Object.values(SubscriptionEventType) },
+    toStatus: { type: "enum", values: Object.values(SubscriptionStatus) },
+    toPlan: { type: "enum", values: Object.values(SubscriptionPlan) },
+    createdAt: { type: "date", operators: ["gte", "lte", "gt", "lt"] },
+  },
+  sortable: ["createdAt", "eventType"],
+  defaultSort: "-createdAt",
+  tiebreaker: "id",
+});
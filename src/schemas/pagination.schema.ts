@@ -0,0 +1,52 @@
+import Joi from "joi";
+import {
+  CursorPaginationParams,
+  PaginationParams,
+} from "../dto/request/pagination.req";
+
+export interface PaginationSchemaOptions {
+  /**
+   * @default 20
+   */
+  defaultPageSize?: number;
+
+  /**
+   * @default 100
+   */
+  maxPageSize?: number;
+}
+
+const pageSizeSchema = (options: PaginationSchemaOptions) =>
+  Joi.number()
+    .integer()
+    .min(1)
+    .max(options.maxPageSize ?? 100)
+    .default(options.defaultPageSize ?? 20);
+
+/**
+ * @description Query schema for offset pagination, for use with `validator`.
+ * Fields are kept open so it can be concatenated with filter schemas.
+ *
+ * @example
+ * controller.get("/videos", listVideos, [
+ *   validator({ query: paginationQuerySchema({ maxPageSize: 50 }) }),
+ * ]);
+ */
+export const paginationQuerySchema = (
+  options: PaginationSchemaOptions = {}
+): Joi.ObjectSchema<PaginationParams> =>
+  Joi.object<PaginationParams>({
+    pageNo: Joi.number().integer().min(1).default(1),
+    pageSize: pageSizeSchema(options),
+  }).unknown(true);
+
+/**
+ * @description Query schema for cursor pagination, for use with `validator`
+ */
+export const cursorPaginationQuerySchema = (
+  options: PaginationSchemaOptions = {}
+): Joi.ObjectSchema<CursorPaginationParams> =>
+  Joi.object<CursorPaginationParams>({
+    cursor: Joi.string().max(512),
+    pageSize: pageSizeSchema(options),
+  }).unknown(true);
@@ -0,0 +1,273 @@
+import { Prisma, PrismaClient } from "../prisma-client/client";
+import { DbClient } from "../core/db/dbClient";
+import { NotFoundError } from "../core/api/errors";
+import { invalidateSessionCache } from "../middlewares/verify-access-token";
+import { SessionRevokedReason } from "./token.service";
+import { OtpInvalidatedReason } from "./otp.service";
+import { logger } from "../utils/logger.util";
+
+/**
+ * @description Stored assets of one video, handed to the storage service
+ * for deletion
+ */
+export interface VideoAssets {
+  videoId: string;
+  urls: string[];
+}
+
+/**
+ * @description Exportable account of one erasure step. Contains no
+ * personal data besides the user ID.
+ */
+export interface ErasureRecord {
+  userId: string;
+  stage: "REQUESTED" | "PURGED";
+  requestedAt: string;
+  purgeAfter: string;
+  completedAt: string;
+  /**
+   * Number of rows affected per item
+   */
+  removed: Record<string, number>;
+  /**
+   * Asset URLs scheduled for deletion
+   */
+  assets?: string[];
+}
+
+export interface AccountErasureOptions {
+  /**
+   * Prisma client to use
+   * @default DbClient.getInstance()
+   */
+  client?: PrismaClient;
+
+  /**
+   * Time between the erasure request and the hard delete
+   * @default 2592000000 (30 days)
+   */
+  gracePeriodMs?: number;
+
+  /**
+   * Schedules deletion of stored video files, which live outside the
+   * database. Assets are only logged when omitted.
+   */
+  scheduleAssetDeletion?: (
+    assets: VideoAssets[],
+    context: { userId: string; deleteAfter: Date }
+  ) => Promise<void>;
+
+  /**
+   * Receives every record, e.g. to store it as proof of erasure
+   */
+  onRecord?: (record: ErasureRecord) => Promise<void> | void;
+}
+
+/**
+ * @description GDPR account erasure in two stages. `requestErasure`
+ * soft-deletes the user, revokes sessions and codes, anonymizes analytics
+ * and schedules asset deletion; `purgeExpired` hard-deletes users whose
+ * grace period is over, which cascades to their remaining rows.
+ */
+export class AccountErasureService {
+  constructor(private readonly options: AccountErasureOptions = {}) {}
+
+  private get client(): PrismaClient {
+    return this.options.client ?? DbClient.getInstance();
+  }
+
+  private get gracePeriodMs(): number {
+    return this.options.gracePeriodMs ?? 30 * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * @throws NotFoundError if the user does not exist or is already deleted
+   */
+  public async requestErasure(userId: string): Promise<ErasureRecord> {
+    const user = await this.client.user.findFirst({
+      where: { id: userId, isDeleted: false },
+      select: { id: true },
+    });
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const now = new Date();
+    const purgeAfter = new Date(now.getTime() + this.gracePeriodMs);
+
+    const [, sessions, otpCodes, analyticsEvents] =
+      await this.client.$transaction([
+        this.client.user.update({
+          where: { id: userId },
+          data: { isDeleted: true, deletedAt: now },
+        }),
+        this.client.session.updateMany({
+          where: { userId, isRevoked: false },
+          data: {
+            isActive: false,
+            isRevoked: true,
+            revokedAt: now,
+            revokedReason: SessionRevokedReason.ACCOUNT_ERASURE,
+          },
+        }),
+        this.client.otpCode.updateMany({
+          where: { userId, isValid: true },
+          data: {
+            isValid: false,
+            invalidatedAt: now,
+            invalidatedReason: OtpInvalidatedReason.ACCOUNT_ERASURE,
+          },
+        }),
+        // Events are kept for aggregate statistics without anything that
+        // links them to the person
+        this.client.analyticsEvent.updateMany({
+          where: { userId },
+          data: {
+            userId: null,
+            sessionId: null,
+            deviceId: null,
+            ipAddress: null,
+            properties: Prisma.DbNull,
+          },
+        }),
+      ]);
+    invalidateSessionCache();
+
+    const videos = await this.client.video.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        videoUrl: true,
+        thumbnailUrl: true,
+        captionUrl: true,
+      },
+    });
+    const assets: VideoAssets[] = videos
+      .map((video) => ({
+        videoId: video.id,
+        urls: [video.videoUrl, video.thumbnailUrl, video.captionUrl].filter(
+          (url): url is string => Boolean(url)
+        ),
+      }))
+      .filter((entry) => entry.urls.length > 0);
+
+    if (this.options.scheduleAssetDeletion) {
+      await this.options.scheduleAssetDeletion(assets, {
+        userId,
+        deleteAfter: purgeAfter,
+      });
+    } else if (assets.length > 0) {
+      logger.warn(
+        `Account erasure: no scheduleAssetDeletion configured, ${assets.length} video(s) of user ${userId} keep their files`
+      );
+    }
+
+    return this.emit({
+      userId,
+      stage: "REQUESTED",
+      requestedAt: now.toISOString(),
+      purgeAfter: purgeAfter.toISOString(),
+      completedAt: new Date().toISOString(),
+      removed: {
+        sessionsRevoked: sessions.count,
+        otpCodesInvalidated: otpCodes.count,
+        analyticsEventsAnonymized: analyticsEvents.count,
+        videoAssetsScheduled: assets.reduce(
+          (total, entry) => total + entry.urls.length,
+          0
+        ),
+      },
+      assets: assets.reduce<string[]>(
+        (urls, entry) => urls.concat(entry.urls),
+        []
+      ),
+    });
+  }
+
+  /**
+   * @description Hard-deletes one soft-deleted user. Sessions, codes,
+   * videos and the subscription with its history are removed by cascade.
+   * @param force Skip the grace period check
+   * @returns The record, or null if the user is not due for purging
+   */
+  public async purgeUser(
+    userId: string,
+    force: boolean = false
+  ): Promise<ErasureRecord | null> {
+    const cutoff = new Date(Date.now() - this.gracePeriodMs);
+    const user = await this.client.user.findFirst({
+      where: {
+        id: userId,
+        isDeleted: true,
+        ...(!force && { deletedAt: { lte: cutoff } }),
+      },
+      select: { id: true, deletedAt: true },
+    });
+    if (!user) return null;
+
+    const removed = await this.client.$transaction(async (tx) => {
+      const [videos, sessions, otpCodes, subscriptions, subscriptionHistory] =
+        await Promise.all([
+          tx.video.count({ where: { userId } }),
+          tx.session.count({ where: { userId } }),
+          tx.otpCode.count({ where: { userId } }),
+          tx.subscription.count({ where: { userId } }),
+          tx.subscriptionHistory.count({
+            where: { subscription: { userId } },
+          }),
+        ]);
+      await tx.user.delete({ where: { id: userId } });
+      return { videos, sessions, otpCodes, subscriptions, subscriptionHistory };
+    });
+
+    const requestedAt = user.deletedAt ?? new Date();
+    return this.emit({
+      userId,
+      stage: "PURGED",
+      requestedAt: requestedAt.toISOString(),
+      purgeAfter: new Date(
+        requestedAt.getTime() + this.gracePeriodMs
+      ).toISOString(),
+      completedAt: new Date().toISOString(),
+      removed: { users: 1, ...removed },
+    });
+  }
+
+  /**
+   * @description Purges users whose grace period is over; meant for a
+   * scheduled job
+   * @param limit Maximum users per run
+   */
+  public async purgeExpired(limit: number = 100): Promise<ErasureRecord[]> {
+    const due = await this.client.user.findMany({
+      where: {
+        isDeleted: true,
+        deletedAt: { lte: new Date(Date.now() - this.gracePeriodMs) },
+      },
+      select: { id: true },
+      orderBy: { deletedAt: "asc" },
+      take: limit,
+    });
+
+    const records: ErasureRecord[] = [];
+    for (const { id } of due) {
+      try {
+        const record = await this.purgeUser(id);
+        if (record) records.push(record);
+      } catch (err) {
+        logger.error(`Account erasure: failed to purge user ${id}`, err);
+      }
+    }
+    return records;
+  }
+
+  private async emit(record: ErasureRecord): Promise<ErasureRecord> {
+    logger.log(
+      "info",
+      { userId: record.userId, stage: record.stage, removed: record.removed },
+      `Account erasure ${record.stage.toLowerCase()}`
+    );
+    await this.options.onRecord?.(record);
+    return record;
+  }
+}
@@ -0,0 +1,306 @@
+import { createHmac, randomInt, timingSafeEqual } from "crypto";
+import { OtpPurpose, PrismaClient } from "../prisma-client/client";
+import { DbClient } from "../core/db/dbClient";
+import {
+  ForbiddenError,
+  TooManyRequestsError,
+  UnauthenticatedError,
+} from "../core/api/errors";
+import { ApiErrorCodes } from "../core/api/api-status";
+import { withTransaction } from "../core/db/transaction";
+
+/**
+ * @description Values written to `OtpCode.invalidatedReason`
+ */
+export enum OtpInvalidatedReason {
+  SUPERSEDED = "SUPERSEDED",
+  EXPIRED = "EXPIRED",
+  MAX_ATTEMPTS = "MAX_ATTEMPTS",
+  ACCOUNT_ERASURE = "ACCOUNT_ERASURE",
+}
+
+/**
+ * @description Settings applied to codes of one purpose
+ */
+export interface OtpPolicy {
+  /**
+   * Number of digits
+   * @default 6
+   */
+  length: number;
+
+  /**
+   * Code lifetime in milliseconds
+   * @default 300000 (5 minutes)
+   */
+  ttlMs: number;
+
+  /**
+   * Failed attempts after which the code is locked
+   * @default 5
+   */
+  maxAttempts: number;
+
+  /**
+   * Minimum delay between two codes for the same email and purpose
+   * @default 60000 (1 minute)
+   */
+  resendCooldownMs: number;
+}
+
+const defaultPolicy: OtpPolicy = {
+  length: 6,
+  ttlMs: 5 * 60 * 1000,
+  maxAttempts: 5,
+  resendCooldownMs: 60 * 1000,
+};
+
+export interface OtpServiceOptions {
+  /**
+   * Prisma client to use
+   * @default DbClient.getInstance()
+   */
+  client?: PrismaClient;
+
+  /**
+   * Secret mixed into code hashes
+   * @default process.env.OTP_SECRET
+   */
+  secret?: string;
+
+  /**
+   * Policy overrides per purpose
+   */
+  policies?: Partial<Record<OtpPurpose, Partial<OtpPolicy>>>;
+}
+
+export interface IssuedOtp {
+  otpId: string;
+  /**
+   * Plain code, to be delivered to the user and never stored
+   */
+  code: string;
+  expiresAt: Date;
+}
+
+export interface VerifiedOtp {
+  otpId: string;
+  userId: string;
+}
+
+/**
+ * @description Issues and verifies one-time codes stored in `OtpCode`.
+ * Codes are stored as an HMAC bound to email and purpose, a new code
+ * supersedes all earlier ones, and a code locks after too many failures.
+ */
+export class OtpService {
+  constructor(private readonly options: OtpServiceOptions = {}) {}
+
+  private get client(): PrismaClient {
+    return this.options.client ?? DbClient.getInstance();
+  }
+
+  public getPolicy(purpose: OtpPurpose): OtpPolicy {
+    return { ...defaultPolicy, ...this.options.policies?.[purpose] };
+  }
+
+  /**
+   * @description Issues a new code and invalidates earlier ones for the same
+   * email and purpose
+   * @throws TooManyRequestsError if called again within the resend cooldown
+   */
+  public async generate(
+    userId: string,
+    email: string,
+    purpose: OtpPurpose
+  ): Promise<IssuedOtp> {
+    const policy = this.getPolicy(purpose);
+    const normalizedEmail = email.trim().toLowerCase();
+
+    const code = randomInt(0, 10 ** policy.length)
+      .toString()
+      .padStart(policy.length, "0");
+    const expiresAt = new Date(Date.now() + policy.ttlMs);
+
+    const created = await withTransaction(
+      async (tx) => {
+        // Serializes concurrent requests of the user, so the cooldown is
+        // checked against the latest code
+        await tx.$queryRaw`
+          SELECT id FROM users WHERE id = ${userId} FOR UPDATE
+        `;
+
+        const latest = await tx.otpCode.findFirst({
+          where: { email: normalizedEmail, purpose },
+          orderBy: { createdAt: "desc" },
+          select: { createdAt: true },
+        });
+        if (latest) {
+          const waitMs =
+            latest.createdAt.getTime() + policy.resendCooldownMs - Date.now();
+          if (waitMs > 0) {
+            const retryAfter = Math.ceil(waitMs / 1000);
+            throw new TooManyRequestsError(
+              `Please wait ${retryAfter}s before requesting a new code`,
+              { retryAfter },
+              ApiErrorCodes.TOO_MANY_REQUESTS,
+              retryAfter
+            );
+          }
+        }
+
+        await tx.otpCode.updateMany({
+          where: {
+            email: normalizedEmail,
+            purpose,
+            isValid: true,
+            isUsed: false,
+          },
+          data: {
+            isValid: false,
+            invalidatedAt: new Date(),
+            invalidatedReason: OtpInvalidatedReason.SUPERSEDED,
+          },
+        });
+        return tx.otpCode.create({
+          data: {
+            userId,
+            email: normalizedEmail,
+            purpose,
+            code: this.hash(normalizedEmail, purpose, code),
+            expiresAt,
+          },
+          select: { id: true },
+        });
+      },
+      { client: this.client }
+    );
+
+    return { otpId: created.id, code, expiresAt };
+  }
+
+  /**
+   * @description Verifies and consumes the current code for an email and purpose
+   * @throws UnauthenticatedError if the code is wrong, expired or missing
+   * @throws ForbiddenError once the code is locked after too many failures
+   */
+  public async verify(
+    email: string,
+    purpose: OtpPurpose,
+    code: string
+  ): Promise<VerifiedOtp> {
+    const policy = this.getPolicy(purpose);
+    const normalizedEmail = email.trim().toLowerCase();
+
+    const otp = await this.client.otpCode.findFirst({
+      where: { email: normalizedEmail, purpose, isValid: true, isUsed: false },
+      orderBy: { createdAt: "desc" },
+    });
+
+    if (!otp) {
+      throw new UnauthenticatedError("Invalid or expired code");
+    }
+
+    if (otp.expiresAt <= new Date()) {
+      await this.invalidate(otp.id, OtpInvalidatedReason.EXPIRED);
+      throw new UnauthenticatedError("Invalid or expired code");
+    }
+
+    // Take an attempt before comparing, so parallel guesses cannot get past
+    // maxAttempts
+    const { count: reserved } = await this.client.otpCode.updateMany({
+      where: {
+        id: otp.id,
+        isUsed: false,
+        isValid: true,
+        attempts: { lt: policy.maxAttempts },
+      },
+      data: { attempts: { increment: 1 } },
+    });
+    if (reserved === 0) {
+      const { count: locked } = await this.client.otpCode.updateMany({
+        where: {
+          id: otp.id,
+          isUsed: false,
+          isValid: true,
+          attempts: { gte: policy.maxAttempts },
+        },
+        data: {
+          isValid: false,
+          invalidatedAt: new Date(),
+          invalidatedReason: OtpInvalidatedReason.MAX_ATTEMPTS,
+        },
+      });
+      if (locked > 0 || otp.attempts >= policy.maxAttempts) {
+        throw new ForbiddenError(
+          "Too many failed attempts, please request a new code"
+        );
+      }
+      // Used or superseded in the meantime
+      throw new UnauthenticatedError("Invalid or expired code");
+    }
+
+    const expected = Buffer.from(otp.code, "hex");
+    const actual = Buffer.from(
+      this.hash(normalizedEmail, purpose, code.trim()),
+      "hex"
+    );
+    const matches =
+      expected.length === actual.length && timingSafeEqual(expected, actual);
+
+    if (!matches) {
+      // The code is invalidated by the next attempt rather than here, so a
+      // parallel guess that took the last attempt can still be checked
+      if (otp.attempts + 1 >= policy.maxAttempts) {
+        throw new ForbiddenError(
+          "Too many failed attempts, please request a new code"
+        );
+      }
+      throw new UnauthenticatedError("Invalid or expired code");
+    }
+
+    const { count } = await this.client.otpCode.updateMany({
+      where: { id: otp.id, isUsed: false, isValid: true },
+      data: { isUsed: true, usedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new UnauthenticatedError("Invalid or expired code");
+    }
+
+    return { otpId: otp.id, userId: otp.userId };
+  }
+
+  /**
+   * @description Deletes codes that expired more than `retentionMs` ago
+   * @returns Number of deleted codes
+   */
+  public async deleteExpired(
+    retentionMs: number = 24 * 60 * 60 * 1000
+  ): Promise<number> {
+    const { count } = await this.client.otpCode.deleteMany({
+      where: { expiresAt: { lt: new Date(Date.now() - retentionMs) } },
+    });
+    return count;
+  }
+
+  private async invalidate(id: string, reason: OtpInvalidatedReason) {
+    await this.client.otpCode.updateMany({
+      where: { id, isValid: true },
+      data: {
+        isValid: false,
+        invalidatedAt: new Date(),
+        invalidatedReason: reason,
+      },
+    });
+  }
+
+  private hash(email: string, purpose: OtpPurpose, code: string): string {
+    const secret = this.options.secret ?? process.env.OTP_SECRET;
+    if (!secret) {
+      throw new Error("OTP_SECRET is not configured");
+    }
+    return createHmac("sha256", secret)
+      .update(`${email}:${purpose}:${code}`)
+      .digest("hex");
+  }
+}
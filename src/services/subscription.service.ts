@@ -0,0 +1,339 @@
+import {
+  PaymentProvider,
+  Prisma,
+  PrismaClient,
+  Subscription,
+  SubscriptionEventType,
+  SubscriptionHistory,
+  SubscriptionPlan,
+  SubscriptionStatus,
+} from "../prisma-client/client";
+import { DbClient } from "../core/db/dbClient";
+import { NotFoundError } from "../core/api/errors";
+import {
+  NormalizedPaymentEvent,
+  toSubscriptionEventInput,
+} from "../core/payments/payment-webhook";
+import { withTransaction } from "../core/db/transaction";
+import { nextSubscriptionState } from "../core/subscription/subscription-state";
+import { logger } from "../utils/logger.util";
+import type { TokenLedgerService } from "./token-ledger.service";
+
+/**
+ * @description One billing event to apply to a user's subscription
+ */
+export interface SubscriptionEventInput {
+  userId: string;
+  type: SubscriptionEventType;
+
+  /**
+   * New plan; required for UPGRADED, DOWNGRADED and for events that create
+   * the subscription (CREATED, TRIAL_STARTED, ACTIVATED)
+   */
+  plan?: SubscriptionPlan;
+
+  /**
+   * Outcome for events with more than one, e.g. TRIAL_ENDED → ACTIVE
+   */
+  toStatus?: SubscriptionStatus;
+
+  /**
+   * @default PaymentProvider.MANUAL on creation
+   */
+  provider?: PaymentProvider;
+  providerId?: string;
+
+  periodStart?: Date;
+  periodEnd?: Date;
+  trialEnd?: Date;
+
+  /**
+   * Whether a cancellation takes effect at the end of the period
+   * @default true
+   */
+  cancelAtPeriodEnd?: boolean;
+
+  amount?: Prisma.Decimal | number | string;
+  currency?: string;
+  metadata?: Prisma.InputJsonValue;
+
+  /**
+   * @default new Date()
+   */
+  occurredAt?: Date;
+}
+
+export interface AppliedSubscriptionEvent {
+  subscription: Subscription;
+  history: SubscriptionHistory;
+}
+
+export interface SubscriptionServiceOptions {
+  /**
+   * Prisma client to use
+   * @default DbClient.getInstance()
+   */
+  client?: PrismaClient;
+
+  /**
+   * Ledger that opens a new token period on ACTIVATED and RENEWED, in the
+   * same transaction as the event
+   */
+  tokenLedger?: TokenLedgerService;
+
+  /**
+   * Maps a provider notification to a User ID, e.g. an App Store
+   * `appAccountToken` (a UUID) to the user it was issued for
+   * @default (event) => event.userId
+   */
+  resolveUserId?: (
+    event: NormalizedPaymentEvent
+  ) => Promise<string | undefined> | string | undefined;
+}
+
+// Events that start a paid period and grant its tokens
+const PERIOD_EVENTS: SubscriptionEventType[] = [
+  SubscriptionEventType.ACTIVATED,
+  SubscriptionEventType.RENEWED,
+];
+
+const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result;
+};
+
+const periodMonths: Record<SubscriptionPlan, number> = {
+  FREE: 1,
+  PREMIUM_MONTHLY: 1,
+  PREMIUM_YEARLY: 12,
+};
+
+/**
+ * @description Applies billing events to subscriptions as guarded
+ * transitions (see `nextSubscriptionState`). Each event updates the
+ * `Subscription`, the denormalized `User.subscriptionStatus` and appends a
+ * `SubscriptionHistory` row in one transaction.
+ */
+export class SubscriptionService {
+  constructor(private readonly options: SubscriptionServiceOptions = {}) {}
+
+  private get client(): PrismaClient {
+    return this.options.client ?? DbClient.getInstance();
+  }
+
+  /**
+   * @throws NotFoundError if the user does not exist
+   * @throws InvalidStateTransitionError if the event is not allowed in the
+   * current state
+   */
+  public async applyEvent(
+    input: SubscriptionEventInput
+  ): Promise<AppliedSubscriptionEvent> {
+    const { userId, type } = input;
+    const occurredAt = input.occurredAt ?? new Date();
+
+    const result = await withTransaction(
+      async (tx) => {
+        // Locking the user row serializes events of one user, including
+        // the first one when no subscription exists yet
+        const locked = await tx.$queryRaw<{ id: string }[]>`
+          SELECT id FROM users WHERE id = ${userId} FOR UPDATE
+        `;
+        if (locked.length === 0) {
+          throw new NotFoundError("User not found");
+        }
+
+        const current = await tx.subscription.findUnique({
+          where: { userId },
+        });
+        const next = nextSubscriptionState(
+          current && { status: current.status, plan: current.plan },
+          type,
+          input.plan,
+          input.toStatus
+        );
+
+        const period =
+          current &&
+          type === SubscriptionEventType.RENEWED &&
+          !input.periodStart &&
+          !input.periodEnd
+            ? this.nextPeriod(current, next.plan, occurredAt)
+            : { start: input.periodStart, end: input.periodEnd };
+
+        const data = {
+          status: next.status,
+          plan: next.plan,
+          ...(input.provider && { provider: input.provider }),
+          ...(input.providerId && { providerId: input.providerId }),
+          ...(period.start && { currentPeriodStart: period.start }),
+          ...(period.end && { currentPeriodEnd: period.end }),
+          ...this.eventFields(input, occurredAt),
+        };
+
+        const subscription = current
+          ? await tx.subscription.update({ where: { userId }, data })
+          : await tx.subscription.create({
+              data: {
+                ...data,
+                userId,
+                provider: input.provider ?? PaymentProvider.MANUAL,
+                currentPeriodStart: input.periodStart ?? occurredAt,
+                currentPeriodEnd:
+                  input.periodEnd ??
+                  addMonths(
+                    input.periodStart ?? occurredAt,
+                    periodMonths[next.plan]
+                  ),
+                features: {},
+                limits: {},
+              },
+            });
+
+        await tx.user.update({
+          where: { id: userId },
+          data: { subscriptionStatus: next.status },
+        });
+
+        if (this.options.tokenLedger && PERIOD_EVENTS.includes(type)) {
+          await this.options.tokenLedger.startPeriod(userId, tx);
+        }
+
+        const history = await tx.subscriptionHistory.create({
+          data: {
+            subscriptionId: subscription.id,
+            eventType: type,
+            fromStatus: current?.status ?? null,
+            toStatus: next.status,
+            fromPlan: current?.plan ?? null,
+            toPlan: next.plan,
+            ...(input.amount !== undefined && { amount: input.amount }),
+            ...(input.currency && { currency: input.currency }),
+            ...(input.metadata !== undefined && { metadata: input.metadata }),
+            createdAt: occurredAt,
+          },
+        });
+
+        return { subscription, history };
+      },
+      { client: this.client }
+    );
+
+    logger.log(
+      "info",
+      {
+        userId,
+        event: type,
+        fromStatus: result.history.fromStatus,
+        toStatus: result.history.toStatus,
+        plan: result.history.toPlan,
+      },
+      `Subscription ${type.toLowerCase()}`
+    );
+    return result;
+  }
+
+  /**
+   * @description Applies a verified provider notification. The user is
+   * taken from the event (see `resolveUserId`) if it exists, otherwise found
+   * by `Subscription.providerId`.
+   * @returns null if the notification needs no action
+   * @throws NotFoundError if no user matches, so the provider retries once
+   * the subscription is linked
+   */
+  public async applyPaymentEvent(
+    event: NormalizedPaymentEvent
+  ): Promise<AppliedSubscriptionEvent | null> {
+    if (!event.type) return null;
+
+    const { resolveUserId = (e: NormalizedPaymentEvent) => e.userId } =
+      this.options;
+    let userId = await resolveUserId(event);
+    if (userId) {
+      const user = await this.client.user.findUnique({
+        where: { id: userId },
+        select: { id: true },
+      });
+      userId = user?.id;
+    }
+    if (!userId && event.providerId) {
+      const subscription = await this.client.subscription.findUnique({
+        where: { providerId: event.providerId },
+        select: { userId: true },
+      });
+      userId = subscription?.userId;
+    }
+    if (!userId) {
+      throw new NotFoundError("No subscription for this provider ID", {
+        provider: event.provider,
+        providerId: event.providerId,
+      });
+    }
+
+    return this.applyEvent(toSubscriptionEventInput(event, userId)!);
+  }
+
+  /**
+   * @description Returns the history of the user's subscription, newest
+   * first
+   */
+  public async getHistory(userId: string): Promise<SubscriptionHistory[]> {
+    return this.client.subscriptionHistory.findMany({
+      where: { subscription: { userId } },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  /**
+   * @description Period following the current one, for renewals reported
+   * without dates (Google Play). Periods missed in between are skipped.
+   */
+  private nextPeriod(
+    current: Subscription,
+    plan: SubscriptionPlan,
+    occurredAt: Date
+  ): { start: Date; end: Date } {
+    const months = periodMonths[plan];
+    const from = current.currentPeriodEnd;
+    let periods = 0;
+    while (addMonths(from, (periods + 1) * months) <= occurredAt) {
+      periods++;
+    }
+    return {
+      start: addMonths(from, periods * months),
+      end: addMonths(from, (periods + 1) * months),
+    };
+  }
+
+  /**
+   * @description Fields an event sets besides status and plan
+   */
+  private eventFields(
+    input: SubscriptionEventInput,
+    occurredAt: Date
+  ): Pick<
+    Prisma.SubscriptionUncheckedCreateInput,
+    "trialStart" | "trialEnd" | "canceledAt" | "cancelAtPeriodEnd"
+  > {
+    switch (input.type) {
+      case SubscriptionEventType.TRIAL_STARTED:
+        return {
+          trialStart: occurredAt,
+          ...(input.trialEnd && { trialEnd: input.trialEnd }),
+        };
+      case SubscriptionEventType.TRIAL_ENDED:
+        return { trialEnd: input.trialEnd ?? occurredAt };
+      case SubscriptionEventType.ACTIVATED:
+      case SubscriptionEventType.RENEWED:
+        return { canceledAt: null, cancelAtPeriodEnd: false };
+      case SubscriptionEventType.CANCELED:
+        return {
+          canceledAt: occurredAt,
+          cancelAtPeriodEnd: input.cancelAtPeriodEnd ?? true,
+        };
+      default:
+        return {};
+    }
+  }
+}
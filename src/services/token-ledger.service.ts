@@ -0,0 +1,539 @@
+import {
+  Prisma,
+  PrismaClient,
+  SubscriptionPlan,
+  TokenTransaction,
+  VideoStatus,
+} from "../prisma-client/client";
+import { DbClient } from "../core/db/dbClient";
+import { ApiErrorCodes } from "../core/api/api-status";
+import {
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+} from "../core/api/errors";
+import { withTransaction } from "../core/db/transaction";
+import {
+  GracePeriodOptions,
+  resolveEffectivePlan,
+} from "../core/subscription/plan-limits";
+import { logger } from "../utils/logger.util";
+
+/**
+ * @description Values written to `TokenTransaction.type`
+ */
+export enum TokenTransactionType {
+  GRANT = "GRANT",
+  EXPIRE = "EXPIRE",
+  RESERVE = "RESERVE",
+  COMMIT = "COMMIT",
+  REFUND = "REFUND",
+  ADJUST = "ADJUST",
+}
+
+export type { TokenTransaction };
+
+export interface TokenBalance {
+  userId: string;
+  plan: SubscriptionPlan;
+  /**
+   * Tokens that can still be reserved in this period
+   */
+  available: number;
+  /**
+   * Tokens held by unsettled reservations
+   */
+  reserved: number;
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+/**
+ * @description Tokens granted per allowance period, overridable per
+ * subscription through `Subscription.limits.tokensPerPeriod`
+ */
+export const defaultTokenAllowances: Record<SubscriptionPlan, number> = {
+  FREE: 100,
+  PREMIUM_MONTHLY: 1000,
+  PREMIUM_YEARLY: 1500,
+};
+
+export interface TokenLedgerOptions {
+  /**
+   * Prisma client to use
+   * @default DbClient.getInstance()
+   */
+  client?: PrismaClient;
+
+  /**
+   * Tokens per plan and period
+   * @default defaultTokenAllowances
+   */
+  allowances?: Record<SubscriptionPlan, number>;
+
+  grace?: GracePeriodOptions;
+}
+
+interface TokenPeriod {
+  plan: SubscriptionPlan;
+  start: Date;
+  end: Date;
+  allowance: number;
+}
+
+type NewTokenTransaction = Pick<
+  TokenTransaction,
+  "userId" | "type" | "amount" | "periodStart" | "periodEnd"
+> &
+  Partial<
+    Pick<
+      TokenTransaction,
+      "videoId" | "settlesId" | "idempotencyKey" | "reason"
+    >
+  > & { metadata?: Prisma.InputJsonValue };
+
+// Users without an honoured subscription get calendar-month periods (UTC)
+const calendarMonth = (now: Date) => ({
+  start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+  end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+});
+
+/**
+ * @description Ledger of video generation tokens. Every change is an
+ * appended `TokenTransaction`; the available balance of a period is the sum
+ * of its amounts.
+ *
+ * - A GRANT opens each period, following the subscription's
+ *   `currentPeriodStart/End` (calendar months on FREE). Leftovers of the
+ *   previous period are written off with an EXPIRE row.
+ * - `reserve` holds tokens when a video is QUEUED; `commit` and `refund`
+ *   settle the reservation when it COMPLETED or FAILED.
+ *
+ * Every write locks the user's row first, so concurrent requests of one
+ * user are serialized and cannot overspend.
+ */
+export class TokenLedgerService {
+  constructor(private readonly options: TokenLedgerOptions = {}) {}
+
+  private get client(): PrismaClient {
+    return this.options.client ?? DbClient.getInstance();
+  }
+
+  private get allowances(): Record<SubscriptionPlan, number> {
+    return this.options.allowances ?? defaultTokenAllowances;
+  }
+
+  /**
+   * @description Current balance. Does not write, so a period that has not
+   * been opened yet shows its full allowance.
+   */
+  public async getBalance(userId: string): Promise<TokenBalance> {
+    const period = await this.resolvePeriod(this.client, userId);
+    const opened = await this.findGrant(this.client, userId, period);
+    const reserved = await this.reservedInPeriod(this.client, userId, period);
+    return {
+      userId,
+      plan: period.plan,
+      available: opened
+        ? await this.sumPeriod(this.client, userId, period)
+        : period.allowance,
+      reserved,
+      periodStart: period.start,
+      periodEnd: period.end,
+    };
+  }
+
+  /**
+   * @description Opens the user's current period if needed, e.g. after an
+   * ACTIVATED or RENEWED event. Pass `tx` to run inside an existing
+   * transaction that already locked the user.
+   * @returns The GRANT row of the current period
+   */
+  public async startPeriod(
+    userId: string,
+    tx?: Prisma.TransactionClient
+  ): Promise<TokenTransaction> {
+    if (tx) return this.openPeriod(tx, userId);
+    return withTransaction(
+      async (tx) => {
+        await this.lockUser(tx, userId);
+        return this.openPeriod(tx, userId);
+      },
+      { client: this.client }
+    );
+  }
+
+  /**
+   * @description Holds tokens for a queued video. Calling it again for the
+   * same video returns the existing reservation.
+   * @throws ConflictError with code INSUFFICIENT_TOKENS if the balance is
+   * too low
+   */
+  public async reserve(
+    userId: string,
+    videoId: string,
+    amount: number
+  ): Promise<TokenTransaction> {
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new BadRequestError("Token amount must be a positive integer");
+    }
+
+    return withTransaction(
+      async (tx) => {
+        await this.lockUser(tx, userId);
+        const existing = await this.findReservation(tx, videoId);
+        if (existing) return existing;
+
+        const grant = await this.openPeriod(tx, userId);
+        const period = { start: grant.periodStart, end: grant.periodEnd };
+        const available = await this.sumPeriod(tx, userId, period);
+        if (available < amount) {
+          throw new ConflictError(
+            "Not enough tokens",
+            { required: amount, available, periodEnd: period.end },
+            ApiErrorCodes.INSUFFICIENT_TOKENS
+          );
+        }
+
+        return this.append(tx, {
+          userId,
+          type: TokenTransactionType.RESERVE,
+          amount: -amount,
+          periodStart: period.start,
+          periodEnd: period.end,
+          videoId,
+          idempotencyKey: `reserve:${videoId}`,
+        });
+      },
+      { client: this.client }
+    );
+  }
+
+  /**
+   * @description Settles a video's reservation as used. Unused tokens are
+   * returned while the reservation's period is still current.
+   * @param used Tokens actually consumed; defaults to the reserved amount
+   */
+  public async commit(
+    videoId: string,
+    used?: number
+  ): Promise<TokenTransaction> {
+    return this.settle(videoId, TokenTransactionType.COMMIT, used);
+  }
+
+  /**
+   * @description Returns a failed video's reserved tokens
+   */
+  public async refund(
+    videoId: string,
+    reason?: string
+  ): Promise<TokenTransaction> {
+    return this.settle(videoId, TokenTransactionType.REFUND, 0, reason);
+  }
+
+  /**
+   * @description Settles a video's reservation according to its final status
+   * @returns The settlement, or null if the status is not final
+   */
+  public async settleVideo(
+    videoId: string,
+    status: VideoStatus,
+    reason?: string
+  ): Promise<TokenTransaction | null> {
+    if (status === VideoStatus.COMPLETED) return this.commit(videoId);
+    if (status === VideoStatus.FAILED) return this.refund(videoId, reason);
+    return null;
+  }
+
+  /**
+   * @description Manual correction in the current period, e.g. after a
+   * billing dispute
+   */
+  public async adjust(
+    userId: string,
+    amount: number,
+    reason: string,
+    metadata?: Prisma.InputJsonValue
+  ): Promise<TokenTransaction> {
+    return withTransaction(
+      async (tx) => {
+        await this.lockUser(tx, userId);
+        const grant = await this.openPeriod(tx, userId);
+        return this.append(tx, {
+          userId,
+          type: TokenTransactionType.ADJUST,
+          amount,
+          periodStart: grant.periodStart,
+          periodEnd: grant.periodEnd,
+          reason,
+          metadata,
+        });
+      },
+      { client: this.client }
+    );
+  }
+
+  /**
+   * @description The user's ledger, newest first
+   */
+  public async getHistory(
+    userId: string,
+    options: { limit?: number; before?: Date } = {}
+  ): Promise<TokenTransaction[]> {
+    const { limit = 100, before } = options;
+    return this.client.tokenTransaction.findMany({
+      where: { userId, createdAt: before ? { lt: before } : undefined },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit,
+    });
+  }
+
+  private async settle(
+    videoId: string,
+    type: TokenTransactionType.COMMIT | TokenTransactionType.REFUND,
+    used?: number,
+    reason?: string
+  ): Promise<TokenTransaction> {
+    const reservation = await this.findReservation(this.client, videoId);
+    if (!reservation) {
+      throw new NotFoundError("No token reservation for this video");
+    }
+    const reserved = -reservation.amount;
+    const consumed = used ?? reserved;
+    if (!Number.isInteger(consumed) || consumed < 0 || consumed > reserved) {
+      throw new BadRequestError(
+        `Used tokens must be an integer between 0 and ${reserved}`
+      );
+    }
+
+    return withTransaction(
+      async (tx) => {
+        await this.lockUser(tx, reservation.userId);
+        const settled = await this.findSettlement(tx, reservation.id);
+        if (settled) return settled;
+
+        // Tokens of a period that has ended stay expired
+        const current = await this.resolvePeriod(tx, reservation.userId);
+        const samePeriod =
+          current.start.getTime() === reservation.periodStart.getTime();
+        const returned = samePeriod ? reserved - consumed : 0;
+
+        if (type === TokenTransactionType.COMMIT) {
+          await tx.video.updateMany({
+            where: { id: videoId },
+            data: { tokensUsed: consumed },
+          });
+        }
+
+        return this.append(tx, {
+          userId: reservation.userId,
+          type,
+          amount: returned,
+          periodStart: reservation.periodStart,
+          periodEnd: reservation.periodEnd,
+          videoId,
+          settlesId: reservation.id,
+          reason:
+            reason ??
+            (!samePeriod && reserved > consumed
+              ? "Period ended before settlement"
+              : undefined),
+          metadata: { reserved, used: consumed },
+        });
+      },
+      { client: this.client }
+    );
+  }
+
+  private async lockUser(
+    tx: Prisma.TransactionClient,
+    userId: string
+  ): Promise<void> {
+    const locked = await tx.$queryRaw<{ id: string }[]>`
+      SELECT id FROM users WHERE id = ${userId} FOR UPDATE
+    `;
+    if (locked.length === 0) {
+      throw new NotFoundError("User not found");
+    }
+  }
+
+  private async resolvePeriod(
+    db: Prisma.TransactionClient | PrismaClient,
+    userId: string,
+    now: Date = new Date()
+  ): Promise<TokenPeriod> {
+    const subscription = await db.subscription.findUnique({
+      where: { userId },
+      select: {
+        plan: true,
+        status: true,
+        limits: true,
+        currentPeriodStart: true,
+        currentPeriodEnd: true,
+        trialEnd: true,
+        cancelAtPeriodEnd: true,
+      },
+    });
+    const effective = resolveEffectivePlan(
+      subscription,
+      this.options.grace,
+      now
+    );
+    const honoured = subscription?.plan === effective.plan;
+
+    let allowance = this.allowances[effective.plan];
+    const override = honoured
+      ? (subscription.limits as Prisma.JsonObject | null)?.tokensPerPeriod
+      : undefined;
+    if (typeof override === "number" && override >= 0) {
+      allowance = Math.floor(override);
+    }
+
+    // A paid plan past its period end (grace, renewal not yet received)
+    // keeps its last period, so nothing is granted before it is paid. FREE
+    // periods are never renewed, so they give way to calendar months.
+    const ownPeriod =
+      honoured &&
+      subscription.currentPeriodStart <= now &&
+      (now < subscription.currentPeriodEnd ||
+        effective.plan !== SubscriptionPlan.FREE);
+
+    const { start, end } = ownPeriod
+      ? {
+          start: subscription.currentPeriodStart,
+          end: subscription.currentPeriodEnd,
+        }
+      : calendarMonth(now);
+    return { plan: effective.plan, start, end, allowance };
+  }
+
+  /**
+   * @description Writes the GRANT of the current period, expiring the
+   * leftovers of earlier periods first. Expects the user to be locked.
+   */
+  private async openPeriod(
+    tx: Prisma.TransactionClient,
+    userId: string
+  ): Promise<TokenTransaction> {
+    const period = await this.resolvePeriod(tx, userId);
+    const existing = await this.findGrant(tx, userId, period);
+    if (existing) return existing;
+
+    const leftovers = await tx.tokenTransaction.groupBy({
+      by: ["periodStart", "periodEnd"],
+      where: { userId, periodStart: { not: period.start } },
+      _sum: { amount: true },
+      having: { amount: { _sum: { not: 0 } } },
+    });
+    for (const leftover of leftovers) {
+      await this.append(tx, {
+        userId,
+        type: TokenTransactionType.EXPIRE,
+        amount: -(leftover._sum.amount ?? 0),
+        periodStart: leftover.periodStart,
+        periodEnd: leftover.periodEnd,
+        reason: "Period ended",
+      });
+    }
+
+    const grant = await this.append(tx, {
+      userId,
+      type: TokenTransactionType.GRANT,
+      amount: period.allowance,
+      periodStart: period.start,
+      periodEnd: period.end,
+      idempotencyKey: this.grantKey(userId, period),
+      metadata: { plan: period.plan },
+    });
+    logger.log(
+      "info",
+      { userId, plan: period.plan, amount: period.allowance },
+      "Token period opened"
+    );
+    return grant;
+  }
+
+  private grantKey(userId: string, period: { start: Date }): string {
+    return `grant:${userId}:${period.start.toISOString()}`;
+  }
+
+  private async findGrant(
+    db: Prisma.TransactionClient | PrismaClient,
+    userId: string,
+    period: { start: Date }
+  ): Promise<TokenTransaction | null> {
+    return db.tokenTransaction.findUnique({
+      where: { idempotencyKey: this.grantKey(userId, period) },
+    });
+  }
+
+  private async findReservation(
+    db: Prisma.TransactionClient | PrismaClient,
+    videoId: string
+  ): Promise<TokenTransaction | null> {
+    return db.tokenTransaction.findUnique({
+      where: { idempotencyKey: `reserve:${videoId}` },
+    });
+  }
+
+  private async findSettlement(
+    tx: Prisma.TransactionClient,
+    reservationId: string
+  ): Promise<TokenTransaction | null> {
+    return tx.tokenTransaction.findUnique({
+      where: { settlesId: reservationId },
+    });
+  }
+
+  private async sumPeriod(
+    db: Prisma.TransactionClient | PrismaClient,
+    userId: string,
+    period: { start: Date }
+  ): Promise<number> {
+    const { _sum } = await db.tokenTransaction.aggregate({
+      where: { userId, periodStart: period.start },
+      _sum: { amount: true },
+    });
+    return _sum.amount ?? 0;
+  }
+
+  private async reservedInPeriod(
+    db: Prisma.TransactionClient | PrismaClient,
+    userId: string,
+    period: { start: Date }
+  ): Promise<number> {
+    const reservations = await db.tokenTransaction.findMany({
+      where: {
+        userId,
+        periodStart: period.start,
+        type: TokenTransactionType.RESERVE,
+      },
+      select: { id: true, amount: true },
+    });
+    const settlements = await db.tokenTransaction.findMany({
+      where: { settlesId: { in: reservations.map(({ id }) => id) } },
+      select: { settlesId: true },
+    });
+    const settled = new Set(settlements.map(({ settlesId }) => settlesId));
+
+    return reservations
+      .filter(({ id }) => !settled.has(id))
+      .reduce((reserved, { amount }) => reserved - amount, 0);
+  }
+
+  /**
+   * @description Inserts a row with its running balance. Expects the user
+   * to be locked.
+   */
+  private async append(
+    tx: Prisma.TransactionClient,
+    entry: NewTokenTransaction
+  ): Promise<TokenTransaction> {
+    const balance = await this.sumPeriod(tx, entry.userId, {
+      start: entry.periodStart,
+    });
+    return tx.tokenTransaction.create({
+      data: { ...entry, balanceAfter: balance + entry.amount },
+    });
+  }
+}
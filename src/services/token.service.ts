@@ -0,0 +1,267 @@
+import jwt from "jsonwebtoken";
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { PrismaClient } from "../prisma-client/client";
+import { DbClient } from "../core/db/dbClient";
+import { UnauthenticatedError } from "../core/api/errors";
+import { invalidateSessionCache } from "../middlewares/verify-access-token";
+import { logger } from "../utils/logger.util";
+
+/**
+ * @description Values written to `Session.revokedReason`
+ */
+export enum SessionRevokedReason {
+  ROTATED = "ROTATED",
+  REFRESH_TOKEN_REUSE = "REFRESH_TOKEN_REUSE",
+  LOGOUT = "LOGOUT",
+  LOGOUT_ALL = "LOGOUT_ALL",
+  ACCOUNT_ERASURE = "ACCOUNT_ERASURE",
+}
+
+export interface TokenServiceOptions {
+  /**
+   * Prisma client to use
+   * @default DbClient.getInstance()
+   */
+  client?: PrismaClient;
+
+  /**
+   * Secret used to sign access tokens
+   * @default process.env.ACCESS_TOKEN_SECRET
+   */
+  accessTokenSecret?: string;
+
+  /**
+   * Access token lifetime in milliseconds
+   * @default 900000 (15 minutes)
+   */
+  accessTokenTtlMs?: number;
+
+  /**
+   * Refresh token lifetime in milliseconds
+   * @default 2592000000 (30 days)
+   */
+  refreshTokenTtlMs?: number;
+}
+
+/**
+ * @description Client details a session is bound to
+ */
+export interface DeviceContext {
+  deviceId: string;
+  appVersion?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface IssuedTokens {
+  sessionId: string;
+  accessToken: string;
+  refreshToken: string;
+  accessTokenExpiresAt: Date;
+  refreshTokenExpiresAt: Date;
+}
+
+/**
+ * @description Refresh tokens are opaque and only stored as a SHA-256 digest
+ */
+const hashRefreshToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+/**
+ * @description Issues and rotates access/refresh token pairs backed by the
+ * `Session` table. Every rotation replaces the session row, and the rows of
+ * one user on one device form a family: presenting a refresh token that was
+ * already rotated revokes the whole family.
+ */
+export class TokenService {
+  private readonly accessTokenTtlMs: number;
+  private readonly refreshTokenTtlMs: number;
+
+  constructor(private readonly options: TokenServiceOptions = {}) {
+    this.accessTokenTtlMs = options.accessTokenTtlMs ?? 15 * 60 * 1000;
+    this.refreshTokenTtlMs =
+      options.refreshTokenTtlMs ?? 30 * 24 * 60 * 60 * 1000;
+  }
+
+  private get client(): PrismaClient {
+    return this.options.client ?? DbClient.getInstance();
+  }
+
+  /**
+   * @description Starts a new session for a user on a device
+   */
+  public async issueTokens(
+    userId: string,
+    device: DeviceContext
+  ): Promise<IssuedTokens> {
+    return this.createSession(this.client, userId, device);
+  }
+
+  /**
+   * @description Exchanges a refresh token for a new pair. The presented
+   * token is invalidated; presenting it again is treated as theft.
+   * @throws UnauthenticatedError if the token is unknown, expired or revoked
+   */
+  public async rotateRefreshToken(
+    refreshToken: string,
+    device?: Partial<DeviceContext>
+  ): Promise<IssuedTokens> {
+    const session = await this.client.session.findUnique({
+      where: { refreshToken: hashRefreshToken(refreshToken) },
+    });
+
+    if (!session) {
+      throw new UnauthenticatedError("Invalid refresh token");
+    }
+
+    if (session.revokedReason === SessionRevokedReason.ROTATED) {
+      await this.revokeFamily(session.userId, session.deviceId);
+      throw new UnauthenticatedError("Refresh token reuse detected");
+    }
+
+    if (!session.isActive || session.isRevoked) {
+      throw new UnauthenticatedError("Session has been revoked");
+    }
+
+    if (session.refreshTokenExpiresAt <= new Date()) {
+      throw new UnauthenticatedError("Refresh token has expired");
+    }
+
+    if (device?.deviceId && device.deviceId !== session.deviceId) {
+      await this.revokeFamily(session.userId, session.deviceId);
+      throw new UnauthenticatedError("Refresh token reuse detected");
+    }
+
+    const issued = await this.client.$transaction(async (tx) => {
+      // Conditional update: a concurrent rotation of the same token loses here
+      const { count } = await tx.session.updateMany({
+        where: { id: session.id, isRevoked: false },
+        data: {
+          isActive: false,
+          isRevoked: true,
+          revokedAt: new Date(),
+          revokedReason: SessionRevokedReason.ROTATED,
+        },
+      });
+      if (count === 0) return null;
+
+      return this.createSession(tx as PrismaClient, session.userId, {
+        deviceId: session.deviceId,
+        appVersion: device?.appVersion ?? session.appVersion,
+        ipAddress: device?.ipAddress ?? session.ipAddress,
+      });
+    });
+
+    if (!issued) {
+      await this.revokeFamily(session.userId, session.deviceId);
+      throw new UnauthenticatedError("Refresh token reuse detected");
+    }
+
+    invalidateSessionCache(session.id);
+    return issued;
+  }
+
+  /**
+   * @description Revokes a single session, e.g. on logout
+   */
+  public async revokeSession(
+    sessionId: string,
+    reason: string = SessionRevokedReason.LOGOUT
+  ): Promise<void> {
+    await this.client.session.updateMany({
+      where: { id: sessionId, isRevoked: false },
+      data: {
+        isActive: false,
+        isRevoked: true,
+        revokedAt: new Date(),
+        revokedReason: reason,
+      },
+    });
+    invalidateSessionCache(sessionId);
+  }
+
+  /**
+   * @description Revokes every session of a user
+   * @returns Number of revoked sessions
+   */
+  public async revokeAllSessions(
+    userId: string,
+    reason: string = SessionRevokedReason.LOGOUT_ALL
+  ): Promise<number> {
+    const { count } = await this.client.session.updateMany({
+      where: { userId, isRevoked: false },
+      data: {
+        isActive: false,
+        isRevoked: true,
+        revokedAt: new Date(),
+        revokedReason: reason,
+      },
+    });
+    invalidateSessionCache();
+    return count;
+  }
+
+  private async revokeFamily(userId: string, deviceId: string) {
+    const { count } = await this.client.session.updateMany({
+      where: { userId, deviceId, isRevoked: false },
+      data: {
+        isActive: false,
+        isRevoked: true,
+        revokedAt: new Date(),
+        revokedReason: SessionRevokedReason.REFRESH_TOKEN_REUSE,
+      },
+    });
+    invalidateSessionCache();
+    logger.warn(
+      `Refresh token reuse detected: userId=${userId}, deviceId=${deviceId}, revokedSessions=${count}`
+    );
+  }
+
+  private async createSession(
+    client: PrismaClient,
+    userId: string,
+    device: DeviceContext
+  ): Promise<IssuedTokens> {
+    const secret =
+      this.options.accessTokenSecret ?? process.env.ACCESS_TOKEN_SECRET;
+    if (!secret) {
+      throw new Error("ACCESS_TOKEN_SECRET is not configured");
+    }
+
+    const now = Date.now();
+    const sessionId = randomUUID();
+    const accessTokenExpiresAt = new Date(now + this.accessTokenTtlMs);
+    const refreshTokenExpiresAt = new Date(now + this.refreshTokenTtlMs);
+
+    const accessToken = jwt.sign(
+      { userId, sid: sessionId, deviceId: device.deviceId },
+      secret,
+      {
+        expiresIn: Math.floor(this.accessTokenTtlMs / 1000),
+        jwtid: randomUUID(),
+      }
+    );
+    const refreshToken = randomBytes(48).toString("base64url");
+
+    await client.session.create({
+      data: {
+        id: sessionId,
+        userId,
+        accessToken,
+        refreshToken: hashRefreshToken(refreshToken),
+        accessTokenExpiresAt,
+        refreshTokenExpiresAt,
+        deviceId: device.deviceId,
+        appVersion: device.appVersion ?? null,
+        ipAddress: device.ipAddress ?? null,
+      },
+    });
+
+    return {
+      sessionId,
+      accessToken,
+      refreshToken,
+      accessTokenExpiresAt,
+      refreshTokenExpiresAt,
+    };
+  }
+}
@@ -0,0 +1,113 @@
+import logger from "./logger.util";
+
+export enum CircuitState {
+  CLOSED = "CLOSED",
+  OPEN = "OPEN",
+  HALF_OPEN = "HALF_OPEN",
+}
+
+export interface CircuitBreakerOptions {
+  /**
+   * Consecutive failures that open the circuit
+   * @default 5
+   */
+  failureThreshold?: number;
+
+  /**
+   * Time the circuit stays open before a probe is allowed, in milliseconds
+   * @default 30000 (30 seconds)
+   */
+  resetTimeoutMs?: number;
+}
+
+/**
+ * @description Consecutive-failure circuit breaker. After `resetTimeoutMs`
+ * in OPEN a single probe request is let through (HALF_OPEN); its outcome
+ * closes or re-opens the circuit.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = CircuitState.CLOSED;
+  private failures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+
+  constructor(
+    private readonly name: string,
+    options: CircuitBreakerOptions = {}
+  ) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+  }
+
+  public getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * @description Whether a request may be sent now. In HALF_OPEN only one
+   * probe is allowed until it reports back.
+   */
+  public allowRequest(): boolean {
+    if (this.state === CircuitState.CLOSED) return true;
+
+    if (this.state === CircuitState.OPEN) {
+      if (Date.now() - this.openedAt < this.resetTimeoutMs) return false;
+      this.transition(CircuitState.HALF_OPEN);
+    }
+
+    if (this.probeInFlight) return false;
+    this.probeInFlight = true;
+    return true;
+  }
+
+  public recordSuccess(): void {
+    this.failures = 0;
+    this.probeInFlight = false;
+    if (this.state !== CircuitState.CLOSED) {
+      this.transition(CircuitState.CLOSED);
+    }
+  }
+
+  public recordFailure(): void {
+    this.failures += 1;
+    this.probeInFlight = false;
+    if (
+      this.state === CircuitState.HALF_OPEN ||
+      (this.state === CircuitState.CLOSED &&
+        this.failures >= this.failureThreshold)
+    ) {
+      this.openedAt = Date.now();
+      this.transition(CircuitState.OPEN);
+    }
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.state;
+    this.state = to;
+    const message = `Circuit breaker ${this.name}: ${from} -> ${to} (failures=${this.failures})`;
+    if (to === CircuitState.OPEN) {
+      logger.error(message);
+    } else {
+      logger.warn(message);
+    }
+  }
+}
+
+const breakers: Map<string, CircuitBreaker> = new Map();
+
+/**
+ * @description Returns the shared breaker for a key, creating it on first use
+ */
+export const getCircuitBreaker = (
+  key: string,
+  options?: CircuitBreakerOptions
+): CircuitBreaker => {
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = new CircuitBreaker(key, options);
+    breakers.set(key, breaker);
+  }
+  return breaker;
+};
@@ -1,7 +1,34 @@
-import { HttpMethods } from "../core/api/api-status";
+import { ApiErrorCodes, HttpMethods } from "../core/api/api-status";
 import { GenericResponse } from "../dto/generic/generic-response";
-import axios from "axios";
+import axios, { AxiosResponse } from "axios";
+import { randomUUID } from "crypto";
 import logger from "./logger.util";
+import { signRequest } from "./requestSigning.util";
+import { getRequestContext } from "../core/context/request-context";
+import {
+  CircuitBreakerOptions,
+  getCircuitBreaker,
+} from "./circuitBreaker.util";
+
+export interface RetryOptions {
+  /**
+   * Retries after the first attempt
+   * @default 2
+   */
+  retries?: number;
+
+  /**
+   * Base delay of the exponential backoff in milliseconds
+   * @default 200
+   */
+  minDelayMs?: number;
+
+  /**
+   * Upper bound for a single delay in milliseconds
+   * @default 5000
+   */
+  maxDelayMs?: number;
+}
 
 export interface InternalServiceApiClientOptions {
   method: HttpMethods;
@@ -10,50 +37,264 @@ export interface InternalServiceApiClientOptions {
   headers?: Record<string, string>;
   queryParams?: Record<string, string>;
   body?: any;
+  /**
+   * ID of the calling service
+   * @default process.env.INTERNAL_SERVICE_ID
+   */
+  serviceId?: string;
+  /**
+   * Key used to sign the request
+   * @default process.env.INTERNAL_SERVICE_SECRET
+   */
+  signingKey?: string;
+  /**
+   * @deprecated Use `signingKey`; the key is no longer sent on the wire
+   */
   internalServiceKey?: string;
+  /**
+   * Request timeout in milliseconds
+   * @default the client default (10000)
+   */
+  timeoutMs?: number;
+  /**
+   * Retry policy, or false to disable retries for this call
+   * @default the client default
+   */
+  retry?: RetryOptions | false;
+  /**
+   * Idempotency key for POST/PATCH, sent as `idempotency-key` with every
+   * attempt of the call; generated once per call when omitted
+   */
+  idempotencyKey?: string;
+}
+
+export interface InternalServiceClientDefaults {
+  timeoutMs: number;
+  retry: Required<RetryOptions>;
+  circuitBreaker: CircuitBreakerOptions;
 }
 
+const clientDefaults: InternalServiceClientDefaults = {
+  timeoutMs: 10000,
+  retry: { retries: 2, minDelayMs: 200, maxDelayMs: 5000 },
+  circuitBreaker: { failureThreshold: 5, resetTimeoutMs: 30000 },
+};
+
+/**
+ * @description Overrides the defaults used by every InternalServiceApiClient call
+ */
+export const configureInternalServiceClient = (
+  defaults: Partial<InternalServiceClientDefaults>
+) => {
+  if (defaults.timeoutMs !== undefined) {
+    clientDefaults.timeoutMs = defaults.timeoutMs;
+  }
+  if (defaults.retry) {
+    clientDefaults.retry = { ...clientDefaults.retry, ...defaults.retry };
+  }
+  if (defaults.circuitBreaker) {
+    clientDefaults.circuitBreaker = {
+      ...clientDefaults.circuitBreaker,
+      ...defaults.circuitBreaker,
+    };
+  }
+};
+
+const IDEMPOTENT_METHODS: string[] = [
+  HttpMethods.GET,
+  HttpMethods.PUT,
+  HttpMethods.DELETE,
+];
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+const RETRYABLE_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Exponential backoff with equal jitter, honouring Retry-After when present
+ */
+const backoffDelay = (
+  attempt: number,
+  retry: Required<RetryOptions>,
+  response?: AxiosResponse
+): number => {
+  const retryAfter = parseInt(response?.headers?.["retry-after"] ?? "", 10);
+  if (Number.isFinite(retryAfter)) {
+    return Math.min(retry.maxDelayMs, retryAfter * 1000);
+  }
+  const cap = Math.min(retry.maxDelayMs, retry.minDelayMs * 2 ** attempt);
+  return cap / 2 + Math.random() * (cap / 2);
+};
+
 export const InternalServiceApiClient = async (
   options: InternalServiceApiClientOptions
 ): Promise<GenericResponse<any>> => {
-  let finalHeaders: Record<string, string> = options.headers ?? {};
-  if (options.internalServiceKey || process.env.INTERNAL_SERVICE_KEY) {
-    finalHeaders["x-service-key"] =
-      options.internalServiceKey ?? process.env.INTERNAL_SERVICE_KEY!;
-  }
-  try {
-    const response = await axios.request({
-      method: options.method ?? HttpMethods.GET,
-      baseURL: `${options.serviceBaseUrl}/internal/${options.slug ?? ""}`,
-      headers: finalHeaders,
-      params: options.queryParams,
-      data: options.body,
-    });
-    if (response.status < 200 || response.status >= 300) {
-      logger.error(
-        `InternalServiceApiClient error: ${response.status} - ${response.statusText}`
+  const url = `${options.serviceBaseUrl}/internal/${options.slug ?? ""}`;
+  // Sent exactly as signed, so query parameters in the slug are covered too
+  const target = new URL(url);
+  const { queryParams = {} } = options;
+  Object.keys(queryParams).forEach((key) =>
+    target.searchParams.append(key, queryParams[key])
+  );
+  const method = options.method ?? HttpMethods.GET;
+  const data =
+    options.body === undefined ? undefined : JSON.stringify(options.body);
+  const timeout = options.timeoutMs ?? clientDefaults.timeoutMs;
+  const breaker = getCircuitBreaker(
+    options.serviceBaseUrl,
+    clientDefaults.circuitBreaker
+  );
+
+  const baseHeaders: Record<string, string> = { ...options.headers };
+  if (data !== undefined) {
+    baseHeaders["content-type"] = "application/json";
+  }
+
+  // Propagate the request ID so downstream logs share it
+  const requestId = getRequestContext()?.requestId;
+  if (requestId && !baseHeaders["x-request-id"]) {
+    baseHeaders["x-request-id"] = requestId;
+  }
+
+  // POST/PATCH become safe to retry once the callee can de-duplicate them.
+  // Set before the retry loop, so every attempt carries the same key.
+  if (method === HttpMethods.POST || method === HttpMethods.PATCH) {
+    baseHeaders["idempotency-key"] =
+      options.idempotencyKey ?? baseHeaders["idempotency-key"] ?? randomUUID();
+  }
+
+  const retry =
+    options.retry === false
+      ? { ...clientDefaults.retry, retries: 0 }
+      : { ...clientDefaults.retry, ...options.retry };
+  const canRetry =
+    IDEMPOTENT_METHODS.includes(method) || !!baseHeaders["idempotency-key"];
+  const maxAttempts = canRetry ? retry.retries + 1 : 1;
+
+  const serviceId = options.serviceId ?? process.env.INTERNAL_SERVICE_ID;
+  const signingKey =
+    options.signingKey ??
+    options.internalServiceKey ??
+    process.env.INTERNAL_SERVICE_SECRET;
+  if (!serviceId || !signingKey) {
+    logger.warn(
+      `InternalServiceApiClient: sending unsigned request to ${url}, set INTERNAL_SERVICE_ID and INTERNAL_SERVICE_SECRET`
+    );
+  }
+
+  const circuitOpenResponse = (): GenericResponse<any> => ({
+    isSuccess: false,
+    error: `Internal service ${options.serviceBaseUrl} is unavailable (circuit open)`,
+    code: ApiErrorCodes.SERVICE_UNAVAILABLE,
+  });
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    if (!breaker.allowRequest()) {
+      return circuitOpenResponse();
+    }
+
+    let response: AxiosResponse;
+    try {
+      // Signed per attempt: the verifier rejects a reused nonce
+      const headers =
+        serviceId && signingKey
+          ? {
+              ...baseHeaders,
+              ...signRequest(
+                {
+                  method,
+                  path: target.pathname,
+                  query: target.searchParams,
+                  body: data,
+                },
+                { serviceId, secret: signingKey }
+              ),
+            }
+          : baseHeaders;
+
+      response = await axios.request({
+        method,
+        url: target.toString(),
+        headers,
+        data,
+        timeout,
+        validateStatus: () => true,
+      });
+    } catch (err: any) {
+      // Network errors and timeouts: normalize into GenericResponse instead of throwing
+      breaker.recordFailure();
+      const retryable = RETRYABLE_ERROR_CODES.includes(err?.code);
+      if (retryable && attempt < maxAttempts - 1) {
+        logger.warn(
+          `InternalServiceApiClient retrying ${method} ${url} after ${err?.code} (attempt ${attempt + 1}/${maxAttempts})`
+        );
+        await sleep(backoffDelay(attempt, retry));
+        continue;
+      }
+
+      logger.log(
+        "error",
+        {
+          method,
+          url,
+          query: options.queryParams,
+          code: err?.code,
+          requestHeaders: err?.config?.headers,
+        },
+        `InternalServiceApiClient exception: ${err?.message}`
       );
       return {
         isSuccess: false,
-        error:
-          response.data?.error ??
-          `Failed to call internal service ${options.serviceBaseUrl}/internal/${
-            options.slug ?? ""
-          }: ${response.status} : ${response.statusText}`,
+        error: err?.message ?? "Request failed",
       };
     }
-    return response.data;
-  } catch (err: any) {
-    // Normalize axios/network errors into GenericResponse instead of throwing
-    logger.error(`InternalServiceApiClient exception: ${err?.message}`);
-    const status = err?.response?.status;
-    const statusText = err?.response?.statusText;
-    const dataError = err?.response?.data?.error ?? err?.message;
+
+    if (response.status >= 500) {
+      breaker.recordFailure();
+    } else {
+      breaker.recordSuccess();
+    }
+
+    if (response.status >= 200 && response.status < 300) {
+      return response.data;
+    }
+
+    if (
+      RETRYABLE_STATUSES.includes(response.status) &&
+      attempt < maxAttempts - 1
+    ) {
+      logger.warn(
+        `InternalServiceApiClient retrying ${method} ${url} after ${response.status} (attempt ${attempt + 1}/${maxAttempts})`
+      );
+      await sleep(backoffDelay(attempt, retry, response));
+      continue;
+    }
+
+    logger.log(
+      "error",
+      {
+        method,
+        url,
+        query: options.queryParams,
+        status: response.status,
+        response: response.data,
+      },
+      `InternalServiceApiClient error: ${response.status} - ${response.statusText}`
+    );
     return {
       isSuccess: false,
       error:
-        dataError ??
-        `Request failed${status ? `: ${status} ${statusText}` : ""}`,
+        response.data?.error ??
+        `Failed to call internal service ${url}: ${response.status} : ${response.statusText}`,
     };
   }
+
+  return circuitOpenResponse();
 };
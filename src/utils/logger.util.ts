@@ -1,6 +1,8 @@
 import pino from "pino";
 import { resolve } from "path";
 import { mkdir } from "fs/promises";
+import { getRequestContext } from "../core/context/request-context";
+import { RedactionConfig, Redactor } from "./redaction.util";
 
 // Define log levels type for better type safety
 export type LogLevel = "fatal" | "error" | "warn" | "info" | "debug" | "trace";
@@ -11,6 +13,7 @@ interface LoggerConfig {
   directory: string;
   filename: string;
   prettyPrint: boolean;
+  redaction: RedactionConfig;
 }
 
 // Default configuration
@@ -20,26 +23,42 @@ const defaultConfig: LoggerConfig = {
   directory: resolve(process.cwd(), "logs"),
   filename: "app.log",
   prettyPrint: process.env.NODE_ENV !== "prod",
+  redaction: {},
 };
 
+// Redactor applied to every log entry, replaced by Logger.configureRedaction
+let redactor = new Redactor();
+
 // Error serializer for better error logging
-const errorSerializer = (error: Error) => ({
-  type: error.name,
-  message: error.message,
-  stack: error.stack,
-  ...(error as any), // Include any custom properties
-});
+const errorSerializer = (error: Error) =>
+  redactor.redact({
+    type: error.name,
+    message: error.message,
+    stack: error.stack,
+    ...(error as any), // Include any custom properties
+  });
 
 // Request serializer for HTTP requests
 const requestSerializer = (req: any) => ({
   method: req.method,
-  url: req.url,
-  headers: req.headers,
+  url: typeof req.url === "string" ? redactor.redactUrl(req.url) : req.url,
+  headers: req.headers && redactor.redact(req.headers),
   hostname: req.hostname,
   remoteAddress: req.ip || req.remoteAddress,
   remotePort: req.socket?.remotePort,
 });
 
+// Adds the current request context to every log entry
+const contextMixin = () => {
+  const context = getRequestContext();
+  if (!context) return {};
+  return {
+    requestId: context.requestId,
+    ...(context.userId && { userId: context.userId }),
+    ...(context.callerService && { callerService: context.callerService }),
+  };
+};
+
 /**
  * Logger class with singleton pattern for consistent logging across the application
  */
@@ -49,6 +68,7 @@ export class Logger {
 
   private constructor(customConfig?: Partial<LoggerConfig>) {
     const config = { ...defaultConfig, ...customConfig };
+    redactor = new Redactor(config.redaction);
 
     // Ensure logs directory exists
     mkdir(config.directory, { recursive: true }).catch(console.error);
@@ -57,8 +77,10 @@ export class Logger {
     const loggerConfig: pino.LoggerOptions = {
       level: config.level,
       timestamp: pino.stdTimeFunctions.isoTime,
+      mixin: contextMixin,
       formatters: {
         level: (label: string) => ({ level: label.toUpperCase() }),
+        log: (object: Record<string, unknown>) => redactor.redact(object),
       },
       serializers: {
         err: errorSerializer,
@@ -96,6 +118,30 @@ export class Logger {
     return Logger.instance;
   }
 
+  /**
+   * @description Replaces the redaction rules, e.g. to add service-specific
+   * paths or enable PII hashing
+   * @example
+   * logger.configureRedaction({ paths: ["body.cardNumber"], hashPaths: ["email"] });
+   */
+  public configureRedaction(config: RedactionConfig): void {
+    redactor = new Redactor(config);
+  }
+
+  /**
+   * @description Applies the active redaction rules to a value
+   */
+  public redact<T>(value: T): T {
+    return redactor.redact(value);
+  }
+
+  /**
+   * @description Applies the active redaction rules to a URL's query string
+   */
+  public redactUrl(url: string): string {
+    return redactor.redactUrl(url);
+  }
+
   // Logging methods
   public trace(msg: string, ...args: any[]): void {
     this.pinoLogger.trace(msg, ...args);
@@ -146,6 +192,19 @@ export class Logger {
     this.pinoLogger[level](context, message);
   }
 
+  /**
+   * @description Writes buffered log lines, e.g. before the process exits
+   */
+  public flush(): Promise<void> {
+    return new Promise((resolve) => {
+      try {
+        this.pinoLogger.flush(() => resolve());
+      } catch {
+        resolve();
+      }
+    });
+  }
+
   // Get raw pino logger (for advanced use cases)
   public getPinoLogger(): pino.Logger {
     return this.pinoLogger;
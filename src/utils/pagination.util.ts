@@ -0,0 +1,187 @@
+import {
+  CursorPaginationParams,
+  PaginationParams,
+} from "../dto/request/pagination.req";
+import {
+  CursorPaginatedResult,
+  PaginatedResult,
+} from "../dto/response/paginated.res";
+import { ApiResponse } from "../core/api/response";
+import { BadRequestError } from "../core/api/errors";
+import { PaginationSchemaOptions } from "../schemas/pagination.schema";
+
+/**
+ * @description Minimal Prisma model delegate used for offset pagination,
+ * e.g. `DbClient.getInstance().video`
+ */
+export interface CountableDelegate<T> {
+  count(args: { where?: any }): PromiseLike<number>;
+  findMany(args: any): PromiseLike<T[]>;
+}
+
+/**
+ * @description Minimal Prisma model delegate used for cursor pagination
+ */
+export interface FindManyDelegate<T> {
+  findMany(args: any): PromiseLike<T[]>;
+}
+
+/**
+ * @description Query arguments forwarded to `findMany`
+ */
+export interface PaginationQueryArgs {
+  where?: any;
+  orderBy?: any;
+  select?: any;
+  include?: any;
+}
+
+/**
+ * @description Clamps page number and size and converts them to Prisma `skip/take`
+ */
+export const toPrismaPagination = (
+  params: PaginationParams = {},
+  options: PaginationSchemaOptions = {}
+) => {
+  const { defaultPageSize = 20, maxPageSize = 100 } = options;
+  const pageNo = Math.max(1, Math.floor(Number(params.pageNo) || 1));
+  const pageSize = Math.min(
+    maxPageSize,
+    Math.max(1, Math.floor(Number(params.pageSize) || defaultPageSize))
+  );
+  return { pageNo, pageSize, skip: (pageNo - 1) * pageSize, take: pageSize };
+};
+
+/**
+ * @description Runs `count` and `findMany` for one page in parallel
+ *
+ * @example
+ * const page = await paginate(
+ *   DbClient.getInstance().video,
+ *   { where: { userId }, orderBy: { createdAt: "desc" } },
+ *   req.query
+ * );
+ * return paginatedResponse(page);
+ */
+export const paginate = async <T>(
+  delegate: CountableDelegate<T>,
+  args: PaginationQueryArgs,
+  params: PaginationParams = {},
+  options: PaginationSchemaOptions = {}
+): Promise<PaginatedResult<T>> => {
+  const { pageNo, pageSize, skip, take } = toPrismaPagination(
+    params,
+    options
+  );
+
+  const [total, items] = await Promise.all([
+    delegate.count({ where: args.where }),
+    delegate.findMany({ ...args, skip, take }),
+  ]);
+
+  return {
+    items,
+    total,
+    pageNo,
+    pageSize,
+    hasNext: skip + items.length < total,
+  };
+};
+
+export const encodeCursor = (value: unknown): string =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const invalidCursor = () =>
+  new BadRequestError("Invalid cursor", [
+    { path: "cursor", message: "cursor is invalid" },
+  ]);
+
+/**
+ * @description Decodes a cursor into the value of a unique field; anything
+ * other than a string or finite number would reach Prisma as a filter
+ * @throws BadRequestError if the cursor was not produced by encodeCursor
+ */
+export const decodeCursor = (cursor: string): string | number => {
+  let value: unknown;
+  try {
+    value = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw invalidCursor();
+  }
+  if (
+    typeof value !== "string" &&
+    !(typeof value === "number" && Number.isFinite(value))
+  ) {
+    throw invalidCursor();
+  }
+  return value;
+};
+
+export interface CursorPaginationOptions extends PaginationSchemaOptions {
+  /**
+   * Unique field the cursor points at; must be part of any `select`
+   * @default "id"
+   */
+  cursorField?: string;
+}
+
+/**
+ * @description Keyset pagination for large tables such as `AnalyticsEvent`
+ * or `Video`, where deep offsets get slow. Fetches one extra row to know
+ * whether another page exists. `orderBy` should end with the cursor field
+ * so the order is stable.
+ *
+ * @example
+ * const page = await paginateByCursor(
+ *   DbClient.getInstance().analyticsEvent,
+ *   { where: { userId }, orderBy: [{ timestamp: "desc" }, { id: "desc" }] },
+ *   req.query
+ * );
+ */
+export const paginateByCursor = async <T>(
+  delegate: FindManyDelegate<T>,
+  args: PaginationQueryArgs,
+  params: CursorPaginationParams = {},
+  options: CursorPaginationOptions = {}
+): Promise<CursorPaginatedResult<T>> => {
+  const { cursorField = "id" } = options;
+  const { pageSize } = toPrismaPagination(
+    { pageSize: params.pageSize },
+    options
+  );
+
+  const rows = await delegate.findMany({
+    ...args,
+    orderBy: args.orderBy ?? { [cursorField]: "asc" },
+    take: pageSize + 1,
+    ...(params.cursor && {
+      cursor: { [cursorField]: decodeCursor(params.cursor) },
+      skip: 1,
+    }),
+  });
+
+  const hasNext = rows.length > pageSize;
+  const items = hasNext ? rows.slice(0, pageSize) : rows;
+  const last = items[items.length - 1] as any;
+
+  return {
+    items,
+    pageSize,
+    nextCursor: hasNext && last ? encodeCursor(last[cursorField]) : null,
+    hasNext,
+  };
+};
+
+/**
+ * @description Wraps a page in the standard response envelope
+ */
+export const paginatedResponse = <
+  P extends PaginatedResult<any> | CursorPaginatedResult<any>
+>(
+  page: P,
+  message?: string
+): ApiResponse<P> => ({
+  isSuccess: true,
+  message,
+  data: page,
+});
@@ -0,0 +1,340 @@
+import { ValidationError } from "../core/api/errors";
+
+export type FilterOperator =
+  | "eq"
+  | "in"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "contains";
+
+export type FilterValueType = "string" | "number" | "boolean" | "date" | "enum";
+
+/**
+ * @description How one query field may be filtered
+ */
+export interface FilterFieldSpec {
+  type: FilterValueType;
+
+  /**
+   * Allowed operators
+   * @default ["eq", "in"]
+   */
+  operators?: FilterOperator[];
+
+  /**
+   * Allowed values for `enum` fields, e.g. `Object.values(VideoStatus)`
+   */
+  values?: readonly string[];
+
+  /**
+   * Case-insensitive `contains` (Postgres only)
+   * @default true
+   */
+  insensitive?: boolean;
+}
+
+/**
+ * @description Filterable and sortable fields of one model. Query field
+ * names are the Prisma field names, so the spec is checked against the
+ * model's `WhereInput` and `OrderByWithRelationInput` types.
+ */
+export interface ListQuerySpec<TWhere = any, TOrderBy = any> {
+  filters: { [K in keyof TWhere & string]?: FilterFieldSpec };
+
+  sortable?: Array<keyof TOrderBy & string>;
+
+  /**
+   * Sort applied when the query has none, in `sort` syntax, e.g. "-createdAt"
+   */
+  defaultSort?: string;
+
+  /**
+   * Unique field appended to every sort so the order is stable, which
+   * cursor pagination requires, e.g. "id"
+   */
+  tiebreaker?: keyof TOrderBy & string;
+
+  /**
+   * Query keys that are neither filters nor `sort` but are allowed,
+   * in addition to the pagination keys
+   */
+  ignore?: string[];
+
+  /**
+   * Maximum number of comma-separated values per filter
+   * @default 50
+   */
+  maxValues?: number;
+}
+
+export interface ListQuery<TWhere = any, TOrderBy = any> {
+  where: TWhere;
+  orderBy: TOrderBy[];
+}
+
+const SORT_KEY = "sort";
+const RESERVED_KEYS = [SORT_KEY, "pageNo", "pageSize", "cursor"];
+const OPERATORS: FilterOperator[] = [
+  "eq",
+  "in",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "contains",
+];
+const KEY_PATTERN = /^([A-Za-z_][A-Za-z0-9_]*)(?:\[([A-Za-z]+)\])?$/;
+
+type FieldErrors = Array<{ path: string; message: string }>;
+
+/**
+ * @description Declares a spec with Prisma types, e.g.
+ * `defineListQuery<Prisma.VideoWhereInput, Prisma.VideoOrderByWithRelationInput>({ ... })`
+ */
+export const defineListQuery = <TWhere = any, TOrderBy = any>(
+  spec: ListQuerySpec<TWhere, TOrderBy>
+): ListQuerySpec<TWhere, TOrderBy> => spec;
+
+const splitValues = (raw: unknown): string[] => {
+  const parts = Array.isArray(raw) ? raw : [raw];
+  return parts
+    .reduce<string[]>(
+      (acc, part) => acc.concat(String(part ?? "").split(",")),
+      []
+    )
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+};
+
+const coerce = (
+  field: FilterFieldSpec,
+  raw: string,
+  path: string,
+  errors: FieldErrors
+): unknown => {
+  switch (field.type) {
+    case "number": {
+      const value = Number(raw);
+      if (!Number.isFinite(value)) {
+        errors.push({ path, message: `${path} must be a number` });
+      }
+      return value;
+    }
+    case "boolean":
+      if (raw !== "true" && raw !== "false") {
+        errors.push({ path, message: `${path} must be true or false` });
+      }
+      return raw === "true";
+    case "date": {
+      const value = new Date(raw);
+      if (isNaN(value.getTime())) {
+        errors.push({ path, message: `${path} must be a valid date` });
+      }
+      return value;
+    }
+    case "enum":
+      if (!field.values?.includes(raw)) {
+        errors.push({
+          path,
+          message: `${path} must be one of [${(field.values ?? []).join(", ")}]`,
+        });
+      }
+      return raw;
+    default:
+      return raw;
+  }
+};
+
+/**
+ * @description Collects `field[op]=value` pairs from both query parser
+ * styles: flat keys (`{ "createdAt[gte]": "..." }`) and nested objects
+ * (`{ createdAt: { gte: "..." } }`)
+ */
+const collectConditions = (
+  query: Record<string, unknown>,
+  ignored: string[],
+  errors: FieldErrors
+) => {
+  const conditions: Array<{
+    key: string;
+    field: string;
+    op: string;
+    raw: unknown;
+  }> = [];
+
+  Object.keys(query).forEach((key) => {
+    if (ignored.includes(key)) return;
+
+    const match = KEY_PATTERN.exec(key);
+    if (!match) {
+      errors.push({ path: key, message: `${key} is not a valid filter` });
+      return;
+    }
+
+    const [, field, op] = match;
+    const value = query[key];
+    if (!op && value && typeof value === "object" && !Array.isArray(value)) {
+      Object.keys(value).forEach((nestedOp) => {
+        conditions.push({
+          key: `${field}[${nestedOp}]`,
+          field,
+          op: nestedOp,
+          raw: (value as Record<string, unknown>)[nestedOp],
+        });
+      });
+      return;
+    }
+    conditions.push({ key, field, op: op ?? "eq", raw: value });
+  });
+
+  return conditions;
+};
+
+const parseSort = (
+  spec: ListQuerySpec,
+  raw: unknown,
+  errors: FieldErrors
+): Array<Record<string, "asc" | "desc">> => {
+  const orderBy: Array<Record<string, "asc" | "desc">> = [];
+  const seen: string[] = [];
+
+  splitValues(raw).forEach((term) => {
+    const desc = term.startsWith("-");
+    const field = term.replace(/^[-+]/, "");
+    if (!(spec.sortable ?? []).includes(field)) {
+      errors.push({ path: SORT_KEY, message: `Cannot sort by ${field}` });
+      return;
+    }
+    if (seen.includes(field)) return;
+    seen.push(field);
+    orderBy.push({ [field]: desc ? "desc" : "asc" });
+  });
+
+  if (spec.tiebreaker && !seen.includes(spec.tiebreaker)) {
+    const last = orderBy[orderBy.length - 1];
+    const direction = last ? last[Object.keys(last)[0]] : "asc";
+    orderBy.push({ [spec.tiebreaker]: direction });
+  }
+
+  return orderBy;
+};
+
+/**
+ * @description Parses list query params into Prisma `where` and `orderBy`.
+ * Comma-separated values of an `eq` filter become `in`.
+ *
+ * Supported syntax:
+ * - `status=COMPLETED,FAILED`
+ * - `style[in]=ANIME,CARTOON`
+ * - `createdAt[gte]=2024-01-01&createdAt[lte]=2024-02-01`
+ * - `title[contains]=cat`
+ * - `sort=-createdAt,title`
+ *
+ * @throws ValidationError listing every unknown field, disallowed operator
+ * and invalid value
+ *
+ * @example
+ * const { where, orderBy } = parseListQuery(videoListQuery, req.query);
+ * const page = await paginate(
+ *   DbClient.getInstance().video,
+ *   { where: { AND: [{ userId: req.userId }, where] }, orderBy },
+ *   req.query
+ * );
+ */
+export const parseListQuery = <TWhere, TOrderBy>(
+  spec: ListQuerySpec<TWhere, TOrderBy>,
+  query: Record<string, unknown> = {}
+): ListQuery<TWhere, TOrderBy> => {
+  const errors: FieldErrors = [];
+  const maxValues = spec.maxValues ?? 50;
+  const filters = spec.filters as Record<string, FilterFieldSpec | undefined>;
+  // Query keys are caller input: without a prototype, inherited names such
+  // as `constructor` cannot reach shared objects
+  const where: Record<string, Record<string, unknown>> = Object.create(null);
+
+  const conditions = collectConditions(
+    query,
+    [...RESERVED_KEYS, ...(spec.ignore ?? [])],
+    errors
+  );
+
+  conditions.forEach(({ key, field, op, raw }) => {
+    const fieldSpec = Object.prototype.hasOwnProperty.call(filters, field)
+      ? filters[field]
+      : undefined;
+    if (!fieldSpec) {
+      errors.push({ path: key, message: `${field} is not a filterable field` });
+      return;
+    }
+
+    const allowed = fieldSpec.operators ?? ["eq", "in"];
+    const operator = op as FilterOperator;
+    if (!OPERATORS.includes(operator) || !allowed.includes(operator)) {
+      errors.push({
+        path: key,
+        message: `Operator ${op} is not allowed for ${field}`,
+      });
+      return;
+    }
+
+    const values = splitValues(raw);
+    if (values.length === 0) {
+      errors.push({ path: key, message: `${key} must not be empty` });
+      return;
+    }
+    if (values.length > maxValues) {
+      errors.push({
+        path: key,
+        message: `${key} accepts at most ${maxValues} values`,
+      });
+      return;
+    }
+
+    const condition = (where[field] = where[field] ?? {});
+    const isList =
+      operator === "in" || (operator === "eq" && values.length > 1);
+
+    if (isList) {
+      if (!allowed.includes("in")) {
+        errors.push({ path: key, message: `${key} accepts a single value` });
+        return;
+      }
+      condition.in = values.map((value) =>
+        coerce(fieldSpec, value, key, errors)
+      );
+      return;
+    }
+
+    if (values.length > 1) {
+      errors.push({ path: key, message: `${key} accepts a single value` });
+      return;
+    }
+
+    const value = coerce(fieldSpec, values[0], key, errors);
+    if (operator === "eq") {
+      condition.equals = value;
+    } else if (operator === "contains") {
+      condition.contains = value;
+      if (fieldSpec.insensitive ?? true) condition.mode = "insensitive";
+    } else {
+      condition[operator] = value;
+    }
+  });
+
+  const orderBy = parseSort(
+    spec,
+    query[SORT_KEY] ?? spec.defaultSort,
+    errors
+  );
+
+  if (errors.length > 0) {
+    throw new ValidationError("Validation Error", errors);
+  }
+
+  return {
+    where: where as unknown as TWhere,
+    orderBy: orderBy as unknown as TOrderBy[],
+  };
+};
@@ -0,0 +1,187 @@
+import { createHmac } from "crypto";
+
+/**
+ * @description Redaction settings. Patterns are dot-separated key paths
+ * matched case-insensitively against the end of a value's path, so
+ * `password` matches at any depth while `body.code` only matches `code`
+ * directly under `body`. `*` matches any single key or array index.
+ */
+export interface RedactionConfig {
+  /**
+   * Extra patterns to redact, added to the built-in ones
+   */
+  paths?: string[];
+
+  /**
+   * Replace the built-in patterns instead of extending them
+   * @default false
+   */
+  replaceDefaults?: boolean;
+
+  /**
+   * Patterns whose values are replaced by a keyed hash instead of removed,
+   * so entries about the same person can still be correlated
+   */
+  hashPaths?: string[];
+
+  /**
+   * Key for PII hashes. Values are fully redacted when no key is set.
+   * @default process.env.LOG_HASH_SECRET
+   */
+  hashSecret?: string;
+
+  /**
+   * Replacement for redacted values
+   * @default "[REDACTED]"
+   */
+  censor?: string;
+}
+
+/**
+ * @description Credentials, tokens and OTP fields redacted by default
+ */
+export const DEFAULT_REDACT_PATHS = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+  "x-service-key",
+  "x-service-signature",
+  "password",
+  "secret",
+  "token",
+  "accessToken",
+  "refreshToken",
+  "access_token",
+  "refresh_token",
+  "idToken",
+  "apiKey",
+  "api_key",
+  "signingKey",
+  "internalServiceKey",
+  "otp",
+  "otpCode",
+  "body.code",
+];
+
+const MAX_DEPTH = 10;
+
+const compile = (patterns: string[]) =>
+  patterns.map((pattern) => pattern.toLowerCase().split("."));
+
+const matches = (compiled: string[][], path: string[]): boolean =>
+  compiled.some((pattern) => {
+    if (pattern.length > path.length) return false;
+    const offset = path.length - pattern.length;
+    return pattern.every(
+      (segment, i) => segment === "*" || segment === path[offset + i]
+    );
+  });
+
+/**
+ * @description Removes or hashes sensitive values in log payloads
+ */
+export class Redactor {
+  private readonly redactPatterns: string[][];
+  private readonly hashPatterns: string[][];
+  private readonly censor: string;
+  private readonly hashSecret?: string;
+
+  constructor(config: RedactionConfig = {}) {
+    this.redactPatterns = compile([
+      ...(config.replaceDefaults ? [] : DEFAULT_REDACT_PATHS),
+      ...(config.paths ?? []),
+    ]);
+    this.hashPatterns = compile(config.hashPaths ?? []);
+    this.censor = config.censor ?? "[REDACTED]";
+    this.hashSecret = config.hashSecret ?? process.env.LOG_HASH_SECRET;
+  }
+
+  /**
+   * @description Returns a redacted copy of `value`; the input is not modified
+   */
+  public redact<T>(value: T): T {
+    return this.walk(value, [], 0, new WeakSet()) as T;
+  }
+
+  /**
+   * @description Redacts query parameter values whose names match a pattern
+   */
+  public redactUrl(url: string): string {
+    const queryStart = url.indexOf("?");
+    if (queryStart === -1) return url;
+
+    const params = new URLSearchParams(url.slice(queryStart + 1));
+    let changed = false;
+    params.forEach((value, key) => {
+      const path = ["query", key.toLowerCase()];
+      if (matches(this.redactPatterns, path)) {
+        params.set(key, this.censor);
+        changed = true;
+      } else if (matches(this.hashPatterns, path)) {
+        params.set(key, this.hash(value));
+        changed = true;
+      }
+    });
+    return changed ? `${url.slice(0, queryStart)}?${params.toString()}` : url;
+  }
+
+  private walk(
+    value: unknown,
+    path: string[],
+    depth: number,
+    seen: WeakSet<object>
+  ): unknown {
+    if (value === null || typeof value !== "object") return value;
+    if (value instanceof Date || Buffer.isBuffer(value)) return value;
+    if (seen.has(value)) return "[Circular]";
+    if (depth >= MAX_DEPTH) return "[Truncated]";
+    seen.add(value);
+
+    const visit = (key: string, child: unknown) => {
+      const childPath = [...path, key.toLowerCase()];
+      if (matches(this.redactPatterns, childPath)) return this.censor;
+      if (matches(this.hashPatterns, childPath) && child !== undefined) {
+        return this.hash(child);
+      }
+      return this.walk(child, childPath, depth + 1, seen);
+    };
+
+    // Error fields like message and stack are not enumerable
+    const source: Record<string, unknown> =
+      value instanceof Error
+        ? {
+            type: value.name,
+            message: value.message,
+            stack: value.stack,
+            ...(value as any),
+          }
+        : (value as Record<string, unknown>);
+
+    let result: unknown;
+    if (Array.isArray(value)) {
+      result = value.map((child, index) => visit(String(index), child));
+    } else {
+      const copy: Record<string, unknown> = {};
+      Object.keys(source).forEach((key) => {
+        copy[key] = visit(key, source[key]);
+      });
+      result = copy;
+    }
+
+    seen.delete(value);
+    return result;
+  }
+
+  private hash(value: unknown): string {
+    if (!this.hashSecret) return this.censor;
+    const input =
+      typeof value === "string"
+        ? value.trim().toLowerCase()
+        : JSON.stringify(value);
+    return `hash:${createHmac("sha256", this.hashSecret)
+      .update(input)
+      .digest("hex")
+      .slice(0, 16)}`;
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { PrismaClient } from "../../../src/prisma-client/client";
+import {
+  isRetryableTransactionError,
+  withTransaction,
+} from "../../../src/core/db/transaction";
+
+describe("isRetryableTransactionError", () => {
+  it.each<[string, unknown]>([
+    ["Prisma write conflicts", { code: "P2034" }],
+    [
+      "raw query serialization failures",
+      { code: "P2010", meta: { code: "40001" } },
+    ],
+    ["raw query deadlocks", { code: "P2010", meta: { code: "40P01" } }],
+    ["driver serialization failures", { code: "40001" }],
+  ])("retries %s", (_name, err) => {
+    expect(isRetryableTransactionError(err)).toBe(true);
+  });
+
+  it.each<[string, unknown]>([
+    ["unique violations", { code: "P2002" }],
+    ["messages quoting a SQLSTATE", new Error('Video "40001" not found')],
+    [
+      "raw query errors mentioning one",
+      { code: "P2010", meta: { code: "23505", message: "key (40P01)" } },
+    ],
+    ["missing errors", undefined],
+  ])("does not retry %s", (_name, err) => {
+    expect(isRetryableTransactionError(err)).toBe(false);
+  });
+});
+
+describe("withTransaction", () => {
+  const clientFailing = (...errors: unknown[]) => {
+    const $transaction = jest.fn(async (fn: (tx: unknown) => unknown) => {
+      const err = errors.shift();
+      if (err) throw err;
+      return fn({});
+    });
+    const client = { $transaction } as unknown as PrismaClient;
+    return { client, $transaction };
+  };
+
+  it("re-runs the transaction after a conflict", async () => {
+    const { client, $transaction } = clientFailing({ code: "P2034" });
+
+    await expect(
+      withTransaction(async () => "done", { client })
+    ).resolves.toBe("done");
+    expect($transaction).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up after maxRetries", async () => {
+    const { client, $transaction } = clientFailing(
+      { code: "P2034" },
+      { code: "P2034" }
+    );
+
+    await expect(
+      withTransaction(async () => "done", { client, maxRetries: 1 })
+    ).rejects.toEqual({ code: "P2034" });
+    expect($transaction).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not re-run other failures", async () => {
+    const { client, $transaction } = clientFailing(
+      new Error("could not serialize access (40001)")
+    );
+
+    await expect(
+      withTransaction(async () => "done", { client })
+    ).rejects.toThrow("could not serialize access");
+    expect($transaction).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { DbClient } from "../../../src/core/db/dbClient";
+import { GracefulShutdown } from "../../../src/core/health/shutdown";
+
+describe("GracefulShutdown", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("runs hooks and disconnects Prisma", async () => {
+    const disconnect = jest
+      .spyOn(DbClient, "disconnect")
+      .mockResolvedValue(undefined);
+    const hook = jest.fn(() => {});
+    const shutdown = new GracefulShutdown({ exitProcess: false });
+    shutdown.onShutdown("queue", hook);
+
+    await shutdown.shutdown();
+
+    expect(hook).toHaveBeenCalledTimes(1);
+    expect(disconnect).toHaveBeenCalledTimes(1);
+    expect(shutdown.isShuttingDown).toBe(true);
+  });
+
+  it("keeps going when a hook fails", async () => {
+    jest.spyOn(DbClient, "disconnect").mockResolvedValue(undefined);
+    const after = jest.fn(() => {});
+    const shutdown = new GracefulShutdown({ exitProcess: false })
+      .onShutdown("redis", () => {
+        throw new Error("already closed");
+      })
+      .onShutdown("queue", after);
+
+    await expect(shutdown.shutdown()).resolves.toBeUndefined();
+    expect(after).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects when Prisma fails to disconnect", async () => {
+    jest
+      .spyOn(DbClient, "disconnect")
+      .mockRejectedValue(new Error("connection reset"));
+    const shutdown = new GracefulShutdown({ exitProcess: false });
+
+    await expect(shutdown.shutdown()).rejects.toThrow("connection reset");
+  });
+
+  it("exits with code 1 when shutdown fails", async () => {
+    jest
+      .spyOn(DbClient, "disconnect")
+      .mockRejectedValue(new Error("connection reset"));
+    const exit = jest
+      .spyOn(process, "exit")
+      .mockImplementation((() => undefined) as () => never);
+
+    await new GracefulShutdown().shutdown("SIGTERM");
+
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+});
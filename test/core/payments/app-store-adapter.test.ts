@@ -0,0 +1,119 @@
+import { describe, expect, it } from "@jest/globals";
+import jwt from "jsonwebtoken";
+import { AppStoreAdapter } from "../../../src/core/payments/app-store-adapter";
+import {
+  PaymentWebhookRequest,
+} from "../../../src/core/payments/payment-webhook";
+import { appStoreFixtures } from "../../fixtures/payments/app-store.fixtures";
+
+const { requests } = appStoreFixtures;
+
+const signedDateOf = (request: PaymentWebhookRequest) => {
+  const { signedPayload } = JSON.parse(String(request.rawBody));
+  return new Date((jwt.decode(signedPayload) as jwt.JwtPayload).signedDate);
+};
+
+const createAdapter = (
+  now: Date,
+  options: { environments?: Array<"Production" | "Sandbox"> } = {}
+) =>
+  new AppStoreAdapter({
+    bundleId: appStoreFixtures.bundleId,
+    rootCertificates: [appStoreFixtures.rootCertificate],
+    plans: appStoreFixtures.plans,
+    now: () => now,
+    ...options,
+  });
+
+const verify = (request: PaymentWebhookRequest) =>
+  createAdapter(signedDateOf(request)).verify(request);
+
+describe("AppStoreAdapter", () => {
+  it.each<[keyof typeof requests, string | null]>([
+    ["subscribedTrial", "TRIAL_STARTED"],
+    ["subscribed", "ACTIVATED"],
+    ["didRenew", "RENEWED"],
+    ["didFailToRenew", "PAYMENT_FAILED"],
+    ["upgraded", "UPGRADED"],
+    ["autoRenewDisabled", "CANCELED"],
+    ["expired", "EXPIRED"],
+    ["test", null],
+  ])("maps %s to %s", async (name, type) => {
+    const event = await verify(requests[name]);
+    expect(event.type).toBe(type);
+    expect(event.test).toBe(true);
+  });
+
+  it("normalizes the signed transaction", async () => {
+    const event = await verify(requests.didRenew);
+
+    expect(event).toMatchObject({
+      provider: "APP_STORE",
+      providerEventType: "DID_RENEW",
+      providerId: appStoreFixtures.providerId,
+      userId: appStoreFixtures.userId,
+      plan: "PREMIUM_MONTHLY",
+      amount: "9.99",
+      currency: "USD",
+    });
+    expect(event.periodEnd!.getTime()).toBeGreaterThan(
+      event.periodStart!.getTime()
+    );
+  });
+
+  it("sets the trial end of a free trial", async () => {
+    const event = await verify(requests.subscribedTrial);
+    expect(event.trialEnd).toEqual(event.periodEnd);
+  });
+
+  it("rejects notifications older than maxAgeSeconds", async () => {
+    const request = requests.didRenew;
+    const later = new Date(signedDateOf(request).getTime() + 5 * 86400000);
+
+    await expect(createAdapter(later).verify(request)).rejects.toThrow(
+      "App Store notification expired"
+    );
+  });
+
+  it("rejects chains that do not lead to a configured root", async () => {
+    const request = requests.didRenew;
+    const adapter = new AppStoreAdapter({
+      bundleId: appStoreFixtures.bundleId,
+      rootCertificates: [],
+      plans: appStoreFixtures.plans,
+      now: () => signedDateOf(request),
+    });
+
+    await expect(adapter.verify(request)).rejects.toThrow(
+      "Invalid signed payload"
+    );
+  });
+
+  it("rejects a tampered payload", async () => {
+    const request = requests.subscribed;
+    const { signedPayload } = JSON.parse(String(request.rawBody));
+    const [header, payload, signature] = signedPayload.split(".");
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    const forged = Buffer.from(
+      JSON.stringify({ ...claims, notificationType: "DID_RENEW" })
+    ).toString("base64url");
+
+    await expect(
+      createAdapter(signedDateOf(request)).verify({
+        ...request,
+        rawBody: JSON.stringify({
+          signedPayload: `${header}.${forged}.${signature}`,
+        }),
+      })
+    ).rejects.toThrow("Invalid signed payload");
+  });
+
+  it("rejects environments that are not accepted", async () => {
+    const request = requests.didRenew;
+    await expect(
+      createAdapter(signedDateOf(request), {
+        environments: ["Production"],
+      }).verify(request)
+    ).rejects.toThrow("Environment Sandbox not accepted");
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  GooglePlayAdapter,
+} from "../../../src/core/payments/google-play-adapter";
+import {
+  googlePlayFixtures,
+} from "../../fixtures/payments/google-play.fixtures";
+
+const { requests } = googlePlayFixtures;
+
+const adapter = new GooglePlayAdapter({
+  packageName: googlePlayFixtures.packageName,
+  plans: googlePlayFixtures.plans,
+  verificationToken: googlePlayFixtures.verificationToken,
+});
+
+describe("GooglePlayAdapter", () => {
+  it.each<[keyof typeof requests, string, string | null]>([
+    ["purchased", "SUBSCRIPTION_PURCHASED", "ACTIVATED"],
+    ["renewed", "SUBSCRIPTION_RENEWED", "RENEWED"],
+    ["inGracePeriod", "SUBSCRIPTION_IN_GRACE_PERIOD", "PAYMENT_FAILED"],
+    ["canceled", "SUBSCRIPTION_CANCELED", "CANCELED"],
+    ["expired", "SUBSCRIPTION_EXPIRED", "EXPIRED"],
+    ["voided", "VOIDED_PURCHASE", "EXPIRED"],
+    ["test", "TEST_NOTIFICATION", null],
+  ])("maps %s (%s) to %s", async (name, providerEventType, type) => {
+    const event = await adapter.verify(requests[name]);
+    expect(event).toMatchObject({ providerEventType, type });
+  });
+
+  it("uses the Pub/Sub message ID and purchase token", async () => {
+    const event = await adapter.verify(requests.renewed);
+
+    expect(event).toMatchObject({
+      provider: "GOOGLE_PLAY",
+      providerId: googlePlayFixtures.providerId,
+      plan: "PREMIUM_MONTHLY",
+      test: false,
+    });
+    expect(event.eventId).toMatch(/^\d+$/);
+    // RTDN carries no period; SubscriptionService advances it on renewal
+    expect(event.periodStart).toBeUndefined();
+    expect(event.periodEnd).toBeUndefined();
+  });
+
+  it("rejects a wrong verification token", async () => {
+    await expect(
+      adapter.verify({ ...requests.renewed, query: { token: "wrong" } })
+    ).rejects.toThrow("Invalid verification token");
+  });
+
+  it("rejects notifications for another package", async () => {
+    const other = new GooglePlayAdapter({
+      packageName: "com.example.other",
+      plans: {},
+      verificationToken: googlePlayFixtures.verificationToken,
+    });
+    await expect(other.verify(requests.renewed)).rejects.toThrow(
+      "Unexpected package name"
+    );
+  });
+
+  it("rejects bodies that are not push messages", async () => {
+    await expect(
+      adapter.verify({ ...requests.renewed, rawBody: "{}" })
+    ).rejects.toThrow("Not a Pub/Sub push message");
+  });
+});
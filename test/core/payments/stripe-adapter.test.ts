@@ -0,0 +1,91 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  StripeAdapter,
+  stripeSignatureHeader,
+} from "../../../src/core/payments/stripe-adapter";
+import { ApiErrorCodes } from "../../../src/core/api/api-status";
+import { stripeFixtures } from "../../fixtures/payments/stripe.fixtures";
+
+const { requests } = stripeFixtures;
+
+const createAdapter = (now = stripeFixtures.recordedAt) =>
+  new StripeAdapter({
+    signingSecrets: ["whsec_rotated_out", stripeFixtures.signingSecret],
+    plans: stripeFixtures.plans,
+    now: () => now,
+  });
+
+describe("StripeAdapter", () => {
+  it.each<[keyof typeof requests, string | null]>([
+    ["subscriptionCreatedTrial", "TRIAL_STARTED"],
+    ["invoicePaidFirst", "ACTIVATED"],
+    ["invoicePaidRenewal", "RENEWED"],
+    ["invoicePaymentFailed", "PAYMENT_FAILED"],
+    ["subscriptionUpgraded", "UPGRADED"],
+    ["subscriptionCancelScheduled", "CANCELED"],
+    ["subscriptionDeleted", "EXPIRED"],
+    ["customerUpdated", null],
+  ])("maps %s to %s", async (name, type) => {
+    const event = await createAdapter().verify(requests[name]);
+    expect(event.type).toBe(type);
+    expect(event.test).toBe(true);
+  });
+
+  it("normalizes invoices with amount, period and subscription", async () => {
+    const event = await createAdapter().verify(requests.invoicePaidRenewal);
+
+    expect(event).toMatchObject({
+      provider: "STRIPE",
+      eventId: "evt_1QFixture0003",
+      providerEventType: "invoice.paid",
+      providerId: stripeFixtures.providerId,
+      userId: stripeFixtures.userId,
+      plan: "PREMIUM_MONTHLY",
+      amount: "9.99",
+      currency: "USD",
+    });
+    expect(event.periodEnd!.getTime()).toBeGreaterThan(
+      event.periodStart!.getTime()
+    );
+  });
+
+  it("takes the plan of an upgrade from the new price", async () => {
+    const event = await createAdapter().verify(requests.subscriptionUpgraded);
+    expect(event.plan).toBe("PREMIUM_YEARLY");
+  });
+
+  it("rejects a tampered body", async () => {
+    const request = requests.invoicePaidFirst;
+    await expect(
+      createAdapter().verify({
+        ...request,
+        rawBody: String(request.rawBody).replace("999", "1"),
+      })
+    ).rejects.toMatchObject({
+      code: ApiErrorCodes.INVALID_WEBHOOK,
+      message: "Invalid Stripe signature",
+    });
+  });
+
+  it("rejects a signature outside the tolerance", async () => {
+    const later = new Date(stripeFixtures.recordedAt.getTime() + 301000);
+    await expect(
+      createAdapter(later).verify(requests.invoicePaidFirst)
+    ).rejects.toThrow("Stripe signature timestamp expired");
+  });
+
+  it("rejects a missing signature header", async () => {
+    await expect(
+      createAdapter().verify({ ...requests.invoicePaidFirst, headers: {} })
+    ).rejects.toThrow("Missing Stripe-Signature header");
+  });
+
+  it("accepts bodies signed with stripeSignatureHeader", async () => {
+    const rawBody = String(requests.customerUpdated.rawBody);
+    const timestamp = Math.floor(stripeFixtures.recordedAt.getTime() / 1000);
+
+    expect(
+      stripeSignatureHeader(rawBody, stripeFixtures.signingSecret, timestamp)
+    ).toBe(requests.customerUpdated.headers["stripe-signature"]);
+  });
+});
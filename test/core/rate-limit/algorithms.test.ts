@@ -0,0 +1,118 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from "@jest/globals";
+import {
+  fixedWindow,
+  slidingWindow,
+  tokenBucket,
+} from "../../../src/core/rate-limit/algorithms";
+import { MemoryStore } from "../../../src/core/rate-limit/memory-store";
+
+describe("rate limit algorithms", () => {
+  let store: MemoryStore;
+  let now: number;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    now = Date.UTC(2026, 0, 1, 12, 0, 0);
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await store.shutdown();
+  });
+
+  describe("fixedWindow", () => {
+    it("allows max hits per window, then starts over", async () => {
+      const results = [];
+      for (let i = 0; i < 4; i++) {
+        results.push(await fixedWindow(store, "ip:1", 3, 60000));
+      }
+
+      expect(results.map((result) => result.allowed)).toEqual([
+        true,
+        true,
+        true,
+        false,
+      ]);
+      expect(results[2]).toMatchObject({ remaining: 0, hits: 3, limit: 3 });
+      expect(results[0].resetTime).toBe(now + 60000);
+
+      now += 60000;
+      expect(await fixedWindow(store, "ip:1", 3, 60000)).toMatchObject({
+        allowed: true,
+        hits: 1,
+      });
+    });
+
+    it("counts keys separately", async () => {
+      await fixedWindow(store, "ip:1", 1, 60000);
+      expect((await fixedWindow(store, "ip:2", 1, 60000)).allowed).toBe(true);
+    });
+  });
+
+  describe("slidingWindow", () => {
+    it("weights the previous window by its remaining overlap", async () => {
+      for (let i = 0; i < 10; i++) {
+        await slidingWindow(store, "user:1", 10, 60000);
+      }
+
+      // A quarter into the next window, 75% of the previous 10 hits count
+      now += 60000 + 15000;
+      const result = await slidingWindow(store, "user:1", 10, 60000);
+      expect(result.hits).toBe(1 + 7);
+      expect(result.allowed).toBe(true);
+      expect(result.remaining).toBe(2);
+    });
+
+    it("blocks a burst right after a full window", async () => {
+      for (let i = 0; i < 10; i++) {
+        await slidingWindow(store, "user:1", 10, 60000);
+      }
+
+      now += 60000;
+      expect((await slidingWindow(store, "user:1", 10, 60000)).allowed).toBe(
+        false
+      );
+    });
+  });
+
+  describe("tokenBucket", () => {
+    it("allows a burst up to capacity, then refills evenly", async () => {
+      const results = [];
+      for (let i = 0; i < 6; i++) {
+        results.push(await tokenBucket(store, "user:1", 5, 10000));
+      }
+      expect(results.map((result) => result.allowed)).toEqual([
+        true,
+        true,
+        true,
+        true,
+        true,
+        false,
+      ]);
+
+      // One token comes back every 2 seconds
+      now += 2000;
+      expect(await tokenBucket(store, "user:1", 5, 10000)).toMatchObject({
+        allowed: true,
+        remaining: 0,
+      });
+      expect((await tokenBucket(store, "user:1", 5, 10000)).allowed).toBe(
+        false
+      );
+    });
+
+    it("reports when the bucket is full again", async () => {
+      const result = await tokenBucket(store, "user:1", 5, 10000);
+      expect(result.remaining).toBe(4);
+      expect(result.resetTime).toBe(now + 2000);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { RedisStore } from "../../../src/core/rate-limit/redis-store";
+import { RespClient } from "../../../src/core/rate-limit/resp-client";
+import { fixedWindow } from "../../../src/core/rate-limit/algorithms";
+import { RespStandIn, startRespStandIn } from "../../support/resp-stand-in";
+
+describe("RedisStore", () => {
+  let server: RespStandIn;
+  let store: RedisStore;
+
+  beforeEach(async () => {
+    server = await startRespStandIn();
+    store = new RedisStore({ url: server.url, prefix: "test:" });
+  });
+
+  afterEach(async () => {
+    await store.shutdown();
+    await server.close();
+  });
+
+  it("counts hits within a window", async () => {
+    const first = await store.increment("ip:1", 60000);
+    const second = await store.increment("ip:1", 60000);
+
+    expect(first.totalHits).toBe(1);
+    expect(second.totalHits).toBe(2);
+    expect(second.resetTime).toBeGreaterThan(Date.now() + 59000);
+    expect(await store.get("ip:1")).toMatchObject({ totalHits: 2 });
+  });
+
+  it("starts a new window once the key expired", async () => {
+    await store.increment("ip:1", 20);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    expect(await store.get("ip:1")).toBeNull();
+    expect((await store.increment("ip:1", 20)).totalHits).toBe(1);
+  });
+
+  it("resets a key", async () => {
+    await store.increment("ip:1", 60000);
+    await store.reset("ip:1");
+    expect(await store.get("ip:1")).toBeNull();
+  });
+
+  it("takes back a hit and keeps the window", async () => {
+    await store.increment("ip:1", 60000);
+    await store.increment("ip:1", 60000);
+    await store.decrement("ip:1");
+
+    const counter = await store.get("ip:1");
+    expect(counter?.totalHits).toBe(1);
+    expect(counter?.resetTime).toBeGreaterThan(Date.now() + 59000);
+  });
+
+  it("leaves missing keys alone when decrementing", async () => {
+    await store.decrement("ip:1");
+    expect(await store.get("ip:1")).toBeNull();
+  });
+
+  it("backs the fixed window algorithm", async () => {
+    const allowed = [];
+    for (let i = 0; i < 3; i++) {
+      allowed.push((await fixedWindow(store, "ip:1", 2, 60000)).allowed);
+    }
+    expect(allowed).toEqual([true, true, false]);
+  });
+});
+
+describe("RespClient", () => {
+  let server: RespStandIn;
+
+  beforeEach(async () => {
+    server = await startRespStandIn();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("pipelines commands and answers them in order", async () => {
+    const client = RespClient.fromUrl(server.url);
+    const replies = await Promise.all([
+      client.sendCommand(["SET", "a", "1"]),
+      client.sendCommand(["INCR", "a"]),
+      client.sendCommand(["GET", "a"]),
+      client.sendCommand(["GET", "missing"]),
+    ]);
+
+    expect(replies).toEqual(["OK", 2, "2", null]);
+    await client.quit();
+  });
+
+  it("rejects error replies", async () => {
+    const client = RespClient.fromUrl(server.url);
+    await expect(client.sendCommand(["NOPE"])).rejects.toThrow(
+      "ERR unknown command 'NOPE'"
+    );
+    await client.quit();
+  });
+
+  it("fails pending commands when the server hangs", async () => {
+    const client = new RespClient({
+      port: Number(new URL(server.url).port),
+      commandTimeoutMs: 50,
+    });
+    await client.sendCommand(["PING"]);
+    server.hang();
+
+    const replies = await Promise.allSettled([
+      client.sendCommand(["GET", "a"]),
+      client.sendCommand(["GET", "b"]),
+    ]);
+    expect(replies.map((reply) => reply.status)).toEqual([
+      "rejected",
+      "rejected",
+    ]);
+    expect((replies[0] as PromiseRejectedResult).reason.message).toBe(
+      "Redis command timed out"
+    );
+  });
+
+  it("survives repeated socket errors", async () => {
+    const client = RespClient.fromUrl(server.url);
+    await client.sendCommand(["PING"]);
+    const socket = await (client as any).ensureConnected();
+
+    expect(() => {
+      socket.emit("error", new Error("first"));
+      socket.emit("error", new Error("second"));
+    }).not.toThrow();
+    await client.quit();
+  });
+});
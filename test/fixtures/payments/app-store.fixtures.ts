@@ -0,0 +1,72 @@
+import { SubscriptionPlan } from "../../../src/prisma-client/client";
+import {
+  PaymentWebhookRequest,
+} from "../../../src/core/payments/payment-webhook";
+
+/**
+ * @description Self-signed test root the fixtures chain up to. It carries
+ * no trust outside tests; production uses Apple Root CA - G3.
+ */
+const rootCertificate = `
+  -----BEGIN CERTIFICATE-----
+  MIIBnjCCAUWgAwIBAgIBATAKBggqhkjOPQQDAjA3MRgwFgYDVQQDDA9GaXh0dXJl
+  IFJvb3QgQ0ExGzAZBgNVBAoMEmNsaXBjcmFmdCBmaXh0dXJlczAeFw0yNjEwMTkx
+  ODU1MjRaFw00NjEwMTQxODU1MjRaMDcxGDAWBgNVBAMMD0ZpeHR1cmUgUm9vdCBD
+  QTEbMBkGA1UECgwSY2xpcGNyYWZ0IGZpeHR1cmVzMFkwEwYHKoZIzj0CAQYIKoZI
+  zj0DAQcDQgAEaCshZQTHHqdI1EPi8abyJayqx8F6chh9mQllXrWblKEPx+DUGiNh
+  /XOhnq9mRHz4geIqyTUukMeIl/fbqD/lgqNCMEAwDwYDVR0TAQH/BAUwAwEB/zAO
+  BgNVHQ8BAf8EBAMCAQYwHQYDVR0OBBYEFPMfikrVWR5Zf6uwjZYZTgLAbB0iMAoG
+  CCqGSM49BAMCA0cAMEQCID1PDlh0Xps4I0YRw2njNjqxD6h4338gW5rDAdTrZtfI
+  AiAKmqfhslI7JqasZl/WiXuWo0jSaGVOnBqBpI5Ar1QXJw==
+  -----END CERTIFICATE-----
+`;
+
+const notification = (signedPayload: string): PaymentWebhookRequest => ({
+  headers: { "content-type": "application/json" },
+  rawBody: JSON.stringify({ signedPayload }),
+});
+
+/**
+ * @description App Store Server Notifications V2 from the Sandbox
+ * environment, signed with a test certificate chain that carries Apple's
+ * marker extensions and leads to `rootCertificate`. Notifications expire,
+ * so set the adapter's `now` to each one's `signedDate`.
+ */
+const requests = {
+  subscribedTrial: notification(
+    "eyJhbGciOiJFUzI1NiIsInR5cCI6IkpXVCIsIng1YyI6WyJNSUlCNFRDQ0FZZWdBd0lCQWdJQkF6QUtCZ2dxaGtqT1BRUURBakEvTVNBd0hnWURWUVFEREJkR2FYaDBkWEpsSUVsdWRHVnliV1ZrYVdGMFpTQkRRVEViTUJrR0ExVUVDZ3dTWTJ4cGNHTnlZV1owSUdacGVIUjFjbVZ6TUI0WERUSTJNVEF4T1RFNE5UVXlOVm9YRFRRMk1UQXhOREU0TlRVeU5Wb3dRVEVpTUNBR0ExVUVBd3daUm1sNGRIVnlaU0JCY0hBZ1UzUnZjbVVnVTJsbmJtbHVaekViTUJrR0ExVUVDZ3dTWTJ4cGNHTnlZV1owSUdacGVIUjFjbVZ6TUZrd0V3WUhLb1pJemowQ0FRWUlLb1pJemowREFRY0RRZ0FFZTVCTzdMOGV0OGtqc1RUemY0OXgzMWpWWWp4TFdmQ0l2MjNpbUJacUx1K1A1WVlzSDI3a25IUXdZT1M0eDhkUm9lc2xvUG5jK2xWN1J5L0duSTRsZjZOeU1IQXdEQVlEVlIwVEFRSC9CQUl3QURBT0JnTlZIUThCQWY4RUJBTUNCNEF3SFFZRFZSME9CQllFRkhnWkpaaVpHdHJ2MzRaMkFsUXZPOEhTUVh1SE1COEdBMVVkSXdRWU1CYUFGTEd3OXA3MDBsNXFxNXJZd1FjcXNUakFNSkdZTUJBR0NpcUdTSWIzWTJRR0N3RUVBZ1VBTUFvR0NDcUdTTTQ5QkFNQ0EwZ0FNRVVDSUVQYUQraGhldkVWZ0V0dnh3ZG5Xa1lnditwOU15eVlDT2ZxUEJLd1FZeE9BaUVBdE9tQ21PMlFPWFpFTE5LYWh0aW5WVnVpc2UyekJkY2phTVdxYU0wS2VZZz0iLCJNSUlCM2pDQ0FZT2dBd0lCQWdJQkFqQUtCZ2dxaGtqT1BRUURBakEzTVJnd0ZnWURWUVFEREE5R2FYaDBkWEpsSUZKdmIzUWdRMEV4R3pBWkJnTlZCQW9NRW1Oc2FYQmpjbUZtZENCbWFYaDBkWEpsY3pBZUZ3MHlOakV3TVRreE9EVTFNalZhRncwME5qRXdNVFF4T0RVMU1qVmFNRDh4SURBZUJnTlZCQU1NRjBacGVIUjFjbVVnU1c1MFpYSnRaV1JwWVhSbElFTkJNUnN3R1FZRFZRUUtEQkpqYkdsd1kzSmhablFnWm1sNGRIVnlaWE13V1RBVEJnY3Foa2pPUFFJQkJnZ3Foa2pPUFFNQkJ3TkNBQVNkblZHemZHS2lWRW5aeE9TTTM3YjZJY3FicWZFYzlSVlZrK3A4QWw3RGlleDN3U0pXK0phU0RkUjhJSnVlQkt1bTZGb25TdE8zdTcvVEFnZlExWVpGbzNnd2RqQVNCZ05WSFJNQkFmOEVDREFHQVFIL0FnRUFNQTRHQTFVZER3RUIvd1FFQXdJQkJqQWRCZ05WSFE0RUZnUVVzYkQybnZUU1htcXJtdGpCQnlxeE9NQXdrWmd3SHdZRFZSMGpCQmd3Rm9BVTh4K0tTdFZaSGxsL3E3Q05saGxPQXNCc0hTSXdFQVlLS29aSWh2ZGpaQVlDQVFRQ0JRQXdDZ1lJS29aSXpqMEVBd0lEU1FBd1JnSWhBTDFSR0ttR0poMGU0Y0tBZGRoR3JodVZFNkw5TTdiajIyL0dXenl5NkJDZUFpRUE0QXZkc3ZDY3FWWk9ZVlpQRHJrZFZTeWtmTXdWNVNoL004OVJnNStBcWU4PSIsIk1JSUJuakNDQVVXZ0F3SUJBZ0lCQVRBS0JnZ3Foa2pPUFFRREFqQTNNUmd3RmdZRFZRUUREQTlHYVhoMGRYSmxJRkp2YjNRZ1EwRXhHekFaQmdOVkJBb01FbU5zYVhCamNtRm1kQ0JtYVhoMGRYSmxjekFlRncweU5qRXdNVGt4T0RVMU1qUmFGdzAwTmpFd01UUXhPRFUxTWpSYU1EY3hHREFXQmdOVkJBTU1EMFpwZUhSMWNtVWdVbTl2ZENCRFFURWJNQmtHQTFVRUNnd1NZMnhwY0dOeVlXWjBJR1pwZUhSMWNtVnpNRmt3RXdZSEtvWkl6ajBDQVFZSUtvWkl6ajBEQVFjRFFnQUVhQ3NoWlFUSEhxZEkxRVBpOGFieUpheXF4OEY2Y2hoOW1RbGxYcldibEtFUHgrRFVHaU5oL1hPaG5xOW1SSHo0Z2VJcXlUVXVrTWVJbC9mYnFEL2xncU5DTUVBd0R3WURWUjBUQVFIL0JBVXdBd0VCL3pBT0JnTlZIUThCQWY4RUJBTUNBUVl3SFFZRFZSME9CQllFRlBNZmlrclZXUjVaZjZ1d2paWVpUZ0xBYkIwaU1Bb0dDQ3FHU000OUJBTUNBMGNBTUVRQ0lEMVBEbGgwWHBzNEkwWVJ3Mm5qTmpxeEQ2aDQzMzhnVzVyREFkVHJadGZJQWlBS21xZmhzbEk3SnFhc1psL1dpWHVXbzBqU2FHVk9uQnFCcEk1QXIxUVhKdz09Il19.eyJub3RpZmljYXRpb25UeXBlIjoiU1VCU0NSSUJFRCIsInN1YnR5cGUiOiJJTklUSUFMX0JVWSIsIm5vdGlmaWNhdGlvblVVSUQiOiJiOGUwNTM4YS0wMTBjLTQ0MWYtOTgzNy1hOGQxZDRiMWViOTIiLCJ2ZXJzaW9uIjoiMi4wIiwic2lnbmVkRGF0ZSI6MTc5MjQzODIwMzAwMCwiZGF0YSI6eyJhcHBBcHBsZUlkIjo2NDQ3MDAwMDAxLCJidW5kbGVJZCI6ImNvbS5jbGlwY3JhZnQuYXBwIiwiYnVuZGxlVmVyc2lvbiI6IjQyIiwiZW52aXJvbm1lbnQiOiJTYW5kYm94Iiwic2lnbmVkVHJhbnNhY3Rpb25JbmZvIjoiZXlKaGJHY2lPaUpGVXpJMU5pSXNJblI1Y0NJNklrcFhWQ0lzSW5nMVl5STZXeUpOU1VsQ05GUkRRMEZaWldkQmQwbENRV2RKUWtGNlFVdENaMmR4YUd0cVQxQlJVVVJCYWtFdlRWTkJkMGhuV1VSV1VWRkVSRUprUjJGWWFEQmtXRXBzU1VWc2RXUkhWbmxpVjFacllWZEdNRnBUUWtSUlZFVmlUVUpyUjBFeFZVVkRaM2RUV1RKNGNHTkhUbmxaVjFvd1NVZGFjR1ZJVWpGamJWWjZUVUkwV0VSVVNUSk5WRUY0VDFSRk5FNVVWWGxPVm05WVJGUlJNazFVUVhoT1JFVTBUbFJWZVU1V2IzZFJWRVZwVFVOQlIwRXhWVVZCZDNkYVVtMXNOR1JJVm5sYVUwSkNZMGhCWjFVelVuWmpiVlZuVlRKc2JtSnRiSFZhZWtWaVRVSnJSMEV4VlVWRFozZFRXVEo0Y0dOSFRubFpWMW93U1VkYWNHVklVakZqYlZaNlRVWnJkMFYzV1VoTGIxcEplbW93UTBGUldVbExiMXBKZW1vd1JFRlJZMFJSWjBGRlpUVkNUemRNT0dWME9HdHFjMVJVZW1ZME9YZ3pNV3BXV1dwNFRGZG1RMGwyTWpOcGJVSmFjVXgxSzFBMVdWbHpTREkzYTI1SVVYZFpUMU0wZURoa1VtOWxjMnh2VUc1aksyeFdOMUo1TDBkdVNUUnNaalpPZVUxSVFYZEVRVmxFVmxJd1ZFRlJTQzlDUVVsM1FVUkJUMEpuVGxaSVVUaENRV1k0UlVKQlRVTkNORUYzU0ZGWlJGWlNNRTlDUWxsRlJraG5Xa3BhYVZwSGRISjJNelJhTWtGc1VYWlBPRWhUVVZoMVNFMUNPRWRCTVZWa1NYZFJXVTFDWVVGR1RFZDNPWEEzTURCc05YRnhOWEpaZDFGamNYTlVha0ZOU2tkWlRVSkJSME5wY1VkVFNXSXpXVEpSUjBOM1JVVkJaMVZCVFVGdlIwTkRjVWRUVFRRNVFrRk5RMEV3WjBGTlJWVkRTVVZRWVVRcmFHaGxka1ZXWjBWMGRuaDNaRzVYYTFsbmRpdHdPVTE1ZVZsRFQyWnhVRUpMZDFGWmVFOUJhVVZCZEU5dFEyMVBNbEZQV0ZwRlRFNUxZV2gwYVc1V1ZuVnBjMlV5ZWtKa1kycGhUVmR4WVUwd1MyVlpaejBpTENKTlNVbENNMnBEUTBGWlQyZEJkMGxDUVdkSlFrRnFRVXRDWjJkeGFHdHFUMUJSVVVSQmFrRXpUVkpuZDBabldVUldVVkZFUkVFNVIyRllhREJrV0Vwc1NVWktkbUl6VVdkUk1FVjRSM3BCV2tKblRsWkNRVzlOUlcxT2MyRllRbXBqYlVadFpFTkNiV0ZZYURCa1dFcHNZM3BCWlVaM01IbE9ha1YzVFZScmVFOUVWVEZOYWxaaFJuY3dNRTVxUlhkTlZGRjRUMFJWTVUxcVZtRk5SRGg0U1VSQlpVSm5UbFpDUVUxTlJqQmFjR1ZJVWpGamJWVm5VMWMxTUZwWVNuUmFWMUp3V1ZoU2JFbEZUa0pOVW5OM1IxRlpSRlpSVVV0RVFrcHFZa2RzZDFrelNtaGFibEZuV20xc05HUklWbmxhV0UxM1YxUkJWRUpuWTNGb2EycFBVRkZKUWtKblozRm9hMnBQVUZGTlFrSjNUa05CUVZOa2JsWkhlbVpIUzJsV1JXNWFlRTlUVFRNM1lqWkpZM0ZpY1daRll6bFNWbFpySzNBNFFXdzNSR2xsZUROM1UwcFhLMHBoVTBSa1VqaEpTblZsUWt0MWJUWkdiMjVUZEU4emRUY3ZWRUZuWmxFeFdWcEdiek5uZDJScVFWTkNaMDVXU0ZKTlFrRm1PRVZEUkVGSFFWRklMMEZuUlVGTlFUUkhRVEZWWkVSM1JVSXZkMUZGUVhkSlFrSnFRV1JDWjA1V1NGRTBSVVpuVVZWellrUXliblpVVTFodGNYSnRkR3BDUW5seGVFOU5RWGRyV21kM1NIZFpSRlpTTUdwQ1FtZDNSbTlCVlRoNEswdFRkRlphU0d4c0wzRTNRMDVzYUd4UFFYTkNjMGhUU1hkRlFWbExTMjlhU1doMlpHcGFRVmxEUVZGUlEwSlJRWGREWjFsSlMyOWFTWHBxTUVWQmQwbEVVMUZCZDFKblNXaEJUREZTUjB0dFIwcG9NR1UwWTB0QlpHUm9SM0pvZFZaRk5rdzVUVGRpYWpJeUwwZFhlbmw1TmtKRFpVRnBSVUUwUVhaa2MzWkRZM0ZXV2s5WlZscFFSSEpyWkZaVGVXdG1UWGRXTlZOb0wwMDRPVkpuTlN0QmNXVTRQU0lzSWsxSlNVSnVha05EUVZWWFowRjNTVUpCWjBsQ1FWUkJTMEpuWjNGb2EycFBVRkZSUkVGcVFUTk5VbWQzUm1kWlJGWlJVVVJFUVRsSFlWaG9NR1JZU214SlJrcDJZak5SWjFFd1JYaEhla0ZhUW1kT1ZrSkJiMDFGYlU1ellWaENhbU50Um0xa1EwSnRZVmhvTUdSWVNteGpla0ZsUm5jd2VVNXFSWGROVkd0NFQwUlZNVTFxVW1GR2R6QXdUbXBGZDAxVVVYaFBSRlV4VFdwU1lVMUVZM2hIUkVGWFFtZE9Wa0pCVFUxRU1GcHdaVWhTTVdOdFZXZFZiVGwyWkVOQ1JGRlVSV0pOUW10SFFURlZSVU5uZDFOWk1uaHdZMGRPZVZsWFdqQkpSMXB3WlVoU01XTnRWbnBOUm10M1JYZFpTRXR2V2tsNmFqQkRRVkZaU1V0dldrbDZhakJFUVZGalJGRm5RVVZoUTNOb1dsRlVTRWh4WkVreFJWQnBPR0ZpZVVwaGVYRjRPRVkyWTJob09XMVJiR3hZY2xkaWJFdEZVSGdyUkZWSGFVNW9MMWhQYUc1eE9XMVNTSG8wWjJWSmNYbFVWWFZyVFdWSmJDOW1ZbkZFTDJ4bmNVNURUVVZCZDBSM1dVUldVakJVUVZGSUwwSkJWWGRCZDBWQ0wzcEJUMEpuVGxaSVVUaENRV1k0UlVKQlRVTkJVVmwzU0ZGWlJGWlNNRTlDUWxsRlJsQk5abWxyY2xaWFVqVmFaaloxZDJwYVdWcFVaMHhCWWtJd2FVMUJiMGREUTNGSFUwMDBPVUpCVFVOQk1HTkJUVVZSUTBsRU1WQkViR2d3V0hCek5Fa3dXVkozTW01cVRtcHhlRVEyYURRek16aG5WelZ5UkVGa1ZISmFkR1pKUVdsQlMyMXhabWh6YkVrM1NuRmhjMXBzTDFkcFdIVlhiekJxVTJGSFZrOXVRbkZDY0VrMVFYSXhVVmhLZHowOUlsMTkuZXlKMGNtRnVjMkZqZEdsdmJrbGtJam9pTWpBd01EQXdNREV3TVNJc0ltOXlhV2RwYm1Gc1ZISmhibk5oWTNScGIyNUpaQ0k2SWpJd01EQXdNREEzTURBd01EQXdNREVpTENKM1pXSlBjbVJsY2t4cGJtVkpkR1Z0U1dRaU9pSXlNREF3TURBd01UQXhPU0lzSW1KMWJtUnNaVWxrSWpvaVkyOXRMbU5zYVhCamNtRm1kQzVoY0hBaUxDSndjbTlrZFdOMFNXUWlPaUpqYjIwdVkyeHBjR055WVdaMExuQnlaVzFwZFcwdWJXOXVkR2hzZVNJc0luTjFZbk5qY21sd2RHbHZia2R5YjNWd1NXUmxiblJwWm1sbGNpSTZJakl4TkRVd01EQXhJaXdpY0hWeVkyaGhjMlZFWVhSbElqb3hOemt5TkRNNE1qQXdNREF3TENKdmNtbG5hVzVoYkZCMWNtTm9ZWE5sUkdGMFpTSTZNVGM1TWpRek9ESXdNREF3TUN3aVpYaHdhWEpsYzBSaGRHVWlPakUzT1RNd05ETXdNREF3TURBc0luRjFZVzUwYVhSNUlqb3hMQ0owZVhCbElqb2lRWFYwYnkxU1pXNWxkMkZpYkdVZ1UzVmljMk55YVhCMGFXOXVJaXdpWVhCd1FXTmpiM1Z1ZEZSdmEyVnVJam9pTldZd1l6ZG1OMlV0TW1RMU5TMDBZVGhsTFRsa01XVXRNMkkyWVRKak9XVXdaakV4SWl3aWFXNUJjSEJQZDI1bGNuTm9hWEJVZVhCbElqb2lVRlZTUTBoQlUwVkVJaXdpYzJsbmJtVmtSR0YwWlNJNk1UYzVNalF6T0RJd01UQXdNQ3dpWlc1MmFYSnZibTFsYm5RaU9pSlRZVzVrWW05NElpd2lkSEpoYm5OaFkzUnBiMjVTWldGemIyNGlPaUpRVlZKRFNFRlRSU0lzSW5OMGIzSmxabkp2Ym5RaU9pSlZVMEVpTENKemRHOXlaV1p5YjI1MFNXUWlPaUl4TkRNME5ERWlMQ0p3Y21salpTSTZNQ3dpWTNWeWNtVnVZM2tpT2lKVlUwUWlMQ0p2Wm1abGNsUjVjR1VpT2pFc0ltOW1abVZ5UkdselkyOTFiblJVZVhCbElqb2lSbEpGUlY5VVVrbEJUQ0o5LmFXY0wtcFlmS1MxQmRubDBRU2c1WkhLSjVBNHUtZVBsTGktYmtEQVFkVEdkbVFrcU9HMTFEb1RHMTVYbEpoTjg2ZklNQ0hoM2t0WnNLZkVaaUpnM1R3Iiwic3RhdHVzIjoxfX0.I2sdI-ZB9qg0f4TeIf42YVv69yBC0DhJhuiGL5xOB-nFLWd95CAlT2sNA9jtW9oFlUzvvdIB31L1Zv_GeL4_-w"
+  ),
+  subscribed: notification(
+    "eyJhbGciOiJFUzI1NiIsInR5cCI6IkpXVCIsIng1YyI6WyJNSUlCNFRDQ0FZZWdBd0lCQWdJQkF6QUtCZ2dxaGtqT1BRUURBakEvTVNBd0hnWURWUVFEREJkR2FYaDBkWEpsSUVsdWRHVnliV1ZrYVdGMFpTQkRRVEViTUJrR0ExVUVDZ3dTWTJ4cGNHTnlZV1owSUdacGVIUjFjbVZ6TUI0WERUSTJNVEF4T1RFNE5UVXlOVm9YRFRRMk1UQXhOREU0TlRVeU5Wb3dRVEVpTUNBR0ExVUVBd3daUm1sNGRIVnlaU0JCY0hBZ1UzUnZjbVVnVTJsbmJtbHVaekViTUJrR0ExVUVDZ3dTWTJ4cGNHTnlZV1owSUdacGVIUjFjbVZ6TUZrd0V3WUhLb1pJemowQ0FRWUlLb1pJemowREFRY0RRZ0FFZTVCTzdMOGV0OGtqc1RUemY0OXgzMWpWWWp4TFdmQ0l2MjNpbUJacUx1K1A1WVlzSDI3a25IUXdZT1M0eDhkUm9lc2xvUG5jK2xWN1J5L0duSTRsZjZOeU1IQXdEQVlEVlIwVEFRSC9CQUl3QURBT0JnTlZIUThCQWY4RUJBTUNCNEF3SFFZRFZSME9CQllFRkhnWkpaaVpHdHJ2MzRaMkFsUXZPOEhTUVh1SE1COEdBMVVkSXdRWU1CYUFGTEd3OXA3MDBsNXFxNXJZd1FjcXNUakFNSkdZTUJBR0NpcUdTSWIzWTJRR0N3RUVBZ1VBTUFvR0NDcUdTTTQ5QkFNQ0EwZ0FNRVVDSUVQYUQraGhldkVWZ0V0dnh3ZG5Xa1lnditwOU15eVlDT2ZxUEJLd1FZeE9BaUVBdE9tQ21PMlFPWFpFTE5LYWh0aW5WVnVpc2UyekJkY2phTVdxYU0wS2VZZz0iLCJNSUlCM2pDQ0FZT2dBd0lCQWdJQkFqQUtCZ2dxaGtqT1BRUURBakEzTVJnd0ZnWURWUVFEREE5R2FYaDBkWEpsSUZKdmIzUWdRMEV4R3pBWkJnTlZCQW9NRW1Oc2FYQmpjbUZtZENCbWFYaDBkWEpsY3pBZUZ3MHlOakV3TVRreE9EVTFNalZhRncwME5qRXdNVFF4T0RVMU1qVmFNRDh4SURBZUJnTlZCQU1NRjBacGVIUjFjbVVnU1c1MFpYSnRaV1JwWVhSbElFTkJNUnN3R1FZRFZRUUtEQkpqYkdsd1kzSmhablFnWm1sNGRIVnlaWE13V1RBVEJnY3Foa2pPUFFJQkJnZ3Foa2pPUFFNQkJ3TkNBQVNkblZHemZHS2lWRW5aeE9TTTM3YjZJY3FicWZFYzlSVlZrK3A4QWw3RGlleDN3U0pXK0phU0RkUjhJSnVlQkt1bTZGb25TdE8zdTcvVEFnZlExWVpGbzNnd2RqQVNCZ05WSFJNQkFmOEVDREFHQVFIL0FnRUFNQTRHQTFVZER3RUIvd1FFQXdJQkJqQWRCZ05WSFE0RUZnUVVzYkQybnZUU1htcXJtdGpCQnlxeE9NQXdrWmd3SHdZRFZSMGpCQmd3Rm9BVTh4K0tTdFZaSGxsL3E3Q05saGxPQXNCc0hTSXdFQVlLS29aSWh2ZGpaQVlDQVFRQ0JRQXdDZ1lJS29aSXpqMEVBd0lEU1FBd1JnSWhBTDFSR0ttR0poMGU0Y0tBZGRoR3JodVZFNkw5TTdiajIyL0dXenl5NkJDZUFpRUE0QXZkc3ZDY3FWWk9ZVlpQRHJrZFZTeWtmTXdWNVNoL004OVJnNStBcWU4PSIsIk1JSUJuakNDQVVXZ0F3SUJBZ0lCQVRBS0JnZ3Foa2pPUFFRREFqQTNNUmd3RmdZRFZRUUREQTlHYVhoMGRYSmxJRkp2YjNRZ1EwRXhHekFaQmdOVkJBb01FbU5zYVhCamNtRm1kQ0JtYVhoMGRYSmxjekFlRncweU5qRXdNVGt4T0RVMU1qUmFGdzAwTmpFd01UUXhPRFUxTWpSYU1EY3hHREFXQmdOVkJBTU1EMFpwZUhSMWNtVWdVbTl2ZENCRFFURWJNQmtHQTFVRUNnd1NZMnhwY0dOeVlXWjBJR1pwZUhSMWNtVnpNRmt3RXdZSEtvWkl6ajBDQVFZSUtvWkl6ajBEQVFjRFFnQUVhQ3NoWlFUSEhxZEkxRVBpOGFieUpheXF4OEY2Y2hoOW1RbGxYcldibEtFUHgrRFVHaU5oL1hPaG5xOW1SSHo0Z2VJcXlUVXVrTWVJbC9mYnFEL2xncU5DTUVBd0R3WURWUjBUQVFIL0JBVXdBd0VCL3pBT0JnTlZIUThCQWY4RUJBTUNBUVl3SFFZRFZSME9CQllFRlBNZmlrclZXUjVaZjZ1d2paWVpUZ0xBYkIwaU1Bb0dDQ3FHU000OUJBTUNBMGNBTUVRQ0lEMVBEbGgwWHBzNEkwWVJ3Mm5qTmpxeEQ2aDQzMzhnVzVyREFkVHJadGZJQWlBS21xZmhzbEk3SnFhc1psL1dpWHVXbzBqU2FHVk9uQnFCcEk1QXIxUVhKdz09Il19.eyJub3RpZmljYXRpb25UeXBlIjoiU1VCU0NSSUJFRCIsInN1YnR5cGUiOiJJTklUSUFMX0JVWSIsIm5vdGlmaWNhdGlvblVVSUQiOiIwZmM4ZTUwMy02NzAwLTRkNjMtODg5Yy0yMmM0MTdjMGRjODQiLCJ2ZXJzaW9uIjoiMi4wIiwic2lnbmVkRGF0ZSI6MTc5MjQzODIwMzAwMCwiZGF0YSI6eyJhcHBBcHBsZUlkIjo2NDQ3MDAwMDAxLCJidW5kbGVJZCI6ImNvbS5jbGlwY3JhZnQuYXBwIiwiYnVuZGxlVmVyc2lvbiI6IjQyIiwiZW52aXJvbm1lbnQiOiJTYW5kYm94Iiwic2lnbmVkVHJhbnNhY3Rpb25JbmZvIjoiZXlKaGJHY2lPaUpGVXpJMU5pSXNJblI1Y0NJNklrcFhWQ0lzSW5nMVl5STZXeUpOU1VsQ05GUkRRMEZaWldkQmQwbENRV2RKUWtGNlFVdENaMmR4YUd0cVQxQlJVVVJCYWtFdlRWTkJkMGhuV1VSV1VWRkVSRUprUjJGWWFEQmtXRXBzU1VWc2RXUkhWbmxpVjFacllWZEdNRnBUUWtSUlZFVmlUVUpyUjBFeFZVVkRaM2RUV1RKNGNHTkhUbmxaVjFvd1NVZGFjR1ZJVWpGamJWWjZUVUkwV0VSVVNUSk5WRUY0VDFSRk5FNVVWWGxPVm05WVJGUlJNazFVUVhoT1JFVTBUbFJWZVU1V2IzZFJWRVZwVFVOQlIwRXhWVVZCZDNkYVVtMXNOR1JJVm5sYVUwSkNZMGhCWjFVelVuWmpiVlZuVlRKc2JtSnRiSFZhZWtWaVRVSnJSMEV4VlVWRFozZFRXVEo0Y0dOSFRubFpWMW93U1VkYWNHVklVakZqYlZaNlRVWnJkMFYzV1VoTGIxcEplbW93UTBGUldVbExiMXBKZW1vd1JFRlJZMFJSWjBGRlpUVkNUemRNT0dWME9HdHFjMVJVZW1ZME9YZ3pNV3BXV1dwNFRGZG1RMGwyTWpOcGJVSmFjVXgxSzFBMVdWbHpTREkzYTI1SVVYZFpUMU0wZURoa1VtOWxjMnh2VUc1aksyeFdOMUo1TDBkdVNUUnNaalpPZVUxSVFYZEVRVmxFVmxJd1ZFRlJTQzlDUVVsM1FVUkJUMEpuVGxaSVVUaENRV1k0UlVKQlRVTkNORUYzU0ZGWlJGWlNNRTlDUWxsRlJraG5Xa3BhYVZwSGRISjJNelJhTWtGc1VYWlBPRWhUVVZoMVNFMUNPRWRCTVZWa1NYZFJXVTFDWVVGR1RFZDNPWEEzTURCc05YRnhOWEpaZDFGamNYTlVha0ZOU2tkWlRVSkJSME5wY1VkVFNXSXpXVEpSUjBOM1JVVkJaMVZCVFVGdlIwTkRjVWRUVFRRNVFrRk5RMEV3WjBGTlJWVkRTVVZRWVVRcmFHaGxka1ZXWjBWMGRuaDNaRzVYYTFsbmRpdHdPVTE1ZVZsRFQyWnhVRUpMZDFGWmVFOUJhVVZCZEU5dFEyMVBNbEZQV0ZwRlRFNUxZV2gwYVc1V1ZuVnBjMlV5ZWtKa1kycGhUVmR4WVUwd1MyVlpaejBpTENKTlNVbENNMnBEUTBGWlQyZEJkMGxDUVdkSlFrRnFRVXRDWjJkeGFHdHFUMUJSVVVSQmFrRXpUVkpuZDBabldVUldVVkZFUkVFNVIyRllhREJrV0Vwc1NVWktkbUl6VVdkUk1FVjRSM3BCV2tKblRsWkNRVzlOUlcxT2MyRllRbXBqYlVadFpFTkNiV0ZZYURCa1dFcHNZM3BCWlVaM01IbE9ha1YzVFZScmVFOUVWVEZOYWxaaFJuY3dNRTVxUlhkTlZGRjRUMFJWTVUxcVZtRk5SRGg0U1VSQlpVSm5UbFpDUVUxTlJqQmFjR1ZJVWpGamJWVm5VMWMxTUZwWVNuUmFWMUp3V1ZoU2JFbEZUa0pOVW5OM1IxRlpSRlpSVVV0RVFrcHFZa2RzZDFrelNtaGFibEZuV20xc05HUklWbmxhV0UxM1YxUkJWRUpuWTNGb2EycFBVRkZKUWtKblozRm9hMnBQVUZGTlFrSjNUa05CUVZOa2JsWkhlbVpIUzJsV1JXNWFlRTlUVFRNM1lqWkpZM0ZpY1daRll6bFNWbFpySzNBNFFXdzNSR2xsZUROM1UwcFhLMHBoVTBSa1VqaEpTblZsUWt0MWJUWkdiMjVUZEU4emRUY3ZWRUZuWmxFeFdWcEdiek5uZDJScVFWTkNaMDVXU0ZKTlFrRm1PRVZEUkVGSFFWRklMMEZuUlVGTlFUUkhRVEZWWkVSM1JVSXZkMUZGUVhkSlFrSnFRV1JDWjA1V1NGRTBSVVpuVVZWellrUXliblpVVTFodGNYSnRkR3BDUW5seGVFOU5RWGRyV21kM1NIZFpSRlpTTUdwQ1FtZDNSbTlCVlRoNEswdFRkRlphU0d4c0wzRTNRMDVzYUd4UFFYTkNjMGhUU1hkRlFWbExTMjlhU1doMlpHcGFRVmxEUVZGUlEwSlJRWGREWjFsSlMyOWFTWHBxTUVWQmQwbEVVMUZCZDFKblNXaEJUREZTUjB0dFIwcG9NR1UwWTB0QlpHUm9SM0pvZFZaRk5rdzVUVGRpYWpJeUwwZFhlbmw1TmtKRFpVRnBSVUUwUVhaa2MzWkRZM0ZXV2s5WlZscFFSSEpyWkZaVGVXdG1UWGRXTlZOb0wwMDRPVkpuTlN0QmNXVTRQU0lzSWsxSlNVSnVha05EUVZWWFowRjNTVUpCWjBsQ1FWUkJTMEpuWjNGb2EycFBVRkZSUkVGcVFUTk5VbWQzUm1kWlJGWlJVVVJFUVRsSFlWaG9NR1JZU214SlJrcDJZak5SWjFFd1JYaEhla0ZhUW1kT1ZrSkJiMDFGYlU1ellWaENhbU50Um0xa1EwSnRZVmhvTUdSWVNteGpla0ZsUm5jd2VVNXFSWGROVkd0NFQwUlZNVTFxVW1GR2R6QXdUbXBGZDAxVVVYaFBSRlV4VFdwU1lVMUVZM2hIUkVGWFFtZE9Wa0pCVFUxRU1GcHdaVWhTTVdOdFZXZFZiVGwyWkVOQ1JGRlVSV0pOUW10SFFURlZSVU5uZDFOWk1uaHdZMGRPZVZsWFdqQkpSMXB3WlVoU01XTnRWbnBOUm10M1JYZFpTRXR2V2tsNmFqQkRRVkZaU1V0dldrbDZhakJFUVZGalJGRm5RVVZoUTNOb1dsRlVTRWh4WkVreFJWQnBPR0ZpZVVwaGVYRjRPRVkyWTJob09XMVJiR3hZY2xkaWJFdEZVSGdyUkZWSGFVNW9MMWhQYUc1eE9XMVNTSG8wWjJWSmNYbFVWWFZyVFdWSmJDOW1ZbkZFTDJ4bmNVNURUVVZCZDBSM1dVUldVakJVUVZGSUwwSkJWWGRCZDBWQ0wzcEJUMEpuVGxaSVVUaENRV1k0UlVKQlRVTkJVVmwzU0ZGWlJGWlNNRTlDUWxsRlJsQk5abWxyY2xaWFVqVmFaaloxZDJwYVdWcFVaMHhCWWtJd2FVMUJiMGREUTNGSFUwMDBPVUpCVFVOQk1HTkJUVVZSUTBsRU1WQkViR2d3V0hCek5Fa3dXVkozTW01cVRtcHhlRVEyYURRek16aG5WelZ5UkVGa1ZISmFkR1pKUVdsQlMyMXhabWh6YkVrM1NuRmhjMXBzTDFkcFdIVlhiekJxVTJGSFZrOXVRbkZDY0VrMVFYSXhVVmhLZHowOUlsMTkuZXlKMGNtRnVjMkZqZEdsdmJrbGtJam9pTWpBd01EQXdNREV3TWlJc0ltOXlhV2RwYm1Gc1ZISmhibk5oWTNScGIyNUpaQ0k2SWpJd01EQXdNREEzTURBd01EQXdNREVpTENKM1pXSlBjbVJsY2t4cGJtVkpkR1Z0U1dRaU9pSXlNREF3TURBd01UQXlPU0lzSW1KMWJtUnNaVWxrSWpvaVkyOXRMbU5zYVhCamNtRm1kQzVoY0hBaUxDSndjbTlrZFdOMFNXUWlPaUpqYjIwdVkyeHBjR055WVdaMExuQnlaVzFwZFcwdWJXOXVkR2hzZVNJc0luTjFZbk5qY21sd2RHbHZia2R5YjNWd1NXUmxiblJwWm1sbGNpSTZJakl4TkRVd01EQXhJaXdpY0hWeVkyaGhjMlZFWVhSbElqb3hOemt5TkRNNE1qQXdNREF3TENKdmNtbG5hVzVoYkZCMWNtTm9ZWE5sUkdGMFpTSTZNVGM1TWpRek9ESXdNREF3TUN3aVpYaHdhWEpsYzBSaGRHVWlPakUzT1RVd016QXlNREF3TURBc0luRjFZVzUwYVhSNUlqb3hMQ0owZVhCbElqb2lRWFYwYnkxU1pXNWxkMkZpYkdVZ1UzVmljMk55YVhCMGFXOXVJaXdpWVhCd1FXTmpiM1Z1ZEZSdmEyVnVJam9pTldZd1l6ZG1OMlV0TW1RMU5TMDBZVGhsTFRsa01XVXRNMkkyWVRKak9XVXdaakV4SWl3aWFXNUJjSEJQZDI1bGNuTm9hWEJVZVhCbElqb2lVRlZTUTBoQlUwVkVJaXdpYzJsbmJtVmtSR0YwWlNJNk1UYzVNalF6T0RJd01UQXdNQ3dpWlc1MmFYSnZibTFsYm5RaU9pSlRZVzVrWW05NElpd2lkSEpoYm5OaFkzUnBiMjVTWldGemIyNGlPaUpRVlZKRFNFRlRSU0lzSW5OMGIzSmxabkp2Ym5RaU9pSlZVMEVpTENKemRHOXlaV1p5YjI1MFNXUWlPaUl4TkRNME5ERWlMQ0p3Y21salpTSTZPVGs1TUN3aVkzVnljbVZ1WTNraU9pSlZVMFFpZlEuUUFsZXE5ZWRwd25mM1NfSDNsNUpzRTVFOHVoa3VYcHBob3Zqakh1aS1oMWljdEp3aGFTQ0d2X2c4UG5pSzVKcW15SEhwN3Bqd2VtRnlwelVXaHlIckEiLCJzdGF0dXMiOjF9fQ.A4KdVBW0m8fs5CbqzCsB2StJ-JXHbav7I_-iLlHIBnvyu_z3hsR9jhzSnThZhipOPL_I3UpWLr16SltR7i220A"
+  ),
+  didRenew: notification(
+    "eyJhbGciOiJFUzI1NiIsInR5cCI6IkpXVCIsIng1YyI6WyJNSUlCNFRDQ0FZZWdBd0lCQWdJQkF6QUtCZ2dxaGtqT1BRUURBakEvTVNBd0hnWURWUVFEREJkR2FYaDBkWEpsSUVsdWRHVnliV1ZrYVdGMFpTQkRRVEViTUJrR0ExVUVDZ3dTWTJ4cGNHTnlZV1owSUdacGVIUjFjbVZ6TUI0WERUSTJNVEF4T1RFNE5UVXlOVm9YRFRRMk1UQXhOREU0TlRVeU5Wb3dRVEVpTUNBR0ExVUVBd3daUm1sNGRIVnlaU0JCY0hBZ1UzUnZjbVVnVTJsbmJtbHVaekViTUJrR0ExVUVDZ3dTWTJ4cGNHTnlZV1owSUdacGVIUjFjbVZ6TUZrd0V3WUhLb1pJemowQ0FRWUlLb1pJemowREFRY0RRZ0FFZTVCTzdMOGV0OGtqc1RUemY0OXgzMWpWWWp4TFdmQ0l2MjNpbUJacUx1K1A1WVlzSDI3a25IUXdZT1M0eDhkUm9lc2xvUG5jK2xWN1J5L0duSTRsZjZOeU1IQXdEQVlEVlIwVEFRSC9CQUl3QURBT0JnTlZIUThCQWY4RUJBTUNCNEF3SFFZRFZSME9CQllFRkhnWkpaaVpHdHJ2MzRaMkFsUXZPOEhTUVh1SE1COEdBMVVkSXdRWU1CYUFGTEd3OXA3MDBsNXFxNXJZd1FjcXNUakFNSkdZTUJBR0NpcUdTSWIzWTJRR0N3RUVBZ1VBTUFvR0NDcUdTTTQ5QkFNQ0EwZ0FNRVVDSUVQYUQraGhldkVWZ0V0dnh3ZG5Xa1lnditwOU15eVlDT2ZxUEJLd1FZeE9BaUVBdE9tQ21PMlFPWFpFTE5LYWh0aW5WVnVpc2UyekJkY2phTVdxYU0wS2VZZz0iLCJNSUlCM2pDQ0FZT2dBd0lCQWdJQkFqQUtCZ2dxaGtqT1BRUURBakEzTVJnd0ZnWURWUVFEREE5R2FYaDBkWEpsSUZKdmIzUWdRMEV4R3pBWkJnTlZCQW9NRW1Oc2FYQmpjbUZtZENCbWFYaDBkWEpsY3pBZUZ3MHlOakV3TVRreE9EVTFNalZhRncwME5qRXdNVFF4T0RVMU1qVmFNRDh4SURBZUJnTlZCQU1NRjBacGVIUjFjbVVnU1c1MFpYSnRaV1JwWVhSbElFTkJNUnN3R1FZRFZRUUtEQkpqYkdsd1kzSmhablFnWm1sNGRIVnlaWE13V1RBVEJnY3Foa2pPUFFJQkJnZ3Foa2pPUFFNQkJ3TkNBQVNkblZHemZHS2lWRW5aeE9TTTM3YjZJY3FicWZFYzlSVlZrK3A4QWw3RGlleDN3U0pXK0phU0RkUjhJSnVlQkt1bTZGb25TdE8zdTcvVEFnZlExWVpGbzNnd2RqQVNCZ05WSFJNQkFmOEVDREFHQVFIL0FnRUFNQTRHQTFVZER3RUIvd1FFQXdJQkJqQWRCZ05WSFE0RUZnUVVzYkQybnZUU1htcXJtdGpCQnlxeE9NQXdrWmd3SHdZRFZSMGpCQmd3Rm9BVTh4K0tTdFZaSGxsL3E3Q05saGxPQXNCc0hTSXdFQVlLS29aSWh2ZGpaQVlDQVFRQ0JRQXdDZ1lJS29aSXpqMEVBd0lEU1FBd1JnSWhBTDFSR0ttR0poMGU0Y0tBZGRoR3JodVZFNkw5TTdiajIyL0dXenl5NkJDZUFpRUE0QXZkc3ZDY3FWWk9ZVlpQRHJrZFZTeWtmTXdWNVNoL004OVJnNStBcWU4PSIsIk1JSUJuakNDQVVXZ0F3SUJBZ0lCQVRBS0JnZ3Foa2pPUFFRREFqQTNNUmd3RmdZRFZRUUREQTlHYVhoMGRYSmxJRkp2YjNRZ1EwRXhHekFaQmdOVkJBb01FbU5zYVhCamNtRm1kQ0JtYVhoMGRYSmxjekFlRncweU5qRXdNVGt4T0RVMU1qUmFGdzAwTmpFd01UUXhPRFUxTWpSYU1EY3hHREFXQmdOVkJBTU1EMFpwZUhSMWNtVWdVbTl2ZENCRFFURWJNQmtHQTFVRUNnd1NZMnhwY0dOeVlXWjBJR1pwZUhSMWNtVnpNRmt3RXdZSEtvWkl6ajBDQVFZSUtvWkl6ajBEQVFjRFFnQUVhQ3NoWlFUSEhxZEkxRVBpOGFieUpheXF4OEY2Y2hoOW1RbGxYcldibEtFUHgrRFVHaU5oL1hPaG5xOW1SSHo0Z2VJcXlUVXVrTWVJbC9mYnFEL2xncU5DTUVBd0R3WURWUjBUQVFIL0JBVXdBd0VCL3pBT0JnTlZIUThCQWY4RUJBTUNBUVl3SFFZRFZSME9CQllFRlBNZmlrclZXUjVaZjZ1d2paWVpUZ0xBYkIwaU1Bb0dDQ3FHU000OUJBTUNBMGNBTUVRQ0lEMVBEbGgwWHBzNEkwWVJ3Mm5qTmpxeEQ2aDQzMzhnVzVyREFkVHJadGZJQWlBS21xZmhzbEk3SnFhc1psL1dpWHVXbzBqU2FHVk9uQnFCcEk1QXIxUVhKdz09Il19.eyJub3RpZmljYXRpb25UeXBlIjoiRElEX1JFTkVXIiwibm90aWZpY2F0aW9uVVVJRCI6IjY2MTE4MzFhLWZlZWMtNGQ4Zi1hNDUwLWZiMmYxY2ZiZmU1NSIsInZlcnNpb24iOiIyLjAiLCJzaWduZWREYXRlIjoxNzk1MDMwMjAzMDAwLCJkYXRhIjp7ImFwcEFwcGxlSWQiOjY0NDcwMDAwMDEsImJ1bmRsZUlkIjoiY29tLmNsaXBjcmFmdC5hcHAiLCJidW5kbGVWZXJzaW9uIjoiNDIiLCJlbnZpcm9ubWVudCI6IlNhbmRib3giLCJzaWduZWRUcmFuc2FjdGlvbkluZm8iOiJleUpoYkdjaU9pSkZVekkxTmlJc0luUjVjQ0k2SWtwWFZDSXNJbmcxWXlJNld5Sk5TVWxDTkZSRFEwRlpaV2RCZDBsQ1FXZEpRa0Y2UVV0Q1oyZHhhR3RxVDFCUlVVUkJha0V2VFZOQmQwaG5XVVJXVVZGRVJFSmtSMkZZYURCa1dFcHNTVVZzZFdSSFZubGlWMVpyWVZkR01GcFRRa1JSVkVWaVRVSnJSMEV4VlVWRFozZFRXVEo0Y0dOSFRubFpWMW93U1VkYWNHVklVakZqYlZaNlRVSTBXRVJVU1RKTlZFRjRUMVJGTkU1VVZYbE9WbTlZUkZSUk1rMVVRWGhPUkVVMFRsUlZlVTVXYjNkUlZFVnBUVU5CUjBFeFZVVkJkM2RhVW0xc05HUklWbmxhVTBKQ1kwaEJaMVV6VW5aamJWVm5WVEpzYm1KdGJIVmFla1ZpVFVKclIwRXhWVVZEWjNkVFdUSjRjR05IVG5sWlYxb3dTVWRhY0dWSVVqRmpiVlo2VFVacmQwVjNXVWhMYjFwSmVtb3dRMEZSV1VsTGIxcEplbW93UkVGUlkwUlJaMEZGWlRWQ1R6ZE1PR1YwT0d0cWMxUlVlbVkwT1hnek1XcFdXV3A0VEZkbVEwbDJNak5wYlVKYWNVeDFLMUExV1ZselNESTNhMjVJVVhkWlQxTTBlRGhrVW05bGMyeHZVRzVqSzJ4V04xSjVMMGR1U1RSc1pqWk9lVTFJUVhkRVFWbEVWbEl3VkVGUlNDOUNRVWwzUVVSQlQwSm5UbFpJVVRoQ1FXWTRSVUpCVFVOQ05FRjNTRkZaUkZaU01FOUNRbGxGUmtobldrcGFhVnBIZEhKMk16UmFNa0ZzVVhaUE9FaFRVVmgxU0UxQ09FZEJNVlZrU1hkUldVMUNZVUZHVEVkM09YQTNNREJzTlhGeE5YSlpkMUZqY1hOVWFrRk5Ta2RaVFVKQlIwTnBjVWRUU1dJeldUSlJSME4zUlVWQloxVkJUVUZ2UjBORGNVZFRUVFE1UWtGTlEwRXdaMEZOUlZWRFNVVlFZVVFyYUdobGRrVldaMFYwZG5oM1pHNVhhMWxuZGl0d09VMTVlVmxEVDJaeFVFSkxkMUZaZUU5QmFVVkJkRTl0UTIxUE1sRlBXRnBGVEU1TFlXaDBhVzVXVm5WcGMyVXlla0prWTJwaFRWZHhZVTB3UzJWWlp6MGlMQ0pOU1VsQ00ycERRMEZaVDJkQmQwbENRV2RKUWtGcVFVdENaMmR4YUd0cVQxQlJVVVJCYWtFelRWSm5kMFpuV1VSV1VWRkVSRUU1UjJGWWFEQmtXRXBzU1VaS2RtSXpVV2RSTUVWNFIzcEJXa0puVGxaQ1FXOU5SVzFPYzJGWVFtcGpiVVp0WkVOQ2JXRllhREJrV0Vwc1kzcEJaVVozTUhsT2FrVjNUVlJyZUU5RVZURk5hbFpoUm5jd01FNXFSWGROVkZGNFQwUlZNVTFxVm1GTlJEaDRTVVJCWlVKblRsWkNRVTFOUmpCYWNHVklVakZqYlZWblUxYzFNRnBZU25SYVYxSndXVmhTYkVsRlRrSk5Vbk4zUjFGWlJGWlJVVXRFUWtwcVlrZHNkMWt6U21oYWJsRm5XbTFzTkdSSVZubGFXRTEzVjFSQlZFSm5ZM0ZvYTJwUFVGRkpRa0puWjNGb2EycFBVRkZOUWtKM1RrTkJRVk5rYmxaSGVtWkhTMmxXUlc1YWVFOVRUVE0zWWpaSlkzRmljV1pGWXpsU1ZsWnJLM0E0UVd3M1JHbGxlRE4zVTBwWEswcGhVMFJrVWpoSlNuVmxRa3QxYlRaR2IyNVRkRTh6ZFRjdlZFRm5abEV4V1ZwR2J6Tm5kMlJxUVZOQ1owNVdTRkpOUWtGbU9FVkRSRUZIUVZGSUwwRm5SVUZOUVRSSFFURlZaRVIzUlVJdmQxRkZRWGRKUWtKcVFXUkNaMDVXU0ZFMFJVWm5VVlZ6WWtReWJuWlVVMWh0Y1hKdGRHcENRbmx4ZUU5TlFYZHJXbWQzU0hkWlJGWlNNR3BDUW1kM1JtOUJWVGg0SzB0VGRGWmFTR3hzTDNFM1EwNXNhR3hQUVhOQ2MwaFRTWGRGUVZsTFMyOWFTV2gyWkdwYVFWbERRVkZSUTBKUlFYZERaMWxKUzI5YVNYcHFNRVZCZDBsRVUxRkJkMUpuU1doQlRERlNSMHR0UjBwb01HVTBZMHRCWkdSb1IzSm9kVlpGTmt3NVRUZGlhakl5TDBkWGVubDVOa0pEWlVGcFJVRTBRWFprYzNaRFkzRldXazlaVmxwUVJISnJaRlpUZVd0bVRYZFdOVk5vTDAwNE9WSm5OU3RCY1dVNFBTSXNJazFKU1VKdWFrTkRRVlZYWjBGM1NVSkJaMGxDUVZSQlMwSm5aM0ZvYTJwUFVGRlJSRUZxUVROTlVtZDNSbWRaUkZaUlVVUkVRVGxIWVZob01HUllTbXhKUmtwMllqTlJaMUV3UlhoSGVrRmFRbWRPVmtKQmIwMUZiVTV6WVZoQ2FtTnRSbTFrUTBKdFlWaG9NR1JZU214amVrRmxSbmN3ZVU1cVJYZE5WR3Q0VDBSVk1VMXFVbUZHZHpBd1RtcEZkMDFVVVhoUFJGVXhUV3BTWVUxRVkzaEhSRUZYUW1kT1ZrSkJUVTFFTUZwd1pVaFNNV050VldkVmJUbDJaRU5DUkZGVVJXSk5RbXRIUVRGVlJVTm5kMU5aTW5od1kwZE9lVmxYV2pCSlIxcHdaVWhTTVdOdFZucE5SbXQzUlhkWlNFdHZXa2w2YWpCRFFWRlpTVXR2V2tsNmFqQkVRVkZqUkZGblFVVmhRM05vV2xGVVNFaHhaRWt4UlZCcE9HRmllVXBoZVhGNE9FWTJZMmhvT1cxUmJHeFljbGRpYkV0RlVIZ3JSRlZIYVU1b0wxaFBhRzV4T1cxU1NIbzBaMlZKY1hsVVZYVnJUV1ZKYkM5bVluRkVMMnhuY1U1RFRVVkJkMFIzV1VSV1VqQlVRVkZJTDBKQlZYZEJkMFZDTDNwQlQwSm5UbFpJVVRoQ1FXWTRSVUpCVFVOQlVWbDNTRkZaUkZaU01FOUNRbGxGUmxCTlptbHJjbFpYVWpWYVpqWjFkMnBhV1ZwVVoweEJZa0l3YVUxQmIwZERRM0ZIVTAwME9VSkJUVU5CTUdOQlRVVlJRMGxFTVZCRWJHZ3dXSEJ6TkVrd1dWSjNNbTVxVG1weGVFUTJhRFF6TXpoblZ6VnlSRUZrVkhKYWRHWkpRV2xCUzIxeFptaHpiRWszU25GaGMxcHNMMWRwV0hWWGJ6QnFVMkZIVms5dVFuRkNjRWsxUVhJeFVWaEtkejA5SWwxOS5leUowY21GdWMyRmpkR2x2Ymtsa0lqb2lNakF3TURBd01ERXdNeUlzSW05eWFXZHBibUZzVkhKaGJuTmhZM1JwYjI1SlpDSTZJakl3TURBd01EQTNNREF3TURBd01ERWlMQ0ozWldKUGNtUmxja3hwYm1WSmRHVnRTV1FpT2lJeU1EQXdNREF3TVRBek9TSXNJbUoxYm1Sc1pVbGtJam9pWTI5dExtTnNhWEJqY21GbWRDNWhjSEFpTENKd2NtOWtkV04wU1dRaU9pSmpiMjB1WTJ4cGNHTnlZV1owTG5CeVpXMXBkVzB1Ylc5dWRHaHNlU0lzSW5OMVluTmpjbWx3ZEdsdmJrZHliM1Z3U1dSbGJuUnBabWxsY2lJNklqSXhORFV3TURBeElpd2ljSFZ5WTJoaGMyVkVZWFJsSWpveE56azFNRE13TWpBd01EQXdMQ0p2Y21sbmFXNWhiRkIxY21Ob1lYTmxSR0YwWlNJNk1UYzVNalF6T0RJd01EQXdNQ3dpWlhod2FYSmxjMFJoZEdVaU9qRTNPVGMyTWpJeU1EQXdNREFzSW5GMVlXNTBhWFI1SWpveExDSjBlWEJsSWpvaVFYVjBieTFTWlc1bGQyRmliR1VnVTNWaWMyTnlhWEIwYVc5dUlpd2lZWEJ3UVdOamIzVnVkRlJ2YTJWdUlqb2lOV1l3WXpkbU4yVXRNbVExTlMwMFlUaGxMVGxrTVdVdE0ySTJZVEpqT1dVd1pqRXhJaXdpYVc1QmNIQlBkMjVsY25Ob2FYQlVlWEJsSWpvaVVGVlNRMGhCVTBWRUlpd2ljMmxuYm1Wa1JHRjBaU0k2TVRjNU5UQXpNREl3TVRBd01Dd2laVzUyYVhKdmJtMWxiblFpT2lKVFlXNWtZbTk0SWl3aWRISmhibk5oWTNScGIyNVNaV0Z6YjI0aU9pSlNSVTVGVjBGTUlpd2ljM1J2Y21WbWNtOXVkQ0k2SWxWVFFTSXNJbk4wYjNKbFpuSnZiblJKWkNJNklqRTBNelEwTVNJc0luQnlhV05sSWpvNU9Ua3dMQ0pqZFhKeVpXNWplU0k2SWxWVFJDSjkuTWZ1Z0pUTGhjZERoUlhqdnBDVXcxd29VZHZhbnd0WWRfUmFXWll0NnJQckpJNl9STTFhVHFXSW5DQnNKbGM1V0dwV1l0QUtJVElqcTVtZFc1UFMzcmciLCJzdGF0dXMiOjF9fQ.wm720jUfNbwXhzD1Wlfn5IpFBmSH033H5xRtgYyNRoHgDZP6YD5IUOqgyiet22sazeIu0BoOH2Obio_HUT_9LQ"
+  ),
+  didFailToRenew: notification(
+    "eyJhbGciOiJFUzI1NiIsInR5cCI6IkpXVCIsIng1YyI6WyJNSUlCNFRDQ0FZZWdBd0lCQWdJQkF6QUtCZ2dxaGtqT1BRUURBakEvTVNBd0hnWURWUVFEREJkR2FYaDBkWEpsSUVsdWRHVnliV1ZrYVdGMFpTQkRRVEViTUJrR0ExVUVDZ3dTWTJ4cGNHTnlZV1owSUdacGVIUjFjbVZ6TUI0WERUSTJNVEF4T1RFNE5UVXlOVm9YRFRRMk1UQXhOREU0TlRVeU5Wb3dRVEVpTUNBR0ExVUVBd3daUm1sNGRIVnlaU0JCY0hBZ1UzUnZjbVVnVTJsbmJtbHVaekViTUJrR0ExVUVDZ3dTWTJ4cGNHTnlZV1owSUdacGVIUjFjbVZ6TUZrd0V3WUhLb1pJemowQ0FRWUlLb1pJemowREFRY0RRZ0FFZTVCTzdMOGV0OGtqc1RUemY0OXgzMWpWWWp4TFdmQ0l2MjNpbUJacUx1K1A1WVlzSDI3a25IUXdZT1M0eDhkUm9lc2xvUG5jK2xWN1J5L0duSTRsZjZOeU1IQXdEQVlEVlIwVEFRSC9CQUl3QURBT0JnTlZIUThCQWY4RUJBTUNCNEF3SFFZRFZSME9CQllFRkhnWkpaaVpHdHJ2MzRaMkFsUXZPOEhTUVh1SE1COEdBMVVkSXdRWU1CYUFGTEd3OXA3MDBsNXFxNXJZd1FjcXNUakFNSkdZTUJBR0NpcUdTSWIzWTJRR0N3RUVBZ1VBTUFvR0NDcUdTTTQ5QkFNQ0EwZ0FNRVVDSUVQYUQraGhldkVWZ0V0dnh3ZG5Xa1lnditwOU15eVlDT2ZxUEJLd1FZeE9BaUVBdE9tQ21PMlFPWFpFTE5LYWh0aW5WVnVpc2UyekJkY2phTVdxYU0wS2VZZz0iLCJNSUlCM2pDQ0FZT2dBd0lCQWdJQkFqQUtCZ2dxaGtqT1BRUURBakEzTVJnd0ZnWURWUVFEREE5R2FYaDBkWEpsSUZKdmIzUWdRMEV4R3pBWkJnTlZCQW9NRW1Oc2FYQmpjbUZtZENCbWFYaDBkWEpsY3pBZUZ3MHlOakV3TVRreE9EVTFNalZhRncwME5qRXdNVFF4T0RVMU1qVmFNRDh4SURBZUJnTlZCQU1NRjBacGVIUjFjbVVnU1c1MFpYSnRaV1JwWVhSbElFTkJNUnN3R1FZRFZRUUtEQkpqYkdsd1kzSmhablFnWm1sNGRIVnlaWE13V1RBVEJnY3Foa2pPUFFJQkJnZ3Foa2pPUFFNQkJ3TkNBQVNkblZHemZHS2lWRW5aeE9TTTM3YjZJY3FicWZFYzlSVlZrK3A4QWw3RGlleDN3U0pXK0phU0RkUjhJSnVlQkt1bTZGb25TdE8zdTcvVEFnZlExWVpGbzNnd2RqQVNCZ05WSFJNQkFmOEVDREFHQVFIL0FnRUFNQTRHQTFVZER3RUIvd1FFQXdJQkJqQWRCZ05WSFE0RUZnUVVzYkQybnZUU1htcXJtdGpCQnlxeE9NQXdrWmd3SHdZRFZSMGpCQmd3Rm9BVTh4K0tTdFZaSGxsL3E3Q05saGxPQXNCc0hTSXdFQVlLS29aSWh2ZGpaQVlDQVFRQ0JRQXdDZ1lJS29aSXpqMEVBd0lEU1FBd1JnSWhBTDFSR0ttR0poMGU0Y0tBZGRoR3JodVZFNkw5TTdiajIyL0dXenl5NkJDZUFpRUE0QXZkc3ZDY3FWWk9ZVlpQRHJrZFZTeWtmTXdWNVNoL004OVJnNStBcWU4PSIsIk1JSUJuakNDQVVXZ0F3SUJBZ0lCQVRBS0JnZ3Foa2pPUFFRREFqQTNNUmd3RmdZRFZRUUREQTlHYVhoMGRYSmxJRkp2YjNRZ1EwRXhHekFaQmdOVkJBb01FbU5zYVhCamNtRm1kQ0JtYVhoMGRYSmxjekFlRncweU5qRXdNVGt4T0RVMU1qUmFGdzAwTmpFd01UUXhPRFUxTWpSYU1EY3hHREFXQmdOVkJBTU1EMFpwZUhSMWNtVWdVbTl2ZENCRFFURWJNQmtHQTFVRUNnd1NZMnhwY0dOeVlXWjBJR1pwZUhSMWNtVnpNRmt3RXdZSEtvWkl6ajBDQVFZSUtvWkl6ajBEQVFjRFFnQUVhQ3NoWlFUSEhxZEkxRVBpOGFieUpheXF4OEY2Y2hoOW1RbGxYcldibEtFUHgrRFVHaU5oL1hPaG5xOW1SSHo0Z2VJcXlUVXVrTWVJbC9mYnFEL2xncU5DTUVBd0R3WURWUjBUQVFIL0JBVXdBd0VCL3pBT0JnTlZIUThCQWY4RUJBTUNBUVl3SFFZRFZSME9CQllFRlBNZmlrclZXUjVaZjZ1d2paWVpUZ0xBYkIwaU1Bb0dDQ3FHU000OUJBTUNBMGNBTUVRQ0lEMVBEbGgwWHBzNEkwWVJ3Mm5qTmpxeEQ2aDQzMzhnVzVyREFkVHJadGZJQWlBS21xZmhzbEk3SnFhc1psL1dpWHVXbzBqU2FHVk9uQnFCcEk1QXIxUVhKdz09Il19.eyJub3RpZmljYXRpb25UeXBlIjoiRElEX0ZBSUxfVE9fUkVORVciLCJzdWJ0eXBlIjoiR1JBQ0VfUEVSSU9EIiwibm90aWZpY2F0aW9uVVVJRCI6IjZkODEzNGNiLWZlYTktNDZiNS04YzU5LWRjY2ZkMDIxYjFkNyIsInZlcnNpb24iOiIyLjAiLCJzaWduZWREYXRlIjoxNzk1MDMwMjAzMDAwLCJkYXRhIjp7ImFwcEFwcGxlSWQiOjY0NDcwMDAwMDEsImJ1bmRsZUlkIjoiY29tLmNsaXBjcmFmdC5hcHAiLCJidW5kbGVWZXJzaW9uIjoiNDIiLCJlbnZpcm9ubWVudCI6IlNhbmRib3giLCJzaWduZWRUcmFuc2FjdGlvbkluZm8iOiJleUpoYkdjaU9pSkZVekkxTmlJc0luUjVjQ0k2SWtwWFZDSXNJbmcxWXlJNld5Sk5TVWxDTkZSRFEwRlpaV2RCZDBsQ1FXZEpRa0Y2UVV0Q1oyZHhhR3RxVDFCUlVVUkJha0V2VFZOQmQwaG5XVVJXVVZGRVJFSmtSMkZZYURCa1dFcHNTVVZzZFdSSFZubGlWMVpyWVZkR01GcFRRa1JSVkVWaVRVSnJSMEV4VlVWRFozZFRXVEo0Y0dOSFRubFpWMW93U1VkYWNHVklVakZqYlZaNlRVSTBXRVJVU1RKTlZFRjRUMVJGTkU1VVZYbE9WbTlZUkZSUk1rMVVRWGhPUkVVMFRsUlZlVTVXYjNkUlZFVnBUVU5CUjBFeFZVVkJkM2RhVW0xc05HUklWbmxhVTBKQ1kwaEJaMVV6VW5aamJWVm5WVEpzYm1KdGJIVmFla1ZpVFVKclIwRXhWVVZEWjNkVFdUSjRjR05IVG5sWlYxb3dTVWRhY0dWSVVqRmpiVlo2VFVacmQwVjNXVWhMYjFwSmVtb3dRMEZSV1VsTGIxcEplbW93UkVGUlkwUlJaMEZGWlRWQ1R6ZE1PR1YwT0d0cWMxUlVlbVkwT1hnek1XcFdXV3A0VEZkbVEwbDJNak5wYlVKYWNVeDFLMUExV1ZselNESTNhMjVJVVhkWlQxTTBlRGhrVW05bGMyeHZVRzVqSzJ4V04xSjVMMGR1U1RSc1pqWk9lVTFJUVhkRVFWbEVWbEl3VkVGUlNDOUNRVWwzUVVSQlQwSm5UbFpJVVRoQ1FXWTRSVUpCVFVOQ05FRjNTRkZaUkZaU01FOUNRbGxGUmtobldrcGFhVnBIZEhKMk16UmFNa0ZzVVhaUE9FaFRVVmgxU0UxQ09FZEJNVlZrU1hkUldVMUNZVUZHVEVkM09YQTNNREJzTlhGeE5YSlpkMUZqY1hOVWFrRk5Ta2RaVFVKQlIwTnBjVWRUU1dJeldUSlJSME4zUlVWQloxVkJUVUZ2UjBORGNVZFRUVFE1UWtGTlEwRXdaMEZOUlZWRFNVVlFZVVFyYUdobGRrVldaMFYwZG5oM1pHNVhhMWxuZGl0d09VMTVlVmxEVDJaeFVFSkxkMUZaZUU5QmFVVkJkRTl0UTIxUE1sRlBXRnBGVEU1TFlXaDBhVzVXVm5WcGMyVXlla0prWTJwaFRWZHhZVTB3UzJWWlp6MGlMQ0pOU1VsQ00ycERRMEZaVDJkQmQwbENRV2RKUWtGcVFVdENaMmR4YUd0cVQxQlJVVVJCYWtFelRWSm5kMFpuV1VSV1VWRkVSRUU1UjJGWWFEQmtXRXBzU1VaS2RtSXpVV2RSTUVWNFIzcEJXa0puVGxaQ1FXOU5SVzFPYzJGWVFtcGpiVVp0WkVOQ2JXRllhREJrV0Vwc1kzcEJaVVozTUhsT2FrVjNUVlJyZUU5RVZURk5hbFpoUm5jd01FNXFSWGROVkZGNFQwUlZNVTFxVm1GTlJEaDRTVVJCWlVKblRsWkNRVTFOUmpCYWNHVklVakZqYlZWblUxYzFNRnBZU25SYVYxSndXVmhTYkVsRlRrSk5Vbk4zUjFGWlJGWlJVVXRFUWtwcVlrZHNkMWt6U21oYWJsRm5XbTFzTkdSSVZubGFXRTEzVjFSQlZFSm5ZM0ZvYTJwUFVGRkpRa0puWjNGb2EycFBVRkZOUWtKM1RrTkJRVk5rYmxaSGVtWkhTMmxXUlc1YWVFOVRUVE0zWWpaSlkzRmljV1pGWXpsU1ZsWnJLM0E0UVd3M1JHbGxlRE4zVTBwWEswcGhVMFJrVWpoSlNuVmxRa3QxYlRaR2IyNVRkRTh6ZFRjdlZFRm5abEV4V1ZwR2J6Tm5kMlJxUVZOQ1owNVdTRkpOUWtGbU9FVkRSRUZIUVZGSUwwRm5SVUZOUVRSSFFURlZaRVIzUlVJdmQxRkZRWGRKUWtKcVFXUkNaMDVXU0ZFMFJVWm5VVlZ6WWtReWJuWlVVMWh0Y1hKdGRHcENRbmx4ZUU5TlFYZHJXbWQzU0hkWlJGWlNNR3BDUW1kM1JtOUJWVGg0SzB0VGRGWmFTR3hzTDNFM1EwNXNhR3hQUVhOQ2MwaFRTWGRGUVZsTFMyOWFTV2gyWkdwYVFWbERRVkZSUTBKUlFYZERaMWxKUzI5YVNYcHFNRVZCZDBsRVUxRkJkMUpuU1doQlRERlNSMHR0UjBwb01HVTBZMHRCWkdSb1IzSm9kVlpGTmt3NVRUZGlhakl5TDBkWGVubDVOa0pEWlVGcFJVRTBRWFprYzNaRFkzRldXazlaVmxwUVJISnJaRlpUZVd0bVRYZFdOVk5vTDAwNE9WSm5OU3RCY1dVNFBTSXNJazFKU1VKdWFrTkRRVlZYWjBGM1NVSkJaMGxDUVZSQlMwSm5aM0ZvYTJwUFVGRlJSRUZxUVROTlVtZDNSbWRaUkZaUlVVUkVRVGxIWVZob01HUllTbXhKUmtwMllqTlJaMUV3UlhoSGVrRmFRbWRPVmtKQmIwMUZiVTV6WVZoQ2FtTnRSbTFrUTBKdFlWaG9NR1JZU214amVrRmxSbmN3ZVU1cVJYZE5WR3Q0VDBSVk1VMXFVbUZHZHpBd1RtcEZkMDFVVVhoUFJGVXhUV3BTWVUxRVkzaEhSRUZYUW1kT1ZrSkJUVTFFTUZwd1pVaFNNV050VldkVmJUbDJaRU5DUkZGVVJXSk5RbXRIUVRGVlJVTm5kMU5aTW5od1kwZE9lVmxYV2pCSlIxcHdaVWhTTVdOdFZucE5SbXQzUlhkWlNFdHZXa2w2YWpCRFFWRlpTVXR2V2tsNmFqQkVRVkZqUkZGblFVVmhRM05vV2xGVVNFaHhaRWt4UlZCcE9HRmllVXBoZVhGNE9FWTJZMmhvT1cxUmJHeFljbGRpYkV0RlVIZ3JSRlZIYVU1b0wxaFBhRzV4T1cxU1NIbzBaMlZKY1hsVVZYVnJUV1ZKYkM5bVluRkVMMnhuY1U1RFRVVkJkMFIzV1VSV1VqQlVRVkZJTDBKQlZYZEJkMFZDTDNwQlQwSm5UbFpJVVRoQ1FXWTRSVUpCVFVOQlVWbDNTRkZaUkZaU01FOUNRbGxGUmxCTlptbHJjbFpYVWpWYVpqWjFkMnBhV1ZwVVoweEJZa0l3YVUxQmIwZERRM0ZIVTAwME9VSkJUVU5CTUdOQlRVVlJRMGxFTVZCRWJHZ3dXSEJ6TkVrd1dWSjNNbTVxVG1weGVFUTJhRFF6TXpoblZ6VnlSRUZrVkhKYWRHWkpRV2xCUzIxeFptaHpiRWszU25GaGMxcHNMMWRwV0hWWGJ6QnFVMkZIVms5dVFuRkNjRWsxUVhJeFVWaEtkejA5SWwxOS5leUowY21GdWMyRmpkR2x2Ymtsa0lqb2lNakF3TURBd01ERXdNeUlzSW05eWFXZHBibUZzVkhKaGJuTmhZM1JwYjI1SlpDSTZJakl3TURBd01EQTNNREF3TURBd01ERWlMQ0ozWldKUGNtUmxja3hwYm1WSmRHVnRTV1FpT2lJeU1EQXdNREF3TVRBek9TSXNJbUoxYm1Sc1pVbGtJam9pWTI5dExtTnNhWEJqY21GbWRDNWhjSEFpTENKd2NtOWtkV04wU1dRaU9pSmpiMjB1WTJ4cGNHTnlZV1owTG5CeVpXMXBkVzB1Ylc5dWRHaHNlU0lzSW5OMVluTmpjbWx3ZEdsdmJrZHliM1Z3U1dSbGJuUnBabWxsY2lJNklqSXhORFV3TURBeElpd2ljSFZ5WTJoaGMyVkVZWFJsSWpveE56azFNRE13TWpBd01EQXdMQ0p2Y21sbmFXNWhiRkIxY21Ob1lYTmxSR0YwWlNJNk1UYzVNalF6T0RJd01EQXdNQ3dpWlhod2FYSmxjMFJoZEdVaU9qRTNPVGMyTWpJeU1EQXdNREFzSW5GMVlXNTBhWFI1SWpveExDSjBlWEJsSWpvaVFYVjBieTFTWlc1bGQyRmliR1VnVTNWaWMyTnlhWEIwYVc5dUlpd2lZWEJ3UVdOamIzVnVkRlJ2YTJWdUlqb2lOV1l3WXpkbU4yVXRNbVExTlMwMFlUaGxMVGxrTVdVdE0ySTJZVEpqT1dVd1pqRXhJaXdpYVc1QmNIQlBkMjVsY25Ob2FYQlVlWEJsSWpvaVVGVlNRMGhCVTBWRUlpd2ljMmxuYm1Wa1JHRjBaU0k2TVRjNU5UQXpNREl3TVRBd01Dd2laVzUyYVhKdmJtMWxiblFpT2lKVFlXNWtZbTk0SWl3aWRISmhibk5oWTNScGIyNVNaV0Z6YjI0aU9pSlNSVTVGVjBGTUlpd2ljM1J2Y21WbWNtOXVkQ0k2SWxWVFFTSXNJbk4wYjNKbFpuSnZiblJKWkNJNklqRTBNelEwTVNJc0luQnlhV05sSWpvNU9Ua3dMQ0pqZFhKeVpXNWplU0k2SWxWVFJDSjkuODNWVE5xMmJXRWd6Z09rQ09RYWdtWDZLZXV2Tzc4U1QxakJLYy1Hc0hzSFZ4RjRYTTMxYTg3RHd3enM2NXBmMUhPZ2x0Y3p4blVQVHVlZ0pXVElOMEEiLCJzdGF0dXMiOjF9fQ.4cbAiVc-wEzj9LX4_vPGnDNUAUPb4QmEeyCOySI-y3pTAzBZqlUskyarwNHprs3eiFAWmnKYcPOACncEvJEwWg"
+  ),
+  upgraded: notification(
+    "eyJhbGciOiJFUzI1NiIsInR5cCI6IkpXVCIsIng1YyI6WyJNSUlCNFRDQ0FZZWdBd0lCQWdJQkF6QUtCZ2dxaGtqT1BRUURBakEvTVNBd0hnWURWUVFEREJkR2FYaDBkWEpsSUVsdWRHVnliV1ZrYVdGMFpTQkRRVEViTUJrR0ExVUVDZ3dTWTJ4cGNHTnlZV1owSUdacGVIUjFjbVZ6TUI0WERUSTJNVEF4T1RFNE5UVXlOVm9YRFRRMk1UQXhOREU0TlRVeU5Wb3dRVEVpTUNBR0ExVUVBd3daUm1sNGRIVnlaU0JCY0hBZ1UzUnZjbVVnVTJsbmJtbHVaekViTUJrR0ExVUVDZ3dTWTJ4cGNHTnlZV1owSUdacGVIUjFjbVZ6TUZrd0V3WUhLb1pJemowQ0FRWUlLb1pJemowREFRY0RRZ0FFZTVCTzdMOGV0OGtqc1RUemY0OXgzMWpWWWp4TFdmQ0l2MjNpbUJacUx1K1A1WVlzSDI3a25IUXdZT1M0eDhkUm9lc2xvUG5jK2xWN1J5L0duSTRsZjZOeU1IQXdEQVlEVlIwVEFRSC9CQUl3QURBT0JnTlZIUThCQWY4RUJBTUNCNEF3SFFZRFZSME9CQllFRkhnWkpaaVpHdHJ2MzRaMkFsUXZPOEhTUVh1SE1COEdBMVVkSXdRWU1CYUFGTEd3OXA3MDBsNXFxNXJZd1FjcXNUakFNSkdZTUJBR0NpcUdTSWIzWTJRR0N3RUVBZ1VBTUFvR0NDcUdTTTQ5QkFNQ0EwZ0FNRVVDSUVQYUQraGhldkVWZ0V0dnh3ZG5Xa1lnditwOU15eVlDT2ZxUEJLd1FZeE9BaUVBdE9tQ21PMlFPWFpFTE5LYWh0aW5WVnVpc2UyekJkY2phTVdxYU0wS2VZZz0iLCJNSUlCM2pDQ0FZT2dBd0lCQWdJQkFqQUtCZ2dxaGtqT1BRUURBakEzTVJnd0ZnWURWUVFEREE5R2FYaDBkWEpsSUZKdmIzUWdRMEV4R3pBWkJnTlZCQW9NRW1Oc2FYQmpjbUZtZENCbWFYaDBkWEpsY3pBZUZ3MHlOakV3TVRreE9EVTFNalZhRncwME5qRXdNVFF4T0RVMU1qVmFNRDh4SURBZUJnTlZCQU1NRjBacGVIUjFjbVVnU1c1MFpYSnRaV1JwWVhSbElFTkJNUnN3R1FZRFZRUUtEQkpqYkdsd1kzSmhablFnWm1sNGRIVnlaWE13V1RBVEJnY3Foa2pPUFFJQkJnZ3Foa2pPUFFNQkJ3TkNBQVNkblZHemZHS2lWRW5aeE9TTTM3YjZJY3FicWZFYzlSVlZrK3A4QWw3RGlleDN3U0pXK0phU0RkUjhJSnVlQkt1bTZGb25TdE8zdTcvVEFnZlExWVpGbzNnd2RqQVNCZ05WSFJNQkFmOEVDREFHQVFIL0FnRUFNQTRHQTFVZER3RUIvd1FFQXdJQkJqQWRCZ05WSFE0RUZnUVVzYkQybnZUU1htcXJtdGpCQnlxeE9NQXdrWmd3SHdZRFZSMGpCQmd3Rm9BVTh4K0tTdFZaSGxsL3E3Q05saGxPQXNCc0hTSXdFQVlLS29aSWh2ZGpaQVlDQVFRQ0JRQXdDZ1lJS29aSXpqMEVBd0lEU1FBd1JnSWhBTDFSR0ttR0poMGU0Y0tBZGRoR3JodVZFNkw5TTdiajIyL0dXenl5NkJDZUFpRUE0QXZkc3ZDY3FWWk9ZVlpQRHJrZFZTeWtmTXdWNVNoL004OVJnNStBcWU4PSIsIk1JSUJuakNDQVVXZ0F3SUJBZ0lCQVRBS0JnZ3Foa2pPUFFRREFqQTNNUmd3RmdZRFZRUUREQTlHYVhoMGRYSmxJRkp2YjNRZ1EwRXhHekFaQmdOVkJBb01FbU5zYVhCamNtRm1kQ0JtYVhoMGRYSmxjekFlRncweU5qRXdNVGt4T0RVMU1qUmFGdzAwTmpFd01UUXhPRFUxTWpSYU1EY3hHREFXQmdOVkJBTU1EMFpwZUhSMWNtVWdVbTl2ZENCRFFURWJNQmtHQTFVRUNnd1NZMnhwY0dOeVlXWjBJR1pwZUhSMWNtVnpNRmt3RXdZSEtvWkl6ajBDQVFZSUtvWkl6ajBEQVFjRFFnQUVhQ3NoWlFUSEhxZEkxRVBpOGFieUpheXF4OEY2Y2hoOW1RbGxYcldibEtFUHgrRFVHaU5oL1hPaG5xOW1SSHo0Z2VJcXlUVXVrTWVJbC9mYnFEL2xncU5DTUVBd0R3WURWUjBUQVFIL0JBVXdBd0VCL3pBT0JnTlZIUThCQWY4RUJBTUNBUVl3SFFZRFZSME9CQllFRlBNZmlrclZXUjVaZjZ1d2paWVpUZ0xBYkIwaU1Bb0dDQ3FHU000OUJBTUNBMGNBTUVRQ0lEMVBEbGgwWHBzNEkwWVJ3Mm5qTmpxeEQ2aDQzMzhnVzVyREFkVHJadGZJQWlBS21xZmhzbEk3SnFhc1psL1dpWHVXbzBqU2FHVk9uQnFCcEk1QXIxUVhKdz09Il19.eyJub3RpZmljYXRpb25UeXBlIjoiRElEX0NIQU5HRV9SRU5FV0FMX1BSRUYiLCJzdWJ0eXBlIjoiVVBHUkFERSIsIm5vdGlmaWNhdGlvblVVSUQiOiI3YWUyZTkxMi03ZjY3LTRkNDMtOGY2MS0zNzJhNmE1NTBkNzMiLCJ2ZXJzaW9uIjoiMi4wIiwic2lnbmVkRGF0ZSI6MTc5NTExNjYwMzAwMCwiZGF0YSI6eyJhcHBBcHBsZUlkIjo2NDQ3MDAwMDAxLCJidW5kbGVJZCI6ImNvbS5jbGlwY3JhZnQuYXBwIiwiYnVuZGxlVmVyc2lvbiI6IjQyIiwiZW52aXJvbm1lbnQiOiJTYW5kYm94Iiwic2lnbmVkVHJhbnNhY3Rpb25JbmZvIjoiZXlKaGJHY2lPaUpGVXpJMU5pSXNJblI1Y0NJNklrcFhWQ0lzSW5nMVl5STZXeUpOU1VsQ05GUkRRMEZaWldkQmQwbENRV2RKUWtGNlFVdENaMmR4YUd0cVQxQlJVVVJCYWtFdlRWTkJkMGhuV1VSV1VWRkVSRUprUjJGWWFEQmtXRXBzU1VWc2RXUkhWbmxpVjFacllWZEdNRnBUUWtSUlZFVmlUVUpyUjBFeFZVVkRaM2RUV1RKNGNHTkhUbmxaVjFvd1NVZGFjR1ZJVWpGamJWWjZUVUkwV0VSVVNUSk5WRUY0VDFSRk5FNVVWWGxPVm05WVJGUlJNazFVUVhoT1JFVTBUbFJWZVU1V2IzZFJWRVZwVFVOQlIwRXhWVVZCZDNkYVVtMXNOR1JJVm5sYVUwSkNZMGhCWjFVelVuWmpiVlZuVlRKc2JtSnRiSFZhZWtWaVRVSnJSMEV4VlVWRFozZFRXVEo0Y0dOSFRubFpWMW93U1VkYWNHVklVakZqYlZaNlRVWnJkMFYzV1VoTGIxcEplbW93UTBGUldVbExiMXBKZW1vd1JFRlJZMFJSWjBGRlpUVkNUemRNT0dWME9HdHFjMVJVZW1ZME9YZ3pNV3BXV1dwNFRGZG1RMGwyTWpOcGJVSmFjVXgxSzFBMVdWbHpTREkzYTI1SVVYZFpUMU0wZURoa1VtOWxjMnh2VUc1aksyeFdOMUo1TDBkdVNUUnNaalpPZVUxSVFYZEVRVmxFVmxJd1ZFRlJTQzlDUVVsM1FVUkJUMEpuVGxaSVVUaENRV1k0UlVKQlRVTkNORUYzU0ZGWlJGWlNNRTlDUWxsRlJraG5Xa3BhYVZwSGRISjJNelJhTWtGc1VYWlBPRWhUVVZoMVNFMUNPRWRCTVZWa1NYZFJXVTFDWVVGR1RFZDNPWEEzTURCc05YRnhOWEpaZDFGamNYTlVha0ZOU2tkWlRVSkJSME5wY1VkVFNXSXpXVEpSUjBOM1JVVkJaMVZCVFVGdlIwTkRjVWRUVFRRNVFrRk5RMEV3WjBGTlJWVkRTVVZRWVVRcmFHaGxka1ZXWjBWMGRuaDNaRzVYYTFsbmRpdHdPVTE1ZVZsRFQyWnhVRUpMZDFGWmVFOUJhVVZCZEU5dFEyMVBNbEZQV0ZwRlRFNUxZV2gwYVc1V1ZuVnBjMlV5ZWtKa1kycGhUVmR4WVUwd1MyVlpaejBpTENKTlNVbENNMnBEUTBGWlQyZEJkMGxDUVdkSlFrRnFRVXRDWjJkeGFHdHFUMUJSVVVSQmFrRXpUVkpuZDBabldVUldVVkZFUkVFNVIyRllhREJrV0Vwc1NVWktkbUl6VVdkUk1FVjRSM3BCV2tKblRsWkNRVzlOUlcxT2MyRllRbXBqYlVadFpFTkNiV0ZZYURCa1dFcHNZM3BCWlVaM01IbE9ha1YzVFZScmVFOUVWVEZOYWxaaFJuY3dNRTVxUlhkTlZGRjRUMFJWTVUxcVZtRk5SRGg0U1VSQlpVSm5UbFpDUVUxTlJqQmFjR1ZJVWpGamJWVm5VMWMxTUZwWVNuUmFWMUp3V1ZoU2JFbEZUa0pOVW5OM1IxRlpSRlpSVVV0RVFrcHFZa2RzZDFrelNtaGFibEZuV20xc05HUklWbmxhV0UxM1YxUkJWRUpuWTNGb2EycFBVRkZKUWtKblozRm9hMnBQVUZGTlFrSjNUa05CUVZOa2JsWkhlbVpIUzJsV1JXNWFlRTlUVFRNM1lqWkpZM0ZpY1daRll6bFNWbFpySzNBNFFXdzNSR2xsZUROM1UwcFhLMHBoVTBSa1VqaEpTblZsUWt0MWJUWkdiMjVUZEU4emRUY3ZWRUZuWmxFeFdWcEdiek5uZDJScVFWTkNaMDVXU0ZKTlFrRm1PRVZEUkVGSFFWRklMMEZuUlVGTlFUUkhRVEZWWkVSM1JVSXZkMUZGUVhkSlFrSnFRV1JDWjA1V1NGRTBSVVpuVVZWellrUXliblpVVTFodGNYSnRkR3BDUW5seGVFOU5RWGRyV21kM1NIZFpSRlpTTUdwQ1FtZDNSbTlCVlRoNEswdFRkRlphU0d4c0wzRTNRMDVzYUd4UFFYTkNjMGhUU1hkRlFWbExTMjlhU1doMlpHcGFRVmxEUVZGUlEwSlJRWGREWjFsSlMyOWFTWHBxTUVWQmQwbEVVMUZCZDFKblNXaEJUREZTUjB0dFIwcG9NR1UwWTB0QlpHUm9SM0pvZFZaRk5rdzVUVGRpYWpJeUwwZFhlbmw1TmtKRFpVRnBSVUUwUVhaa2MzWkRZM0ZXV2s5WlZscFFSSEpyWkZaVGVXdG1UWGRXTlZOb0wwMDRPVkpuTlN0QmNXVTRQU0lzSWsxSlNVSnVha05EUVZWWFowRjNTVUpCWjBsQ1FWUkJTMEpuWjNGb2EycFBVRkZSUkVGcVFUTk5VbWQzUm1kWlJGWlJVVVJFUVRsSFlWaG9NR1JZU214SlJrcDJZak5SWjFFd1JYaEhla0ZhUW1kT1ZrSkJiMDFGYlU1ellWaENhbU50Um0xa1EwSnRZVmhvTUdSWVNteGpla0ZsUm5jd2VVNXFSWGROVkd0NFQwUlZNVTFxVW1GR2R6QXdUbXBGZDAxVVVYaFBSRlV4VFdwU1lVMUVZM2hIUkVGWFFtZE9Wa0pCVFUxRU1GcHdaVWhTTVdOdFZXZFZiVGwyWkVOQ1JGRlVSV0pOUW10SFFURlZSVU5uZDFOWk1uaHdZMGRPZVZsWFdqQkpSMXB3WlVoU01XTnRWbnBOUm10M1JYZFpTRXR2V2tsNmFqQkRRVkZaU1V0dldrbDZhakJFUVZGalJGRm5RVVZoUTNOb1dsRlVTRWh4WkVreFJWQnBPR0ZpZVVwaGVYRjRPRVkyWTJob09XMVJiR3hZY2xkaWJFdEZVSGdyUkZWSGFVNW9MMWhQYUc1eE9XMVNTSG8wWjJWSmNYbFVWWFZyVFdWSmJDOW1ZbkZFTDJ4bmNVNURUVVZCZDBSM1dVUldVakJVUVZGSUwwSkJWWGRCZDBWQ0wzcEJUMEpuVGxaSVVUaENRV1k0UlVKQlRVTkJVVmwzU0ZGWlJGWlNNRTlDUWxsRlJsQk5abWxyY2xaWFVqVmFaaloxZDJwYVdWcFVaMHhCWWtJd2FVMUJiMGREUTNGSFUwMDBPVUpCVFVOQk1HTkJUVVZSUTBsRU1WQkViR2d3V0hCek5Fa3dXVkozTW01cVRtcHhlRVEyYURRek16aG5WelZ5UkVGa1ZISmFkR1pKUVdsQlMyMXhabWh6YkVrM1NuRmhjMXBzTDFkcFdIVlhiekJxVTJGSFZrOXVRbkZDY0VrMVFYSXhVVmhLZHowOUlsMTkuZXlKMGNtRnVjMkZqZEdsdmJrbGtJam9pTWpBd01EQXdNREV3TkNJc0ltOXlhV2RwYm1Gc1ZISmhibk5oWTNScGIyNUpaQ0k2SWpJd01EQXdNREEzTURBd01EQXdNREVpTENKM1pXSlBjbVJsY2t4cGJtVkpkR1Z0U1dRaU9pSXlNREF3TURBd01UQTBPU0lzSW1KMWJtUnNaVWxrSWpvaVkyOXRMbU5zYVhCamNtRm1kQzVoY0hBaUxDSndjbTlrZFdOMFNXUWlPaUpqYjIwdVkyeHBjR055WVdaMExuQnlaVzFwZFcwdWVXVmhjbXg1SWl3aWMzVmljMk55YVhCMGFXOXVSM0p2ZFhCSlpHVnVkR2xtYVdWeUlqb2lNakUwTlRBd01ERWlMQ0p3ZFhKamFHRnpaVVJoZEdVaU9qRTNPVFV4TVRZMk1EQXdNREFzSW05eWFXZHBibUZzVUhWeVkyaGhjMlZFWVhSbElqb3hOemt5TkRNNE1qQXdNREF3TENKbGVIQnBjbVZ6UkdGMFpTSTZNVGd5TmpZMU1qWXdNREF3TUN3aWNYVmhiblJwZEhraU9qRXNJblI1Y0dVaU9pSkJkWFJ2TFZKbGJtVjNZV0pzWlNCVGRXSnpZM0pwY0hScGIyNGlMQ0poY0hCQlkyTnZkVzUwVkc5clpXNGlPaUkxWmpCak4yWTNaUzB5WkRVMUxUUmhPR1V0T1dReFpTMHpZalpoTW1NNVpUQm1NVEVpTENKcGJrRndjRTkzYm1WeWMyaHBjRlI1Y0dVaU9pSlFWVkpEU0VGVFJVUWlMQ0p6YVdkdVpXUkVZWFJsSWpveE56azFNVEUyTmpBeE1EQXdMQ0psYm5acGNtOXViV1Z1ZENJNklsTmhibVJpYjNnaUxDSjBjbUZ1YzJGamRHbHZibEpsWVhOdmJpSTZJbEJWVWtOSVFWTkZJaXdpYzNSdmNtVm1jbTl1ZENJNklsVlRRU0lzSW5OMGIzSmxabkp2Ym5SSlpDSTZJakUwTXpRME1TSXNJbkJ5YVdObElqbzVPVGs1TUN3aVkzVnljbVZ1WTNraU9pSlZVMFFpZlEuYVplRFZ2bGNQZ1NjRGhQZ19rN2RxR0lvS0owZ0o3M2ZHOWhrX19FcjBuNW9UVC1ndXhDLWJFUnA4YkZGQm1tck00Ui0yUDJKM001eGJHU0xCQUFuU3ciLCJzdGF0dXMiOjF9fQ.48O6j5c1xRkZ0M142Xb13Bi6TZaUyIbVip6gaTCFFxOnaOAL9ln4V7Dob3yqL3Ptsm8MIe1BmdByrjgSnbtamg"
+  ),
+  autoRenewDisabled: notification(
+    "eyJhbGciOiJFUzI1NiIsInR5cCI6IkpXVCIsIng1YyI6WyJNSUlCNFRDQ0FZZWdBd0lCQWdJQkF6QUtCZ2dxaGtqT1BRUURBakEvTVNBd0hnWURWUVFEREJkR2FYaDBkWEpsSUVsdWRHVnliV1ZrYVdGMFpTQkRRVEViTUJrR0ExVUVDZ3dTWTJ4cGNHTnlZV1owSUdacGVIUjFjbVZ6TUI0WERUSTJNVEF4T1RFNE5UVXlOVm9YRFRRMk1UQXhOREU0TlRVeU5Wb3dRVEVpTUNBR0ExVUVBd3daUm1sNGRIVnlaU0JCY0hBZ1UzUnZjbVVnVTJsbmJtbHVaekViTUJrR0ExVUVDZ3dTWTJ4cGNHTnlZV1owSUdacGVIUjFjbVZ6TUZrd0V3WUhLb1pJemowQ0FRWUlLb1pJemowREFRY0RRZ0FFZTVCTzdMOGV0OGtqc1RUemY0OXgzMWpWWWp4TFdmQ0l2MjNpbUJacUx1K1A1WVlzSDI3a25IUXdZT1M0eDhkUm9lc2xvUG5jK2xWN1J5L0duSTRsZjZOeU1IQXdEQVlEVlIwVEFRSC9CQUl3QURBT0JnTlZIUThCQWY4RUJBTUNCNEF3SFFZRFZSME9CQllFRkhnWkpaaVpHdHJ2MzRaMkFsUXZPOEhTUVh1SE1COEdBMVVkSXdRWU1CYUFGTEd3OXA3MDBsNXFxNXJZd1FjcXNUakFNSkdZTUJBR0NpcUdTSWIzWTJRR0N3RUVBZ1VBTUFvR0NDcUdTTTQ5QkFNQ0EwZ0FNRVVDSUVQYUQraGhldkVWZ0V0dnh3ZG5Xa1lnditwOU15eVlDT2ZxUEJLd1FZeE9BaUVBdE9tQ21PMlFPWFpFTE5LYWh0aW5WVnVpc2UyekJkY2phTVdxYU0wS2VZZz0iLCJNSUlCM2pDQ0FZT2dBd0lCQWdJQkFqQUtCZ2dxaGtqT1BRUURBakEzTVJnd0ZnWURWUVFEREE5R2FYaDBkWEpsSUZKdmIzUWdRMEV4R3pBWkJnTlZCQW9NRW1Oc2FYQmpjbUZtZENCbWFYaDBkWEpsY3pBZUZ3MHlOakV3TVRreE9EVTFNalZhRncwME5qRXdNVFF4T0RVMU1qVmFNRDh4SURBZUJnTlZCQU1NRjBacGVIUjFjbVVnU1c1MFpYSnRaV1JwWVhSbElFTkJNUnN3R1FZRFZRUUtEQkpqYkdsd1kzSmhablFnWm1sNGRIVnlaWE13V1RBVEJnY3Foa2pPUFFJQkJnZ3Foa2pPUFFNQkJ3TkNBQVNkblZHemZHS2lWRW5aeE9TTTM3YjZJY3FicWZFYzlSVlZrK3A4QWw3RGlleDN3U0pXK0phU0RkUjhJSnVlQkt1bTZGb25TdE8zdTcvVEFnZlExWVpGbzNnd2RqQVNCZ05WSFJNQkFmOEVDREFHQVFIL0FnRUFNQTRHQTFVZER3RUIvd1FFQXdJQkJqQWRCZ05WSFE0RUZnUVVzYkQybnZUU1htcXJtdGpCQnlxeE9NQXdrWmd3SHdZRFZSMGpCQmd3Rm9BVTh4K0tTdFZaSGxsL3E3Q05saGxPQXNCc0hTSXdFQVlLS29aSWh2ZGpaQVlDQVFRQ0JRQXdDZ1lJS29aSXpqMEVBd0lEU1FBd1JnSWhBTDFSR0ttR0poMGU0Y0tBZGRoR3JodVZFNkw5TTdiajIyL0dXenl5NkJDZUFpRUE0QXZkc3ZDY3FWWk9ZVlpQRHJrZFZTeWtmTXdWNVNoL004OVJnNStBcWU4PSIsIk1JSUJuakNDQVVXZ0F3SUJBZ0lCQVRBS0JnZ3Foa2pPUFFRREFqQTNNUmd3RmdZRFZRUUREQTlHYVhoMGRYSmxJRkp2YjNRZ1EwRXhHekFaQmdOVkJBb01FbU5zYVhCamNtRm1kQ0JtYVhoMGRYSmxjekFlRncweU5qRXdNVGt4T0RVMU1qUmFGdzAwTmpFd01UUXhPRFUxTWpSYU1EY3hHREFXQmdOVkJBTU1EMFpwZUhSMWNtVWdVbTl2ZENCRFFURWJNQmtHQTFVRUNnd1NZMnhwY0dOeVlXWjBJR1pwZUhSMWNtVnpNRmt3RXdZSEtvWkl6ajBDQVFZSUtvWkl6ajBEQVFjRFFnQUVhQ3NoWlFUSEhxZEkxRVBpOGFieUpheXF4OEY2Y2hoOW1RbGxYcldibEtFUHgrRFVHaU5oL1hPaG5xOW1SSHo0Z2VJcXlUVXVrTWVJbC9mYnFEL2xncU5DTUVBd0R3WURWUjBUQVFIL0JBVXdBd0VCL3pBT0JnTlZIUThCQWY4RUJBTUNBUVl3SFFZRFZSME9CQllFRlBNZmlrclZXUjVaZjZ1d2paWVpUZ0xBYkIwaU1Bb0dDQ3FHU000OUJBTUNBMGNBTUVRQ0lEMVBEbGgwWHBzNEkwWVJ3Mm5qTmpxeEQ2aDQzMzhnVzVyREFkVHJadGZJQWlBS21xZmhzbEk3SnFhc1psL1dpWHVXbzBqU2FHVk9uQnFCcEk1QXIxUVhKdz09Il19.eyJub3RpZmljYXRpb25UeXBlIjoiRElEX0NIQU5HRV9SRU5FV0FMX1NUQVRVUyIsInN1YnR5cGUiOiJBVVRPX1JFTkVXX0RJU0FCTEVEIiwibm90aWZpY2F0aW9uVVVJRCI6IjE5Y2EzNTdiLWY1ODktNGEzYS04NDJiLTgxM2IyYjhlMmNkMyIsInZlcnNpb24iOiIyLjAiLCJzaWduZWREYXRlIjoxNzk1MTE2NjAzMDAwLCJkYXRhIjp7ImFwcEFwcGxlSWQiOjY0NDcwMDAwMDEsImJ1bmRsZUlkIjoiY29tLmNsaXBjcmFmdC5hcHAiLCJidW5kbGVWZXJzaW9uIjoiNDIiLCJlbnZpcm9ubWVudCI6IlNhbmRib3giLCJzaWduZWRUcmFuc2FjdGlvbkluZm8iOiJleUpoYkdjaU9pSkZVekkxTmlJc0luUjVjQ0k2SWtwWFZDSXNJbmcxWXlJNld5Sk5TVWxDTkZSRFEwRlpaV2RCZDBsQ1FXZEpRa0Y2UVV0Q1oyZHhhR3RxVDFCUlVVUkJha0V2VFZOQmQwaG5XVVJXVVZGRVJFSmtSMkZZYURCa1dFcHNTVVZzZFdSSFZubGlWMVpyWVZkR01GcFRRa1JSVkVWaVRVSnJSMEV4VlVWRFozZFRXVEo0Y0dOSFRubFpWMW93U1VkYWNHVklVakZqYlZaNlRVSTBXRVJVU1RKTlZFRjRUMVJGTkU1VVZYbE9WbTlZUkZSUk1rMVVRWGhPUkVVMFRsUlZlVTVXYjNkUlZFVnBUVU5CUjBFeFZVVkJkM2RhVW0xc05HUklWbmxhVTBKQ1kwaEJaMVV6VW5aamJWVm5WVEpzYm1KdGJIVmFla1ZpVFVKclIwRXhWVVZEWjNkVFdUSjRjR05IVG5sWlYxb3dTVWRhY0dWSVVqRmpiVlo2VFVacmQwVjNXVWhMYjFwSmVtb3dRMEZSV1VsTGIxcEplbW93UkVGUlkwUlJaMEZGWlRWQ1R6ZE1PR1YwT0d0cWMxUlVlbVkwT1hnek1XcFdXV3A0VEZkbVEwbDJNak5wYlVKYWNVeDFLMUExV1ZselNESTNhMjVJVVhkWlQxTTBlRGhrVW05bGMyeHZVRzVqSzJ4V04xSjVMMGR1U1RSc1pqWk9lVTFJUVhkRVFWbEVWbEl3VkVGUlNDOUNRVWwzUVVSQlQwSm5UbFpJVVRoQ1FXWTRSVUpCVFVOQ05FRjNTRkZaUkZaU01FOUNRbGxGUmtobldrcGFhVnBIZEhKMk16UmFNa0ZzVVhaUE9FaFRVVmgxU0UxQ09FZEJNVlZrU1hkUldVMUNZVUZHVEVkM09YQTNNREJzTlhGeE5YSlpkMUZqY1hOVWFrRk5Ta2RaVFVKQlIwTnBjVWRUU1dJeldUSlJSME4zUlVWQloxVkJUVUZ2UjBORGNVZFRUVFE1UWtGTlEwRXdaMEZOUlZWRFNVVlFZVVFyYUdobGRrVldaMFYwZG5oM1pHNVhhMWxuZGl0d09VMTVlVmxEVDJaeFVFSkxkMUZaZUU5QmFVVkJkRTl0UTIxUE1sRlBXRnBGVEU1TFlXaDBhVzVXVm5WcGMyVXlla0prWTJwaFRWZHhZVTB3UzJWWlp6MGlMQ0pOU1VsQ00ycERRMEZaVDJkQmQwbENRV2RKUWtGcVFVdENaMmR4YUd0cVQxQlJVVVJCYWtFelRWSm5kMFpuV1VSV1VWRkVSRUU1UjJGWWFEQmtXRXBzU1VaS2RtSXpVV2RSTUVWNFIzcEJXa0puVGxaQ1FXOU5SVzFPYzJGWVFtcGpiVVp0WkVOQ2JXRllhREJrV0Vwc1kzcEJaVVozTUhsT2FrVjNUVlJyZUU5RVZURk5hbFpoUm5jd01FNXFSWGROVkZGNFQwUlZNVTFxVm1GTlJEaDRTVVJCWlVKblRsWkNRVTFOUmpCYWNHVklVakZqYlZWblUxYzFNRnBZU25SYVYxSndXVmhTYkVsRlRrSk5Vbk4zUjFGWlJGWlJVVXRFUWtwcVlrZHNkMWt6U21oYWJsRm5XbTFzTkdSSVZubGFXRTEzVjFSQlZFSm5ZM0ZvYTJwUFVGRkpRa0puWjNGb2EycFBVRkZOUWtKM1RrTkJRVk5rYmxaSGVtWkhTMmxXUlc1YWVFOVRUVE0zWWpaSlkzRmljV1pGWXpsU1ZsWnJLM0E0UVd3M1JHbGxlRE4zVTBwWEswcGhVMFJrVWpoSlNuVmxRa3QxYlRaR2IyNVRkRTh6ZFRjdlZFRm5abEV4V1ZwR2J6Tm5kMlJxUVZOQ1owNVdTRkpOUWtGbU9FVkRSRUZIUVZGSUwwRm5SVUZOUVRSSFFURlZaRVIzUlVJdmQxRkZRWGRKUWtKcVFXUkNaMDVXU0ZFMFJVWm5VVlZ6WWtReWJuWlVVMWh0Y1hKdGRHcENRbmx4ZUU5TlFYZHJXbWQzU0hkWlJGWlNNR3BDUW1kM1JtOUJWVGg0SzB0VGRGWmFTR3hzTDNFM1EwNXNhR3hQUVhOQ2MwaFRTWGRGUVZsTFMyOWFTV2gyWkdwYVFWbERRVkZSUTBKUlFYZERaMWxKUzI5YVNYcHFNRVZCZDBsRVUxRkJkMUpuU1doQlRERlNSMHR0UjBwb01HVTBZMHRCWkdSb1IzSm9kVlpGTmt3NVRUZGlhakl5TDBkWGVubDVOa0pEWlVGcFJVRTBRWFprYzNaRFkzRldXazlaVmxwUVJISnJaRlpUZVd0bVRYZFdOVk5vTDAwNE9WSm5OU3RCY1dVNFBTSXNJazFKU1VKdWFrTkRRVlZYWjBGM1NVSkJaMGxDUVZSQlMwSm5aM0ZvYTJwUFVGRlJSRUZxUVROTlVtZDNSbWRaUkZaUlVVUkVRVGxIWVZob01HUllTbXhKUmtwMllqTlJaMUV3UlhoSGVrRmFRbWRPVmtKQmIwMUZiVTV6WVZoQ2FtTnRSbTFrUTBKdFlWaG9NR1JZU214amVrRmxSbmN3ZVU1cVJYZE5WR3Q0VDBSVk1VMXFVbUZHZHpBd1RtcEZkMDFVVVhoUFJGVXhUV3BTWVUxRVkzaEhSRUZYUW1kT1ZrSkJUVTFFTUZwd1pVaFNNV050VldkVmJUbDJaRU5DUkZGVVJXSk5RbXRIUVRGVlJVTm5kMU5aTW5od1kwZE9lVmxYV2pCSlIxcHdaVWhTTVdOdFZucE5SbXQzUlhkWlNFdHZXa2w2YWpCRFFWRlpTVXR2V2tsNmFqQkVRVkZqUkZGblFVVmhRM05vV2xGVVNFaHhaRWt4UlZCcE9HRmllVXBoZVhGNE9FWTJZMmhvT1cxUmJHeFljbGRpYkV0RlVIZ3JSRlZIYVU1b0wxaFBhRzV4T1cxU1NIbzBaMlZKY1hsVVZYVnJUV1ZKYkM5bVluRkVMMnhuY1U1RFRVVkJkMFIzV1VSV1VqQlVRVkZJTDBKQlZYZEJkMFZDTDNwQlQwSm5UbFpJVVRoQ1FXWTRSVUpCVFVOQlVWbDNTRkZaUkZaU01FOUNRbGxGUmxCTlptbHJjbFpYVWpWYVpqWjFkMnBhV1ZwVVoweEJZa0l3YVUxQmIwZERRM0ZIVTAwME9VSkJUVU5CTUdOQlRVVlJRMGxFTVZCRWJHZ3dXSEJ6TkVrd1dWSjNNbTVxVG1weGVFUTJhRFF6TXpoblZ6VnlSRUZrVkhKYWRHWkpRV2xCUzIxeFptaHpiRWszU25GaGMxcHNMMWRwV0hWWGJ6QnFVMkZIVms5dVFuRkNjRWsxUVhJeFVWaEtkejA5SWwxOS5leUowY21GdWMyRmpkR2x2Ymtsa0lqb2lNakF3TURBd01ERXdOQ0lzSW05eWFXZHBibUZzVkhKaGJuTmhZM1JwYjI1SlpDSTZJakl3TURBd01EQTNNREF3TURBd01ERWlMQ0ozWldKUGNtUmxja3hwYm1WSmRHVnRTV1FpT2lJeU1EQXdNREF3TVRBME9TSXNJbUoxYm1Sc1pVbGtJam9pWTI5dExtTnNhWEJqY21GbWRDNWhjSEFpTENKd2NtOWtkV04wU1dRaU9pSmpiMjB1WTJ4cGNHTnlZV1owTG5CeVpXMXBkVzB1ZVdWaGNteDVJaXdpYzNWaWMyTnlhWEIwYVc5dVIzSnZkWEJKWkdWdWRHbG1hV1Z5SWpvaU1qRTBOVEF3TURFaUxDSndkWEpqYUdGelpVUmhkR1VpT2pFM09UVXhNVFkyTURBd01EQXNJbTl5YVdkcGJtRnNVSFZ5WTJoaGMyVkVZWFJsSWpveE56a3lORE00TWpBd01EQXdMQ0psZUhCcGNtVnpSR0YwWlNJNk1UZ3lOalkxTWpZd01EQXdNQ3dpY1hWaGJuUnBkSGtpT2pFc0luUjVjR1VpT2lKQmRYUnZMVkpsYm1WM1lXSnNaU0JUZFdKelkzSnBjSFJwYjI0aUxDSmhjSEJCWTJOdmRXNTBWRzlyWlc0aU9pSTFaakJqTjJZM1pTMHlaRFUxTFRSaE9HVXRPV1F4WlMwellqWmhNbU01WlRCbU1URWlMQ0pwYmtGd2NFOTNibVZ5YzJocGNGUjVjR1VpT2lKUVZWSkRTRUZUUlVRaUxDSnphV2R1WldSRVlYUmxJam94TnprMU1URTJOakF4TURBd0xDSmxiblpwY205dWJXVnVkQ0k2SWxOaGJtUmliM2dpTENKMGNtRnVjMkZqZEdsdmJsSmxZWE52YmlJNklsQlZVa05JUVZORklpd2ljM1J2Y21WbWNtOXVkQ0k2SWxWVFFTSXNJbk4wYjNKbFpuSnZiblJKWkNJNklqRTBNelEwTVNJc0luQnlhV05sSWpvNU9UazVNQ3dpWTNWeWNtVnVZM2tpT2lKVlUwUWlmUS5JYkZjenc2YzlxVFJBb0JONE5SMzNqcjBJZDlkVDFxX2RKeEhWanpnWmFzSm81WWVmMVdyRzRqRVc1YVNaaFREdmJZMDNnS09oeXQwczJjSURnMzc4USIsInN0YXR1cyI6MX19.rYZ6-1xPglGgoH_Gjy8yCRZi1K0d4SH_XrX0nlGdgbtvhnXW23ByPF5Kx1NvWw-AcKAAY-i8vkPDUl1WWsxB5A"
+  ),
+  expired: notification(
+    "eyJhbGciOiJFUzI1NiIsInR5cCI6IkpXVCIsIng1YyI6WyJNSUlCNFRDQ0FZZWdBd0lCQWdJQkF6QUtCZ2dxaGtqT1BRUURBakEvTVNBd0hnWURWUVFEREJkR2FYaDBkWEpsSUVsdWRHVnliV1ZrYVdGMFpTQkRRVEViTUJrR0ExVUVDZ3dTWTJ4cGNHTnlZV1owSUdacGVIUjFjbVZ6TUI0WERUSTJNVEF4T1RFNE5UVXlOVm9YRFRRMk1UQXhOREU0TlRVeU5Wb3dRVEVpTUNBR0ExVUVBd3daUm1sNGRIVnlaU0JCY0hBZ1UzUnZjbVVnVTJsbmJtbHVaekViTUJrR0ExVUVDZ3dTWTJ4cGNHTnlZV1owSUdacGVIUjFjbVZ6TUZrd0V3WUhLb1pJemowQ0FRWUlLb1pJemowREFRY0RRZ0FFZTVCTzdMOGV0OGtqc1RUemY0OXgzMWpWWWp4TFdmQ0l2MjNpbUJacUx1K1A1WVlzSDI3a25IUXdZT1M0eDhkUm9lc2xvUG5jK2xWN1J5L0duSTRsZjZOeU1IQXdEQVlEVlIwVEFRSC9CQUl3QURBT0JnTlZIUThCQWY4RUJBTUNCNEF3SFFZRFZSME9CQllFRkhnWkpaaVpHdHJ2MzRaMkFsUXZPOEhTUVh1SE1COEdBMVVkSXdRWU1CYUFGTEd3OXA3MDBsNXFxNXJZd1FjcXNUakFNSkdZTUJBR0NpcUdTSWIzWTJRR0N3RUVBZ1VBTUFvR0NDcUdTTTQ5QkFNQ0EwZ0FNRVVDSUVQYUQraGhldkVWZ0V0dnh3ZG5Xa1lnditwOU15eVlDT2ZxUEJLd1FZeE9BaUVBdE9tQ21PMlFPWFpFTE5LYWh0aW5WVnVpc2UyekJkY2phTVdxYU0wS2VZZz0iLCJNSUlCM2pDQ0FZT2dBd0lCQWdJQkFqQUtCZ2dxaGtqT1BRUURBakEzTVJnd0ZnWURWUVFEREE5R2FYaDBkWEpsSUZKdmIzUWdRMEV4R3pBWkJnTlZCQW9NRW1Oc2FYQmpjbUZtZENCbWFYaDBkWEpsY3pBZUZ3MHlOakV3TVRreE9EVTFNalZhRncwME5qRXdNVFF4T0RVMU1qVmFNRDh4SURBZUJnTlZCQU1NRjBacGVIUjFjbVVnU1c1MFpYSnRaV1JwWVhSbElFTkJNUnN3R1FZRFZRUUtEQkpqYkdsd1kzSmhablFnWm1sNGRIVnlaWE13V1RBVEJnY3Foa2pPUFFJQkJnZ3Foa2pPUFFNQkJ3TkNBQVNkblZHemZHS2lWRW5aeE9TTTM3YjZJY3FicWZFYzlSVlZrK3A4QWw3RGlleDN3U0pXK0phU0RkUjhJSnVlQkt1bTZGb25TdE8zdTcvVEFnZlExWVpGbzNnd2RqQVNCZ05WSFJNQkFmOEVDREFHQVFIL0FnRUFNQTRHQTFVZER3RUIvd1FFQXdJQkJqQWRCZ05WSFE0RUZnUVVzYkQybnZUU1htcXJtdGpCQnlxeE9NQXdrWmd3SHdZRFZSMGpCQmd3Rm9BVTh4K0tTdFZaSGxsL3E3Q05saGxPQXNCc0hTSXdFQVlLS29aSWh2ZGpaQVlDQVFRQ0JRQXdDZ1lJS29aSXpqMEVBd0lEU1FBd1JnSWhBTDFSR0ttR0poMGU0Y0tBZGRoR3JodVZFNkw5TTdiajIyL0dXenl5NkJDZUFpRUE0QXZkc3ZDY3FWWk9ZVlpQRHJrZFZTeWtmTXdWNVNoL004OVJnNStBcWU4PSIsIk1JSUJuakNDQVVXZ0F3SUJBZ0lCQVRBS0JnZ3Foa2pPUFFRREFqQTNNUmd3RmdZRFZRUUREQTlHYVhoMGRYSmxJRkp2YjNRZ1EwRXhHekFaQmdOVkJBb01FbU5zYVhCamNtRm1kQ0JtYVhoMGRYSmxjekFlRncweU5qRXdNVGt4T0RVMU1qUmFGdzAwTmpFd01UUXhPRFUxTWpSYU1EY3hHREFXQmdOVkJBTU1EMFpwZUhSMWNtVWdVbTl2ZENCRFFURWJNQmtHQTFVRUNnd1NZMnhwY0dOeVlXWjBJR1pwZUhSMWNtVnpNRmt3RXdZSEtvWkl6ajBDQVFZSUtvWkl6ajBEQVFjRFFnQUVhQ3NoWlFUSEhxZEkxRVBpOGFieUpheXF4OEY2Y2hoOW1RbGxYcldibEtFUHgrRFVHaU5oL1hPaG5xOW1SSHo0Z2VJcXlUVXVrTWVJbC9mYnFEL2xncU5DTUVBd0R3WURWUjBUQVFIL0JBVXdBd0VCL3pBT0JnTlZIUThCQWY4RUJBTUNBUVl3SFFZRFZSME9CQllFRlBNZmlrclZXUjVaZjZ1d2paWVpUZ0xBYkIwaU1Bb0dDQ3FHU000OUJBTUNBMGNBTUVRQ0lEMVBEbGgwWHBzNEkwWVJ3Mm5qTmpxeEQ2aDQzMzhnVzVyREFkVHJadGZJQWlBS21xZmhzbEk3SnFhc1psL1dpWHVXbzBqU2FHVk9uQnFCcEk1QXIxUVhKdz09Il19.eyJub3RpZmljYXRpb25UeXBlIjoiRVhQSVJFRCIsInN1YnR5cGUiOiJWT0xVTlRBUlkiLCJub3RpZmljYXRpb25VVUlEIjoiZDM2MTY2NjMtNGUwMC00MWIxLWEzZTctYzlkNmNmNWUxNzYxIiwidmVyc2lvbiI6IjIuMCIsInNpZ25lZERhdGUiOjE3OTUxMTY2MDMwMDAsImRhdGEiOnsiYXBwQXBwbGVJZCI6NjQ0NzAwMDAwMSwiYnVuZGxlSWQiOiJjb20uY2xpcGNyYWZ0LmFwcCIsImJ1bmRsZVZlcnNpb24iOiI0MiIsImVudmlyb25tZW50IjoiU2FuZGJveCIsInNpZ25lZFRyYW5zYWN0aW9uSW5mbyI6ImV5SmhiR2NpT2lKRlV6STFOaUlzSW5SNWNDSTZJa3BYVkNJc0luZzFZeUk2V3lKTlNVbENORlJEUTBGWlpXZEJkMGxDUVdkSlFrRjZRVXRDWjJkeGFHdHFUMUJSVVVSQmFrRXZUVk5CZDBobldVUldVVkZFUkVKa1IyRllhREJrV0Vwc1NVVnNkV1JIVm5saVYxWnJZVmRHTUZwVFFrUlJWRVZpVFVKclIwRXhWVVZEWjNkVFdUSjRjR05IVG5sWlYxb3dTVWRhY0dWSVVqRmpiVlo2VFVJMFdFUlVTVEpOVkVGNFQxUkZORTVVVlhsT1ZtOVlSRlJSTWsxVVFYaE9SRVUwVGxSVmVVNVdiM2RSVkVWcFRVTkJSMEV4VlVWQmQzZGFVbTFzTkdSSVZubGFVMEpDWTBoQloxVXpVblpqYlZWblZUSnNibUp0YkhWYWVrVmlUVUpyUjBFeFZVVkRaM2RUV1RKNGNHTkhUbmxaVjFvd1NVZGFjR1ZJVWpGamJWWjZUVVpyZDBWM1dVaExiMXBKZW1vd1EwRlJXVWxMYjFwSmVtb3dSRUZSWTBSUlowRkZaVFZDVHpkTU9HVjBPR3RxYzFSVWVtWTBPWGd6TVdwV1dXcDRURmRtUTBsMk1qTnBiVUphY1V4MUsxQTFXVmx6U0RJM2EyNUlVWGRaVDFNMGVEaGtVbTlsYzJ4dlVHNWpLMnhXTjFKNUwwZHVTVFJzWmpaT2VVMUlRWGRFUVZsRVZsSXdWRUZSU0M5Q1FVbDNRVVJCVDBKblRsWklVVGhDUVdZNFJVSkJUVU5DTkVGM1NGRlpSRlpTTUU5Q1FsbEZSa2huV2twYWFWcEhkSEoyTXpSYU1rRnNVWFpQT0VoVFVWaDFTRTFDT0VkQk1WVmtTWGRSV1UxQ1lVRkdURWQzT1hBM01EQnNOWEZ4TlhKWmQxRmpjWE5VYWtGTlNrZFpUVUpCUjBOcGNVZFRTV0l6V1RKUlIwTjNSVVZCWjFWQlRVRnZSME5EY1VkVFRUUTVRa0ZOUTBFd1owRk5SVlZEU1VWUVlVUXJhR2hsZGtWV1owVjBkbmgzWkc1WGExbG5kaXR3T1UxNWVWbERUMlp4VUVKTGQxRlplRTlCYVVWQmRFOXRRMjFQTWxGUFdGcEZURTVMWVdoMGFXNVdWblZwYzJVeWVrSmtZMnBoVFZkeFlVMHdTMlZaWnowaUxDSk5TVWxDTTJwRFEwRlpUMmRCZDBsQ1FXZEpRa0ZxUVV0Q1oyZHhhR3RxVDFCUlVVUkJha0V6VFZKbmQwWm5XVVJXVVZGRVJFRTVSMkZZYURCa1dFcHNTVVpLZG1JelVXZFJNRVY0UjNwQldrSm5UbFpDUVc5TlJXMU9jMkZZUW1wamJVWnRaRU5DYldGWWFEQmtXRXBzWTNwQlpVWjNNSGxPYWtWM1RWUnJlRTlFVlRGTmFsWmhSbmN3TUU1cVJYZE5WRkY0VDBSVk1VMXFWbUZOUkRoNFNVUkJaVUpuVGxaQ1FVMU5SakJhY0dWSVVqRmpiVlZuVTFjMU1GcFlTblJhVjFKd1dWaFNiRWxGVGtKTlVuTjNSMUZaUkZaUlVVdEVRa3BxWWtkc2Qxa3pTbWhhYmxGbldtMXNOR1JJVm5sYVdFMTNWMVJCVkVKblkzRm9hMnBQVUZGSlFrSm5aM0ZvYTJwUFVGRk5Ra0ozVGtOQlFWTmtibFpIZW1aSFMybFdSVzVhZUU5VFRUTTNZalpKWTNGaWNXWkZZemxTVmxackszQTRRV3czUkdsbGVETjNVMHBYSzBwaFUwUmtVamhKU25WbFFrdDFiVFpHYjI1VGRFOHpkVGN2VkVGblpsRXhXVnBHYnpObmQyUnFRVk5DWjA1V1NGSk5Ra0ZtT0VWRFJFRkhRVkZJTDBGblJVRk5RVFJIUVRGVlpFUjNSVUl2ZDFGRlFYZEpRa0pxUVdSQ1owNVdTRkUwUlVablVWVnpZa1F5Ym5aVVUxaHRjWEp0ZEdwQ1FubHhlRTlOUVhkcldtZDNTSGRaUkZaU01HcENRbWQzUm05QlZUaDRLMHRUZEZaYVNHeHNMM0UzUTA1c2FHeFBRWE5DYzBoVFNYZEZRVmxMUzI5YVNXaDJaR3BhUVZsRFFWRlJRMEpSUVhkRFoxbEpTMjlhU1hwcU1FVkJkMGxFVTFGQmQxSm5TV2hCVERGU1IwdHRSMHBvTUdVMFkwdEJaR1JvUjNKb2RWWkZOa3c1VFRkaWFqSXlMMGRYZW5sNU5rSkRaVUZwUlVFMFFYWmtjM1pEWTNGV1drOVpWbHBRUkhKclpGWlRlV3RtVFhkV05WTm9MMDA0T1ZKbk5TdEJjV1U0UFNJc0lrMUpTVUp1YWtORFFWVlhaMEYzU1VKQlowbENRVlJCUzBKblozRm9hMnBQVUZGUlJFRnFRVE5OVW1kM1JtZFpSRlpSVVVSRVFUbEhZVmhvTUdSWVNteEpSa3AyWWpOUloxRXdSWGhIZWtGYVFtZE9Wa0pCYjAxRmJVNXpZVmhDYW1OdFJtMWtRMEp0WVZob01HUllTbXhqZWtGbFJuY3dlVTVxUlhkTlZHdDRUMFJWTVUxcVVtRkdkekF3VG1wRmQwMVVVWGhQUkZVeFRXcFNZVTFFWTNoSFJFRlhRbWRPVmtKQlRVMUVNRnB3WlVoU01XTnRWV2RWYlRsMlpFTkNSRkZVUldKTlFtdEhRVEZWUlVObmQxTlpNbmh3WTBkT2VWbFhXakJKUjFwd1pVaFNNV050Vm5wTlJtdDNSWGRaU0V0dldrbDZhakJEUVZGWlNVdHZXa2w2YWpCRVFWRmpSRkZuUVVWaFEzTm9XbEZVU0VoeFpFa3hSVkJwT0dGaWVVcGhlWEY0T0VZMlkyaG9PVzFSYkd4WWNsZGliRXRGVUhnclJGVkhhVTVvTDFoUGFHNXhPVzFTU0hvMFoyVkpjWGxVVlhWclRXVkpiQzltWW5GRUwyeG5jVTVEVFVWQmQwUjNXVVJXVWpCVVFWRklMMEpCVlhkQmQwVkNMM3BCVDBKblRsWklVVGhDUVdZNFJVSkJUVU5CVVZsM1NGRlpSRlpTTUU5Q1FsbEZSbEJOWm1scmNsWlhValZhWmpaMWQycGFXVnBVWjB4QllrSXdhVTFCYjBkRFEzRkhVMDAwT1VKQlRVTkJNR05CVFVWUlEwbEVNVkJFYkdnd1dIQnpORWt3V1ZKM01tNXFUbXB4ZUVRMmFEUXpNemhuVnpWeVJFRmtWSEphZEdaSlFXbEJTMjF4Wm1oemJFazNTbkZoYzFwc0wxZHBXSFZYYnpCcVUyRkhWazl1UW5GQ2NFazFRWEl4VVZoS2R6MDlJbDE5LmV5SjBjbUZ1YzJGamRHbHZia2xrSWpvaU1qQXdNREF3TURFd05DSXNJbTl5YVdkcGJtRnNWSEpoYm5OaFkzUnBiMjVKWkNJNklqSXdNREF3TURBM01EQXdNREF3TURFaUxDSjNaV0pQY21SbGNreHBibVZKZEdWdFNXUWlPaUl5TURBd01EQXdNVEEwT1NJc0ltSjFibVJzWlVsa0lqb2lZMjl0TG1Oc2FYQmpjbUZtZEM1aGNIQWlMQ0p3Y205a2RXTjBTV1FpT2lKamIyMHVZMnhwY0dOeVlXWjBMbkJ5WlcxcGRXMHVlV1ZoY214NUlpd2ljM1ZpYzJOeWFYQjBhVzl1UjNKdmRYQkpaR1Z1ZEdsbWFXVnlJam9pTWpFME5UQXdNREVpTENKd2RYSmphR0Z6WlVSaGRHVWlPakUzT1RVeE1UWTJNREF3TURBc0ltOXlhV2RwYm1Gc1VIVnlZMmhoYzJWRVlYUmxJam94TnpreU5ETTRNakF3TURBd0xDSmxlSEJwY21WelJHRjBaU0k2TVRneU5qWTFNall3TURBd01Dd2ljWFZoYm5ScGRIa2lPakVzSW5SNWNHVWlPaUpCZFhSdkxWSmxibVYzWVdKc1pTQlRkV0p6WTNKcGNIUnBiMjRpTENKaGNIQkJZMk52ZFc1MFZHOXJaVzRpT2lJMVpqQmpOMlkzWlMweVpEVTFMVFJoT0dVdE9XUXhaUzB6WWpaaE1tTTVaVEJtTVRFaUxDSnBia0Z3Y0U5M2JtVnljMmhwY0ZSNWNHVWlPaUpRVlZKRFNFRlRSVVFpTENKemFXZHVaV1JFWVhSbElqb3hOemsxTVRFMk5qQXhNREF3TENKbGJuWnBjbTl1YldWdWRDSTZJbE5oYm1SaWIzZ2lMQ0owY21GdWMyRmpkR2x2YmxKbFlYTnZiaUk2SWxCVlVrTklRVk5GSWl3aWMzUnZjbVZtY205dWRDSTZJbFZUUVNJc0luTjBiM0psWm5KdmJuUkpaQ0k2SWpFME16UTBNU0lzSW5CeWFXTmxJam81T1RrNU1Dd2lZM1Z5Y21WdVkza2lPaUpWVTBRaWZRLm96UU9zVmhINkk1RVNWN1d3YkRDbDJDVVpOZWFaMW1mNURyeWs5M3k2d0dVZDBHV1JtNnBRbjYxc2N1UTI2NmY3cGRDQjM5dmRDaDlsN1d0WllIMEdnIiwic3RhdHVzIjoxfX0.YWbfVKeTpSr1qdkv_1ySi3G7iGEm-lzF4UqjzL913n6zpvvV1olhqwpxrAsNzO1ayNQje9ycTazm-QJJOxI8TQ"
+  ),
+  test: notification(
+    "eyJhbGciOiJFUzI1NiIsInR5cCI6IkpXVCIsIng1YyI6WyJNSUlCNFRDQ0FZZWdBd0lCQWdJQkF6QUtCZ2dxaGtqT1BRUURBakEvTVNBd0hnWURWUVFEREJkR2FYaDBkWEpsSUVsdWRHVnliV1ZrYVdGMFpTQkRRVEViTUJrR0ExVUVDZ3dTWTJ4cGNHTnlZV1owSUdacGVIUjFjbVZ6TUI0WERUSTJNVEF4T1RFNE5UVXlOVm9YRFRRMk1UQXhOREU0TlRVeU5Wb3dRVEVpTUNBR0ExVUVBd3daUm1sNGRIVnlaU0JCY0hBZ1UzUnZjbVVnVTJsbmJtbHVaekViTUJrR0ExVUVDZ3dTWTJ4cGNHTnlZV1owSUdacGVIUjFjbVZ6TUZrd0V3WUhLb1pJemowQ0FRWUlLb1pJemowREFRY0RRZ0FFZTVCTzdMOGV0OGtqc1RUemY0OXgzMWpWWWp4TFdmQ0l2MjNpbUJacUx1K1A1WVlzSDI3a25IUXdZT1M0eDhkUm9lc2xvUG5jK2xWN1J5L0duSTRsZjZOeU1IQXdEQVlEVlIwVEFRSC9CQUl3QURBT0JnTlZIUThCQWY4RUJBTUNCNEF3SFFZRFZSME9CQllFRkhnWkpaaVpHdHJ2MzRaMkFsUXZPOEhTUVh1SE1COEdBMVVkSXdRWU1CYUFGTEd3OXA3MDBsNXFxNXJZd1FjcXNUakFNSkdZTUJBR0NpcUdTSWIzWTJRR0N3RUVBZ1VBTUFvR0NDcUdTTTQ5QkFNQ0EwZ0FNRVVDSUVQYUQraGhldkVWZ0V0dnh3ZG5Xa1lnditwOU15eVlDT2ZxUEJLd1FZeE9BaUVBdE9tQ21PMlFPWFpFTE5LYWh0aW5WVnVpc2UyekJkY2phTVdxYU0wS2VZZz0iLCJNSUlCM2pDQ0FZT2dBd0lCQWdJQkFqQUtCZ2dxaGtqT1BRUURBakEzTVJnd0ZnWURWUVFEREE5R2FYaDBkWEpsSUZKdmIzUWdRMEV4R3pBWkJnTlZCQW9NRW1Oc2FYQmpjbUZtZENCbWFYaDBkWEpsY3pBZUZ3MHlOakV3TVRreE9EVTFNalZhRncwME5qRXdNVFF4T0RVMU1qVmFNRDh4SURBZUJnTlZCQU1NRjBacGVIUjFjbVVnU1c1MFpYSnRaV1JwWVhSbElFTkJNUnN3R1FZRFZRUUtEQkpqYkdsd1kzSmhablFnWm1sNGRIVnlaWE13V1RBVEJnY3Foa2pPUFFJQkJnZ3Foa2pPUFFNQkJ3TkNBQVNkblZHemZHS2lWRW5aeE9TTTM3YjZJY3FicWZFYzlSVlZrK3A4QWw3RGlleDN3U0pXK0phU0RkUjhJSnVlQkt1bTZGb25TdE8zdTcvVEFnZlExWVpGbzNnd2RqQVNCZ05WSFJNQkFmOEVDREFHQVFIL0FnRUFNQTRHQTFVZER3RUIvd1FFQXdJQkJqQWRCZ05WSFE0RUZnUVVzYkQybnZUU1htcXJtdGpCQnlxeE9NQXdrWmd3SHdZRFZSMGpCQmd3Rm9BVTh4K0tTdFZaSGxsL3E3Q05saGxPQXNCc0hTSXdFQVlLS29aSWh2ZGpaQVlDQVFRQ0JRQXdDZ1lJS29aSXpqMEVBd0lEU1FBd1JnSWhBTDFSR0ttR0poMGU0Y0tBZGRoR3JodVZFNkw5TTdiajIyL0dXenl5NkJDZUFpRUE0QXZkc3ZDY3FWWk9ZVlpQRHJrZFZTeWtmTXdWNVNoL004OVJnNStBcWU4PSIsIk1JSUJuakNDQVVXZ0F3SUJBZ0lCQVRBS0JnZ3Foa2pPUFFRREFqQTNNUmd3RmdZRFZRUUREQTlHYVhoMGRYSmxJRkp2YjNRZ1EwRXhHekFaQmdOVkJBb01FbU5zYVhCamNtRm1kQ0JtYVhoMGRYSmxjekFlRncweU5qRXdNVGt4T0RVMU1qUmFGdzAwTmpFd01UUXhPRFUxTWpSYU1EY3hHREFXQmdOVkJBTU1EMFpwZUhSMWNtVWdVbTl2ZENCRFFURWJNQmtHQTFVRUNnd1NZMnhwY0dOeVlXWjBJR1pwZUhSMWNtVnpNRmt3RXdZSEtvWkl6ajBDQVFZSUtvWkl6ajBEQVFjRFFnQUVhQ3NoWlFUSEhxZEkxRVBpOGFieUpheXF4OEY2Y2hoOW1RbGxYcldibEtFUHgrRFVHaU5oL1hPaG5xOW1SSHo0Z2VJcXlUVXVrTWVJbC9mYnFEL2xncU5DTUVBd0R3WURWUjBUQVFIL0JBVXdBd0VCL3pBT0JnTlZIUThCQWY4RUJBTUNBUVl3SFFZRFZSME9CQllFRlBNZmlrclZXUjVaZjZ1d2paWVpUZ0xBYkIwaU1Bb0dDQ3FHU000OUJBTUNBMGNBTUVRQ0lEMVBEbGgwWHBzNEkwWVJ3Mm5qTmpxeEQ2aDQzMzhnVzVyREFkVHJadGZJQWlBS21xZmhzbEk3SnFhc1psL1dpWHVXbzBqU2FHVk9uQnFCcEk1QXIxUVhKdz09Il19.eyJub3RpZmljYXRpb25UeXBlIjoiVEVTVCIsIm5vdGlmaWNhdGlvblVVSUQiOiI4ZDQ2NjQxMS1mNzNjLTRmYjYtYjE2ZS00YzIxNzBmMGRjM2QiLCJ2ZXJzaW9uIjoiMi4wIiwic2lnbmVkRGF0ZSI6MTc5MjQzODIwMjAwMCwiZGF0YSI6eyJhcHBBcHBsZUlkIjo2NDQ3MDAwMDAxLCJidW5kbGVJZCI6ImNvbS5jbGlwY3JhZnQuYXBwIiwiYnVuZGxlVmVyc2lvbiI6IjQyIiwiZW52aXJvbm1lbnQiOiJTYW5kYm94In19.skpa6jTGpOV1DVLdVqGUz4P_HKjntX5fNQtoT498eIuf54_bOFseQvcpiXD_T89C_Az5N8WLTSMqwej_HMNLSg"
+  ),
+};
+
+export const appStoreFixtures = {
+  bundleId: "com.clipcraft.app",
+  rootCertificate,
+  userId: "5f0c7f7e-2d55-4a8e-9d1e-3b6a2c9e0f11",
+  providerId: "2000000700000001",
+  plans: {
+    "com.clipcraft.premium.monthly": SubscriptionPlan.PREMIUM_MONTHLY,
+    "com.clipcraft.premium.yearly": SubscriptionPlan.PREMIUM_YEARLY,
+  } as Record<string, SubscriptionPlan>,
+  requests,
+};
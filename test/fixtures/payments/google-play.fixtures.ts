@@ -0,0 +1,51 @@
+import { SubscriptionPlan } from "../../../src/prisma-client/client";
+import {
+  PaymentWebhookRequest,
+} from "../../../src/core/payments/payment-webhook";
+
+const verificationToken = "rtdn-fixture-7d41c9";
+
+const pushRequest = (rawBody: string): PaymentWebhookRequest => ({
+  headers: { "content-type": "application/json" },
+  rawBody,
+  query: { token: verificationToken },
+});
+
+/**
+ * @description Real-time developer notifications as delivered by a Pub/Sub
+ * push subscription authenticated with `verificationToken`
+ */
+const requests = {
+  purchased: pushRequest(
+    "{\"message\":{\"attributes\":{},\"data\":\"eyJ2ZXJzaW9uIjoiMS4wIiwicGFja2FnZU5hbWUiOiJjb20uY2xpcGNyYWZ0LmFwcCIsImV2ZW50VGltZU1pbGxpcyI6IjE3OTI0MzgyNjAwMDAiLCJzdWJzY3JpcHRpb25Ob3RpZmljYXRpb24iOnsidmVyc2lvbiI6IjEuMCIsIm5vdGlmaWNhdGlvblR5cGUiOjQsInB1cmNoYXNlVG9rZW4iOiJmaXh0dXJlLXB1cmNoYXNlLXRva2VuLWExYjJjMyIsInN1YnNjcmlwdGlvbklkIjoicHJlbWl1bV9tb250aGx5In19\",\"messageId\":\"12011440007919\",\"message_id\":\"12011440007919\",\"publishTime\":\"2026-10-19T19:31:00.250Z\",\"publish_time\":\"2026-10-19T19:31:00.250Z\"},\"subscription\":\"projects/clipcraft-fixtures/subscriptions/play-rtdn-push\"}"
+  ),
+  renewed: pushRequest(
+    "{\"message\":{\"attributes\":{},\"data\":\"eyJ2ZXJzaW9uIjoiMS4wIiwicGFja2FnZU5hbWUiOiJjb20uY2xpcGNyYWZ0LmFwcCIsImV2ZW50VGltZU1pbGxpcyI6IjE3OTI0MzgzMjAwMDAiLCJzdWJzY3JpcHRpb25Ob3RpZmljYXRpb24iOnsidmVyc2lvbiI6IjEuMCIsIm5vdGlmaWNhdGlvblR5cGUiOjIsInB1cmNoYXNlVG9rZW4iOiJmaXh0dXJlLXB1cmNoYXNlLXRva2VuLWExYjJjMyIsInN1YnNjcmlwdGlvbklkIjoicHJlbWl1bV9tb250aGx5In19\",\"messageId\":\"12011440015838\",\"message_id\":\"12011440015838\",\"publishTime\":\"2026-10-19T19:32:00.250Z\",\"publish_time\":\"2026-10-19T19:32:00.250Z\"},\"subscription\":\"projects/clipcraft-fixtures/subscriptions/play-rtdn-push\"}"
+  ),
+  inGracePeriod: pushRequest(
+    "{\"message\":{\"attributes\":{},\"data\":\"eyJ2ZXJzaW9uIjoiMS4wIiwicGFja2FnZU5hbWUiOiJjb20uY2xpcGNyYWZ0LmFwcCIsImV2ZW50VGltZU1pbGxpcyI6IjE3OTI0MzgzODAwMDAiLCJzdWJzY3JpcHRpb25Ob3RpZmljYXRpb24iOnsidmVyc2lvbiI6IjEuMCIsIm5vdGlmaWNhdGlvblR5cGUiOjYsInB1cmNoYXNlVG9rZW4iOiJmaXh0dXJlLXB1cmNoYXNlLXRva2VuLWExYjJjMyIsInN1YnNjcmlwdGlvbklkIjoicHJlbWl1bV9tb250aGx5In19\",\"messageId\":\"12011440023757\",\"message_id\":\"12011440023757\",\"publishTime\":\"2026-10-19T19:33:00.250Z\",\"publish_time\":\"2026-10-19T19:33:00.250Z\"},\"subscription\":\"projects/clipcraft-fixtures/subscriptions/play-rtdn-push\"}"
+  ),
+  canceled: pushRequest(
+    "{\"message\":{\"attributes\":{},\"data\":\"eyJ2ZXJzaW9uIjoiMS4wIiwicGFja2FnZU5hbWUiOiJjb20uY2xpcGNyYWZ0LmFwcCIsImV2ZW50VGltZU1pbGxpcyI6IjE3OTI0Mzg0NDAwMDAiLCJzdWJzY3JpcHRpb25Ob3RpZmljYXRpb24iOnsidmVyc2lvbiI6IjEuMCIsIm5vdGlmaWNhdGlvblR5cGUiOjMsInB1cmNoYXNlVG9rZW4iOiJmaXh0dXJlLXB1cmNoYXNlLXRva2VuLWExYjJjMyIsInN1YnNjcmlwdGlvbklkIjoicHJlbWl1bV9tb250aGx5In19\",\"messageId\":\"12011440031676\",\"message_id\":\"12011440031676\",\"publishTime\":\"2026-10-19T19:34:00.250Z\",\"publish_time\":\"2026-10-19T19:34:00.250Z\"},\"subscription\":\"projects/clipcraft-fixtures/subscriptions/play-rtdn-push\"}"
+  ),
+  expired: pushRequest(
+    "{\"message\":{\"attributes\":{},\"data\":\"eyJ2ZXJzaW9uIjoiMS4wIiwicGFja2FnZU5hbWUiOiJjb20uY2xpcGNyYWZ0LmFwcCIsImV2ZW50VGltZU1pbGxpcyI6IjE3OTI0Mzg1MDAwMDAiLCJzdWJzY3JpcHRpb25Ob3RpZmljYXRpb24iOnsidmVyc2lvbiI6IjEuMCIsIm5vdGlmaWNhdGlvblR5cGUiOjEzLCJwdXJjaGFzZVRva2VuIjoiZml4dHVyZS1wdXJjaGFzZS10b2tlbi1hMWIyYzMiLCJzdWJzY3JpcHRpb25JZCI6InByZW1pdW1fbW9udGhseSJ9fQ==\",\"messageId\":\"12011440039595\",\"message_id\":\"12011440039595\",\"publishTime\":\"2026-10-19T19:35:00.250Z\",\"publish_time\":\"2026-10-19T19:35:00.250Z\"},\"subscription\":\"projects/clipcraft-fixtures/subscriptions/play-rtdn-push\"}"
+  ),
+  voided: pushRequest(
+    "{\"message\":{\"attributes\":{},\"data\":\"eyJ2ZXJzaW9uIjoiMS4wIiwicGFja2FnZU5hbWUiOiJjb20uY2xpcGNyYWZ0LmFwcCIsImV2ZW50VGltZU1pbGxpcyI6IjE3OTI0Mzg1NjAwMDAiLCJ2b2lkZWRQdXJjaGFzZU5vdGlmaWNhdGlvbiI6eyJwdXJjaGFzZVRva2VuIjoiZml4dHVyZS1wdXJjaGFzZS10b2tlbi1hMWIyYzMiLCJvcmRlcklkIjoiR1BBLjMzNzEtMjkyMS00NDcxLTEwMDQyIiwicHJvZHVjdFR5cGUiOjEsInJlZnVuZFR5cGUiOjF9fQ==\",\"messageId\":\"12011440047514\",\"message_id\":\"12011440047514\",\"publishTime\":\"2026-10-19T19:36:00.250Z\",\"publish_time\":\"2026-10-19T19:36:00.250Z\"},\"subscription\":\"projects/clipcraft-fixtures/subscriptions/play-rtdn-push\"}"
+  ),
+  test: pushRequest(
+    "{\"message\":{\"attributes\":{},\"data\":\"eyJ2ZXJzaW9uIjoiMS4wIiwicGFja2FnZU5hbWUiOiJjb20uY2xpcGNyYWZ0LmFwcCIsImV2ZW50VGltZU1pbGxpcyI6IjE3OTI0Mzg2MjAwMDAiLCJ0ZXN0Tm90aWZpY2F0aW9uIjp7InZlcnNpb24iOiIxLjAifX0=\",\"messageId\":\"12011440055433\",\"message_id\":\"12011440055433\",\"publishTime\":\"2026-10-19T19:37:00.250Z\",\"publish_time\":\"2026-10-19T19:37:00.250Z\"},\"subscription\":\"projects/clipcraft-fixtures/subscriptions/play-rtdn-push\"}"
+  ),
+};
+
+export const googlePlayFixtures = {
+  packageName: "com.clipcraft.app",
+  verificationToken,
+  providerId: "fixture-purchase-token-a1b2c3",
+  plans: {
+    premium_monthly: SubscriptionPlan.PREMIUM_MONTHLY,
+    premium_yearly: SubscriptionPlan.PREMIUM_YEARLY,
+  } as Record<string, SubscriptionPlan>,
+  requests,
+};
@@ -0,0 +1,56 @@
+import { SubscriptionPlan } from "../../../src/prisma-client/client";
+import {
+  PaymentWebhookRequest,
+} from "../../../src/core/payments/payment-webhook";
+
+/**
+ * @description Stripe test-mode events recorded at `recordedAt` and signed
+ * with `signingSecret`. Pass `now: () => stripeFixtures.recordedAt` to the
+ * adapter, as the signature timestamp is only accepted for five minutes.
+ */
+const requests = {
+  subscriptionCreatedTrial: {
+    headers: { "stripe-signature": "t=1792438200,v1=fceb8a140a18bb9d9c9edcd7d2894256b254ac94f900d9583908dd862b3edac1" },
+    rawBody: "{\"id\":\"evt_1QFixture0001\",\"object\":\"event\",\"api_version\":\"2024-06-20\",\"created\":1792438195,\"livemode\":false,\"type\":\"customer.subscription.created\",\"data\":{\"object\":{\"id\":\"sub_1QFixtureA2b3C4d\",\"object\":\"subscription\",\"customer\":\"cus_QFixture9x8y7z\",\"status\":\"trialing\",\"cancel_at_period_end\":false,\"trial_end\":1793043000,\"current_period_start\":1792438200,\"current_period_end\":1795030200,\"metadata\":{\"userId\":\"cm2fixtureuser0001\"},\"items\":{\"object\":\"list\",\"data\":[{\"id\":\"si_QFixture1\",\"price\":{\"id\":\"price_premium_monthly\",\"lookup_key\":\"premium_monthly\",\"unit_amount\":999,\"currency\":\"usd\"}}]}}}}",
+  },
+  invoicePaidFirst: {
+    headers: { "stripe-signature": "t=1792438200,v1=f8636619a1a9a54c9b1b56ca42a46981a042fe1fd4f6b7ff0bf1e966fbc49c1b" },
+    rawBody: "{\"id\":\"evt_1QFixture0002\",\"object\":\"event\",\"api_version\":\"2024-06-20\",\"created\":1792438195,\"livemode\":false,\"type\":\"invoice.paid\",\"data\":{\"object\":{\"id\":\"in_1QFixtureInv1\",\"object\":\"invoice\",\"subscription\":\"sub_1QFixtureA2b3C4d\",\"currency\":\"usd\",\"amount_due\":999,\"amount_paid\":999,\"billing_reason\":\"subscription_create\",\"subscription_details\":{\"metadata\":{\"userId\":\"cm2fixtureuser0001\"}},\"lines\":{\"object\":\"list\",\"data\":[{\"id\":\"il_QFixture1\",\"period\":{\"start\":1792438200,\"end\":1795030200},\"price\":{\"id\":\"price_premium_monthly\",\"lookup_key\":\"premium_monthly\"}}]}}}}",
+  },
+  invoicePaidRenewal: {
+    headers: { "stripe-signature": "t=1792438200,v1=349ddb9ce5d72871668b80de393288ca28f5da78b9d36f1703241908a5c8fc7f" },
+    rawBody: "{\"id\":\"evt_1QFixture0003\",\"object\":\"event\",\"api_version\":\"2024-06-20\",\"created\":1792438195,\"livemode\":false,\"type\":\"invoice.paid\",\"data\":{\"object\":{\"id\":\"in_1QFixtureInv2\",\"object\":\"invoice\",\"subscription\":\"sub_1QFixtureA2b3C4d\",\"currency\":\"usd\",\"amount_due\":999,\"amount_paid\":999,\"billing_reason\":\"subscription_cycle\",\"subscription_details\":{\"metadata\":{\"userId\":\"cm2fixtureuser0001\"}},\"lines\":{\"object\":\"list\",\"data\":[{\"id\":\"il_QFixture2\",\"period\":{\"start\":1795030200,\"end\":1797622200},\"price\":{\"id\":\"price_premium_monthly\",\"lookup_key\":\"premium_monthly\"}}]}}}}",
+  },
+  invoicePaymentFailed: {
+    headers: { "stripe-signature": "t=1792438200,v1=f37b7e59ae63e1c25cf070adb61f4a31a15a27a01bfb3f7d7205f406dedf9212" },
+    rawBody: "{\"id\":\"evt_1QFixture0004\",\"object\":\"event\",\"api_version\":\"2024-06-20\",\"created\":1792438195,\"livemode\":false,\"type\":\"invoice.payment_failed\",\"data\":{\"object\":{\"id\":\"in_1QFixtureInv3\",\"object\":\"invoice\",\"subscription\":\"sub_1QFixtureA2b3C4d\",\"currency\":\"usd\",\"amount_due\":999,\"amount_paid\":0,\"billing_reason\":\"subscription_cycle\",\"subscription_details\":{\"metadata\":{\"userId\":\"cm2fixtureuser0001\"}},\"lines\":{\"object\":\"list\",\"data\":[{\"id\":\"il_QFixture3\",\"period\":{\"start\":1797622200,\"end\":1800214200},\"price\":{\"id\":\"price_premium_monthly\",\"lookup_key\":\"premium_monthly\"}}]}}}}",
+  },
+  subscriptionUpgraded: {
+    headers: { "stripe-signature": "t=1792438200,v1=90c4d2cb2f91de20717aa7946d91654a4adc7aae20a3f177648de85323e5256c" },
+    rawBody: "{\"id\":\"evt_1QFixture0005\",\"object\":\"event\",\"api_version\":\"2024-06-20\",\"created\":1792438195,\"livemode\":false,\"type\":\"customer.subscription.updated\",\"data\":{\"object\":{\"id\":\"sub_1QFixtureA2b3C4d\",\"object\":\"subscription\",\"customer\":\"cus_QFixture9x8y7z\",\"status\":\"active\",\"cancel_at_period_end\":false,\"trial_end\":null,\"current_period_start\":1792438200,\"current_period_end\":1795030200,\"metadata\":{\"userId\":\"cm2fixtureuser0001\"},\"items\":{\"object\":\"list\",\"data\":[{\"id\":\"si_QFixture1\",\"price\":{\"id\":\"price_premium_yearly\",\"lookup_key\":\"premium_yearly\",\"unit_amount\":9999,\"currency\":\"usd\"}}]}},\"previous_attributes\":{\"items\":{\"object\":\"list\",\"data\":[{\"id\":\"si_QFixture1\",\"price\":{\"id\":\"price_premium_monthly\",\"lookup_key\":\"premium_monthly\"}}]}}}}",
+  },
+  subscriptionCancelScheduled: {
+    headers: { "stripe-signature": "t=1792438200,v1=15d6cb9836c1cfdab8f704a6f8cf236a14f7bc50df02d9d6e2fdf010ca1eed88" },
+    rawBody: "{\"id\":\"evt_1QFixture0006\",\"object\":\"event\",\"api_version\":\"2024-06-20\",\"created\":1792438195,\"livemode\":false,\"type\":\"customer.subscription.updated\",\"data\":{\"object\":{\"id\":\"sub_1QFixtureA2b3C4d\",\"object\":\"subscription\",\"customer\":\"cus_QFixture9x8y7z\",\"status\":\"active\",\"cancel_at_period_end\":true,\"trial_end\":null,\"current_period_start\":1792438200,\"current_period_end\":1795030200,\"metadata\":{\"userId\":\"cm2fixtureuser0001\"},\"items\":{\"object\":\"list\",\"data\":[{\"id\":\"si_QFixture1\",\"price\":{\"id\":\"price_premium_monthly\",\"lookup_key\":\"premium_monthly\",\"unit_amount\":999,\"currency\":\"usd\"}}]}},\"previous_attributes\":{\"cancel_at_period_end\":false}}}",
+  },
+  subscriptionDeleted: {
+    headers: { "stripe-signature": "t=1792438200,v1=75cb3b3dffb2865ffb4aa06fbba44eaf7d7e9f5c3a81bad8abf853ffb498dc41" },
+    rawBody: "{\"id\":\"evt_1QFixture0007\",\"object\":\"event\",\"api_version\":\"2024-06-20\",\"created\":1792438195,\"livemode\":false,\"type\":\"customer.subscription.deleted\",\"data\":{\"object\":{\"id\":\"sub_1QFixtureA2b3C4d\",\"object\":\"subscription\",\"customer\":\"cus_QFixture9x8y7z\",\"status\":\"canceled\",\"cancel_at_period_end\":false,\"trial_end\":null,\"current_period_start\":1792438200,\"current_period_end\":1795030200,\"metadata\":{\"userId\":\"cm2fixtureuser0001\"},\"items\":{\"object\":\"list\",\"data\":[{\"id\":\"si_QFixture1\",\"price\":{\"id\":\"price_premium_monthly\",\"lookup_key\":\"premium_monthly\",\"unit_amount\":999,\"currency\":\"usd\"}}]}}}}",
+  },
+  customerUpdated: {
+    headers: { "stripe-signature": "t=1792438200,v1=c2cbbf4f46423b60942273bac03c50bbf7ba607e481b3ba2b628a22e505ae99a" },
+    rawBody: "{\"id\":\"evt_1QFixture0008\",\"object\":\"event\",\"api_version\":\"2024-06-20\",\"created\":1792438195,\"livemode\":false,\"type\":\"customer.updated\",\"data\":{\"object\":{\"id\":\"cus_QFixture9x8y7z\",\"object\":\"customer\"}}}",
+  },
+};
+
+export const stripeFixtures = {
+  signingSecret: "whsec_fixture_0f3b9c2d7a1e4b6c",
+  recordedAt: new Date("2026-10-19T19:30:00.000Z"),
+  userId: "cm2fixtureuser0001",
+  providerId: "sub_1QFixtureA2b3C4d",
+  plans: {
+    premium_monthly: SubscriptionPlan.PREMIUM_MONTHLY,
+    premium_yearly: SubscriptionPlan.PREMIUM_YEARLY,
+  } as Record<string, SubscriptionPlan>,
+  requests: requests as Record<keyof typeof requests, PaymentWebhookRequest>,
+};
@@ -0,0 +1,184 @@
+import { afterEach, describe, expect, it } from "@jest/globals";
+import axios from "axios";
+import express from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { HttpMethods } from "../../src/core/api/api-status";
+import {
+  InternalServiceVerifierOptions,
+  captureRawBody,
+  internalServiceVerifier,
+} from "../../src/middlewares/internal-service-checker";
+import {
+  InternalServiceApiClient,
+} from "../../src/utils/internalServiceClient.util";
+import {
+  SignRequestOptions,
+  signRequest,
+} from "../../src/utils/requestSigning.util";
+
+const SERVICE_ID = "video-service";
+const SECRET = "test-signing-key";
+const BODY = JSON.stringify({ title: "Clip" });
+
+describe("internalServiceVerifier", () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+    server = undefined;
+    delete process.env.INTERNAL_SERVICE_KEY;
+  });
+
+  const start = async (options: InternalServiceVerifierOptions = {}) => {
+    const router = express.Router();
+    router.post("/videos", (req: any, res) => {
+      res.json({
+        isSuccess: true,
+        data: { caller: req.callerService ?? null, query: req.query },
+      });
+    });
+
+    const app = express();
+    app.use(express.json({ verify: captureRawBody }));
+    app.use(
+      "/internal",
+      internalServiceVerifier({
+        keys: { [SERVICE_ID]: ["rotated-out-key", SECRET] },
+        ...options,
+      }),
+      router
+    );
+
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  const signed = (
+    query: Record<string, string> = {},
+    options: Partial<SignRequestOptions> = {}
+  ) =>
+    signRequest(
+      { method: "POST", path: "/internal/videos", query, body: BODY },
+      { serviceId: SERVICE_ID, secret: SECRET, ...options }
+    );
+
+  const send = (
+    baseUrl: string,
+    headers: Record<string, string>,
+    { path = "/internal/videos", body = BODY } = {}
+  ) =>
+    axios.post(`${baseUrl}${path}`, body, {
+      headers: { ...headers, "content-type": "application/json" },
+      validateStatus: () => true,
+    });
+
+  it("accepts requests signed by InternalServiceApiClient", async () => {
+    const baseUrl = await start();
+
+    const response = await InternalServiceApiClient({
+      method: HttpMethods.POST,
+      serviceBaseUrl: baseUrl,
+      slug: "videos?include=captions",
+      queryParams: { limit: "10" },
+      body: { title: "Clip" },
+      serviceId: SERVICE_ID,
+      signingKey: SECRET,
+    });
+
+    expect(response).toEqual({
+      isSuccess: true,
+      data: {
+        caller: SERVICE_ID,
+        query: { include: "captions", limit: "10" },
+      },
+    });
+  });
+
+  it("rejects a tampered body", async () => {
+    const baseUrl = await start();
+
+    const response = await send(baseUrl, signed(), {
+      body: JSON.stringify({ title: "Other" }),
+    });
+
+    expect(response.status).toBe(403);
+    expect(response.data.error).toBe(
+      "Forbidden: Invalid internal service signature"
+    );
+  });
+
+  it("rejects a query that was not signed", async () => {
+    const baseUrl = await start();
+
+    const response = await send(baseUrl, signed({ limit: "10" }), {
+      path: "/internal/videos?limit=1000",
+    });
+
+    expect(response.status).toBe(403);
+    expect(response.data.error).toBe(
+      "Forbidden: Invalid internal service signature"
+    );
+  });
+
+  it("rejects timestamps outside the allowed skew", async () => {
+    const baseUrl = await start({ maxSkewMs: 60000 });
+
+    const response = await send(
+      baseUrl,
+      signed({}, { timestamp: Date.now() - 61000 })
+    );
+
+    expect(response.status).toBe(403);
+    expect(response.data.error).toBe(
+      "Forbidden: Request timestamp outside allowed clock skew"
+    );
+  });
+
+  it("rejects a replayed nonce", async () => {
+    const baseUrl = await start();
+    const headers = signed();
+
+    const first = await send(baseUrl, headers);
+    const replayed = await send(baseUrl, headers);
+
+    expect(first.status).toBe(200);
+    expect(replayed.status).toBe(403);
+    expect(replayed.data.error).toBe("Forbidden: Replayed internal request");
+  });
+
+  it("rejects services without keys", async () => {
+    const baseUrl = await start();
+
+    const response = await send(
+      baseUrl,
+      signed({}, { serviceId: "billing-service" })
+    );
+
+    expect(response.status).toBe(403);
+    expect(response.data.error).toBe(
+      "Forbidden: Unknown or disallowed service billing-service"
+    );
+  });
+
+  it("accepts the legacy key only with allowLegacyKey", async () => {
+    process.env.INTERNAL_SERVICE_KEY = "legacy-static-key";
+    const headers = { "x-service-key": "legacy-static-key" };
+
+    const rejected = await send(await start(), headers);
+    expect(rejected.status).toBe(403);
+    expect(rejected.data.error).toBe(
+      "Forbidden: Missing internal service signature"
+    );
+
+    await new Promise((resolve) => server!.close(resolve));
+    const accepted = await send(
+      await start({ allowLegacyKey: true }),
+      headers
+    );
+    expect(accepted.status).toBe(200);
+    expect(accepted.data.data.caller).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { paymentWebhook } from "../../src/middlewares/payment-webhook";
+import { GooglePlayAdapter } from "../../src/core/payments/google-play-adapter";
+import {
+  NormalizedPaymentEvent,
+} from "../../src/core/payments/payment-webhook";
+import { googlePlayFixtures } from "../fixtures/payments/google-play.fixtures";
+
+const adapter = new GooglePlayAdapter({
+  packageName: googlePlayFixtures.packageName,
+  plans: googlePlayFixtures.plans,
+  verificationToken: googlePlayFixtures.verificationToken,
+});
+
+const deliver = async (
+  middleware: ReturnType<typeof paymentWebhook>,
+  request = googlePlayFixtures.requests.renewed
+) => {
+  const res: any = { statusCode: 0, body: undefined };
+  res.status = (code: number) => {
+    res.statusCode = code;
+    return res;
+  };
+  res.json = (body: unknown) => {
+    res.body = body;
+    return res;
+  };
+  const next = jest.fn();
+
+  await middleware(
+    {
+      headers: request.headers,
+      body: Buffer.from(String(request.rawBody)),
+      query: request.query,
+    } as any,
+    res,
+    next
+  );
+  return { res, next };
+};
+
+describe("paymentWebhook", () => {
+  it("hands each event to onEvent once", async () => {
+    const onEvent = jest.fn(async (_event: NormalizedPaymentEvent) => {});
+    const middleware = paymentWebhook({ adapter, onEvent });
+
+    const first = await deliver(middleware);
+    const second = await deliver(middleware);
+
+    expect(onEvent).toHaveBeenCalledTimes(1);
+    expect(onEvent.mock.calls[0][0].type).toBe("RENEWED");
+    expect(first.res.statusCode).toBe(200);
+    expect(first.res.body.data.duplicate).toBe(false);
+    expect(second.res.body.data.duplicate).toBe(true);
+  });
+
+  it("lets the provider retry when onEvent fails", async () => {
+    const onEvent = jest
+      .fn(async (_event: NormalizedPaymentEvent) => {})
+      .mockRejectedValueOnce(new Error("database down"));
+    const middleware = paymentWebhook({ adapter, onEvent });
+
+    const failed = await deliver(middleware);
+    expect(failed.next).toHaveBeenCalledWith(expect.any(Error));
+
+    const retried = await deliver(middleware);
+    expect(onEvent).toHaveBeenCalledTimes(2);
+    expect(retried.res.body.data.duplicate).toBe(false);
+  });
+
+  it("passes verification errors on", async () => {
+    const onEvent = jest.fn(async (_event: NormalizedPaymentEvent) => {});
+    const { next } = await deliver(paymentWebhook({ adapter, onEvent }), {
+      ...googlePlayFixtures.requests.renewed,
+      query: { token: "wrong" },
+    });
+
+    expect(onEvent).not.toHaveBeenCalled();
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({ code: "INVALID_WEBHOOK" })
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it } from "@jest/globals";
+import axios from "axios";
+import express from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import {
+  SubscriptionPlan,
+  SubscriptionStatus,
+} from "../../src/prisma-client/client";
+import { MemoryStore } from "../../src/core/rate-limit/memory-store";
+import {
+  PlanQuotaOptions,
+  createPlanQuotas,
+} from "../../src/middlewares/plan-quota";
+
+describe("createPlanQuotas", () => {
+  let server: Server | undefined;
+  let store: MemoryStore;
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+    server = undefined;
+    await store.shutdown();
+  });
+
+  const start = async (options: PlanQuotaOptions = {}) => {
+    store = new MemoryStore();
+    const quotas = createPlanQuotas({
+      store,
+      resolvePlan: async () => ({
+        plan: SubscriptionPlan.FREE,
+        status: SubscriptionStatus.FREE,
+        limits: { requestsPerMinute: null, videoGenerationsPerDay: 2 },
+      }),
+      ...options,
+    });
+
+    const app = express();
+    app.use((req: any, _res, next) => {
+      req.userId = "user-1";
+      next();
+    });
+    app.post("/videos/:outcome", quotas("videoGenerations"), (req, res) => {
+      res.status(req.params.outcome === "fail" ? 500 : 201).json({});
+    });
+
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    const { port } = server.address() as AddressInfo;
+
+    return async (outcome: "ok" | "fail") =>
+      (
+        await axios.post(`http://127.0.0.1:${port}/videos/${outcome}`, null, {
+          validateStatus: () => true,
+        })
+      ).status;
+  };
+
+  const generate = async (
+    send: (outcome: "ok" | "fail") => Promise<number>,
+    outcomes: Array<"ok" | "fail">
+  ) => {
+    const statuses: number[] = [];
+    for (const outcome of outcomes) statuses.push(await send(outcome));
+    return statuses;
+  };
+
+  it("gives the quota back when the handler fails", async () => {
+    const send = await start();
+
+    expect(
+      await generate(send, ["fail", "fail", "fail", "ok", "ok", "ok"])
+    ).toEqual([500, 500, 500, 201, 201, 429]);
+  });
+
+  it("does not count rejected requests", async () => {
+    const send = await start();
+
+    expect(await generate(send, ["ok", "ok", "ok", "ok"])).toEqual([
+      201, 201, 429, 429,
+    ]);
+    const windowIndex = Math.floor(Date.now() / (24 * 60 * 60 * 1000));
+    expect(
+      await store.get(`quota:videoGenerations:user-1:${windowIndex}`)
+    ).toMatchObject({ totalHits: 2 });
+  });
+
+  it("counts failures with skipFailedRequests disabled", async () => {
+    const send = await start({ skipFailedRequests: false });
+
+    expect(await generate(send, ["fail", "fail", "ok"])).toEqual([
+      500, 500, 429,
+    ]);
+  });
+});
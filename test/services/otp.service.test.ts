@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { OtpPurpose } from "../../src/prisma-client/client";
+import {
+  OtpInvalidatedReason,
+  OtpPolicy,
+  OtpService,
+} from "../../src/services/otp.service";
+import { FakeOtpCode, createFakeOtpClient } from "../support/fake-otp-client";
+
+const EMAIL = "user@example.com";
+
+describe("OtpService", () => {
+  let codes: FakeOtpCode[];
+  let createService: (policy?: Partial<OtpPolicy>) => OtpService;
+
+  beforeEach(() => {
+    const fake = createFakeOtpClient();
+    codes = fake.codes;
+    createService = (policy = {}) =>
+      new OtpService({
+        client: fake.client,
+        secret: "test-otp-secret",
+        policies: { [OtpPurpose.LOGIN]: policy },
+      });
+  });
+
+  const wrongCode = (code: string) =>
+    String((Number(code) + 1) % 10 ** code.length).padStart(code.length, "0");
+
+  it("verifies and consumes a code once", async () => {
+    const service = createService();
+    const issued = await service.generate("user-1", EMAIL, OtpPurpose.LOGIN);
+
+    await expect(
+      service.verify(" User@Example.com ", OtpPurpose.LOGIN, issued.code)
+    ).resolves.toEqual({ otpId: issued.otpId, userId: "user-1" });
+    await expect(
+      service.verify(EMAIL, OtpPurpose.LOGIN, issued.code)
+    ).rejects.toThrow("Invalid or expired code");
+    // Only a digest of the code is stored
+    expect(codes[0].code).not.toBe(issued.code);
+  });
+
+  it("locks a code after maxAttempts failures", async () => {
+    const service = createService({ maxAttempts: 2 });
+    const { code } = await service.generate("user-1", EMAIL, OtpPurpose.LOGIN);
+
+    await expect(
+      service.verify(EMAIL, OtpPurpose.LOGIN, wrongCode(code))
+    ).rejects.toThrow("Invalid or expired code");
+    await expect(
+      service.verify(EMAIL, OtpPurpose.LOGIN, wrongCode(code))
+    ).rejects.toThrow("Too many failed attempts");
+    await expect(
+      service.verify(EMAIL, OtpPurpose.LOGIN, code)
+    ).rejects.toThrow("Too many failed attempts");
+
+    expect(codes[0]).toMatchObject({
+      attempts: 2,
+      isUsed: false,
+      isValid: false,
+      invalidatedReason: OtpInvalidatedReason.MAX_ATTEMPTS,
+    });
+  });
+
+  it("counts parallel guesses against maxAttempts", async () => {
+    const service = createService({ maxAttempts: 1 });
+    const { code } = await service.generate("user-1", EMAIL, OtpPurpose.LOGIN);
+
+    const [wrong, right] = await Promise.allSettled([
+      service.verify(EMAIL, OtpPurpose.LOGIN, wrongCode(code)),
+      service.verify(EMAIL, OtpPurpose.LOGIN, code),
+    ]);
+
+    expect(wrong.status).toBe("rejected");
+    expect(right).toMatchObject({
+      status: "rejected",
+      reason: expect.objectContaining({
+        message: expect.stringContaining("Too many failed attempts"),
+      }),
+    });
+    expect(codes[0]).toMatchObject({ attempts: 1, isUsed: false });
+  });
+
+  it("enforces the resend cooldown", async () => {
+    const service = createService({ resendCooldownMs: 60000 });
+    const first = await service.generate("user-1", EMAIL, OtpPurpose.LOGIN);
+
+    await expect(
+      service.generate("user-1", EMAIL, OtpPurpose.LOGIN)
+    ).rejects.toThrow(/Please wait \d+s/);
+
+    codes[0].createdAt = new Date(Date.now() - 61000);
+    const second = await service.generate("user-1", EMAIL, OtpPurpose.LOGIN);
+
+    expect(second.otpId).not.toBe(first.otpId);
+    expect(codes.find((row) => row.id === first.otpId)).toMatchObject({
+      isValid: false,
+      invalidatedReason: OtpInvalidatedReason.SUPERSEDED,
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import jwt from "jsonwebtoken";
+import {
+  SessionRevokedReason,
+  TokenService,
+} from "../../src/services/token.service";
+import {
+  FakeSession,
+  createFakeSessionClient,
+} from "../support/fake-session-client";
+
+const SECRET = "test-access-token-secret";
+
+describe("TokenService", () => {
+  let sessions: FakeSession[];
+  let service: TokenService;
+
+  beforeEach(() => {
+    const fake = createFakeSessionClient();
+    sessions = fake.sessions;
+    service = new TokenService({
+      client: fake.client,
+      accessTokenSecret: SECRET,
+    });
+  });
+
+  it("issues an access token bound to the session and device", async () => {
+    const issued = await service.issueTokens("user-1", { deviceId: "ios-1" });
+
+    const claims = jwt.verify(issued.accessToken, SECRET) as jwt.JwtPayload;
+    expect(claims).toMatchObject({
+      userId: "user-1",
+      sid: issued.sessionId,
+      deviceId: "ios-1",
+    });
+    // Only a digest of the refresh token is stored
+    expect(sessions[0].refreshToken).not.toBe(issued.refreshToken);
+  });
+
+  it("rotates a refresh token into a new session", async () => {
+    const first = await service.issueTokens("user-1", { deviceId: "ios-1" });
+    const second = await service.rotateRefreshToken(first.refreshToken, {
+      deviceId: "ios-1",
+      appVersion: "2.1.0",
+    });
+
+    expect(second.sessionId).not.toBe(first.sessionId);
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+    expect(sessions.find((s) => s.id === first.sessionId)).toMatchObject({
+      isRevoked: true,
+      revokedReason: SessionRevokedReason.ROTATED,
+    });
+    expect(sessions.find((s) => s.id === second.sessionId)).toMatchObject({
+      isRevoked: false,
+      deviceId: "ios-1",
+      appVersion: "2.1.0",
+    });
+  });
+
+  it("revokes the whole family when a rotated token is reused", async () => {
+    const first = await service.issueTokens("user-1", { deviceId: "ios-1" });
+    const second = await service.rotateRefreshToken(first.refreshToken);
+    const other = await service.issueTokens("user-1", { deviceId: "web-1" });
+
+    await expect(
+      service.rotateRefreshToken(first.refreshToken)
+    ).rejects.toThrow("Refresh token reuse detected");
+
+    expect(sessions.find((s) => s.id === second.sessionId)).toMatchObject({
+      isRevoked: true,
+      revokedReason: SessionRevokedReason.REFRESH_TOKEN_REUSE,
+    });
+    // Sessions on other devices are left alone
+    expect(sessions.find((s) => s.id === other.sessionId)?.isRevoked).toBe(
+      false
+    );
+    await expect(
+      service.rotateRefreshToken(second.refreshToken)
+    ).rejects.toThrow("Session has been revoked");
+  });
+
+  it("treats a token presented from another device as reuse", async () => {
+    const issued = await service.issueTokens("user-1", { deviceId: "ios-1" });
+
+    await expect(
+      service.rotateRefreshToken(issued.refreshToken, { deviceId: "ios-2" })
+    ).rejects.toThrow("Refresh token reuse detected");
+    expect(sessions[0].revokedReason).toBe(
+      SessionRevokedReason.REFRESH_TOKEN_REUSE
+    );
+  });
+
+  it("rejects unknown and expired refresh tokens", async () => {
+    await expect(service.rotateRefreshToken("unknown")).rejects.toThrow(
+      "Invalid refresh token"
+    );
+
+    const issued = await service.issueTokens("user-1", { deviceId: "ios-1" });
+    sessions[0].refreshTokenExpiresAt = new Date(Date.now() - 1000);
+    await expect(
+      service.rotateRefreshToken(issued.refreshToken)
+    ).rejects.toThrow("Refresh token has expired");
+  });
+
+  it("lets only one of two concurrent rotations win", async () => {
+    const issued = await service.issueTokens("user-1", { deviceId: "ios-1" });
+
+    const results = await Promise.allSettled([
+      service.rotateRefreshToken(issued.refreshToken),
+      service.rotateRefreshToken(issued.refreshToken),
+    ]);
+    expect(results.map((result) => result.status).sort()).toEqual([
+      "fulfilled",
+      "rejected",
+    ]);
+  });
+});
@@ -0,0 +1,93 @@
+import { randomUUID } from "crypto";
+import { PrismaClient } from "../../src/prisma-client/client";
+
+export interface FakeOtpCode {
+  id: string;
+  userId: string;
+  email: string;
+  code: string;
+  purpose: string;
+  expiresAt: Date;
+  attempts: number;
+  isUsed: boolean;
+  usedAt: Date | null;
+  isValid: boolean;
+  invalidatedAt: Date | null;
+  invalidatedReason: string | null;
+  createdAt: Date;
+}
+
+type Filter = Record<string, unknown>;
+
+const matchesValue = (value: any, filter: any) => {
+  if (filter !== null && typeof filter === "object") {
+    if ("lt" in filter) return value < filter.lt;
+    if ("gte" in filter) return value >= filter.gte;
+  }
+  return value === filter;
+};
+
+const matches = (row: FakeOtpCode, where: Filter) =>
+  Object.keys(where).every((key) =>
+    matchesValue((row as unknown as Filter)[key], where[key])
+  );
+
+const apply = (row: FakeOtpCode, data: Filter) => {
+  for (const [key, value] of Object.entries(data)) {
+    const current = (row as unknown as Filter)[key];
+    (row as unknown as Filter)[key] =
+      value !== null && typeof value === "object" && "increment" in value
+        ? (current as number) + (value as { increment: number }).increment
+        : value;
+  }
+};
+
+/**
+ * @description In-memory stand-in for the `otpCode` delegate of the Prisma
+ * client, supporting the filters `OtpService` uses. Rows are returned as
+ * copies and every call yields, so concurrent calls interleave like round
+ * trips to the database.
+ */
+export const createFakeOtpClient = () => {
+  const codes: FakeOtpCode[] = [];
+
+  const otpCode = {
+    findFirst: async ({ where }: { where: Filter }) => {
+      const [row] = codes
+        .filter((code) => matches(code, where))
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+      return row ? { ...row } : null;
+    },
+    create: async ({ data }: { data: Partial<FakeOtpCode> }) => {
+      const row = {
+        id: randomUUID(),
+        attempts: 0,
+        isUsed: false,
+        usedAt: null,
+        isValid: true,
+        invalidatedAt: null,
+        invalidatedReason: null,
+        createdAt: new Date(),
+        ...data,
+      } as FakeOtpCode;
+      codes.push(row);
+      return { ...row };
+    },
+    updateMany: async ({ where, data }: { where: Filter; data: Filter }) => {
+      const rows = codes.filter((row) => matches(row, where));
+      rows.forEach((row) => apply(row, data));
+      return { count: rows.length };
+    },
+  };
+
+  const client = {
+    otpCode,
+    // Only used to lock the user's row
+    $queryRaw: async (_query: TemplateStringsArray, userId: string) => [
+      { id: userId },
+    ],
+    $transaction: async <T>(fn: (tx: unknown) => Promise<T>) => fn(client),
+  };
+
+  return { client: client as unknown as PrismaClient, codes };
+};
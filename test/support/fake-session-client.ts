@@ -0,0 +1,64 @@
+import { PrismaClient } from "../../src/prisma-client/client";
+
+export interface FakeSession {
+  id: string;
+  userId: string;
+  deviceId: string;
+  accessToken: string;
+  refreshToken: string;
+  accessTokenExpiresAt: Date;
+  refreshTokenExpiresAt: Date;
+  appVersion: string | null;
+  ipAddress: string | null;
+  isActive: boolean;
+  isRevoked: boolean;
+  revokedAt: Date | null;
+  revokedReason: string | null;
+}
+
+const matches = (session: FakeSession, where: Record<string, unknown>) =>
+  Object.keys(where).every(
+    (key) => (session as unknown as Record<string, unknown>)[key] === where[key]
+  );
+
+/**
+ * @description In-memory stand-in for the `session` delegate of the Prisma
+ * client, supporting the equality filters `TokenService` uses
+ */
+export const createFakeSessionClient = () => {
+  const sessions: FakeSession[] = [];
+
+  const session = {
+    findUnique: async ({ where }: { where: Record<string, unknown> }) =>
+      sessions.find((row) => matches(row, where)) ?? null,
+    create: async ({ data }: { data: Partial<FakeSession> }) => {
+      const row = {
+        isActive: true,
+        isRevoked: false,
+        revokedAt: null,
+        revokedReason: null,
+        ...data,
+      } as FakeSession;
+      sessions.push(row);
+      return row;
+    },
+    updateMany: async ({
+      where,
+      data,
+    }: {
+      where: Record<string, unknown>;
+      data: Partial<FakeSession>;
+    }) => {
+      const rows = sessions.filter((row) => matches(row, where));
+      rows.forEach((row) => Object.assign(row, data));
+      return { count: rows.length };
+    },
+  };
+
+  const client = {
+    session,
+    $transaction: async <T>(fn: (tx: unknown) => Promise<T>) => fn(client),
+  };
+
+  return { client: client as unknown as PrismaClient, sessions };
+};
@@ -0,0 +1,142 @@
+import { AddressInfo, Server, Socket, createServer } from "net";
+
+type Entry = { value: string; expiresAt: number | null };
+
+export interface RespStandIn {
+  url: string;
+  /**
+   * Stops answering, as a hung server would
+   */
+  hang(): void;
+  close(): Promise<void>;
+}
+
+const bulk = (value: string | null) =>
+  value === null ? "$-1\r\n" : `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+
+/**
+ * @description Parses the RESP arrays of bulk strings clients send, or
+ * returns null until a whole command has arrived
+ */
+const parseCommand = (
+  buffer: Buffer
+): { args: string[]; offset: number } | null => {
+  let offset = 0;
+  const line = () => {
+    const end = buffer.indexOf("\r\n", offset);
+    if (end === -1) return null;
+    const text = buffer.toString("utf8", offset, end);
+    offset = end + 2;
+    return text;
+  };
+
+  const header = line();
+  if (header === null) return null;
+  const count = parseInt(header.slice(1), 10);
+  const args: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const size = line();
+    if (size === null) return null;
+    const length = parseInt(size.slice(1), 10);
+    if (buffer.length < offset + length + 2) return null;
+    args.push(buffer.toString("utf8", offset, offset + length));
+    offset += length + 2;
+  }
+  return { args, offset };
+};
+
+/**
+ * @description In-process Redis stand-in implementing the commands the
+ * window counters of `RedisStore` use (SET NX PX, GET, INCR, PTTL, PEXPIRE,
+ * DEL), plus PING, AUTH and QUIT
+ */
+export const startRespStandIn = async (): Promise<RespStandIn> => {
+  const data = new Map<string, Entry>();
+  let hung = false;
+
+  const read = (key: string) => {
+    const entry = data.get(key);
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      data.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  const execute = (args: string[]): string => {
+    const [name, key, ...rest] = args;
+    switch (name.toUpperCase()) {
+      case "PING":
+      case "AUTH":
+      case "QUIT":
+        return "+OK\r\n";
+      case "SET": {
+        const options = rest.slice(1).map((option) => option.toUpperCase());
+        if (options.includes("NX") && read(key)) return bulk(null);
+        const px = options.indexOf("PX");
+        data.set(key, {
+          value: rest[0],
+          expiresAt: px === -1 ? null : Date.now() + Number(rest[px + 2]),
+        });
+        return "+OK\r\n";
+      }
+      case "GET":
+        return bulk(read(key)?.value ?? null);
+      case "INCR":
+      case "DECR": {
+        const entry = read(key) ?? { value: "0", expiresAt: null };
+        const step = name.toUpperCase() === "INCR" ? 1 : -1;
+        entry.value = String(Number(entry.value) + step);
+        data.set(key, entry);
+        return `:${entry.value}\r\n`;
+      }
+      case "PTTL": {
+        const entry = read(key);
+        if (!entry) return ":-2\r\n";
+        if (entry.expiresAt === null) return ":-1\r\n";
+        return `:${entry.expiresAt - Date.now()}\r\n`;
+      }
+      case "PEXPIRE": {
+        const entry = read(key);
+        if (!entry) return ":0\r\n";
+        entry.expiresAt = Date.now() + Number(rest[0]);
+        return ":1\r\n";
+      }
+      case "DEL":
+        return `:${data.delete(key) ? 1 : 0}\r\n`;
+      default:
+        return `-ERR unknown command '${name}'\r\n`;
+    }
+  };
+
+  const sockets = new Set<Socket>();
+  const server: Server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    let buffer = Buffer.alloc(0);
+    socket.on("data", (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      for (;;) {
+        const command = parseCommand(buffer);
+        if (!command) return;
+        buffer = buffer.subarray(command.offset);
+        if (!hung) socket.write(execute(command.args));
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `redis://127.0.0.1:${port}`,
+    hang: () => {
+      hung = true;
+    },
+    close: () =>
+      new Promise<void>((resolve) => {
+        sockets.forEach((socket) => socket.destroy());
+        server.close(() => resolve());
+      }),
+  };
+};
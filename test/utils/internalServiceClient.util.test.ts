@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { AddressInfo } from "net";
+import { IncomingHttpHeaders, Server, createServer } from "http";
+import { HttpMethods } from "../../src/core/api/api-status";
+import {
+  InternalServiceApiClient,
+} from "../../src/utils/internalServiceClient.util";
+
+describe("InternalServiceApiClient", () => {
+  let server: Server;
+  let baseUrl: string;
+  let received: IncomingHttpHeaders[];
+  // Statuses answered in turn; 200 once exhausted
+  let statuses: number[];
+
+  beforeEach(async () => {
+    received = [];
+    statuses = [];
+    server = createServer((req, res) => {
+      received.push(req.headers);
+      req.resume().on("end", () => {
+        res.statusCode = statuses.shift() ?? 200;
+        res.setHeader("content-type", "application/json");
+        res.end(JSON.stringify({ isSuccess: res.statusCode === 200 }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const call = (method: HttpMethods, idempotencyKey?: string) =>
+    InternalServiceApiClient({
+      method,
+      serviceBaseUrl: baseUrl,
+      slug: "videos",
+      body: { title: "Clip" },
+      serviceId: "video-service",
+      signingKey: "test-signing-key",
+      retry: { retries: 2, minDelayMs: 1 },
+      idempotencyKey,
+    });
+
+  it("retries a POST with the same generated idempotency key", async () => {
+    statuses = [503];
+
+    const response = await call(HttpMethods.POST);
+
+    expect(response.isSuccess).toBe(true);
+    expect(received).toHaveLength(2);
+    expect(received[0]["idempotency-key"]).toEqual(expect.any(String));
+    expect(received[1]["idempotency-key"]).toBe(
+      received[0]["idempotency-key"]
+    );
+    // Each attempt is signed with a fresh nonce
+    expect(received[1]["x-service-nonce"]).not.toBe(
+      received[0]["x-service-nonce"]
+    );
+  });
+
+  it("sends the caller's idempotency key with every attempt", async () => {
+    statuses = [503, 502];
+
+    await call(HttpMethods.PATCH, "video-42-rename");
+
+    expect(received.map((headers) => headers["idempotency-key"])).toEqual([
+      "video-42-rename",
+      "video-42-rename",
+      "video-42-rename",
+    ]);
+  });
+
+  it("generates a new key per call", async () => {
+    await call(HttpMethods.POST);
+    await call(HttpMethods.POST);
+
+    expect(received[0]["idempotency-key"]).not.toBe(
+      received[1]["idempotency-key"]
+    );
+  });
+});